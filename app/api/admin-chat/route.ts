@@ -1,9 +1,10 @@
 import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
 import { DATABASE_REGISTRY, HUB_REFERENCE_LINKS } from "@/lib/databaseRegistry";
 
 type ChatMessage = { role: "user" | "assistant"; content: string };
 
-export async function POST(req: Request) {
+export const POST = withAuth("system.manage", async (req: Request) => {
   try {
     const body = await req.json();
     const context = typeof body?.context === "string" ? body.context : "";
@@ -79,4 +80,4 @@ export async function POST(req: Request) {
     console.error("Admin chat failed", err);
     return NextResponse.json({ error: "Failed to reach the assistant" }, { status: 500 });
   }
-}
+});
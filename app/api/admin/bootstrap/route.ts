@@ -1,4 +1,5 @@
 import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
 import { readFile } from "node:fs/promises";
 import path from "node:path";
 
@@ -19,7 +20,7 @@ function getRequiredEnv() {
   };
 }
 
-export async function POST() {
+export const POST = withAuth("system.manage", async () => {
   try {
     const { token, projectRef } = getRequiredEnv();
     const schemaPath = path.join(process.cwd(), "supabase", "schema.sql");
@@ -53,4 +54,4 @@ export async function POST() {
       { status: 500 }
     );
   }
-}
+});
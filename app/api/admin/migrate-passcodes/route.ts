@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
+import { countPlainPasscodes, migratePlainPasscodes } from "@/lib/passcodes";
+
+const remainingError = (remaining: number) =>
+  `${remaining} user${remaining === 1 ? " still has a" : "s still have"} plaintext passcode${remaining === 1 ? "" : "s"}`;
+
+// Health check for the passcode upgrade: fails with 409 while any user still
+// has a plaintext passcode, so monitoring and the admin page can flag it.
+export const GET = withAuth("system.manage", async () => {
+  try {
+    const remaining = await countPlainPasscodes();
+    if (remaining) {
+      console.error(`Passcode check failed: ${remainingError(remaining)}`);
+      return NextResponse.json({ error: remainingError(remaining), remaining }, { status: 409 });
+    }
+    return NextResponse.json({ ok: true, remaining });
+  } catch (err) {
+    console.error("Failed to check passcodes:", err);
+    return NextResponse.json({ error: "Unable to check passcodes" }, { status: 500 });
+  }
+});
+
+// One-off upgrade for rows created before passcodes were hashed, run from the
+// admin page. Logins also upgrade plain rows as they go, so running this is
+// safe at any time. Fails if any plain row is left afterwards.
+export const POST = withAuth("system.manage", async () => {
+  try {
+    const migrated = await migratePlainPasscodes();
+    const remaining = await countPlainPasscodes();
+    if (remaining) {
+      console.error(`Passcode migration incomplete: ${remainingError(remaining)}`);
+      return NextResponse.json(
+        { error: remainingError(remaining), migrated, remaining },
+        { status: 500 }
+      );
+    }
+    return NextResponse.json({ ok: true, migrated, remaining });
+  } catch (err) {
+    console.error("Passcode migration failed:", err);
+    return NextResponse.json({ error: "Unable to migrate passcodes" }, { status: 500 });
+  }
+});
@@ -1,10 +1,11 @@
 import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
 
-export async function GET() {
+export const GET = withAuth(null, async () => {
   return NextResponse.json({
     animals: [],
     filters: { types: [], genders: [] },
     hasMore: false,
     nextCursor: null,
   });
-}
+});
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { findAuditEvent, listAuditEvents, restorableValues } from "@/lib/audit";
+import { withAuth } from "@/lib/permissions";
+import { hawaiiDayBounds, parseDateLabel } from "@/lib/schedule";
+import { supabaseRequest } from "@/lib/supabase";
+
+export const GET = withAuth("audit.manage", async (req: Request) => {
+  const { searchParams } = new URL(req.url);
+  const from = parseDateLabel(searchParams.get("from"));
+  const to = parseDateLabel(searchParams.get("to"));
+
+  try {
+    const events = await listAuditEvents({
+      actor: searchParams.get("actor")?.trim() || undefined,
+      table: searchParams.get("table")?.trim() || undefined,
+      ...hawaiiDayBounds(from, to),
+    });
+    return NextResponse.json({
+      events: events.map((event) => ({ ...event, restorable: Boolean(restorableValues(event)) })),
+    });
+  } catch (err) {
+    console.error("Failed to load audit events:", err);
+    return NextResponse.json({ error: "Unable to load audit events" }, { status: 500 });
+  }
+});
+
+// Puts back the values a single-row PATCH overwrote. The restore is itself a
+// PATCH, so it shows up in the trail and can be undone the same way.
+export const POST = withAuth("audit.manage", async (req: Request) => {
+  const body = await req.json().catch(() => null);
+  if (!body?.id) {
+    return NextResponse.json({ error: "Missing audit event id" }, { status: 400 });
+  }
+
+  try {
+    const event = await findAuditEvent(String(body.id));
+    if (!event) {
+      return NextResponse.json({ error: "Audit event not found" }, { status: 404 });
+    }
+    const values = restorableValues(event);
+    if (!values) {
+      return NextResponse.json(
+        { error: "Only single-row updates with changed values can be restored" },
+        { status: 409 }
+      );
+    }
+
+    await supabaseRequest(event.table_name, {
+      method: "PATCH",
+      query: { id: `eq.${event.row_ids[0]}` },
+      body: values,
+    });
+    return NextResponse.json({ ok: true, columns: Object.keys(values) });
+  } catch (err) {
+    console.error("Failed to restore audit event:", err);
+    return NextResponse.json({ error: "Unable to restore previous values" }, { status: 500 });
+  }
+});
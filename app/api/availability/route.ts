@@ -0,0 +1,127 @@
+import { NextResponse } from "next/server";
+import { can, withAuth } from "@/lib/permissions";
+import {
+  AVAILABILITY_KINDS,
+  listAvailability,
+  type AvailabilityKind,
+  type AvailabilityStatus,
+} from "@/lib/availability";
+import { parseDateLabel } from "@/lib/schedule";
+import { supabaseRequest } from "@/lib/supabase";
+import { parseTimeRange } from "@/lib/timeRange";
+
+export const GET = withAuth(null, async (req: Request, user) => {
+  const { searchParams } = new URL(req.url);
+  const status = searchParams.get("status") as AvailabilityStatus | null;
+
+  try {
+    if (searchParams.get("mine")) {
+      return NextResponse.json({ records: await listAvailability({ userId: user.id }) });
+    }
+    if (!can(user, "schedule.edit")) {
+      return NextResponse.json({ error: "You do not have permission to do that" }, { status: 403 });
+    }
+
+    const records = await listAvailability({
+      status: status && ["pending", "approved", "declined"].includes(status) ? status : undefined,
+      from: parseDateLabel(searchParams.get("from")) || undefined,
+    });
+    return NextResponse.json({ records });
+  } catch (err) {
+    console.error("Failed to load availability:", err);
+    return NextResponse.json({ error: "Unable to load availability" }, { status: 500 });
+  }
+});
+
+export const POST = withAuth(null, async (req: Request, user) => {
+  const body = await req.json().catch(() => null);
+  const kind = body?.kind as AvailabilityKind;
+  const startDate = parseDateLabel(body?.startDate);
+  const endDate = body?.endDate ? parseDateLabel(body.endDate) : null;
+  const startTime = typeof body?.startTime === "string" ? body.startTime.trim() : "";
+  const endTime = typeof body?.endTime === "string" ? body.endTime.trim() : "";
+
+  if (!AVAILABILITY_KINDS.includes(kind) || !startDate) {
+    return NextResponse.json({ error: "Missing kind or start date" }, { status: 400 });
+  }
+  if (body?.endDate && !endDate) {
+    return NextResponse.json({ error: "Invalid end date" }, { status: 400 });
+  }
+  if (endDate && endDate < startDate) {
+    return NextResponse.json({ error: "End date is before start date" }, { status: 400 });
+  }
+  if (kind === "partial" && !parseTimeRange(`${startTime} - ${endTime}`)) {
+    return NextResponse.json(
+      { error: "Partial days need a start and end time like 1:00pm" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const [record] = await supabaseRequest<{ id: string }[]>("user_availability", {
+      method: "POST",
+      prefer: "return=representation",
+      query: { select: "id" },
+      body: {
+        user_id: user.id,
+        kind,
+        start_date: startDate,
+        end_date: endDate,
+        start_time: kind === "partial" ? startTime : null,
+        end_time: kind === "partial" ? endTime : null,
+        note: typeof body?.note === "string" && body.note.trim() ? body.note.trim() : null,
+        // Schedulers' own dates do not need a review.
+        status: can(user, "schedule.edit") ? "approved" : "pending",
+      },
+    });
+    return NextResponse.json({ id: record?.id });
+  } catch (err) {
+    console.error("Failed to save availability:", err);
+    return NextResponse.json({ error: "Unable to save availability" }, { status: 500 });
+  }
+});
+
+export const PATCH = withAuth("schedule.edit", async (req: Request, user) => {
+  const body = await req.json().catch(() => null);
+  const action = body?.action;
+  if (!body?.id || !["approve", "decline"].includes(action)) {
+    return NextResponse.json({ error: "Missing id or action" }, { status: 400 });
+  }
+
+  try {
+    await supabaseRequest("user_availability", {
+      method: "PATCH",
+      query: { id: `eq.${body.id}` },
+      body: {
+        status: action === "approve" ? "approved" : "declined",
+        reviewed_by: user.name,
+        reviewed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      },
+    });
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error("Failed to review availability:", err);
+    return NextResponse.json({ error: "Unable to update availability" }, { status: 500 });
+  }
+});
+
+export const DELETE = withAuth(null, async (req: Request, user) => {
+  const body = await req.json().catch(() => null);
+  if (!body?.id) {
+    return NextResponse.json({ error: "Missing id" }, { status: 400 });
+  }
+
+  try {
+    await supabaseRequest("user_availability", {
+      method: "DELETE",
+      query: can(user, "schedule.edit")
+        ? { id: `eq.${body.id}` }
+        : { id: `eq.${body.id}`, user_id: `eq.${user.id}` },
+    });
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error("Failed to delete availability:", err);
+    return NextResponse.json({ error: "Unable to delete availability" }, { status: 500 });
+  }
+});
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
 
-export async function GET() {
+export const GET = withAuth(null, async () => {
   return NextResponse.json({ leaderboard: [] });
-}
+});
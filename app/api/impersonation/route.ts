@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { endImpersonation, startImpersonation } from "@/lib/auth";
+import { loadRolePermissions, withAuth } from "@/lib/permissions";
+import { supabaseRequest } from "@/lib/supabase";
+
+type TargetRow = {
+  id: string;
+  display_name: string;
+  active: boolean;
+  user_role: { id: string; name: string } | null;
+};
+
+// Starts viewing the hub as another user. Sessions are read-only unless
+// `writable` is set, and the admin can only borrow permissions they already hold.
+export const POST = withAuth("users.manage", async (req: Request, user) => {
+  const body = await req.json().catch(() => null);
+  if (!body?.userId) {
+    return NextResponse.json({ error: "Missing user id" }, { status: 400 });
+  }
+  if (body.userId === user.id) {
+    return NextResponse.json({ error: "You are already signed in as yourself" }, { status: 400 });
+  }
+
+  try {
+    const data = await supabaseRequest<TargetRow[]>("users", {
+      query: {
+        select: "id,display_name,active,user_role:user_roles(id,name)",
+        id: `eq.${body.userId}`,
+        limit: 1,
+      },
+    });
+    const target = data?.[0];
+    if (!target || !target.active) {
+      return NextResponse.json({ error: "User not found or inactive" }, { status: 404 });
+    }
+
+    const targetPermissions = await loadRolePermissions(
+      target.user_role?.id ?? null,
+      target.user_role?.name ?? null
+    );
+    if (targetPermissions.some((permission) => !user.permissions.includes(permission))) {
+      return NextResponse.json(
+        { error: `${target.display_name} holds permissions you do not have` },
+        { status: 403 }
+      );
+    }
+
+    await startImpersonation(user.sessionId, user.id, target.id, Boolean(body.writable));
+    return NextResponse.json({
+      ok: true,
+      name: target.display_name,
+      userType: target.user_role?.name ?? null,
+    });
+  } catch (err) {
+    console.error("Failed to start impersonation:", err);
+    return NextResponse.json({ error: "Unable to view as that user" }, { status: 500 });
+  }
+});
+
+export const DELETE = withAuth(
+  null,
+  async (_req: Request, user) => {
+    if (!user.impersonator) {
+      return NextResponse.json({ error: "Not viewing as another user" }, { status: 400 });
+    }
+
+    try {
+      await endImpersonation(user);
+      return NextResponse.json({ ok: true });
+    } catch (err) {
+      console.error("Failed to end impersonation:", err);
+      return NextResponse.json({ error: "Unable to stop viewing as that user" }, { status: 500 });
+    }
+  },
+  { allowReadOnlyImpersonation: true }
+);
@@ -1,8 +1,22 @@
 import { NextResponse } from "next/server";
+import { runWithAuditActor, SYSTEM_ACTORS } from "@/lib/audit";
+import { createSession, setSessionCookie } from "@/lib/auth";
+import {
+  checkThrottle,
+  clearAttempts,
+  clientAddress,
+  recordFailure,
+  type ThrottleKey,
+} from "@/lib/loginThrottle";
+import { hashPasscode, isHashedPasscode, verifyPasscode } from "@/lib/passcodes";
+import { recordSecurityEvent } from "@/lib/securityLog";
 import { supabaseRequest } from "@/lib/supabase";
 
+// No one is signed in yet, so the writes a login makes (throttle records,
+// passcode upgrades) are attributed to the auth system actor.
+export const POST = (req: Request) => runWithAuditActor(SYSTEM_ACTORS.auth, () => login(req));
 
-export async function POST(req: Request) {
+async function login(req: Request) {
   let body: { name?: string; password?: string };
   try {
     body = await req.json();
@@ -37,32 +51,87 @@ export async function POST(req: Request) {
 
     const data = await supabaseRequest<any[]>("users", {
       query: {
-        select: "id,display_name,passcode,phone_number,active,user_role:user_roles(name)",
+        select:
+          "id,display_name,passcode,must_change_passcode,phone_number,active,user_role:user_roles(name)",
         limit: 1,
         ...queryFilter,
       },
     });
 
     const user = data?.[0];
-    if (!user || !user.active || user.passcode !== normalizedPass) {
+    const subject = user?.display_name ?? (normalizedName || normalizedNumber);
+    const client = clientAddress(req);
+    const keys: ThrottleKey[] = [
+      { kind: "account", id: user ? `user:${user.id}` : `login:${normalizedName || normalizedNumber}` },
+      { kind: "client", id: client },
+    ];
+
+    const decision = await checkThrottle(keys);
+    if (!decision.allowed) {
+      await recordSecurityEvent({
+        kind: "login_throttled",
+        userId: user?.id,
+        subject,
+        client,
+        detail: { locked: decision.locked, retryAfterSeconds: decision.retryAfterSeconds },
+      });
+      return NextResponse.json(
+        {
+          error: decision.locked
+            ? "Too many failed attempts. This login is locked for a while."
+            : "Too many attempts. Please wait a moment and try again.",
+          retryAfterSeconds: decision.retryAfterSeconds,
+        },
+        { status: 429, headers: { "Retry-After": String(decision.retryAfterSeconds) } }
+      );
+    }
+
+    if (!user || !user.active || !(await verifyPasscode(user.passcode, normalizedPass))) {
+      const lockedKeys = await recordFailure(keys);
+      await recordSecurityEvent({
+        kind: "login_failure",
+        userId: user?.id,
+        subject,
+        client,
+        detail: { reason: !user ? "unknown_user" : !user.active ? "inactive" : "wrong_passcode" },
+      });
+      for (const key of lockedKeys) {
+        await recordSecurityEvent({
+          kind: key.kind === "account" ? "account_locked" : "client_locked",
+          userId: user?.id,
+          subject,
+          client,
+        });
+      }
       return NextResponse.json(
         { error: "Invalid credentials" },
         { status: 401 }
       );
     }
 
+    await clearAttempts(keys[0]);
+
+    const updates: Record<string, unknown> = { last_online: new Date().toISOString() };
+    if (!isHashedPasscode(user.passcode)) {
+      updates.passcode = await hashPasscode(normalizedPass);
+    }
     await supabaseRequest("users", {
       method: "PATCH",
       query: { id: `eq.${user.id}` },
-      body: { last_online: new Date().toISOString() },
+      body: updates,
     });
 
-    return NextResponse.json({
+    const session = await createSession(user.id);
+    const res = NextResponse.json({
       ok: true,
       name: user.display_name,
       userType: user.user_role?.name ?? null,
       userTypeColor: null,
+      mustChangePasscode: Boolean(user.must_change_passcode),
     });
+    setSessionCookie(res, session.id, session.expiresAt);
+    await recordSecurityEvent({ kind: "login_success", userId: user.id, subject, client });
+    return res;
   } catch (err) {
     console.error("Login check failed:", err);
     return NextResponse.json(
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { runWithAuditActor } from "@/lib/audit";
+import { clearSessionCookie, endImpersonation, getCurrentUser, revokeSession } from "@/lib/auth";
+import { auditActorFor } from "@/lib/permissions";
+
+export async function POST() {
+  const res = NextResponse.json({ ok: true });
+  clearSessionCookie(res);
+
+  try {
+    const user = await getCurrentUser();
+    if (user?.impersonator) {
+      await runWithAuditActor(auditActorFor(user), () => endImpersonation(user));
+    }
+    if (user) await revokeSession(user.sessionId);
+  } catch (err) {
+    console.error("Failed to revoke session:", err);
+  }
+  return res;
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { loadRolePermissions } from "@/lib/permissions";
+
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+    return NextResponse.json({
+      id: user.id,
+      name: user.name,
+      userType: user.userType,
+      userTypeColor: null,
+      permissions: await loadRolePermissions(user.roleId, user.userType),
+      mustChangePasscode: user.mustChangePasscode,
+      impersonation: user.impersonator
+        ? { by: user.impersonator.name, readOnly: !user.impersonator.writable }
+        : null,
+    });
+  } catch (err) {
+    console.error("Failed to load current user:", err);
+    return NextResponse.json({ error: "Unable to load session" }, { status: 500 });
+  }
+}
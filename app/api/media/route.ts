@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { getMediaStorage, isSafeMediaKey } from "@/lib/mediaStorage";
+import { withAuth } from "@/lib/permissions";
+import { findMediaByKey } from "@/lib/taskMedia";
+
+// Serves files kept by the local storage driver to signed-in users. Only keys
+// linked to a task_media row are served.
+export const GET = withAuth(null, async (req: Request) => {
+  const { searchParams } = new URL(req.url);
+  const key = searchParams.get("key") || "";
+  if (!isSafeMediaKey(key)) {
+    return NextResponse.json({ error: "Media not found" }, { status: 404 });
+  }
+
+  try {
+    const media = await findMediaByKey(key);
+    const storage = media ? getMediaStorage(media.storage_driver) : null;
+    const body = media && storage?.read ? await storage.read(key) : null;
+    if (!media || !body) {
+      return NextResponse.json({ error: "Media not found" }, { status: 404 });
+    }
+
+    const isThumbnail = key === media.thumbnail_key;
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        "Content-Type": isThumbnail ? "image/webp" : media.content_type,
+        "Content-Length": String(body.length),
+        "Content-Disposition": `${media.kind === "file" && !isThumbnail ? "attachment" : "inline"}; filename*=UTF-8''${encodeURIComponent(media.name)}`,
+        "X-Content-Type-Options": "nosniff",
+        "Cache-Control": "private, max-age=86400, immutable",
+      },
+    });
+  } catch (err) {
+    console.error("Failed to serve media:", err);
+    return NextResponse.json({ error: "Unable to load media" }, { status: 500 });
+  }
+});
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
 
-export async function POST() {
+export const POST = withAuth(null, async () => {
   return NextResponse.json({ ok: true });
-}
+});
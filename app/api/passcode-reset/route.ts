@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { runWithAuditActor, SYSTEM_ACTORS } from "@/lib/audit";
+import {
+  checkThrottle,
+  clientAddress,
+  recordFailure,
+  type ThrottleKey,
+} from "@/lib/loginThrottle";
+import { hashPasscode, redeemResetCode } from "@/lib/passcodes";
+import { recordSecurityEvent } from "@/lib/securityLog";
+import { supabaseRequest } from "@/lib/supabase";
+
+type ResetUserRow = { id: string; display_name: string; active: boolean };
+
+// Public: redeemed from the login screen by someone who cannot sign in, so its
+// writes are attributed to the auth system actor.
+export const POST = (req: Request) => runWithAuditActor(SYSTEM_ACTORS.auth, () => redeemReset(req));
+
+async function redeemReset(req: Request) {
+  const body = await req.json().catch(() => null);
+  const name = typeof body?.name === "string" ? body.name.trim() : "";
+  const number = typeof body?.number === "string" ? body.number.trim() : "";
+  const code = typeof body?.code === "string" ? body.code.trim() : "";
+  const newPasscode = typeof body?.newPasscode === "string" ? body.newPasscode.trim() : "";
+
+  if ((!name && !number) || !code || !newPasscode) {
+    return NextResponse.json(
+      { error: "Missing name or number, reset code, or new passcode" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const data = await supabaseRequest<ResetUserRow[]>("users", {
+      query: {
+        select: "id,display_name,active",
+        limit: 1,
+        ...(name ? { display_name: `ilike.${name}` } : { phone_number: `eq.${number}` }),
+      },
+    });
+
+    const user = data?.[0];
+    const subject = user?.display_name ?? (name || number);
+    const client = clientAddress(req);
+    // Reset codes share the login throttle so they cannot be guessed either.
+    const keys: ThrottleKey[] = [
+      { kind: "account", id: user ? `user:${user.id}` : `login:${name || number}` },
+      { kind: "client", id: client },
+    ];
+
+    const decision = await checkThrottle(keys);
+    if (!decision.allowed) {
+      return NextResponse.json(
+        { error: "Too many attempts. Please wait and try again.", retryAfterSeconds: decision.retryAfterSeconds },
+        { status: 429, headers: { "Retry-After": String(decision.retryAfterSeconds) } }
+      );
+    }
+
+    if (!user || !user.active || !(await redeemResetCode(user.id, code))) {
+      await recordFailure(keys);
+      await recordSecurityEvent({
+        kind: "login_failure",
+        userId: user?.id,
+        subject,
+        client,
+        detail: { reason: "invalid_reset_code" },
+      });
+      return NextResponse.json({ error: "That reset code is not valid" }, { status: 401 });
+    }
+
+    await supabaseRequest("users", {
+      method: "PATCH",
+      query: { id: `eq.${user.id}` },
+      body: { passcode: await hashPasscode(newPasscode), must_change_passcode: false },
+    });
+    await recordSecurityEvent({ kind: "passcode_reset", userId: user.id, subject, client });
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error("Failed to reset passcode:", err);
+    return NextResponse.json({ error: "Unable to reset passcode" }, { status: 500 });
+  }
+}
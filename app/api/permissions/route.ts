@@ -0,0 +1,79 @@
+import { NextResponse } from "next/server";
+import { isPermission, PERMISSIONS, SUPERUSER_ROLE, withAuth } from "@/lib/permissions";
+import { supabaseRequest } from "@/lib/supabase";
+
+type RoleRow = { id: string; name: string };
+type RolePermissionRow = { role_id: string; permission: string };
+
+export const GET = withAuth("users.manage", async () => {
+  try {
+    const [roles, grants] = await Promise.all([
+      supabaseRequest<RoleRow[]>("user_roles", { query: { select: "id,name", order: "name.asc" } }),
+      supabaseRequest<RolePermissionRow[]>("role_permissions", {
+        query: { select: "role_id,permission" },
+      }),
+    ]);
+
+    return NextResponse.json({
+      permissions: PERMISSIONS,
+      roles: (roles || []).map((role) => ({
+        id: role.id,
+        name: role.name,
+        locked: role.name === SUPERUSER_ROLE,
+        permissions:
+          role.name === SUPERUSER_ROLE
+            ? PERMISSIONS.map((permission) => permission.key)
+            : (grants || [])
+                .filter((grant) => grant.role_id === role.id && isPermission(grant.permission))
+                .map((grant) => grant.permission),
+      })),
+    });
+  } catch (err) {
+    console.error("Failed to load role permissions:", err);
+    return NextResponse.json({ error: "Unable to load permissions" }, { status: 500 });
+  }
+});
+
+export const PATCH = withAuth("users.manage", async (req: Request) => {
+  const body = await req.json().catch(() => null);
+  const { roleId, permission, enabled } = body || {};
+
+  if (!roleId || !isPermission(permission) || typeof enabled !== "boolean") {
+    return NextResponse.json({ error: "Missing roleId, permission, or enabled" }, { status: 400 });
+  }
+
+  try {
+    const roles = await supabaseRequest<RoleRow[]>("user_roles", {
+      query: { select: "id,name", id: `eq.${roleId}`, limit: 1 },
+    });
+    const role = roles?.[0];
+    if (!role) {
+      return NextResponse.json({ error: "Role not found" }, { status: 404 });
+    }
+    if (role.name === SUPERUSER_ROLE) {
+      return NextResponse.json(
+        { error: `${SUPERUSER_ROLE} always has every permission` },
+        { status: 400 }
+      );
+    }
+
+    if (enabled) {
+      await supabaseRequest("role_permissions", {
+        method: "POST",
+        prefer: "resolution=ignore-duplicates",
+        query: { on_conflict: "role_id,permission" },
+        body: { role_id: role.id, permission },
+      });
+    } else {
+      await supabaseRequest("role_permissions", {
+        method: "DELETE",
+        query: { role_id: `eq.${role.id}`, permission: `eq.${permission}` },
+      });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error("Failed to update role permissions:", err);
+    return NextResponse.json({ error: "Unable to update permissions" }, { status: 500 });
+  }
+});
@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
 
+// Left open for the nightly Vercel cron, which calls without a session.
 export async function GET(req: Request) {
   const { searchParams } = new URL(req.url);
   const list = searchParams.get("list");
@@ -16,6 +18,6 @@ export async function GET(req: Request) {
   return NextResponse.json({ reports: [] });
 }
 
-export async function POST() {
+export const POST = withAuth(null, async () => {
   return NextResponse.json({ ok: true });
-}
+});
@@ -1,9 +1,10 @@
 import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
 
-export async function GET() {
+export const GET = withAuth(null, async () => {
   return NextResponse.json({ requests: [] });
-}
+});
 
-export async function POST() {
+export const POST = withAuth(null, async () => {
   return NextResponse.json({ ok: true });
-}
+});
@@ -1,9 +1,9 @@
 import { POST as resetRecurring } from "../tasks/reset-recurring/route";
 
-export async function GET() {
-  return resetRecurring();
+export async function GET(req: Request) {
+  return resetRecurring(req);
 }
 
-export async function POST() {
-  return resetRecurring();
+export async function POST(req: Request) {
+  return resetRecurring(req);
 }
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import {
+  buildFarmEvents,
+  buildPersonEvents,
+  findUserByCalendarToken,
+  renderCalendar,
+  type CalendarDay,
+} from "@/lib/calendar";
+import { can } from "@/lib/permissions";
+import { getHawaiiDate, listLiveDaysFrom, loadPublishedGrid } from "@/lib/schedule";
+
+const HISTORY_DAYS = 30;
+
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const token = (searchParams.get("token") || "").trim();
+  const scope = searchParams.get("scope") === "farm" ? "farm" : "mine";
+
+  if (!token) {
+    return NextResponse.json({ error: "Missing token" }, { status: 401 });
+  }
+
+  try {
+    const user = await findUserByCalendarToken(token);
+    if (!user || !user.active) {
+      return NextResponse.json({ error: "Invalid calendar link" }, { status: 401 });
+    }
+    if (scope === "farm" && !can(user, "schedule.edit")) {
+      return NextResponse.json({ error: "You do not have permission to do that" }, { status: 403 });
+    }
+
+    const since = new Date(`${getHawaiiDate()}T00:00:00Z`);
+    since.setUTCDate(since.getUTCDate() - HISTORY_DAYS);
+    const liveDays = await listLiveDaysFrom(since.toISOString().slice(0, 10));
+    const days: CalendarDay[] = await Promise.all(
+      liveDays.map(async (day) => ({ date: day.schedule_date, grid: await loadPublishedGrid(day) }))
+    );
+
+    const body =
+      scope === "farm"
+        ? renderCalendar("Wai and Aina farm schedule", buildFarmEvents(days))
+        : renderCalendar(`${user.name} – Wai and Aina shifts`, buildPersonEvents(days, user.name));
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `inline; filename="${scope === "farm" ? "farm-schedule" : "my-shifts"}.ics"`,
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (err) {
+    console.error("Failed to build calendar feed:", err);
+    return NextResponse.json({ error: "Unable to build calendar" }, { status: 500 });
+  }
+}
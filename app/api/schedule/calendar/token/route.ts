@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { can, withAuth } from "@/lib/permissions";
+import { generateCalendarToken } from "@/lib/calendar";
+import { verifyPasscode } from "@/lib/passcodes";
+import { supabaseRequest } from "@/lib/supabase";
+
+type TokenUserRow = {
+  id: string;
+  passcode: string;
+  calendar_token: string | null;
+};
+
+// Returns the caller's calendar feed token, creating it on first use. Passing
+// reset: true issues a new token so previously shared links stop working.
+export const POST = withAuth(null, async (req: Request, sessionUser) => {
+  const body = await req.json().catch(() => null);
+  const passcode = typeof body?.passcode === "string" ? body.passcode.trim() : "";
+
+  if (!passcode) {
+    return NextResponse.json({ error: "Missing passcode" }, { status: 400 });
+  }
+
+  try {
+    const data = await supabaseRequest<TokenUserRow[]>("users", {
+      query: {
+        select: "id,passcode,calendar_token",
+        id: `eq.${sessionUser.id}`,
+        limit: 1,
+      },
+    });
+
+    const user = data?.[0];
+    if (!user || !(await verifyPasscode(user.passcode, passcode))) {
+      return NextResponse.json({ error: "Passcode incorrect" }, { status: 401 });
+    }
+
+    let token = user.calendar_token;
+    if (!token || body?.reset) {
+      token = generateCalendarToken();
+      await supabaseRequest("users", {
+        method: "PATCH",
+        query: { id: `eq.${user.id}` },
+        body: { calendar_token: token },
+      });
+    }
+
+    return NextResponse.json({ token, farmFeed: can(sessionUser, "schedule.edit") });
+  } catch (err) {
+    console.error("Failed to issue calendar token:", err);
+    return NextResponse.json({ error: "Unable to create calendar link" }, { status: 500 });
+  }
+});
@@ -1,5 +1,99 @@
 import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
+import { loadAvailabilityOn } from "@/lib/availability";
+import {
+  ensureStagingDay,
+  formatDateLabel,
+  isScheduledUser,
+  loadSchedulableUsers,
+  loadScheduleGrid,
+  loadScheduleSource,
+  parseDateLabel,
+  writeScheduleGrid,
+  type ScheduleDayRow,
+} from "@/lib/schedule";
+import { generateSchedule } from "@/lib/scheduleGenerator";
+import { loadTasksDueOn } from "@/lib/tasks";
 
-export async function POST() {
-  return NextResponse.json({ ok: true });
+async function generateDraft(day: ScheduleDayRow) {
+  const [grid, users, tasks, availability] = await Promise.all([
+    loadScheduleGrid(day),
+    loadSchedulableUsers(),
+    loadTasksDueOn(day.schedule_date),
+    loadAvailabilityOn(day.schedule_date),
+  ]);
+
+  const scheduled = users
+    .filter(isScheduledUser)
+    .filter((user) => !availability.get(user.id)?.away);
+  const onGrid = new Set(grid.people.map((person) => person.toLowerCase()));
+  const people = [
+    ...grid.people,
+    ...scheduled.map((user) => user.name).filter((name) => !onGrid.has(name.toLowerCase())),
+  ];
+
+  const result = generateSchedule({
+    people,
+    slots: grid.slots,
+    volunteers: scheduled,
+    tasks: tasks.map((task) => ({
+      name: task.name,
+      typeName: task.task_type?.name,
+      timeSlots: task.time_slots || [],
+      personCount: task.person_count || 1,
+      requiredCapabilities: task.required_capabilities || [],
+    })),
+  });
+
+  await writeScheduleGrid(day, { people, slots: grid.slots, cells: result.cells });
+  return result;
 }
+
+export const POST = withAuth("schedule.edit", async (req: Request) => {
+  const body = await req.json().catch(() => null);
+  const date = parseDateLabel(body?.dateLabel);
+
+  if (!date) {
+    return NextResponse.json({ error: "Missing or invalid dateLabel" }, { status: 400 });
+  }
+
+  try {
+    const templateId = typeof body?.templateId === "string" ? body.templateId : null;
+    const copyFromDate = typeof body?.copyFromDate === "string" ? body.copyFromDate : null;
+    const source =
+      templateId || copyFromDate ? await loadScheduleSource({ templateId, copyFromDate }) : null;
+    if ((templateId || copyFromDate) && !source) {
+      return NextResponse.json(
+        { error: templateId ? "Template not found" : `No schedule found for ${copyFromDate}` },
+        { status: 404 }
+      );
+    }
+
+    const { day, created } = await ensureStagingDay(date);
+    if (source) {
+      await writeScheduleGrid(day, source);
+    }
+
+    if (body?.mode === "auto") {
+      const result = await generateDraft(day);
+      return NextResponse.json({
+        ok: true,
+        created,
+        dateLabel: formatDateLabel(day.schedule_date),
+        stagingId: day.id,
+        assignments: result.assignments,
+        unfilled: result.unfilled,
+      });
+    }
+
+    return NextResponse.json({
+      ok: true,
+      created,
+      dateLabel: formatDateLabel(day.schedule_date),
+      stagingId: day.id,
+    });
+  } catch (err) {
+    console.error("Failed to create schedule:", err);
+    return NextResponse.json({ error: "Unable to create schedule" }, { status: 500 });
+  }
+});
@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+import { can, withAuth } from "@/lib/permissions";
+import {
+  ensureStagingDay,
+  findScheduleDay,
+  formatDateLabel,
+  loadPublishedGrid,
+  loadSchedulableUsers,
+  loadScheduleGrid,
+  parseDateLabel,
+  writeScheduleGrid,
+} from "@/lib/schedule";
+import { parseScheduleCsv, reconcileScheduleNames, scheduleToCsv } from "@/lib/scheduleCsv";
+import { loadTaskCatalogNames } from "@/lib/tasks";
+
+export const GET = withAuth(null, async (req: Request, user) => {
+  const { searchParams } = new URL(req.url);
+  const date = parseDateLabel(searchParams.get("date"));
+  const staging = searchParams.get("staging") === "1";
+
+  if (!date) {
+    return NextResponse.json({ error: "Missing or invalid date" }, { status: 400 });
+  }
+  if (staging && !can(user, "schedule.edit")) {
+    return NextResponse.json({ error: "You do not have permission to do that" }, { status: 403 });
+  }
+
+  try {
+    const day = await findScheduleDay(date, staging ? "staging" : "live");
+    if (!day) {
+      return NextResponse.json({ error: "No schedule for that date" }, { status: 404 });
+    }
+
+    const grid = staging ? await loadScheduleGrid(day) : await loadPublishedGrid(day);
+    const filename = `schedule-${date}${staging ? "-staging" : ""}.csv`;
+    return new NextResponse(scheduleToCsv(grid), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    console.error("Failed to export schedule CSV:", err);
+    return NextResponse.json({ error: "Unable to export schedule" }, { status: 500 });
+  }
+});
+
+// Imports a CSV into the staging schedule of dateLabel. Unknown people and task
+// names are still written but reported back so they can be fixed before publishing.
+export const POST = withAuth("schedule.edit", async (req: Request) => {
+  const body = await req.json().catch(() => null);
+  const date = parseDateLabel(body?.dateLabel);
+  const csv = typeof body?.csv === "string" ? body.csv : "";
+
+  if (!date || !csv.trim()) {
+    return NextResponse.json({ error: "Missing dateLabel or csv" }, { status: 400 });
+  }
+
+  const parsed = parseScheduleCsv(csv);
+  if (!parsed.grid) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const [users, taskNames] = await Promise.all([loadSchedulableUsers(), loadTaskCatalogNames()]);
+    const result = reconcileScheduleNames(
+      parsed.grid,
+      users.map((user) => user.name),
+      taskNames
+    );
+
+    const { day } = await ensureStagingDay(date);
+    await writeScheduleGrid(day, result.grid);
+
+    return NextResponse.json({
+      success: true,
+      dateLabel: formatDateLabel(date),
+      people: result.grid.people.length,
+      slots: result.grid.slots.length,
+      unknownPeople: result.unknownPeople,
+      unknownTasks: result.unknownTasks,
+    });
+  } catch (err) {
+    console.error("Failed to import schedule CSV:", err);
+    return NextResponse.json({ error: "Unable to import schedule" }, { status: 500 });
+  }
+});
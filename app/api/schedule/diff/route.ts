@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
+import {
+  findLatestVersion,
+  findScheduleDay,
+  loadScheduleGrid,
+  parseDateLabel,
+} from "@/lib/schedule";
+import { diffSchedules } from "@/lib/scheduleDiff";
+
+export const GET = withAuth("schedule.edit", async (req: Request) => {
+  const { searchParams } = new URL(req.url);
+  const date = parseDateLabel(searchParams.get("date"));
+
+  if (!date) {
+    return NextResponse.json({ error: "Missing or invalid date" }, { status: 400 });
+  }
+
+  try {
+    const staging = await findScheduleDay(date, "staging");
+    if (!staging) {
+      return NextResponse.json({ error: "No staging schedule for that date" }, { status: 404 });
+    }
+
+    const [draft, published] = await Promise.all([
+      loadScheduleGrid(staging),
+      findLatestVersion(date),
+    ]);
+
+    return NextResponse.json({
+      liveVersion: published?.version ?? null,
+      publishedAt: published?.published_at ?? null,
+      publishedBy: published?.published_by ?? null,
+      ...diffSchedules(published?.snapshot ?? null, draft),
+    });
+  } catch (err) {
+    console.error("Failed to diff schedule:", err);
+    return NextResponse.json({ error: "Unable to compare schedules" }, { status: 500 });
+  }
+});
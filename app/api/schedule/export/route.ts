@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
+import { getHawaiiDate, parseDateLabel } from "@/lib/schedule";
+import { loadScheduleBoard } from "@/lib/scheduleBoard";
+import { renderBoardPdf } from "@/lib/schedulePdf";
+
+// Published board for printing: JSON for the print page, or format=pdf for a
+// download (mode=volunteers gives one page per volunteer).
+export const GET = withAuth(null, async (req: Request) => {
+  const { searchParams } = new URL(req.url);
+  const rawDate = searchParams.get("date");
+  const date = rawDate ? parseDateLabel(rawDate) : getHawaiiDate();
+  const format = searchParams.get("format") === "pdf" ? "pdf" : "json";
+  const mode = searchParams.get("mode") === "volunteers" ? "volunteers" : "board";
+
+  if (!date) {
+    return NextResponse.json({ error: "Missing or invalid date" }, { status: 400 });
+  }
+
+  try {
+    const board = await loadScheduleBoard(date);
+    if (!board) {
+      return NextResponse.json({ error: "No published schedule for that date" }, { status: 404 });
+    }
+
+    if (format === "json") {
+      return NextResponse.json({ board });
+    }
+
+    const pdf = renderBoardPdf(board, mode);
+    const filename = `schedule-${date}${mode === "volunteers" ? "-volunteers" : ""}.pdf`;
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (err) {
+    console.error("Failed to export schedule:", err);
+    return NextResponse.json({ error: "Unable to export schedule" }, { status: 500 });
+  }
+});
@@ -1,5 +1,66 @@
 import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
+import {
+  ensureStagingDay,
+  formatDateLabel,
+  getHawaiiDate,
+  listScheduleDays,
+} from "@/lib/schedule";
 
-export async function GET() {
-  return NextResponse.json({ schedules: [] });
+type ScheduleListEntry = { dateLabel: string; liveId?: string; stagingId?: string };
+
+async function listSchedules() {
+  const days = await listScheduleDays();
+  const byDate = new Map<string, ScheduleListEntry>();
+  days.forEach((day) => {
+    const entry = byDate.get(day.schedule_date) || {
+      dateLabel: formatDateLabel(day.schedule_date),
+    };
+    if (day.variant === "live") entry.liveId = day.id;
+    if (day.variant === "staging") entry.stagingId = day.id;
+    byDate.set(day.schedule_date, entry);
+  });
+
+  const today = getHawaiiDate();
+  return {
+    schedules: Array.from(byDate.values()),
+    mode: "page",
+    selectedDate: byDate.has(today) ? formatDateLabel(today) : null,
+  };
 }
+
+export const GET = withAuth(null, async () => {
+  try {
+    return NextResponse.json(await listSchedules());
+  } catch (err) {
+    console.error("Failed to list schedules:", err);
+    return NextResponse.json({ schedules: [], mode: "page", selectedDate: null });
+  }
+});
+
+// Used by the schedule editor: gives every published day from today on a
+// staging copy to edit, then returns the same list as GET.
+export const POST = withAuth("schedule.edit", async () => {
+  const today = getHawaiiDate();
+
+  try {
+    const days = await listScheduleDays();
+    const stagingDates = new Set(
+      days.filter((day) => day.variant === "staging").map((day) => day.schedule_date)
+    );
+    const missing = days.filter(
+      (day) =>
+        day.variant === "live" &&
+        day.schedule_date >= today &&
+        !stagingDates.has(day.schedule_date)
+    );
+    for (const day of missing) {
+      await ensureStagingDay(day.schedule_date);
+    }
+
+    return NextResponse.json(await listSchedules());
+  } catch (err) {
+    console.error("Failed to prepare staging schedules:", err);
+    return NextResponse.json({ error: "Unable to prepare staging schedules" }, { status: 500 });
+  }
+});
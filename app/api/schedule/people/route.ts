@@ -1,9 +1,43 @@
 import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
+import { addPersonRows, loadScheduleGrid, resolveScheduleDay } from "@/lib/schedule";
 
-export async function GET() {
-  return NextResponse.json({ people: [] });
-}
+export const GET = withAuth("schedule.edit", async (req: Request) => {
+  const { searchParams } = new URL(req.url);
+  const dateLabel = searchParams.get("date");
+  const staging = searchParams.get("staging") === "1" || searchParams.get("staging") === "true";
 
-export async function POST() {
-  return NextResponse.json({ ok: true });
-}
+  try {
+    const day = await resolveScheduleDay({ dateLabel, staging });
+    if (!day) {
+      return NextResponse.json({ people: [] });
+    }
+    const grid = await loadScheduleGrid(day);
+    return NextResponse.json({ people: grid.people });
+  } catch (err) {
+    console.error("Failed to load schedule people:", err);
+    return NextResponse.json({ people: [] });
+  }
+});
+
+export const POST = withAuth("schedule.edit", async (req: Request) => {
+  const body = await req.json().catch(() => null);
+  const { name, dateLabel, staging } = body || {};
+
+  if (!name || !String(name).trim()) {
+    return NextResponse.json({ error: "Missing name" }, { status: 400 });
+  }
+
+  try {
+    const day = await resolveScheduleDay({ dateLabel, staging: Boolean(staging) });
+    if (!day) {
+      return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+    }
+
+    const added = await addPersonRows(day, [String(name)]);
+    return NextResponse.json({ ok: true, added });
+  } catch (err) {
+    console.error("Failed to add schedule person:", err);
+    return NextResponse.json({ error: "Unable to add person" }, { status: 500 });
+  }
+});
@@ -1,5 +1,42 @@
 import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
+import {
+  findScheduleDay,
+  parseDateLabel,
+  publishStagingDay,
+  validateScheduleDay,
+} from "@/lib/schedule";
 
-export async function POST() {
-  return NextResponse.json({ ok: true });
-}
+export const POST = withAuth("schedule.publish", async (req: Request, user) => {
+  const body = await req.json().catch(() => null);
+  const date = parseDateLabel(body?.dateLabel);
+
+  if (!date) {
+    return NextResponse.json({ error: "Missing or invalid dateLabel" }, { status: 400 });
+  }
+
+  try {
+    const staging = await findScheduleDay(date, "staging");
+    if (!staging) {
+      return NextResponse.json({ error: "No staging schedule for that date" }, { status: 404 });
+    }
+
+    if (!body?.override) {
+      const errors = (await validateScheduleDay(staging)).filter(
+        (issue) => issue.severity === "error"
+      );
+      if (errors.length) {
+        return NextResponse.json(
+          { error: "Schedule has conflicts that must be resolved or overridden", issues: errors },
+          { status: 409 }
+        );
+      }
+    }
+
+    const { live, version } = await publishStagingDay(staging, user.name);
+    return NextResponse.json({ ok: true, liveId: live.id, version: version?.version ?? null });
+  } catch (err) {
+    console.error("Failed to publish schedule:", err);
+    return NextResponse.json({ error: "Unable to publish schedule" }, { status: 500 });
+  }
+});
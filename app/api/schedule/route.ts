@@ -1,13 +1,37 @@
 import { NextResponse } from "next/server";
+import { can, withAuth } from "@/lib/permissions";
+import {
+  emptyScheduleResponse,
+  loadPublishedGrid,
+  loadScheduleGrid,
+  resolveScheduleDay,
+} from "@/lib/schedule";
 
-export async function GET() {
-  return NextResponse.json({
-    people: [],
-    slots: [],
-    cells: [],
-    reportFlags: [],
-    scheduleDate: null,
-    reportTime: null,
-    taskResetTime: null,
-  });
-}
+export const GET = withAuth(null, async (req: Request, user) => {
+  const { searchParams } = new URL(req.url);
+  const dateLabel = searchParams.get("date");
+  const staging = searchParams.get("staging") === "1" || searchParams.get("staging") === "true";
+  if (staging && !can(user, "schedule.edit")) {
+    return NextResponse.json({ error: "You do not have permission to do that" }, { status: 403 });
+  }
+
+  try {
+    const day = await resolveScheduleDay({ dateLabel, staging });
+    if (!day) {
+      return NextResponse.json(
+        emptyScheduleResponse(
+          dateLabel ? `No schedule found for ${dateLabel}.` : "No schedule has been published yet."
+        )
+      );
+    }
+
+    const grid = day.variant === "live" ? await loadPublishedGrid(day) : await loadScheduleGrid(day);
+    return NextResponse.json(grid);
+  } catch (err) {
+    console.error("Failed to load schedule:", err);
+    return NextResponse.json(
+      { ...emptyScheduleResponse(), error: "Unable to load schedule" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,206 @@
+import { NextResponse } from "next/server";
+import { can, withAuth } from "@/lib/permissions";
+import {
+  applyPublishedCellEdits,
+  findScheduleDay,
+  formatDateLabel,
+  loadPublishedGrid,
+  resolveScheduleDay,
+} from "@/lib/schedule";
+import {
+  createSwap,
+  findSwap,
+  listSwaps,
+  planSwapEdits,
+  updateSwapStatus,
+  type SwapKind,
+} from "@/lib/shiftSwaps";
+
+const sameName = (a?: string | null, b?: string | null) =>
+  Boolean(a && b && a.trim().toLowerCase() === b.trim().toLowerCase());
+
+export const GET = withAuth(null, async (req: Request) => {
+  const { searchParams } = new URL(req.url);
+
+  try {
+    const day = await resolveScheduleDay({ dateLabel: searchParams.get("date") });
+    if (!day) {
+      return NextResponse.json({ swaps: [], dateLabel: null });
+    }
+    const swaps = await listSwaps(day.schedule_date);
+    return NextResponse.json({ swaps, dateLabel: formatDateLabel(day.schedule_date) });
+  } catch (err) {
+    console.error("Failed to load shift swaps:", err);
+    return NextResponse.json({ error: "Unable to load shift swaps" }, { status: 500 });
+  }
+});
+
+export const POST = withAuth(null, async (req: Request, user) => {
+  const body = await req.json().catch(() => null);
+  const kind: SwapKind = body?.kind === "swap" ? "swap" : "cover";
+  const slotId = typeof body?.slotId === "string" ? body.slotId : "";
+  const targetPerson = typeof body?.targetPerson === "string" ? body.targetPerson.trim() : "";
+  const targetSlotId = typeof body?.targetSlotId === "string" ? body.targetSlotId : "";
+
+  const requester = user.name;
+
+  if (!slotId) {
+    return NextResponse.json({ error: "Missing slotId" }, { status: 400 });
+  }
+  if (kind === "swap" && (!targetPerson || !targetSlotId)) {
+    return NextResponse.json({ error: "A swap needs a person and shift to swap with" }, { status: 400 });
+  }
+  if (sameName(requester, targetPerson)) {
+    return NextResponse.json({ error: "You cannot swap with yourself" }, { status: 400 });
+  }
+
+  try {
+    const day = await resolveScheduleDay({ dateLabel: body?.dateLabel });
+    if (!day) {
+      return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+    }
+    const grid = await loadPublishedGrid(day);
+    const slotIdx = (key: string) => grid.slots.findIndex((slot) => slot.id === key);
+    const personIdx = (name: string) => grid.people.findIndex((person) => sameName(person, name));
+
+    const requesterRow = personIdx(requester);
+    const requesterCol = slotIdx(slotId);
+    const requesterValue = grid.cells[requesterRow]?.[requesterCol] ?? "";
+    if (requesterRow === -1 || requesterCol === -1 || !requesterValue.trim()) {
+      return NextResponse.json({ error: "You have no assignment in that shift" }, { status: 400 });
+    }
+
+    let targetName: string | null = null;
+    let targetValue: string | null = null;
+    if (targetPerson) {
+      const targetRow = personIdx(targetPerson);
+      if (targetRow === -1) {
+        return NextResponse.json({ error: `${targetPerson} is not on this schedule` }, { status: 400 });
+      }
+      targetName = grid.people[targetRow];
+      if (kind === "swap") {
+        const targetCol = slotIdx(targetSlotId);
+        targetValue = grid.cells[targetRow]?.[targetCol] ?? "";
+        if (targetCol === -1 || !targetValue.trim()) {
+          return NextResponse.json(
+            { error: `${targetName} has no assignment in that shift` },
+            { status: 400 }
+          );
+        }
+      }
+    }
+
+    const swap = await createSwap({
+      schedule_date: day.schedule_date,
+      kind,
+      requester: grid.people[requesterRow],
+      requester_slot: slotId,
+      requester_value: requesterValue,
+      target_person: targetName,
+      target_slot: kind === "swap" ? targetSlotId : null,
+      target_value: targetValue,
+      note: typeof body?.note === "string" && body.note.trim() ? body.note.trim() : null,
+    });
+
+    return NextResponse.json({ swap });
+  } catch (err) {
+    console.error("Failed to create shift swap:", err);
+    return NextResponse.json({ error: "Unable to create shift swap" }, { status: 500 });
+  }
+});
+
+export const PATCH = withAuth(null, async (req: Request, user) => {
+  const body = await req.json().catch(() => null);
+  const action = body?.action;
+  const actor = user.name;
+  const note = typeof body?.note === "string" ? body.note.trim() : null;
+
+  if (!body?.id || !["accept", "approve", "decline"].includes(action)) {
+    return NextResponse.json({ error: "Missing id or action" }, { status: 400 });
+  }
+
+  try {
+    const swap = await findSwap(String(body.id));
+    if (!swap) {
+      return NextResponse.json({ error: "Swap not found" }, { status: 404 });
+    }
+
+    if (action === "accept") {
+      if (swap.status !== "pending") {
+        return NextResponse.json({ error: "This request is no longer open" }, { status: 409 });
+      }
+      const allowed = swap.target_person
+        ? sameName(actor, swap.target_person)
+        : !sameName(actor, swap.requester);
+      if (!allowed) {
+        return NextResponse.json({ error: "This request is not addressed to you" }, { status: 403 });
+      }
+      const updated = await updateSwapStatus(swap, "accepted", actor, { accepted_by: actor }, note);
+      if (!updated) {
+        return NextResponse.json({ error: "This request is no longer open" }, { status: 409 });
+      }
+      return NextResponse.json({ swap: updated });
+    }
+
+    const admin = can(user, "schedule.publish");
+
+    if (action === "decline") {
+      if (swap.status !== "pending" && swap.status !== "accepted") {
+        return NextResponse.json({ error: "This request is already closed" }, { status: 409 });
+      }
+      const involved =
+        sameName(actor, swap.requester) ||
+        sameName(actor, swap.target_person) ||
+        sameName(actor, swap.accepted_by);
+      if (!involved && !admin) {
+        return NextResponse.json({ error: "Not allowed to decline this request" }, { status: 403 });
+      }
+      const updated = await updateSwapStatus(swap, "declined", actor, { decided_by: actor }, note);
+      if (!updated) {
+        return NextResponse.json({ error: "This request changed; reload and try again" }, { status: 409 });
+      }
+      return NextResponse.json({ swap: updated });
+    }
+
+    if (!admin) {
+      return NextResponse.json({ error: "Only admins can approve swaps" }, { status: 403 });
+    }
+    if (swap.status !== "accepted") {
+      return NextResponse.json({ error: "Only accepted requests can be approved" }, { status: 409 });
+    }
+
+    const live = await findScheduleDay(swap.schedule_date, "live");
+    if (!live) {
+      return NextResponse.json({ error: "The schedule for this swap is not published" }, { status: 409 });
+    }
+    const plan = planSwapEdits(await loadPublishedGrid(live), swap);
+    if (plan.error) {
+      return NextResponse.json({ error: plan.error }, { status: 409 });
+    }
+
+    // Claim the approval before touching the grid, so a second approval
+    // running at the same time stops here instead of applying the edits twice.
+    const updated = await updateSwapStatus(swap, "approved", actor, { decided_by: actor }, note);
+    if (!updated) {
+      return NextResponse.json({ error: "This request was already handled" }, { status: 409 });
+    }
+    const version = await applyPublishedCellEdits(live, plan.edits, `${actor} (shift swap)`).catch((err) => {
+      console.error("Failed to apply shift swap:", err);
+      return null;
+    });
+    if (!version) {
+      await updateSwapStatus(
+        updated,
+        "accepted",
+        actor,
+        { decided_by: null },
+        "The swap could not be applied to the schedule"
+      );
+      return NextResponse.json({ error: "Unable to apply the swap to the schedule" }, { status: 409 });
+    }
+    return NextResponse.json({ swap: updated, version: version.version });
+  } catch (err) {
+    console.error("Failed to update shift swap:", err);
+    return NextResponse.json({ error: "Unable to update shift swap" }, { status: 500 });
+  }
+});
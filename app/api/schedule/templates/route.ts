@@ -0,0 +1,121 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
+import { supabaseRequest } from "@/lib/supabase";
+import {
+  TEMPLATE_KINDS,
+  findScheduleDay,
+  listTemplates,
+  loadScheduleGrid,
+  parseDateLabel,
+  type ScheduleTemplateRow,
+} from "@/lib/schedule";
+
+function normalizeKind(kind: unknown) {
+  return TEMPLATE_KINDS.find((entry) => entry === kind) ?? "weekday";
+}
+
+function toTemplateResponse(row: ScheduleTemplateRow) {
+  return {
+    id: row.id,
+    name: row.name,
+    kind: row.kind,
+    slots: row.grid.slots,
+    people: row.grid.people,
+    updatedAt: row.updated_at,
+  };
+}
+
+export const GET = withAuth("schedule.edit", async () => {
+  try {
+    const templates = await listTemplates();
+    return NextResponse.json({ templates: templates.map(toTemplateResponse) });
+  } catch (err) {
+    console.error("Failed to load schedule templates:", err);
+    return NextResponse.json({ templates: [] });
+  }
+});
+
+// Saves the staging grid for `dateLabel` as a template, replacing any template with the same name.
+export const POST = withAuth("schedule.edit", async (req: Request) => {
+  const body = await req.json().catch(() => null);
+  const name = typeof body?.name === "string" ? body.name.trim() : "";
+  const date = parseDateLabel(body?.dateLabel);
+
+  if (!name || !date) {
+    return NextResponse.json({ error: "Missing name or dateLabel" }, { status: 400 });
+  }
+
+  try {
+    const staging = await findScheduleDay(date, "staging");
+    if (!staging) {
+      return NextResponse.json({ error: "No staging schedule for that date" }, { status: 404 });
+    }
+
+    const grid = await loadScheduleGrid(staging);
+    const data = await supabaseRequest<ScheduleTemplateRow[]>("schedule_templates", {
+      method: "POST",
+      prefer: "resolution=merge-duplicates,return=representation",
+      query: { on_conflict: "name", select: "id,name,kind,grid,updated_at" },
+      body: {
+        name,
+        kind: normalizeKind(body?.kind),
+        grid: { people: grid.people, slots: grid.slots, cells: grid.cells },
+        updated_at: new Date().toISOString(),
+      },
+    });
+
+    return NextResponse.json({ template: data?.[0] ? toTemplateResponse(data[0]) : null });
+  } catch (err) {
+    console.error("Failed to save schedule template:", err);
+    return NextResponse.json({ error: "Unable to save template" }, { status: 500 });
+  }
+});
+
+export const PATCH = withAuth("schedule.edit", async (req: Request) => {
+  const body = await req.json().catch(() => null);
+  const { id, name, kind } = body || {};
+
+  if (!id) {
+    return NextResponse.json({ error: "Missing id" }, { status: 400 });
+  }
+
+  const updates: Record<string, unknown> = {};
+  if (typeof name === "string" && name.trim()) updates.name = name.trim();
+  if (kind !== undefined) updates.kind = normalizeKind(kind);
+
+  if (!Object.keys(updates).length) {
+    return NextResponse.json({ ok: true });
+  }
+
+  try {
+    await supabaseRequest("schedule_templates", {
+      method: "PATCH",
+      query: { id: `eq.${id}` },
+      body: { ...updates, updated_at: new Date().toISOString() },
+    });
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error("Failed to update schedule template:", err);
+    return NextResponse.json({ error: "Unable to update template" }, { status: 500 });
+  }
+});
+
+export const DELETE = withAuth("schedule.edit", async (req: Request) => {
+  const body = await req.json().catch(() => null);
+  const { id } = body || {};
+
+  if (!id) {
+    return NextResponse.json({ error: "Missing id" }, { status: 400 });
+  }
+
+  try {
+    await supabaseRequest("schedule_templates", {
+      method: "DELETE",
+      query: { id: `eq.${id}` },
+    });
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error("Failed to delete schedule template:", err);
+    return NextResponse.json({ error: "Unable to delete template" }, { status: 500 });
+  }
+});
@@ -1,5 +1,52 @@
 import { NextResponse } from "next/server";
+import { can, withAuth } from "@/lib/permissions";
+import { resolveScheduleDay, setReportFlag, updateScheduleCell } from "@/lib/schedule";
 
-export async function POST() {
-  return NextResponse.json({ ok: true });
-}
+const REPORT_SLOT_ID = "Report";
+
+// Schedule editors can change any cell. Everyone else may only mark their own
+// end-of-shift report on the live schedule.
+export const POST = withAuth(null, async (req: Request, user) => {
+  const body = await req.json().catch(() => null);
+  const { person, slotId, replaceValue, reportValue, dateLabel, staging } = body || {};
+
+  if (!person || !slotId) {
+    return NextResponse.json({ error: "Missing person or slotId" }, { status: 400 });
+  }
+
+  const isReport = slotId === REPORT_SLOT_ID || reportValue !== undefined;
+  const ownLiveReport =
+    isReport && !staging && String(person).trim().toLowerCase() === user.name.trim().toLowerCase();
+  if (!can(user, "schedule.edit") && !ownLiveReport) {
+    return NextResponse.json({ error: "You do not have permission to do that" }, { status: 403 });
+  }
+
+  try {
+    const day = await resolveScheduleDay({ dateLabel, staging: Boolean(staging) });
+    if (!day) {
+      return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+    }
+
+    if (isReport) {
+      const ok = await setReportFlag(day, String(person), Boolean(reportValue));
+      if (!ok) {
+        return NextResponse.json({ error: "Person not found on schedule" }, { status: 404 });
+      }
+      return NextResponse.json({ ok: true });
+    }
+
+    if (typeof replaceValue !== "string") {
+      return NextResponse.json({ error: "Missing replaceValue" }, { status: 400 });
+    }
+
+    const ok = await updateScheduleCell(day, String(person), String(slotId), replaceValue);
+    if (!ok) {
+      return NextResponse.json({ error: "Schedule cell not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error("Failed to update schedule:", err);
+    return NextResponse.json({ error: "Unable to update schedule" }, { status: 500 });
+  }
+});
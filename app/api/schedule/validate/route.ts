@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
+import { resolveScheduleDay, validateScheduleDay } from "@/lib/schedule";
+
+export const GET = withAuth("schedule.edit", async (req: Request) => {
+  const { searchParams } = new URL(req.url);
+  const dateLabel = searchParams.get("date");
+  const staging = searchParams.get("staging") === "1" || searchParams.get("staging") === "true";
+
+  try {
+    const day = await resolveScheduleDay({ dateLabel, staging });
+    if (!day) {
+      return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+    }
+
+    const issues = await validateScheduleDay(day);
+    return NextResponse.json({
+      issues,
+      errors: issues.filter((issue) => issue.severity === "error").length,
+      warnings: issues.filter((issue) => issue.severity === "warning").length,
+    });
+  } catch (err) {
+    console.error("Failed to validate schedule:", err);
+    return NextResponse.json({ error: "Unable to validate schedule" }, { status: 500 });
+  }
+});
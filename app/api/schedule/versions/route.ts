@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
+import { listVersions, parseDateLabel } from "@/lib/schedule";
+
+export const GET = withAuth(null, async (req: Request) => {
+  const { searchParams } = new URL(req.url);
+  const date = parseDateLabel(searchParams.get("date"));
+
+  if (!date) {
+    return NextResponse.json({ error: "Missing or invalid date" }, { status: 400 });
+  }
+
+  try {
+    const versions = await listVersions(date);
+    return NextResponse.json({
+      versions: versions.map((row) => ({
+        id: row.id,
+        version: row.version,
+        publishedAt: row.published_at,
+        publishedBy: row.published_by,
+      })),
+    });
+  } catch (err) {
+    console.error("Failed to list schedule versions:", err);
+    return NextResponse.json({ versions: [] });
+  }
+});
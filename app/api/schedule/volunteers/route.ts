@@ -1,5 +1,97 @@
 import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
+import { loadAvailabilityOn } from "@/lib/availability";
+import {
+  addPersonRows,
+  isScheduledUser,
+  loadSchedulableUsers,
+  loadScheduleGrid,
+  parseDateLabel,
+  removePersonRows,
+  resolveScheduleDay,
+} from "@/lib/schedule";
 
-export async function GET() {
-  return NextResponse.json({ volunteers: [] });
-}
+export const GET = withAuth("schedule.edit", async (req: Request) => {
+  const { searchParams } = new URL(req.url);
+  const date = parseDateLabel(searchParams.get("date"));
+
+  try {
+    const [users, availability] = await Promise.all([
+      loadSchedulableUsers(),
+      date ? loadAvailabilityOn(date) : Promise.resolve(null),
+    ]);
+    const volunteers = users
+      .filter(isScheduledUser)
+      .filter((user) => !availability?.get(user.id)?.away)
+      .map((user) => user.name);
+    return NextResponse.json({ volunteers });
+  } catch (err) {
+    console.error("Failed to load volunteers:", err);
+    return NextResponse.json({ volunteers: [] });
+  }
+});
+
+// Adds every volunteer who is around that day and missing from the grid, and
+// drops rows for users who are no longer scheduled or are away (outside their
+// stay or on a day off). Rows that do not match a user (custom rows) are kept,
+// and so are rows of away users that still have assignments: those come back
+// as `assignedAway` until the editor confirms them in `removeAssigned`.
+export const POST = withAuth("schedule.edit", async (req: Request) => {
+  const body = await req.json().catch(() => null);
+  const { dateLabel, staging = true } = body || {};
+  const confirmed = new Set(
+    (Array.isArray(body?.removeAssigned) ? body.removeAssigned : [])
+      .filter((name: unknown): name is string => typeof name === "string")
+      .map((name: string) => name.toLowerCase())
+  );
+
+  try {
+    const day = await resolveScheduleDay({ dateLabel, staging: Boolean(staging) });
+    if (!day) {
+      return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+    }
+
+    const [users, grid, availability] = await Promise.all([
+      loadSchedulableUsers(),
+      loadScheduleGrid(day),
+      loadAvailabilityOn(day.schedule_date),
+    ]);
+    const usersByName = new Map(users.map((user) => [user.name.toLowerCase(), user]));
+    const onGrid = new Set(grid.people.map((person) => person.toLowerCase()));
+    const isAway = (userId: string) => Boolean(availability.get(userId)?.away);
+
+    const toAdd = users
+      .filter(isScheduledUser)
+      .filter((user) => !isAway(user.id))
+      .filter((user) => !onGrid.has(user.name.toLowerCase()))
+      .map((user) => user.name);
+    const hasAssignments = (index: number) => (grid.cells[index] || []).some((cell) => cell.trim());
+
+    const assignedAway: string[] = [];
+    const toRemove = grid.people.filter((person, index) => {
+      const user = usersByName.get(person.toLowerCase());
+      if (!user) return false;
+      if (!isScheduledUser(user)) return true;
+      if (!isAway(user.id)) return false;
+      if (hasAssignments(index) && !confirmed.has(person.toLowerCase())) {
+        assignedAway.push(person);
+        return false;
+      }
+      return true;
+    });
+
+    const [added, removed] = await Promise.all([
+      addPersonRows(day, toAdd),
+      removePersonRows(day, toRemove),
+    ]);
+
+    const away = users
+      .filter((user) => isScheduledUser(user) && isAway(user.id))
+      .map((user) => ({ name: user.name, reason: availability.get(user.id)?.reason || null }));
+
+    return NextResponse.json({ ok: true, added, removed, away, assignedAway });
+  } catch (err) {
+    console.error("Failed to sync volunteers:", err);
+    return NextResponse.json({ error: "Unable to sync volunteers" }, { status: 500 });
+  }
+});
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
+import { hawaiiDayBounds, parseDateLabel } from "@/lib/schedule";
+import {
+  listSecurityEvents,
+  SECURITY_EVENT_KINDS,
+  type SecurityEventKind,
+} from "@/lib/securityLog";
+
+export const GET = withAuth("users.manage", async (req: Request) => {
+  const { searchParams } = new URL(req.url);
+  const kind = searchParams.get("kind") as SecurityEventKind | null;
+  const from = parseDateLabel(searchParams.get("from"));
+  const to = parseDateLabel(searchParams.get("to"));
+
+  try {
+    const events = await listSecurityEvents({
+      kind: kind && SECURITY_EVENT_KINDS.includes(kind) ? kind : undefined,
+      subject: searchParams.get("name")?.trim() || undefined,
+      ...hawaiiDayBounds(from, to),
+    });
+    return NextResponse.json({ events, kinds: SECURITY_EVENT_KINDS });
+  } catch (err) {
+    console.error("Failed to load security events:", err);
+    return NextResponse.json({ error: "Unable to load security events" }, { status: 500 });
+  }
+});
@@ -0,0 +1,122 @@
+import { NextResponse } from "next/server";
+import { can, withAuth } from "@/lib/permissions";
+import {
+  addTaskComment,
+  deleteTaskComment,
+  editTaskComment,
+  findTaskComment,
+  loadTaskComments,
+} from "@/lib/taskComments";
+import { materializeOccurrence, parseOccurrenceId } from "@/lib/tasks";
+
+const MAX_COMMENT_LENGTH = 4000;
+
+function readBody(value: unknown) {
+  const text = typeof value === "string" ? value.trim() : "";
+  if (!text) return { error: "Comment cannot be empty" };
+  if (text.length > MAX_COMMENT_LENGTH) return { error: "Comment is too long" };
+  return { text };
+}
+
+export const GET = withAuth(null, async (req: Request, user) => {
+  const { searchParams } = new URL(req.url);
+  const taskId = searchParams.get("taskId") || "";
+  if (!taskId) {
+    return NextResponse.json({ error: "Missing taskId" }, { status: 400 });
+  }
+  // A computed occurrence has no comments until it gets a row of its own.
+  if (parseOccurrenceId(taskId)) {
+    return NextResponse.json({ comments: [] });
+  }
+
+  try {
+    const comments = await loadTaskComments(taskId, user, can(user, "tasks.edit"));
+    return NextResponse.json({ comments });
+  } catch (err) {
+    console.error("Failed to load task comments:", err);
+    return NextResponse.json({ error: "Unable to load comments" }, { status: 500 });
+  }
+});
+
+export const POST = withAuth(null, async (req: Request, user) => {
+  const body = await req.json().catch(() => null);
+  const { taskId, parentId } = body || {};
+  if (!taskId) {
+    return NextResponse.json({ error: "Missing taskId" }, { status: 400 });
+  }
+  const { text, error } = readBody(body?.body);
+  if (!text) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  try {
+    const occurrence = parseOccurrenceId(String(taskId));
+    const targetId = occurrence
+      ? await materializeOccurrence(occurrence.rootId, occurrence.date)
+      : String(taskId);
+    if (!targetId) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    if (parentId) {
+      const parent = await findTaskComment(String(parentId));
+      if (!parent || parent.task_id !== targetId || parent.deleted_at) {
+        return NextResponse.json({ error: "Comment to reply to was not found" }, { status: 404 });
+      }
+    }
+
+    const comment = await addTaskComment({ taskId: targetId, author: user, body: text, parentId });
+    return NextResponse.json({ ok: true, taskId: targetId, id: comment?.id ?? null });
+  } catch (err) {
+    console.error("Failed to add task comment:", err);
+    return NextResponse.json({ error: "Unable to add comment" }, { status: 500 });
+  }
+});
+
+export const PATCH = withAuth(null, async (req: Request, user) => {
+  const body = await req.json().catch(() => null);
+  if (!body?.id) {
+    return NextResponse.json({ error: "Missing comment id" }, { status: 400 });
+  }
+  const { text, error } = readBody(body.body);
+  if (!text) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  try {
+    const comment = await findTaskComment(String(body.id));
+    if (!comment || comment.deleted_at) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+    if (comment.author_id !== user.id) {
+      return NextResponse.json({ error: "Only the author can edit a comment" }, { status: 403 });
+    }
+    await editTaskComment(comment.id, text);
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error("Failed to edit task comment:", err);
+    return NextResponse.json({ error: "Unable to edit comment" }, { status: 500 });
+  }
+});
+
+export const DELETE = withAuth(null, async (req: Request, user) => {
+  const body = await req.json().catch(() => null);
+  if (!body?.id) {
+    return NextResponse.json({ error: "Missing comment id" }, { status: 400 });
+  }
+
+  try {
+    const comment = await findTaskComment(String(body.id));
+    if (!comment || comment.deleted_at) {
+      return NextResponse.json({ error: "Comment not found" }, { status: 404 });
+    }
+    if (comment.author_id !== user.id && !can(user, "tasks.edit")) {
+      return NextResponse.json({ error: "You cannot delete this comment" }, { status: 403 });
+    }
+    await deleteTaskComment(comment.id);
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error("Failed to delete task comment:", err);
+    return NextResponse.json({ error: "Unable to delete comment" }, { status: 500 });
+  }
+});
@@ -1,4 +1,5 @@
 import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
 import { supabaseRequest } from "@/lib/supabase";
 
 type TaskTypeOption = { name: string; color: string };
@@ -11,7 +12,7 @@ const FALLBACK_TYPES: TaskTypeOption[] = [
   { name: "Maintenance", color: "blue" },
 ];
 
-export async function GET() {
+export const GET = withAuth(null, async () => {
   try {
     const data = await supabaseRequest<any[]>("task_types", {
       query: { select: "id,name,color", order: "name.asc" },
@@ -42,9 +43,9 @@ export async function GET() {
       ],
     });
   }
-}
+});
 
-export async function POST(req: Request) {
+export const POST = withAuth("tasks.edit", async (req: Request) => {
   const body = await req.json().catch(() => null);
   const { name, color } = body || {};
 
@@ -64,9 +65,9 @@ export async function POST(req: Request) {
     console.error("Failed to create task type:", err);
     return NextResponse.json({ error: "Unable to create task type" }, { status: 500 });
   }
-}
+});
 
-export async function PATCH(req: Request) {
+export const PATCH = withAuth("tasks.edit", async (req: Request) => {
   const body = await req.json().catch(() => null);
   const { id, name, color } = body || {};
 
@@ -93,4 +94,4 @@ export async function PATCH(req: Request) {
     console.error("Failed to update task type:", err);
     return NextResponse.json({ error: "Unable to update task type" }, { status: 500 });
   }
-}
+});
@@ -1,8 +1,105 @@
 import { NextResponse } from "next/server";
+import { can, withAuth } from "@/lib/permissions";
+import { parseDateLabel } from "@/lib/schedule";
+import { deleteTaskMedia, findTaskMedia, loadTaskMedia, uploadTaskMedia } from "@/lib/taskMedia";
+import {
+  findTaskById,
+  findTaskOccurrence,
+  materializeOccurrence,
+  OCCURRENCE_LOOKUP_SELECT,
+  parseOccurrenceId,
+  seriesIdOf,
+} from "@/lib/tasks";
 
-export async function POST() {
-  return NextResponse.json(
-    { error: "Task media uploads are currently disabled." },
-    { status: 503 }
-  );
+async function findTask(params: { id?: unknown; name?: unknown; date?: unknown }) {
+  const id = typeof params.id === "string" ? params.id.trim() : "";
+  if (id) return findTaskById(OCCURRENCE_LOOKUP_SELECT, id);
+  const name = typeof params.name === "string" ? params.name.trim() : "";
+  if (!name) return null;
+  const date = parseDateLabel(typeof params.date === "string" ? params.date : null);
+  return findTaskOccurrence(OCCURRENCE_LOOKUP_SELECT, name, date);
 }
+
+export const GET = withAuth(null, async (req: Request, user) => {
+  const { searchParams } = new URL(req.url);
+  try {
+    const task = await findTask({ id: searchParams.get("taskId") });
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+    const media = await loadTaskMedia(
+      { occurrenceId: parseOccurrenceId(task.id) ? null : task.id, seriesId: seriesIdOf(task) },
+      user,
+      can(user, "tasks.edit")
+    );
+    return NextResponse.json({ media });
+  } catch (err) {
+    console.error("Failed to load task media:", err);
+    return NextResponse.json({ error: "Unable to load task media" }, { status: 500 });
+  }
+});
+
+// Uploads one file (multipart `file`) for the task given by `taskId`, or by
+// `taskName` plus the schedule `date`. It is linked to that occurrence, or to
+// the whole series when `reference` is "true" (task editors only).
+export const POST = withAuth(null, async (req: Request, user) => {
+  const formData = await req.formData().catch(() => null);
+  const file = formData?.get("file");
+  if (!formData || !(file instanceof File)) {
+    return NextResponse.json({ error: "Missing file" }, { status: 400 });
+  }
+  const reference = formData.get("reference") === "true";
+  if (reference && !can(user, "tasks.edit")) {
+    return NextResponse.json({ error: "You do not have permission to do that" }, { status: 403 });
+  }
+
+  try {
+    const task = await findTask({
+      id: formData.get("taskId"),
+      name: formData.get("taskName"),
+      date: formData.get("date"),
+    });
+    const occurrence = task ? parseOccurrenceId(task.id) : null;
+    const taskId = !task
+      ? null
+      : reference
+        ? seriesIdOf(task)
+        : occurrence
+          ? await materializeOccurrence(occurrence.rootId, occurrence.date)
+          : task.id;
+    if (!taskId) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+    const { error, media } = await uploadTaskMedia({ taskId, reference, file, user });
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    return NextResponse.json({ ok: true, taskId, media });
+  } catch (err) {
+    console.error("Failed to upload task media:", err);
+    return NextResponse.json({ error: "Unable to upload media" }, { status: 500 });
+  }
+});
+
+// Removes a media item. Uploaders can remove their own; task editors any.
+export const DELETE = withAuth(null, async (req: Request, user) => {
+  const body = await req.json().catch(() => null);
+  if (!body?.id) {
+    return NextResponse.json({ error: "Missing media id" }, { status: 400 });
+  }
+
+  try {
+    const media = await findTaskMedia(body.id);
+    if (!media) {
+      return NextResponse.json({ error: "Media not found" }, { status: 404 });
+    }
+    if (media.uploaded_by !== user.id && !can(user, "tasks.edit")) {
+      return NextResponse.json({ error: "You can only remove media you uploaded" }, { status: 403 });
+    }
+    await deleteTaskMedia(media);
+    return NextResponse.json({ ok: true });
+  } catch (err) {
+    console.error("Failed to delete task media:", err);
+    return NextResponse.json({ error: "Unable to remove media" }, { status: 500 });
+  }
+});
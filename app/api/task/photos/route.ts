@@ -1,46 +1,41 @@
 import { NextResponse } from "next/server";
-
-const BLOB_TOKEN = process.env.BLOB_READ_WRITE_TOKEN as string | undefined;
-
-export async function POST(req: Request) {
-  if (!BLOB_TOKEN) {
-    return NextResponse.json({ error: "BLOB_READ_WRITE_TOKEN is not set" }, { status: 500 });
-  }
-
-  const formData = await req.formData();
-  const file = formData.get("file") as File | null;
-
-  if (!file) {
+import { withAuth } from "@/lib/permissions";
+import { uploadTaskMedia } from "@/lib/taskMedia";
+import { findTaskOccurrence, OCCURRENCE_LOOKUP_SELECT, seriesIdOf } from "@/lib/tasks";
+
+// Image-only uploads from the admin schedule editor's task panel. They describe
+// the task rather than one day, so they are stored as reference media on the
+// series, through the same storage as /api/task/media.
+export const POST = withAuth("tasks.edit", async (req: Request, user) => {
+  const formData = await req.formData().catch(() => null);
+  const file = formData?.get("file");
+  const taskName = formData?.get("taskName");
+
+  if (!(file instanceof File)) {
     return NextResponse.json({ error: "Missing file" }, { status: 400 });
   }
-  if (!file.type.startsWith("image/")) {
-    return NextResponse.json({ error: "Only image uploads are supported" }, { status: 400 });
+  if (typeof taskName !== "string" || !taskName.trim()) {
+    return NextResponse.json({ error: "Missing task name" }, { status: 400 });
   }
-  if (file.size > 550 * 1024) {
-    return NextResponse.json({ error: "Image exceeds 550kb after compression attempt" }, { status: 400 });
-  }
-
-  const safeName = file.name.replace(/[^a-zA-Z0-9._-]+/g, "-");
-  const uploadRes = await fetch("https://api.vercel.com/v2/blobs", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${BLOB_TOKEN}`,
-      "Content-Type": file.type || "application/octet-stream",
-      "x-vercel-filename": safeName,
-    },
-    body: file,
-  });
 
-  const uploadJson = await uploadRes.json();
-  if (!uploadRes.ok) {
-    const friendly = uploadJson?.error?.message || "Failed to upload to Vercel Blob";
-    return NextResponse.json({ error: friendly }, { status: uploadRes.status });
+  try {
+    const task = await findTaskOccurrence(OCCURRENCE_LOOKUP_SELECT, taskName.trim(), null);
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+    const { error, media } = await uploadTaskMedia({
+      taskId: seriesIdOf(task),
+      reference: true,
+      file,
+      user,
+      allowed: ["image"],
+    });
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    return NextResponse.json({ url: media?.url, media });
+  } catch (err) {
+    console.error("Failed to upload task photo:", err);
+    return NextResponse.json({ error: "Unable to upload photo" }, { status: 500 });
   }
-
-  const blobUrl = uploadJson?.url;
-  if (!blobUrl) {
-    return NextResponse.json({ error: "Blob URL missing from upload response" }, { status: 500 });
-  }
-
-  return NextResponse.json({ url: blobUrl });
-}
+});
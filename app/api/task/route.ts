@@ -1,7 +1,58 @@
 import { NextResponse } from "next/server";
+import { can, withAuth } from "@/lib/permissions";
+import type { RecurrenceColumns } from "@/lib/recurrence";
+import { getHawaiiDate, parseDateLabel } from "@/lib/schedule";
 import { supabaseRequest } from "@/lib/supabase";
+import { checklistProgress, loadChecklist } from "@/lib/taskChecklists";
+import { addTaskComment, countComments, loadTaskComments } from "@/lib/taskComments";
+import { loadBlockers } from "@/lib/taskDependencies";
+import { loadTaskMedia } from "@/lib/taskMedia";
+import { isTaskStatus, lastCompletion, loadStatusHistory, recordStatusChange } from "@/lib/taskHistory";
+import { loadTimeEntries, parseEstimatedMinutes, trackedMinutes } from "@/lib/taskTime";
+import {
+  findTaskById,
+  findTaskOccurrence,
+  materializeOccurrence,
+  parseOccurrenceId,
+  seriesIdOf,
+} from "@/lib/tasks";
 
-export async function GET(req: Request) {
+type TaskDetailRow = Partial<RecurrenceColumns> & {
+  id: string;
+  name: string;
+  description: string | null;
+  status: string | null;
+  extra_notes: string[] | null;
+  links: string[] | null;
+  estimated_time: string | null;
+  recurring: boolean;
+  origin_date: string | null;
+  occurrence_date: string | null;
+  parent_task_id: string | null;
+  task_type: { name: string; color: string | null } | null;
+};
+
+const TASK_DETAIL_SELECT =
+  "id,name,description,status,extra_notes,links,estimated_time,recurring,recurrence_interval,recurrence_unit,recurrence_weekdays,recurrence_setpos,recurrence_until,recurrence_count,recurrence_exdates,origin_date,occurrence_date,parent_task_id,task_type:task_types(name,color)";
+
+// Tasks are addressed by id (virtual occurrence ids included) or, from
+// schedule cells, by name plus the schedule day they appear on.
+function findTask(params: { id?: unknown; name?: unknown; date?: unknown }) {
+  const id = typeof params.id === "string" ? params.id.trim() : "";
+  if (id) return findTaskById<TaskDetailRow>(TASK_DETAIL_SELECT, id);
+  const name = typeof params.name === "string" ? params.name.trim() : "";
+  if (!name) return Promise.resolve(null);
+  const date = parseDateLabel(typeof params.date === "string" ? params.date : null);
+  return findTaskOccurrence<TaskDetailRow>(TASK_DETAIL_SELECT, name, date);
+}
+
+// Computed occurrences get a row before anything is recorded against them.
+async function storedTaskId(task: TaskDetailRow) {
+  const occurrence = parseOccurrenceId(task.id);
+  return occurrence ? materializeOccurrence(occurrence.rootId, occurrence.date) : task.id;
+}
+
+export const GET = withAuth(null, async (req: Request, user) => {
   const { searchParams } = new URL(req.url);
   const listOnly = searchParams.get("list");
   const name = searchParams.get("name") || "";
@@ -28,48 +79,119 @@ export async function GET(req: Request) {
     }
   }
 
-  if (!name.trim()) {
+  const id = searchParams.get("id") || "";
+  if (!name.trim() && !id) {
     return NextResponse.json({ error: "Missing task name" }, { status: 400 });
   }
 
   try {
-    const data = await supabaseRequest<any[]>("tasks", {
-      query: {
-        select:
-          "id,name,description,status,extra_notes,links,estimated_time,task_type:task_types(name,color)",
-        name: `ilike.${name}`,
-        order: "created_at.desc",
-        limit: 1,
-      },
-    });
-    const task = data?.[0];
+    const task = await findTask({ id, name, date: searchParams.get("date") });
     if (!task) {
       return NextResponse.json({ error: "Task not found" }, { status: 404 });
     }
+    const isComputed = Boolean(parseOccurrenceId(task.id));
+    const day = task.occurrence_date || parseDateLabel(searchParams.get("date")) || getHawaiiDate();
+    const [comments, history, completed, checklist, blockedBy, timeEntries, media] = await Promise.all([
+      isComputed ? Promise.resolve([]) : loadTaskComments(task.id, user, can(user, "tasks.edit")),
+      isComputed ? Promise.resolve([]) : loadStatusHistory({ taskId: task.id, limit: 20 }),
+      lastCompletion(seriesIdOf(task)),
+      loadChecklist(seriesIdOf(task), isComputed ? null : task.id),
+      loadBlockers(seriesIdOf(task), day),
+      isComputed ? Promise.resolve([]) : loadTimeEntries(task.id, user),
+      loadTaskMedia(
+        { occurrenceId: isComputed ? null : task.id, seriesId: seriesIdOf(task) },
+        user,
+        can(user, "tasks.edit")
+      ),
+    ]);
     return NextResponse.json({
+      id: task.id,
       name: task.name,
+      occurrenceDate: task.occurrence_date,
       description: task.description || "",
       extraNotes: task.extra_notes || [],
       status: task.status || "",
-      comments: [],
-      media: [],
+      comments,
+      commentCount: countComments(comments),
+      history,
+      lastCompleted: completed ? { by: completed.by, at: completed.at } : null,
+      checklist,
+      checklistProgress: checklistProgress(checklist),
+      blockedBy,
+      media,
       links: task.links || [],
       taskType: task.task_type
         ? { name: task.task_type.name, color: task.task_type.color || "default" }
         : { name: "", color: "default" },
       estimatedTime: task.estimated_time || "",
+      estimatedMinutes: parseEstimatedMinutes(task.estimated_time),
+      timeEntries,
+      trackedMinutes: trackedMinutes(timeEntries),
       properties: [],
     });
   } catch (err) {
     console.error("Failed to load task:", err);
     return NextResponse.json({ error: "Failed to fetch task" }, { status: 500 });
   }
-}
+});
 
-export async function PATCH() {
-  return NextResponse.json({ success: true });
-}
+// Changes the status of one occurrence and records the change in its history.
+export const PATCH = withAuth(null, async (req: Request, user) => {
+  const body = await req.json().catch(() => null);
+  if (!body || (!body.id && !body.name)) {
+    return NextResponse.json({ error: "Missing task" }, { status: 400 });
+  }
+  if (!isTaskStatus(body.status)) {
+    return NextResponse.json({ error: "Unknown status" }, { status: 400 });
+  }
 
-export async function POST() {
-  return NextResponse.json({ success: true });
-}
+  try {
+    const task = await findTask(body);
+    const taskId = task ? await storedTaskId(task) : null;
+    if (!task || !taskId) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const previous = await recordStatusChange({
+      taskId,
+      seriesId: seriesIdOf(task),
+      toStatus: body.status,
+      user,
+      scheduleDate: parseDateLabel(body.date) || task.occurrence_date,
+      slotKey: typeof body.slotId === "string" ? body.slotId : null,
+      slotLabel: typeof body.slotLabel === "string" ? body.slotLabel : null,
+    });
+    if (previous === undefined) {
+      return NextResponse.json(
+        { error: "Someone else is updating this task. Please try again." },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json({ ok: true, id: taskId, from: previous, status: body.status });
+  } catch (err) {
+    console.error("Failed to update task status:", err);
+    return NextResponse.json({ error: "Unable to update task status" }, { status: 500 });
+  }
+});
+
+// Adds a comment to a task, as the signed-in user.
+export const POST = withAuth(null, async (req: Request, user) => {
+  const body = await req.json().catch(() => null);
+  const comment = typeof body?.comment === "string" ? body.comment.trim() : "";
+  if (!body || (!body.id && !body.name) || !comment) {
+    return NextResponse.json({ error: "Missing task name or comment" }, { status: 400 });
+  }
+
+  try {
+    const task = await findTask(body);
+    const taskId = task ? await storedTaskId(task) : null;
+    if (!taskId) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+    await addTaskComment({ taskId, author: user, body: comment });
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("Failed to add task comment:", err);
+    return NextResponse.json({ error: "Unable to add comment" }, { status: 500 });
+  }
+});
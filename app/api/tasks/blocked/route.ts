@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
+import { getHawaiiDate, parseDateLabel } from "@/lib/schedule";
+import { loadBlockedTasks } from "@/lib/taskDependencies";
+
+// Tasks due on a day that are still waiting on an unfinished prerequisite.
+export const GET = withAuth(null, async (req: Request) => {
+  const { searchParams } = new URL(req.url);
+  const date = parseDateLabel(searchParams.get("date")) || getHawaiiDate();
+
+  try {
+    const blocked = await loadBlockedTasks(date);
+    return NextResponse.json({
+      date,
+      tasks: Array.from(blocked.values()).map(({ task, blockers }) => ({
+        id: task.id,
+        name: task.name,
+        blockedBy: blockers,
+      })),
+    });
+  } catch (err) {
+    console.error("Failed to load blocked tasks:", err);
+    return NextResponse.json({ date, tasks: [] });
+  }
+});
@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
+import {
+  checklistProgress,
+  loadChecklist,
+  saveChecklist,
+  setChecklistTick,
+  validateChecklist,
+  type ChecklistDraftItem,
+} from "@/lib/taskChecklists";
+import {
+  findTaskById,
+  materializeOccurrence,
+  OCCURRENCE_LOOKUP_SELECT,
+  parseOccurrenceId,
+  seriesIdOf,
+} from "@/lib/tasks";
+
+async function findTask(id: unknown) {
+  if (typeof id !== "string" || !id) return null;
+  return findTaskById(OCCURRENCE_LOOKUP_SELECT, id);
+}
+
+export const GET = withAuth(null, async (req: Request) => {
+  const { searchParams } = new URL(req.url);
+  try {
+    const task = await findTask(searchParams.get("taskId"));
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+    const items = await loadChecklist(seriesIdOf(task), parseOccurrenceId(task.id) ? null : task.id);
+    return NextResponse.json({ items, progress: checklistProgress(items) });
+  } catch (err) {
+    console.error("Failed to load checklist:", err);
+    return NextResponse.json({ error: "Unable to load checklist" }, { status: 500 });
+  }
+});
+
+// Ticks or unticks a step for one occurrence.
+export const POST = withAuth(null, async (req: Request, user) => {
+  const body = await req.json().catch(() => null);
+  if (!body?.taskId || !body?.itemId) {
+    return NextResponse.json({ error: "Missing task or checklist step" }, { status: 400 });
+  }
+
+  try {
+    const task = await findTask(body.taskId);
+    const occurrence = task ? parseOccurrenceId(task.id) : null;
+    const occurrenceId = occurrence ? await materializeOccurrence(occurrence.rootId, occurrence.date) : task?.id;
+    if (!task || !occurrenceId) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    const seriesId = seriesIdOf(task);
+    const items = await loadChecklist(seriesId, occurrenceId);
+    if (!items.some((item) => item.id === body.itemId)) {
+      return NextResponse.json({ error: "Checklist step not found" }, { status: 404 });
+    }
+
+    await setChecklistTick({ itemId: body.itemId, occurrenceId, user, checked: Boolean(body.checked) });
+    const updated = await loadChecklist(seriesId, occurrenceId);
+    return NextResponse.json({ ok: true, taskId: occurrenceId, items: updated, progress: checklistProgress(updated) });
+  } catch (err) {
+    console.error("Failed to update checklist:", err);
+    return NextResponse.json({ error: "Unable to update checklist" }, { status: 500 });
+  }
+});
+
+// Replaces the steps of the task's series.
+export const PATCH = withAuth("tasks.edit", async (req: Request) => {
+  const body = await req.json().catch(() => null);
+  if (!body?.taskId) {
+    return NextResponse.json({ error: "Missing taskId" }, { status: 400 });
+  }
+  const error = validateChecklist(body.items);
+  if (error) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  try {
+    const task = await findTask(body.taskId);
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+    const items = await saveChecklist(
+      seriesIdOf(task),
+      (body.items as ChecklistDraftItem[]).map((item) => ({ id: item.id || null, label: String(item.label) }))
+    );
+    return NextResponse.json({ ok: true, items: items.map((item) => ({ id: item.id, label: item.label })) });
+  } catch (err) {
+    console.error("Failed to save checklist:", err);
+    return NextResponse.json({ error: "Unable to save checklist" }, { status: 500 });
+  }
+});
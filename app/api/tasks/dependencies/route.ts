@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
+import { loadDependents, loadPrerequisites, savePrerequisites } from "@/lib/taskDependencies";
+import { findTaskById, OCCURRENCE_LOOKUP_SELECT, seriesIdOf } from "@/lib/tasks";
+
+async function findSeriesId(id: unknown) {
+  if (typeof id !== "string" || !id) return null;
+  const task = await findTaskById(OCCURRENCE_LOOKUP_SELECT, id);
+  return task ? seriesIdOf(task) : null;
+}
+
+export const GET = withAuth(null, async (req: Request) => {
+  const { searchParams } = new URL(req.url);
+  try {
+    const seriesId = await findSeriesId(searchParams.get("taskId"));
+    if (!seriesId) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+    const [prerequisites, dependents] = await Promise.all([
+      loadPrerequisites([seriesId]),
+      loadDependents(seriesId),
+    ]);
+    return NextResponse.json({ prerequisites: prerequisites.get(seriesId) || [], dependents });
+  } catch (err) {
+    console.error("Failed to load task dependencies:", err);
+    return NextResponse.json({ error: "Unable to load dependencies" }, { status: 500 });
+  }
+});
+
+// Replaces the prerequisites of the task's series.
+export const PATCH = withAuth("tasks.edit", async (req: Request) => {
+  const body = await req.json().catch(() => null);
+  if (!body?.taskId || !Array.isArray(body.prerequisiteIds)) {
+    return NextResponse.json({ error: "Missing taskId or prerequisiteIds" }, { status: 400 });
+  }
+
+  try {
+    const seriesId = await findSeriesId(body.taskId);
+    if (!seriesId) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+    const ids = (body.prerequisiteIds as unknown[]).filter((id): id is string => typeof id === "string" && !!id);
+    const { error } = await savePrerequisites(seriesId, ids);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    const prerequisites = await loadPrerequisites([seriesId]);
+    return NextResponse.json({ ok: true, prerequisites: prerequisites.get(seriesId) || [] });
+  } catch (err) {
+    console.error("Failed to save task dependencies:", err);
+    return NextResponse.json({ error: "Unable to save dependencies" }, { status: 500 });
+  }
+});
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
+import { hawaiiDayBounds, parseDateLabel } from "@/lib/schedule";
+import { loadStatusHistory } from "@/lib/taskHistory";
+import { parseOccurrenceId } from "@/lib/tasks";
+
+// Status change history. `taskId` narrows to one occurrence, `seriesId` to
+// every occurrence of a recurring task; `status=Completed` gives completions.
+export const GET = withAuth(null, async (req: Request) => {
+  const { searchParams } = new URL(req.url);
+  const taskId = searchParams.get("taskId") || "";
+  const from = parseDateLabel(searchParams.get("from"));
+  const to = parseDateLabel(searchParams.get("to"));
+
+  if (taskId && parseOccurrenceId(taskId)) {
+    return NextResponse.json({ events: [] });
+  }
+
+  try {
+    const events = await loadStatusHistory({
+      taskId: taskId || null,
+      seriesId: searchParams.get("seriesId") || null,
+      userId: searchParams.get("userId") || null,
+      status: searchParams.get("status") || null,
+      limit: Number(searchParams.get("limit")) || undefined,
+      ...hawaiiDayBounds(from, to),
+    });
+    return NextResponse.json({ events });
+  } catch (err) {
+    console.error("Failed to load task history:", err);
+    return NextResponse.json({ error: "Unable to load task history" }, { status: 500 });
+  }
+});
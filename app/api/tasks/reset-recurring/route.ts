@@ -1,5 +1,33 @@
 import { NextResponse } from "next/server";
+import { runWithAuditActor, SYSTEM_ACTORS } from "@/lib/audit";
+import { withAuth } from "@/lib/permissions";
+import { resetRecurringTasks } from "@/lib/taskReset";
 
-export async function POST() {
-  return NextResponse.json({ updated: 0 });
+// Called by the hourly Vercel cron, which has no session. Vercel sends
+// CRON_SECRET as a bearer token; without a configured secret nothing gets in.
+export async function GET(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error("CRON_SECRET is not set; refusing recurring task reset from cron");
+    return NextResponse.json({ error: "Not authorized" }, { status: 401 });
+  }
+  if (req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Not authorized" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await runWithAuditActor(SYSTEM_ACTORS.cron, resetRecurringTasks));
+  } catch (err) {
+    console.error("Failed to reset recurring tasks:", err);
+    return NextResponse.json({ error: "Unable to reset recurring tasks" }, { status: 500 });
+  }
 }
+
+export const POST = withAuth("tasks.edit", async () => {
+  try {
+    return NextResponse.json(await resetRecurringTasks());
+  } catch (err) {
+    console.error("Failed to reset recurring tasks:", err);
+    return NextResponse.json({ error: "Unable to reset recurring tasks" }, { status: 500 });
+  }
+});
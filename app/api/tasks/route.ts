@@ -1,15 +1,48 @@
 import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
+import {
+  addDays,
+  expandRecurrence,
+  RECURRENCE_COLUMNS,
+  ruleFromColumns,
+  validateRecurrence,
+} from "@/lib/recurrence";
+import { getHawaiiDate } from "@/lib/schedule";
 import { supabaseRequest } from "@/lib/supabase";
+import { copyChecklist } from "@/lib/taskChecklists";
+import { copyDependencies } from "@/lib/taskDependencies";
+import {
+  addSeriesException,
+  detachFirstOccurrence,
+  loadSeriesRoots,
+  loadStoredOccurrences,
+  materializeOccurrence,
+  parseOccurrenceId,
+  pruneSeriesOccurrences,
+  seriesFilter,
+  splitSeries,
+  virtualOccurrences,
+  withoutDetachedRoots,
+  type TaskRow,
+} from "@/lib/tasks";
+
+// Without an explicit `end`, computed occurrences are listed this far ahead.
+const OCCURRENCE_HORIZON_DAYS = 60;
 
 function buildRangeFilter(start?: string, end?: string) {
   if (!start && !end) return {};
   const filter: Record<string, string> = {};
-  if (start) filter.occurrence_date = `gte.${start}`;
-  if (end) filter.occurrence_date = `lte.${end}`;
+  if (start && end) {
+    filter.and = `(occurrence_date.gte.${start},occurrence_date.lte.${end})`;
+  } else if (start) {
+    filter.occurrence_date = `gte.${start}`;
+  } else if (end) {
+    filter.occurrence_date = `lte.${end}`;
+  }
   return filter;
 }
 
-export async function GET(req: Request) {
+export const GET = withAuth(null, async (req: Request) => {
   const { searchParams } = new URL(req.url);
   const status = searchParams.get("status") || "";
   const type = searchParams.get("type") || "";
@@ -22,7 +55,7 @@ export async function GET(req: Request) {
 
   const query: Record<string, string> = {
     select:
-      "id,name,description,status,priority,estimated_time,recurring,recurrence_interval,recurrence_unit,recurrence_until,origin_date,occurrence_date,person_count,links,comments,photos,time_slots,extra_notes,task_type:task_types(id,name,color)",
+      "id,name,description,status,priority,estimated_time,recurring,recurrence_interval,recurrence_unit,recurrence_weekdays,recurrence_setpos,recurrence_until,recurrence_count,recurrence_exdates,origin_date,occurrence_date,parent_task_id,person_count,links,photos,time_slots,required_capabilities,extra_notes,task_type:task_types(id,name,color)",
     order: "created_at.desc",
     ...buildRangeFilter(start, end),
   };
@@ -36,41 +69,53 @@ export async function GET(req: Request) {
 
   try {
     const data = await supabaseRequest<any[]>("tasks", { query });
-    return NextResponse.json({ tasks: data || [] });
-  } catch (err: any) {
-    const message = String(err?.message || "");
-    if (message.includes("comments")) {
-      const fallbackQuery = { ...query };
-      fallbackQuery.select = fallbackQuery.select.replace(",comments", "");
-      try {
-        const data = await supabaseRequest<any[]>("tasks", { query: fallbackQuery });
-        return NextResponse.json({ tasks: data || [] });
-      } catch (fallbackErr) {
-        console.error("Failed to load tasks (fallback):", fallbackErr);
-      }
+    // Without occurrences the list is one row per series, so roots all stay.
+    const tasks = includeOccurrences ? withoutDetachedRoots(data || []) : data || [];
+    if (!includeOccurrences || recurring === "false" || (status && status !== "Not Started")) {
+      return NextResponse.json({ tasks });
     }
+
+    const windowEnd = end || addDays(start || getHawaiiDate(), OCCURRENCE_HORIZON_DAYS);
+    const rootFilters: Record<string, string> = {};
+    if (priority) rootFilters.priority = query.priority;
+    if (type) rootFilters.task_type_id = query.task_type_id;
+    if (search) rootFilters.name = query.name;
+    const [roots, stored] = await Promise.all([
+      loadSeriesRoots<TaskRow>(query.select, start || null, windowEnd, rootFilters),
+      loadStoredOccurrences(start || null, windowEnd),
+    ]);
+    return NextResponse.json({
+      tasks: [...tasks, ...virtualOccurrences(roots, stored, start || null, windowEnd)],
+    });
+  } catch (err) {
     console.error("Failed to load tasks:", err);
     return NextResponse.json({ tasks: [] });
   }
-}
+});
 
-export async function POST(req: Request) {
+export const POST = withAuth("tasks.edit", async (req: Request) => {
   const body = await req.json().catch(() => null);
   if (!body?.name) {
     return NextResponse.json({ error: "Missing name" }, { status: 400 });
   }
 
+  const isRecurring = Boolean(body.recurring);
+  const ruleError = isRecurring ? validateRecurrence(body) : null;
+  if (ruleError) {
+    return NextResponse.json({ error: ruleError }, { status: 400 });
+  }
+
   try {
-    const isRecurring = Boolean(body.recurring);
     const originDate = body.origin_date || body.occurrence_date;
-    const interval = Number(body.recurrence_interval || 1);
-    const unit = body.recurrence_unit;
-    const until = body.recurrence_until;
+    const rule = isRecurring ? ruleFromColumns(body) : null;
+    // Only the series root is stored; later occurrences are computed on read.
+    const [firstDate] =
+      rule && originDate ? expandRecurrence(originDate, rule, { to: addDays(originDate, 3660) }) : [];
 
     const payload = {
       ...body,
       origin_date: originDate,
-      occurrence_date: originDate,
+      occurrence_date: firstDate ?? originDate,
       recurring: isRecurring,
     };
 
@@ -81,65 +126,57 @@ export async function POST(req: Request) {
       body: payload,
     });
 
-    if (parent && isRecurring && originDate && until && interval > 0 && unit) {
-      const occurrences: Record<string, unknown>[] = [];
-      const startDate = new Date(originDate);
-      const endDate = new Date(until);
-      const nextDate = new Date(startDate);
-
-      while (true) {
-        if (unit === "day") {
-          nextDate.setDate(nextDate.getDate() + interval);
-        } else if (unit === "month") {
-          nextDate.setMonth(nextDate.getMonth() + interval);
-        } else if (unit === "year") {
-          nextDate.setFullYear(nextDate.getFullYear() + interval);
-        }
-
-        if (nextDate > endDate) break;
-
-        occurrences.push({
-          ...body,
-          origin_date: originDate,
-          occurrence_date: nextDate.toISOString().slice(0, 10),
-          parent_task_id: parent.id,
-          recurring: true,
-        });
-      }
-
-      if (occurrences.length) {
-        await supabaseRequest("tasks", {
-          method: "POST",
-          prefer: "return=minimal",
-          body: occurrences,
-        });
-      }
-    }
-
     return NextResponse.json({ task: parent });
-  } catch (err: any) {
-    const message = String(err?.message || "");
-    if (message.includes("comments")) {
-      try {
-        const fallbackBody = { ...body };
-        delete fallbackBody.comments;
-        const [parent] = await supabaseRequest<any[]>("tasks", {
-          method: "POST",
-          prefer: "return=representation",
-          query: { select: "*" },
-          body: fallbackBody,
-        });
-        return NextResponse.json({ task: parent });
-      } catch (fallbackErr) {
-        console.error("Failed to create task (fallback):", fallbackErr);
-      }
-    }
+  } catch (err) {
     console.error("Failed to create task:", err);
     return NextResponse.json({ error: "Unable to create task" }, { status: 500 });
   }
+});
+
+async function patchTasks(filters: Record<string, string>, updates: Record<string, unknown>) {
+  await supabaseRequest("tasks", {
+    method: "PATCH",
+    query: filters,
+    body: updates,
+  });
 }
 
-export async function PATCH(req: Request) {
+// Resolves the row or series an edit targets. Computed occurrences arrive with
+// a virtual id; a single-occurrence edit gives them a row of their own first.
+async function resolveSeries(id: string, applyTo: string, occurrenceDate?: string) {
+  const virtual = parseOccurrenceId(id);
+  if (virtual && applyTo === "single") {
+    const materialized = await materializeOccurrence(virtual.rootId, virtual.date);
+    return materialized
+      ? { taskId: materialized, rootId: virtual.rootId, compareDate: virtual.date, recurring: true }
+      : null;
+  }
+
+  const data = await supabaseRequest<
+    { id: string; parent_task_id: string | null; occurrence_date: string | null; recurring: boolean }[]
+  >("tasks", {
+    query: { select: "id,parent_task_id,occurrence_date,recurring", id: `eq.${virtual?.rootId ?? id}`, limit: 1 },
+  });
+  const target = data?.[0];
+  if (!target) return null;
+  return {
+    taskId: target.id,
+    rootId: target.parent_task_id || target.id,
+    compareDate: occurrenceDate || virtual?.date || target.occurrence_date,
+    recurring: Boolean(target.recurring),
+  };
+}
+
+async function seriesStartsOnOrAfter(rootId: string, date: string | null) {
+  if (!date) return true;
+  const data = await supabaseRequest<{ occurrence_date: string | null }[]>("tasks", {
+    query: { select: "occurrence_date", id: `eq.${rootId}`, limit: 1 },
+  });
+  const first = data?.[0]?.occurrence_date;
+  return !first || date <= first;
+}
+
+export const PATCH = withAuth("tasks.edit", async (req: Request) => {
   const body = await req.json().catch(() => null);
   const { id, applyTo = "single", occurrenceDate, deleteOccurrences } = body || {};
 
@@ -153,98 +190,71 @@ export async function PATCH(req: Request) {
   delete updates.occurrenceDate;
   delete updates.deleteOccurrences;
 
+  const ruleError = updates.recurring === true ? validateRecurrence(updates) : null;
+  if (ruleError) {
+    return NextResponse.json({ error: ruleError }, { status: 400 });
+  }
+  const touchesRule =
+    updates.recurring !== false && RECURRENCE_COLUMNS.some((column) => column in updates);
+  // Every occurrence keeps its own date when a whole series is edited.
+  const seriesUpdates = { ...updates };
+  delete seriesUpdates.occurrence_date;
+
   try {
-    if (applyTo === "single") {
-    try {
-      await supabaseRequest("tasks", {
-        method: "PATCH",
-        query: { id: `eq.${id}` },
-        body: updates,
-      });
-    } catch (err: any) {
-      const message = String(err?.message || "");
-      if (message.includes("comments")) {
-        const fallbackUpdates = { ...updates };
-        delete (fallbackUpdates as Record<string, unknown>).comments;
-        await supabaseRequest("tasks", {
-          method: "PATCH",
-          query: { id: `eq.${id}` },
-          body: fallbackUpdates,
-        });
-      } else {
-        throw err;
-      }
+    const series = await resolveSeries(id, applyTo, occurrenceDate);
+    if (!series) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
     }
+    const { taskId, rootId, compareDate } = series;
+
+    if (applyTo === "single") {
+      // The root also carries the series definition, so a one-day edit of the
+      // first occurrence goes to a row of its own; only rule changes touch the root.
+      const firstDay =
+        taskId === rootId && !touchesRule && updates.recurring !== false
+          ? await detachFirstOccurrence(rootId)
+          : null;
+      await patchTasks({ id: `eq.${firstDay ?? taskId}` }, updates);
 
       if (updates.recurring === false && deleteOccurrences) {
         await supabaseRequest("tasks", {
           method: "DELETE",
-          query: { parent_task_id: `eq.${id}` },
+          query: { parent_task_id: `eq.${taskId}` },
         });
+      } else if (touchesRule && taskId === rootId) {
+        // Editing a series root (or making a one-off task recurring) defines the series.
+        await pruneSeriesOccurrences(rootId);
       }
 
       return NextResponse.json({ ok: true });
     }
 
-    const seriesData = await supabaseRequest<any[]>("tasks", {
-      query: { select: "id,parent_task_id,occurrence_date", id: `eq.${id}`, limit: 1 },
-    });
-    const target = seriesData?.[0];
-    if (!target) {
-      return NextResponse.json({ error: "Task not found" }, { status: 404 });
-    }
-
-    const seriesRoot = target.parent_task_id || target.id;
-    const compareDate = occurrenceDate || target.occurrence_date;
-
-    const filters: Record<string, string> = {};
-    if (applyTo === "all") {
-      filters.or = `id.eq.${seriesRoot},parent_task_id.eq.${seriesRoot}`;
-    } else if (applyTo === "future") {
-      filters.or = `id.eq.${seriesRoot},parent_task_id.eq.${seriesRoot}`;
-      if (compareDate) {
-        filters.occurrence_date = `gte.${compareDate}`;
-      }
-    } else {
-      filters.id = `eq.${id}`;
-    }
-
-    try {
-      await supabaseRequest("tasks", {
-        method: "PATCH",
-        query: filters,
-        body: updates,
-      });
-    } catch (err: any) {
-      const message = String(err?.message || "");
-      if (message.includes("comments")) {
-        const fallbackUpdates = { ...updates };
-        delete (fallbackUpdates as Record<string, unknown>).comments;
+    if (applyTo === "future" && !(await seriesStartsOnOrAfter(rootId, compareDate))) {
+      const from = compareDate as string;
+      if (updates.recurring === false && deleteOccurrences) {
         await supabaseRequest("tasks", {
-          method: "PATCH",
-          query: filters,
-          body: fallbackUpdates,
+          method: "DELETE",
+          query: { parent_task_id: `eq.${rootId}`, occurrence_date: `gte.${from}` },
         });
-      } else {
-        throw err;
+        await patchTasks({ or: seriesFilter(rootId) }, { recurrence_until: addDays(from, -1) });
+        return NextResponse.json({ ok: true });
       }
+
+      const nextRoot = await splitSeries(rootId, from, seriesUpdates);
+      if (nextRoot) await Promise.all([copyChecklist(rootId, nextRoot), copyDependencies(rootId, nextRoot)]);
+      if (nextRoot && touchesRule) await pruneSeriesOccurrences(nextRoot);
+      return NextResponse.json({ ok: true, id: nextRoot });
     }
 
-    if (updates.recurring === false && deleteOccurrences) {
-      const deleteFilters: Record<string, string> = {};
-      if (applyTo === "all") {
-        deleteFilters.or = `id.eq.${seriesRoot},parent_task_id.eq.${seriesRoot}`;
-      } else {
-        deleteFilters.parent_task_id = `eq.${seriesRoot}`;
-        if (applyTo === "future" && compareDate) {
-          deleteFilters.occurrence_date = `gte.${compareDate}`;
-        }
-      }
+    await patchTasks({ or: seriesFilter(rootId) }, seriesUpdates);
 
+    if (updates.recurring === false && deleteOccurrences) {
       await supabaseRequest("tasks", {
         method: "DELETE",
-        query: deleteFilters,
+        query: { parent_task_id: `eq.${rootId}` },
       });
+    } else if (touchesRule) {
+      await pruneSeriesOccurrences(rootId);
     }
 
     return NextResponse.json({ ok: true });
@@ -252,9 +262,9 @@ export async function PATCH(req: Request) {
     console.error("Failed to update task:", err);
     return NextResponse.json({ error: "Unable to update task" }, { status: 500 });
   }
-}
+});
 
-export async function DELETE(req: Request) {
+export const DELETE = withAuth("tasks.edit", async (req: Request) => {
   const body = await req.json().catch(() => null);
   const { id, applyTo = "single", occurrenceDate } = body || {};
 
@@ -263,38 +273,58 @@ export async function DELETE(req: Request) {
   }
 
   try {
-    if (applyTo === "single") {
-      await supabaseRequest("tasks", {
-        method: "DELETE",
-        query: { id: `eq.${id}` },
-      });
+    const virtual = parseOccurrenceId(id);
+    if (virtual && applyTo === "single") {
+      await addSeriesException(virtual.rootId, virtual.date);
       return NextResponse.json({ ok: true });
     }
 
-    const seriesData = await supabaseRequest<any[]>("tasks", {
-      query: { select: "id,parent_task_id,occurrence_date", id: `eq.${id}`, limit: 1 },
-    });
-    const target = seriesData?.[0];
-    if (!target) {
+    const series = await resolveSeries(id, applyTo, occurrenceDate);
+    if (!series) {
       return NextResponse.json({ error: "Task not found" }, { status: 404 });
     }
+    const { taskId, rootId, compareDate } = series;
 
-    const seriesRoot = target.parent_task_id || target.id;
-    const compareDate = occurrenceDate || target.occurrence_date;
+    if (applyTo === "single" && taskId === rootId && series.recurring && compareDate) {
+      // The root row holds the whole series, so deleting its day only removes
+      // that day's own row (if any) and records the date as an exception.
+      await supabaseRequest("tasks", {
+        method: "DELETE",
+        query: { parent_task_id: `eq.${rootId}`, occurrence_date: `eq.${compareDate}` },
+      });
+      await addSeriesException(rootId, compareDate);
+      return NextResponse.json({ ok: true });
+    }
 
-    const filters: Record<string, string> = {};
-    if (applyTo === "all") {
-      filters.or = `id.eq.${seriesRoot},parent_task_id.eq.${seriesRoot}`;
-    } else {
-      filters.parent_task_id = `eq.${seriesRoot}`;
-      if (compareDate) {
-        filters.occurrence_date = `gte.${compareDate}`;
+    if (applyTo === "single") {
+      await supabaseRequest("tasks", {
+        method: "DELETE",
+        query: { id: `eq.${taskId}` },
+      });
+      if (taskId !== rootId && compareDate) {
+        await addSeriesException(rootId, compareDate);
       }
+      return NextResponse.json({ ok: true });
     }
 
+    if (applyTo === "all" || (await seriesStartsOnOrAfter(rootId, compareDate))) {
+      await supabaseRequest("tasks", {
+        method: "DELETE",
+        query: { or: seriesFilter(rootId) },
+      });
+      return NextResponse.json({ ok: true });
+    }
+
+    // End the series the day before; computed occurrences stop with it.
+    const from = compareDate as string;
     await supabaseRequest("tasks", {
       method: "DELETE",
-      query: filters,
+      query: { parent_task_id: `eq.${rootId}`, occurrence_date: `gte.${from}` },
+    });
+    await supabaseRequest("tasks", {
+      method: "PATCH",
+      query: { or: seriesFilter(rootId) },
+      body: { recurrence_until: addDays(from, -1) },
     });
 
     return NextResponse.json({ ok: true });
@@ -302,4 +332,4 @@ export async function DELETE(req: Request) {
     console.error("Failed to delete task:", err);
     return NextResponse.json({ error: "Unable to delete task" }, { status: 500 });
   }
-}
+});
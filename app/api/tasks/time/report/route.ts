@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
+import { hawaiiDayBounds, parseDateLabel } from "@/lib/schedule";
+import { loadTimeReport } from "@/lib/taskTime";
+
+// Estimated vs. tracked minutes per task and task type for timers started
+// between `from` and `to` (inclusive schedule days).
+export const GET = withAuth("tasks.edit", async (req: Request) => {
+  const { searchParams } = new URL(req.url);
+  const from = parseDateLabel(searchParams.get("from"));
+  const to = parseDateLabel(searchParams.get("to"));
+
+  try {
+    const report = await loadTimeReport(hawaiiDayBounds(from, to));
+    return NextResponse.json({ from, to, ...report });
+  } catch (err) {
+    console.error("Failed to load time report:", err);
+    return NextResponse.json({ error: "Unable to load time report" }, { status: 500 });
+  }
+});
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
+import {
+  findTaskById,
+  materializeOccurrence,
+  OCCURRENCE_LOOKUP_SELECT,
+  parseOccurrenceId,
+  seriesIdOf,
+} from "@/lib/tasks";
+import { loadTimeEntries, startTimer, stopTimer, trackedMinutes } from "@/lib/taskTime";
+
+async function findTask(id: unknown) {
+  if (typeof id !== "string" || !id) return null;
+  return findTaskById(OCCURRENCE_LOOKUP_SELECT, id);
+}
+
+export const GET = withAuth(null, async (req: Request, user) => {
+  const { searchParams } = new URL(req.url);
+  try {
+    const task = await findTask(searchParams.get("taskId"));
+    if (!task) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+    const entries = parseOccurrenceId(task.id) ? [] : await loadTimeEntries(task.id, user);
+    return NextResponse.json({ entries, trackedMinutes: trackedMinutes(entries) });
+  } catch (err) {
+    console.error("Failed to load time entries:", err);
+    return NextResponse.json({ error: "Unable to load time entries" }, { status: 500 });
+  }
+});
+
+// Starts or stops the signed-in user's timer on one occurrence.
+export const POST = withAuth(null, async (req: Request, user) => {
+  const body = await req.json().catch(() => null);
+  if (!body?.taskId || (body.action !== "start" && body.action !== "stop")) {
+    return NextResponse.json({ error: "Missing task or timer action" }, { status: 400 });
+  }
+
+  try {
+    const task = await findTask(body.taskId);
+    const occurrence = task ? parseOccurrenceId(task.id) : null;
+    const occurrenceId = occurrence ? await materializeOccurrence(occurrence.rootId, occurrence.date) : task?.id;
+    if (!task || !occurrenceId) {
+      return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    }
+
+    if (body.action === "start") {
+      await startTimer({ occurrenceId, seriesId: seriesIdOf(task), user });
+    } else if (!(await stopTimer({ occurrenceId, user }))) {
+      return NextResponse.json({ error: "No timer is running on this task" }, { status: 409 });
+    }
+
+    const entries = await loadTimeEntries(occurrenceId, user);
+    return NextResponse.json({ ok: true, taskId: occurrenceId, entries, trackedMinutes: trackedMinutes(entries) });
+  } catch (err) {
+    console.error("Failed to update timer:", err);
+    return NextResponse.json({ error: "Unable to update timer" }, { status: 500 });
+  }
+});
@@ -1,7 +1,17 @@
 import { NextResponse } from "next/server";
+import {
+  checkThrottle,
+  clearAttempts,
+  clientAddress,
+  recordFailure,
+  type ThrottleKey,
+} from "@/lib/loginThrottle";
+import { hashPasscode, verifyPasscode } from "@/lib/passcodes";
+import { withAuth } from "@/lib/permissions";
+import { recordSecurityEvent } from "@/lib/securityLog";
 import { supabaseRequest } from "@/lib/supabase";
 
-export async function GET(req: Request) {
+export const GET = withAuth(null, async (req: Request) => {
   const { searchParams } = new URL(req.url);
   const name = (searchParams.get("name") || "").trim();
   if (!name) {
@@ -20,9 +30,9 @@ export async function GET(req: Request) {
     console.error("Failed to load user settings:", err);
     return NextResponse.json({ error: "Unable to load user" }, { status: 500 });
   }
-}
+});
 
-export async function POST(req: Request) {
+export const POST = withAuth(null, async (req: Request, sessionUser) => {
   let body: {
     name?: string;
     currentPassword?: string;
@@ -39,35 +49,96 @@ export async function POST(req: Request) {
     );
   }
 
-  const { name, currentPassword, newPassword, newName } = body;
+  const { currentPassword, newPassword, newName } = body;
 
-  if (!name || !currentPassword) {
+  if (!currentPassword) {
     return NextResponse.json(
-      { error: "Missing name or currentPassword" },
+      { error: "Missing currentPassword" },
       { status: 400 }
     );
   }
 
   try {
-    const targetName = name.trim();
     const targetPass = currentPassword.trim();
 
     const data = await supabaseRequest<any[]>("users", {
-      query: { select: "id,passcode", display_name: `ilike.${targetName}`, limit: 1 },
+      query: { select: "id,passcode", id: `eq.${sessionUser.id}`, limit: 1 },
     });
 
     const user = data?.[0];
-    if (!user || user.passcode !== targetPass) {
+    const subject = sessionUser.name;
+    const client = clientAddress(req);
+    // Checking the current passcode shares the login throttle, so a stolen
+    // session cannot be used to guess it.
+    const keys: ThrottleKey[] = [
+      { kind: "account", id: `user:${sessionUser.id}` },
+      { kind: "client", id: client },
+    ];
+
+    const decision = await checkThrottle(keys);
+    if (!decision.allowed) {
+      await recordSecurityEvent({
+        kind: "login_throttled",
+        userId: sessionUser.id,
+        subject,
+        actor: sessionUser.name,
+        client,
+        detail: { locked: decision.locked, retryAfterSeconds: decision.retryAfterSeconds },
+      });
+      return NextResponse.json(
+        {
+          error: decision.locked
+            ? "Too many failed attempts. Passcode changes are locked for a while."
+            : "Too many attempts. Please wait a moment and try again.",
+          retryAfterSeconds: decision.retryAfterSeconds,
+        },
+        { status: 429, headers: { "Retry-After": String(decision.retryAfterSeconds) } }
+      );
+    }
+
+    if (!user || !(await verifyPasscode(user.passcode, targetPass))) {
+      const lockedKeys = await recordFailure(keys);
+      await recordSecurityEvent({
+        kind: "login_failure",
+        userId: sessionUser.id,
+        subject,
+        actor: sessionUser.name,
+        client,
+        detail: { reason: "wrong_current_passcode" },
+      });
+      for (const key of lockedKeys) {
+        await recordSecurityEvent({
+          kind: key.kind === "account" ? "account_locked" : "client_locked",
+          userId: sessionUser.id,
+          subject,
+          actor: sessionUser.name,
+          client,
+        });
+      }
       return NextResponse.json(
         { error: "Current passcode incorrect" },
         { status: 401 }
       );
     }
 
+    await clearAttempts(keys[0]);
+
     const updates: Record<string, unknown> = {};
 
     if (newPassword && newPassword.trim()) {
-      updates.passcode = newPassword.trim();
+      if (newPassword.trim() === targetPass) {
+        return NextResponse.json(
+          { error: "Choose a passcode different from the current one" },
+          { status: 400 }
+        );
+      }
+      updates.passcode = await hashPasscode(newPassword);
+      updates.must_change_passcode = false;
+    } else if (sessionUser.mustChangePasscode) {
+      return NextResponse.json(
+        { error: "Choose a new passcode to continue" },
+        { status: 400 }
+      );
     }
 
     if (newName && newName.trim()) {
@@ -84,6 +155,16 @@ export async function POST(req: Request) {
       body: updates,
     });
 
+    if (updates.passcode) {
+      await recordSecurityEvent({
+        kind: "passcode_changed",
+        userId: user.id,
+        subject,
+        actor: sessionUser.name,
+        client,
+      });
+    }
+
     return NextResponse.json({ ok: true });
   } catch (err) {
     console.error("Failed to update user settings:", err);
@@ -92,4 +173,4 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-}
+}, { allowPendingPasscodeChange: true });
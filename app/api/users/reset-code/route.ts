@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/permissions";
+import { createResetCode } from "@/lib/passcodes";
+import { recordSecurityEvent } from "@/lib/securityLog";
+import { supabaseRequest } from "@/lib/supabase";
+
+export const POST = withAuth("users.manage", async (req: Request, user) => {
+  const body = await req.json().catch(() => null);
+  if (!body?.id) {
+    return NextResponse.json({ error: "Missing user id" }, { status: 400 });
+  }
+
+  try {
+    const data = await supabaseRequest<{ id: string; display_name: string }[]>("users", {
+      query: { select: "id,display_name", id: `eq.${body.id}`, limit: 1 },
+    });
+    const target = data?.[0];
+    if (!target) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const { code, expiresAt } = await createResetCode(target.id, user.name);
+    await recordSecurityEvent({
+      kind: "reset_code_issued",
+      userId: target.id,
+      subject: target.display_name,
+      actor: user.name,
+    });
+    return NextResponse.json({
+      name: target.display_name,
+      code,
+      expiresAt: expiresAt.toISOString(),
+    });
+  } catch (err) {
+    console.error("Failed to create reset code:", err);
+    return NextResponse.json({ error: "Unable to create reset code" }, { status: 500 });
+  }
+});
@@ -1,8 +1,10 @@
 import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { can, withAuth } from "@/lib/permissions";
+import { generateCode, hashPasscode } from "@/lib/passcodes";
+import { recordSecurityEvent } from "@/lib/securityLog";
 import { supabaseRequest } from "@/lib/supabase";
 
-const DEFAULT_PASSCODE = "WAIANDAINA";
-
 async function resolveRoleId(roleName?: string | null) {
   if (!roleName) return null;
   const data = await supabaseRequest<any[]>("user_roles", {
@@ -11,8 +13,19 @@ async function resolveRoleId(roleName?: string | null) {
   return data?.[0]?.id ?? null;
 }
 
-export async function GET() {
+async function loadActiveUserNames() {
+  const data = await supabaseRequest<{ id: string; display_name: string }[]>("users", {
+    query: { select: "id,display_name", active: "is.true", order: "display_name.asc" },
+  });
+  return (data || []).map((user) => ({ id: user.id, name: user.display_name }));
+}
+
+const listUsers = withAuth(null, async (_req: Request, user) => {
   try {
+    if (!can(user, "users.manage")) {
+      return NextResponse.json({ users: await loadActiveUserNames() });
+    }
+
     const data = await supabaseRequest<any[]>("users", {
       query: {
         select: "id,display_name,phone_number,active,user_role:user_roles(name)",
@@ -34,9 +47,23 @@ export async function GET() {
     console.error("Failed to load users:", err);
     return NextResponse.json({ error: "Unable to load users" }, { status: 500 });
   }
+});
+
+// The login screen lists names before anyone is signed in, so anonymous
+// callers get active users' names only. Contact details and roles need users.manage.
+export async function GET(req: Request) {
+  const session = await getCurrentUser().catch(() => null);
+  if (session) return listUsers(req);
+
+  try {
+    return NextResponse.json({ users: await loadActiveUserNames() });
+  } catch (err) {
+    console.error("Failed to load users:", err);
+    return NextResponse.json({ error: "Unable to load users" }, { status: 500 });
+  }
 }
 
-export async function POST(req: Request) {
+export const POST = withAuth("users.manage", async (req: Request) => {
   const body = await req.json().catch(() => null);
   const { name, userType, number } = body || {};
 
@@ -46,6 +73,7 @@ export async function POST(req: Request) {
 
   try {
     const roleId = await resolveRoleId(userType);
+    const temporaryPasscode = generateCode(6);
     const data = await supabaseRequest<any[]>("users", {
       method: "POST",
       prefer: "return=representation",
@@ -54,19 +82,20 @@ export async function POST(req: Request) {
         display_name: name.trim(),
         user_role_id: roleId,
         phone_number: number?.trim() || null,
-        passcode: DEFAULT_PASSCODE,
+        passcode: await hashPasscode(temporaryPasscode),
+        must_change_passcode: true,
         active: true,
       },
     });
 
-    return NextResponse.json({ success: true, id: data?.[0]?.id });
+    return NextResponse.json({ success: true, id: data?.[0]?.id, temporaryPasscode });
   } catch (err) {
     console.error("Failed to create user:", err);
     return NextResponse.json({ error: "Unable to create user" }, { status: 500 });
   }
-}
+});
 
-export async function PATCH(req: Request) {
+export const PATCH = withAuth("users.manage", async (req: Request, user) => {
   const body = await req.json().catch(() => null);
   const { id, userType, name, password, number, active } = body || {};
 
@@ -85,8 +114,10 @@ export async function PATCH(req: Request) {
       updates.phone_number = number.trim() || null;
     }
 
+    // A passcode set by an admin is temporary until the user picks their own.
     if (typeof password === "string" && password.trim()) {
-      updates.passcode = password.trim();
+      updates.passcode = await hashPasscode(password);
+      updates.must_change_passcode = true;
     }
 
     if (userType !== undefined) {
@@ -108,9 +139,19 @@ export async function PATCH(req: Request) {
       body: updates,
     });
 
+    if (updates.passcode) {
+      await recordSecurityEvent({
+        kind: "passcode_changed",
+        userId: id,
+        subject: typeof name === "string" && name.trim() ? name.trim() : null,
+        actor: user.name,
+        detail: { temporary: true },
+      });
+    }
+
     return NextResponse.json({ success: true });
   } catch (err) {
     console.error("Failed to update user:", err);
     return NextResponse.json({ error: "Unable to update user" }, { status: 500 });
   }
-}
+});
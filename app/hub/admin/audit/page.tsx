@@ -0,0 +1,275 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import { loadSession } from "@/lib/session";
+
+type AuditRow = Record<string, unknown>;
+
+type AuditEvent = {
+  id: string;
+  actor: string | null;
+  table_name: string;
+  action: "POST" | "PATCH" | "DELETE";
+  row_ids: string[];
+  before: AuditRow[] | null;
+  after: AuditRow[] | null;
+  created_at: string;
+  restorable: boolean;
+};
+
+const AUDITED_TABLES = [
+  "users",
+  "user_roles",
+  "role_permissions",
+  "user_availability",
+  "tasks",
+  "task_comments",
+  "task_media",
+  "task_types",
+  "schedule_days",
+  "schedule_slots",
+  "schedule_people",
+  "schedule_cells",
+  "schedule_versions",
+  "schedule_templates",
+  "shift_swaps",
+  "shift_swap_events",
+  "impersonation_sessions",
+];
+
+const ACTION_LABELS: Record<AuditEvent["action"], string> = {
+  POST: "Created",
+  PATCH: "Updated",
+  DELETE: "Deleted",
+};
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined
+    ? "—"
+    : typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value);
+
+function changedColumns(before?: AuditRow, after?: AuditRow) {
+  const keys = Array.from(new Set([...Object.keys(before || {}), ...Object.keys(after || {})]));
+  return keys.filter(
+    (key) => key !== "updated_at" && JSON.stringify(before?.[key]) !== JSON.stringify(after?.[key])
+  );
+}
+
+export default function AdminAuditPage() {
+  const router = useRouter();
+  const [authorized, setAuthorized] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [actor, setActor] = useState("");
+  const [table, setTable] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState<string | null>(null);
+
+  useEffect(() => {
+    const session = loadSession();
+    if (!session?.name) {
+      router.replace("/");
+      return;
+    }
+    if (!session.permissions?.includes("audit.manage")) {
+      setMessage("You need the audit.manage permission to browse the audit trail.");
+      return;
+    }
+    setAuthorized(true);
+  }, [router]);
+
+  const loadEvents = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (actor.trim()) params.set("actor", actor.trim());
+      if (table) params.set("table", table);
+      if (from) params.set("from", from);
+      if (to) params.set("to", to);
+      const res = await fetch(`/api/audit?${params.toString()}`);
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        setMessage(json?.error || "Unable to load audit events.");
+        return;
+      }
+      setEvents(json.events || []);
+    } catch (err) {
+      console.error("Failed to load audit events", err);
+      setMessage("Unable to load audit events.");
+    } finally {
+      setLoading(false);
+    }
+  }, [actor, table, from, to]);
+
+  useEffect(() => {
+    if (authorized) loadEvents();
+    // Filters are applied with the Apply button, not on every keystroke.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [authorized]);
+
+  async function restore(event: AuditEvent) {
+    if (!window.confirm(`Restore the previous values of this ${event.table_name} row?`)) return;
+    setRestoring(event.id);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/audit", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: event.id }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        setMessage(json?.error || "Unable to restore previous values.");
+        return;
+      }
+      setMessage(`Restored ${json.columns.join(", ")} on ${event.table_name}.`);
+      await loadEvents();
+    } catch (err) {
+      console.error("Failed to restore audit event", err);
+      setMessage("Unable to restore previous values.");
+    } finally {
+      setRestoring(null);
+    }
+  }
+
+  const inputClasses =
+    "rounded-md border border-[#d0c9a4] px-3 py-2 text-sm focus:border-[#8fae4c] focus:outline-none";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-xl font-semibold text-[#314123]">Audit trail</h1>
+          <p className="text-sm text-[#7a7f54]">Every change made in the hub, who made it, and what it replaced.</p>
+        </div>
+        <Link
+          href="/hub/admin"
+          className="rounded-md border border-[#d0c9a4] bg-white px-4 py-2 text-xs font-semibold uppercase tracking-[0.1em] text-[#314123] shadow-sm transition hover:bg-[#f1edd8]"
+        >
+          Back to admin
+        </Link>
+      </div>
+
+      {message && (
+        <div className="rounded-md border border-[#d0c9a4] bg-[#f8f4e3] px-3 py-2 text-sm text-[#4b5133]">
+          {message}
+        </div>
+      )}
+
+      {authorized && (
+        <>
+          <form
+            className="flex flex-wrap items-end gap-2 rounded-xl border border-[#d0c9a4] bg-white/80 p-4 text-sm shadow-sm"
+            onSubmit={(e) => {
+              e.preventDefault();
+              loadEvents();
+            }}
+          >
+            <input
+              value={actor}
+              onChange={(e) => setActor(e.target.value)}
+              className={inputClasses}
+              placeholder="Changed by"
+            />
+            <select value={table} onChange={(e) => setTable(e.target.value)} className={inputClasses}>
+              <option value="">All tables</option>
+              {AUDITED_TABLES.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClasses} />
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClasses} />
+            <button
+              type="submit"
+              disabled={loading}
+              className="rounded-md bg-[#8fae4c] px-4 py-2 text-xs font-semibold uppercase tracking-[0.1em] text-[#f9f9ec] shadow-md transition hover:bg-[#7e9c44] disabled:opacity-60"
+            >
+              {loading ? "Loading…" : "Apply"}
+            </button>
+          </form>
+
+          <section className="rounded-xl border border-[#d0c9a4] bg-white/80 shadow-sm">
+            {events.length === 0 ? (
+              <p className="p-4 text-sm text-[#7a7f54]">No matching changes.</p>
+            ) : (
+              <ul className="divide-y divide-[#ece6cb]">
+                {events.map((event) => (
+                  <li key={event.id} className="p-3 text-sm text-[#4b5133]">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setExpanded((prev) => (prev === event.id ? null : event.id))}
+                        className="text-left"
+                      >
+                        <span className="font-semibold text-[#314123]">{ACTION_LABELS[event.action]}</span>{" "}
+                        {event.row_ids.length === 1 ? "1 row" : `${event.row_ids.length} rows`} in{" "}
+                        <span className="font-mono text-xs">{event.table_name}</span>
+                        <span className="block text-xs text-[#7a7f54]">
+                          {event.actor || "Unknown"} · {new Date(event.created_at).toLocaleString()}
+                        </span>
+                      </button>
+                      {event.restorable && (
+                        <button
+                          type="button"
+                          onClick={() => restore(event)}
+                          disabled={restoring === event.id}
+                          className="rounded-md border border-[#d0c9a4] bg-white px-3 py-1 text-xs font-semibold uppercase tracking-[0.1em] text-[#314123] shadow-sm transition hover:bg-[#f1edd8] disabled:opacity-60"
+                        >
+                          {restoring === event.id ? "Restoring…" : "Restore previous values"}
+                        </button>
+                      )}
+                    </div>
+                    {expanded === event.id && <AuditDiff event={event} />}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
+
+function AuditDiff({ event }: { event: AuditEvent }) {
+  const rows = Math.max(event.before?.length || 0, event.after?.length || 0);
+
+  return (
+    <div className="mt-2 space-y-2">
+      {Array.from({ length: rows }, (_, idx) => {
+        const before = event.before?.[idx];
+        const after = event.after?.[idx];
+        const columns = event.action === "PATCH" ? changedColumns(before, after) : Object.keys(before || after || {});
+        return (
+          <table key={idx} className="w-full rounded-md border border-[#ece6cb] text-left text-xs">
+            <thead className="bg-[#f9f6e7]">
+              <tr>
+                <th className="px-2 py-1 font-semibold">Column</th>
+                <th className="px-2 py-1 font-semibold">Before</th>
+                <th className="px-2 py-1 font-semibold">After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {columns.map((column) => (
+                <tr key={column} className="border-t border-[#ece6cb] align-top">
+                  <td className="px-2 py-1 font-mono">{column}</td>
+                  <td className="break-all px-2 py-1 text-[#8a3b3b]">{formatValue(before?.[column])}</td>
+                  <td className="break-all px-2 py-1 text-[#476524]">{formatValue(after?.[column])}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { loadSession } from "@/lib/session";
+
+type AvailabilityKind = "stay" | "day_off" | "partial";
+
+type AvailabilityRecord = {
+  id: string;
+  user_id: string;
+  kind: AvailabilityKind;
+  start_date: string;
+  end_date: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  note: string | null;
+  status: "pending" | "approved" | "declined";
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  user?: { display_name: string } | null;
+};
+
+const KIND_LABELS: Record<AvailabilityKind, string> = {
+  stay: "Stay",
+  day_off: "Day off",
+  partial: "Partial day",
+};
+
+export default function AdminAvailabilityPage() {
+  const router = useRouter();
+  const [authorized, setAuthorized] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [pending, setPending] = useState<AvailabilityRecord[]>([]);
+  const [upcoming, setUpcoming] = useState<AvailabilityRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const session = loadSession();
+    if (!session?.name) {
+      router.replace("/");
+      return;
+    }
+    const isAdmin = (session.userType || "").toLowerCase() === "admin";
+    if (!isAdmin) {
+      setMessage("Admin access required to review availability.");
+      return;
+    }
+    setAuthorized(true);
+  }, [router]);
+
+  const loadRecords = useCallback(async () => {
+    setLoading(true);
+    try {
+      const today = new Date().toISOString().slice(0, 10);
+      const [pendingRes, upcomingRes] = await Promise.all([
+        fetch("/api/availability?status=pending"),
+        fetch(`/api/availability?status=approved&from=${today}`),
+      ]);
+      const [pendingJson, upcomingJson] = await Promise.all([
+        pendingRes.json().catch(() => null),
+        upcomingRes.json().catch(() => null),
+      ]);
+      setPending(pendingJson?.records || []);
+      setUpcoming(upcomingJson?.records || []);
+    } catch (err) {
+      console.error("Failed to load availability", err);
+      setMessage("Unable to load availability.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (authorized) loadRecords();
+  }, [authorized, loadRecords]);
+
+  async function review(record: AvailabilityRecord, action: "approve" | "decline") {
+    setBusyId(record.id);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/availability", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: record.id, action }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        setMessage(json?.error || "Unable to update availability.");
+        return;
+      }
+      await loadRecords();
+    } catch (err) {
+      console.error("Failed to review availability", err);
+      setMessage("Unable to update availability.");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  const upcomingByPerson = useMemo(() => {
+    const groups = new Map<string, AvailabilityRecord[]>();
+    upcoming.forEach((record) => {
+      const name = record.user?.display_name || "Unknown";
+      groups.set(name, [...(groups.get(name) || []), record]);
+    });
+    return Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [upcoming]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-xl font-semibold text-[#314123]">Volunteer availability</h1>
+          <p className="text-sm text-[#7a7f54]">
+            Approved records are used when syncing volunteers and validating schedules.
+          </p>
+        </div>
+        <Link
+          href="/hub/admin"
+          className="rounded-md border border-[#d0c9a4] bg-white px-4 py-2 text-xs font-semibold uppercase tracking-[0.1em] text-[#314123] shadow-sm transition hover:bg-[#f1edd8]"
+        >
+          Back to admin
+        </Link>
+      </div>
+
+      {message && (
+        <div className="rounded-md border border-[#d0c9a4] bg-[#f8f4e3] px-3 py-2 text-sm text-[#4b5133]">
+          {message}
+        </div>
+      )}
+
+      {authorized && (
+        <>
+          <section className="rounded-xl border border-[#d0c9a4] bg-white/80 p-4 shadow-sm">
+            <div className="flex items-center justify-between gap-2">
+              <h2 className="text-sm font-semibold uppercase tracking-[0.12em] text-[#314123]">
+                Waiting for review
+              </h2>
+              <button
+                type="button"
+                onClick={loadRecords}
+                disabled={loading}
+                className="text-xs font-semibold text-[#5d7f3b] hover:underline disabled:opacity-60"
+              >
+                {loading ? "Loading…" : "Refresh"}
+              </button>
+            </div>
+            {pending.length === 0 ? (
+              <p className="mt-2 text-sm text-[#7a7f54]">Nothing to review.</p>
+            ) : (
+              <ul className="mt-2 divide-y divide-[#ece6cb]">
+                {pending.map((record) => (
+                  <li key={record.id} className="flex flex-wrap items-center justify-between gap-2 py-2 text-sm">
+                    <AvailabilitySummary record={record} showName />
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        disabled={busyId === record.id}
+                        onClick={() => review(record, "approve")}
+                        className="rounded-md bg-[#8fae4c] px-3 py-1 text-xs font-semibold uppercase tracking-[0.1em] text-[#f9f9ec] shadow-sm transition hover:bg-[#7e9c44] disabled:opacity-60"
+                      >
+                        Approve
+                      </button>
+                      <button
+                        type="button"
+                        disabled={busyId === record.id}
+                        onClick={() => review(record, "decline")}
+                        className="rounded-md border border-[#d0c9a4] bg-white px-3 py-1 text-xs font-semibold uppercase tracking-[0.1em] text-[#8a3b3b] shadow-sm transition hover:bg-[#f8e9e4] disabled:opacity-60"
+                      >
+                        Decline
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section className="rounded-xl border border-[#d0c9a4] bg-white/80 p-4 shadow-sm">
+            <h2 className="text-sm font-semibold uppercase tracking-[0.12em] text-[#314123]">
+              Upcoming approved
+            </h2>
+            {upcomingByPerson.length === 0 ? (
+              <p className="mt-2 text-sm text-[#7a7f54]">No upcoming stays or time off.</p>
+            ) : (
+              <div className="mt-2 space-y-3">
+                {upcomingByPerson.map(([name, records]) => (
+                  <div key={name}>
+                    <p className="text-sm font-semibold text-[#314123]">{name}</p>
+                    <ul className="mt-1 space-y-1">
+                      {records.map((record) => (
+                        <li key={record.id} className="text-sm">
+                          <AvailabilitySummary record={record} />
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
+
+function AvailabilitySummary({ record, showName = false }: { record: AvailabilityRecord; showName?: boolean }) {
+  const range =
+    record.end_date && record.end_date !== record.start_date
+      ? `${record.start_date} → ${record.end_date}`
+      : record.kind === "stay" && !record.end_date
+        ? `from ${record.start_date}`
+        : record.start_date;
+
+  return (
+    <div className="text-[#4b5133]">
+      {showName && <span className="font-semibold text-[#314123]">{record.user?.display_name || "Unknown"} · </span>}
+      <span className="font-semibold">{KIND_LABELS[record.kind]}</span> {range}
+      {record.kind === "partial" && (
+        <span className="text-[#7a7f54]">
+          {" "}
+          ({record.start_time} - {record.end_time})
+        </span>
+      )}
+      {record.note && <span className="block text-xs text-[#7a7f54]">{record.note}</span>}
+    </div>
+  );
+}
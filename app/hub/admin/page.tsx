@@ -3,7 +3,7 @@
 import React, { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { loadSession } from "@/lib/session";
+import { getHubLandingPath, loadSession, refreshSession } from "@/lib/session";
 
 type ReportItem = { id: string; title: string; date?: string };
 type UserItem = {
@@ -184,6 +184,7 @@ export default function AdminPage() {
   const [editRole, setEditRole] = useState("Volunteer");
   const [editNumber, setEditNumber] = useState("");
   const [editPassword, setEditPassword] = useState("");
+  const [viewAsWritable, setViewAsWritable] = useState(false);
   const [resettingTasks, setResettingTasks] = useState(false);
 
   useEffect(() => {
@@ -261,8 +262,9 @@ export default function AdminPage() {
       if (!res.ok) {
         throw new Error(json.error || "Failed to reset recurring tasks");
       }
-      const count = json.updated ?? 0;
-      setMessage(`Reset ${count} recurring tasks to Not Started.`);
+      setMessage(
+        `Reset ${json.reset} recurring tasks to Not Started for ${json.resetDate} (${json.skipped} skipped, ${json.errored} errored).`
+      );
     } catch (err: any) {
       setMessage(err?.message || "Failed to reset recurring tasks.");
     } finally {
@@ -288,8 +290,11 @@ export default function AdminPage() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify(newUser),
       });
-      if (!res.ok) throw new Error("Failed to create user");
-      setMessage("User created with default passcode WAIANDAINA.");
+      const created = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(created?.error || "Failed to create user");
+      setMessage(
+        `User created. Temporary passcode: ${created?.temporaryPasscode} — they will choose their own on first login.`
+      );
       setNewUser({ name: "", userType: "Volunteer", number: "" });
       const refreshed = await fetch("/api/users");
       const json = await refreshed.json();
@@ -315,6 +320,41 @@ export default function AdminPage() {
     }
   }
 
+  async function handleResetCode() {
+    if (!editUserId) return;
+    try {
+      const res = await fetch("/api/users/reset-code", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: editUserId }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || "Failed to create reset code.");
+      setMessage(
+        `Reset code for ${json.name}: ${json.code} (valid until ${new Date(json.expiresAt).toLocaleString()}).`
+      );
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Could not create reset code.");
+    }
+  }
+
+  async function handleViewAs() {
+    if (!editUserId) return;
+    try {
+      const res = await fetch("/api/impersonation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId: editUserId, writable: viewAsWritable }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || "Failed to view as that user.");
+      const session = await refreshSession();
+      router.push(getHubLandingPath(session?.userType));
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Could not view as that user.");
+    }
+  }
+
   async function handleUpdateUser(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault();
     if (!editUserId) {
@@ -382,7 +422,7 @@ export default function AdminPage() {
               {resettingTasks ? "Resetting…" : "Reset Recurring Tasks"}
             </button>
             <p className="text-[11px] text-[#7a7f54] text-right">
-              Clears completed recurring tasks back to Not Started.
+              Runs hourly; resets recurring tasks whose interval has elapsed since the task reset time.
             </p>
           </div>
         </div>
@@ -481,7 +521,7 @@ export default function AdminPage() {
                       <option>Inactive Volunteer</option>
                     </select>
                   </div>
-                  <p className="text-xs text-[#7a7f54]">Default passcode is set to WAIANDAINA for new accounts.</p>
+                  <p className="text-xs text-[#7a7f54]">New accounts get a one-time temporary passcode that must be changed on first login.</p>
                   <button
                     type="submit"
                     className="w-full rounded-md bg-[#8fae4c] px-4 py-2 text-sm font-semibold uppercase tracking-[0.12em] text-[#f9f9ec] shadow-md transition hover:bg-[#7e9c44]"
@@ -541,8 +581,35 @@ export default function AdminPage() {
                       Update user
                     </button>
                   </form>
+                  <button
+                    type="button"
+                    onClick={handleResetCode}
+                    disabled={!editUserId}
+                    className="mt-2 w-full rounded-md border border-[#d0c9a4] bg-white px-4 py-2 text-sm font-semibold text-[#314123] shadow-sm transition hover:bg-[#f1edd8] disabled:opacity-60"
+                  >
+                    Generate reset code
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleViewAs}
+                    disabled={!editUserId}
+                    className="mt-2 w-full rounded-md border border-[#d0c9a4] bg-white px-4 py-2 text-sm font-semibold text-[#314123] shadow-sm transition hover:bg-[#f1edd8] disabled:opacity-60"
+                  >
+                    View hub as this user
+                  </button>
+                  <label className="mt-2 flex items-center gap-2 text-xs text-[#5f5a3b]">
+                    <input
+                      type="checkbox"
+                      checked={viewAsWritable}
+                      onChange={(e) => setViewAsWritable(e.target.checked)}
+                    />
+                    Allow changes while viewing as them (read-only otherwise)
+                  </label>
                 </div>
               </div>
+
+              <RolePermissionsPanel />
+              <PasscodeMigrationPanel />
             </div>
 
             <div className="rounded-2xl border border-[#d0c9a4] bg-white/70 p-5 shadow-sm">
@@ -569,6 +636,24 @@ export default function AdminPage() {
                 >
                   Open task editor
                 </Link>
+                <Link
+                  href="/hub/admin/availability"
+                  className="rounded-md bg-[#6f8f3d] px-4 py-2 text-xs font-semibold uppercase tracking-[0.1em] text-[#f9f9ec] shadow-md transition hover:bg-[#5f7f35]"
+                >
+                  Review availability
+                </Link>
+                <Link
+                  href="/hub/admin/audit"
+                  className="rounded-md bg-[#6f8f3d] px-4 py-2 text-xs font-semibold uppercase tracking-[0.1em] text-[#f9f9ec] shadow-md transition hover:bg-[#5f7f35]"
+                >
+                  Audit trail
+                </Link>
+                <Link
+                  href="/hub/admin/time"
+                  className="rounded-md bg-[#6f8f3d] px-4 py-2 text-xs font-semibold uppercase tracking-[0.1em] text-[#f9f9ec] shadow-md transition hover:bg-[#5f7f35]"
+                >
+                  Time report
+                </Link>
                 <Link
                   href="/hub"
                   className="rounded-md border border-[#d0c9a4] bg-white px-4 py-2 text-xs font-semibold uppercase tracking-[0.1em] text-[#314123] shadow-sm transition hover:bg-[#f1edd8]"
@@ -579,6 +664,8 @@ export default function AdminPage() {
               </div>
             </div>
 
+            <SecurityLogPanel />
+
           </>
         )}
 
@@ -619,3 +706,329 @@ export default function AdminPage() {
     </div>
   );
 }
+
+type PermissionOption = { key: string; label: string };
+type RolePermissions = { id: string; name: string; locked: boolean; permissions: string[] };
+
+function RolePermissionsPanel() {
+  const [options, setOptions] = useState<PermissionOption[]>([]);
+  const [roles, setRoles] = useState<RolePermissions[]>([]);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function loadPermissions() {
+    try {
+      const res = await fetch("/api/permissions");
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(json?.error || "Unable to load permissions.");
+        return;
+      }
+      setOptions(json.permissions || []);
+      setRoles(json.roles || []);
+    } catch (err) {
+      console.error("Failed to load permissions", err);
+      setError("Unable to load permissions.");
+    }
+  }
+
+  useEffect(() => {
+    loadPermissions();
+  }, []);
+
+  async function togglePermission(role: RolePermissions, permission: string, enabled: boolean) {
+    const key = `${role.id}:${permission}`;
+    setSaving(key);
+    setError(null);
+    setRoles((prev) =>
+      prev.map((entry) =>
+        entry.id === role.id
+          ? {
+              ...entry,
+              permissions: enabled
+                ? [...entry.permissions, permission]
+                : entry.permissions.filter((item) => item !== permission),
+            }
+          : entry
+      )
+    );
+    try {
+      const res = await fetch("/api/permissions", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ roleId: role.id, permission, enabled }),
+      });
+      if (!res.ok) {
+        const json = await res.json().catch(() => null);
+        setError(json?.error || "Unable to update permissions.");
+        await loadPermissions();
+      }
+    } catch (err) {
+      console.error("Failed to update permissions", err);
+      setError("Unable to update permissions.");
+      await loadPermissions();
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border border-[#d0c9a4] bg-white/70 p-5 shadow-sm">
+      <h2 className="text-lg font-semibold text-[#314123]">Role permissions</h2>
+      <p className="text-xs text-[#7a7f54]">
+        Choose what each role can do. Admins always have every permission.
+      </p>
+      {error && <p className="mt-2 text-xs text-[#8a3b3b]">{error}</p>}
+      <div className="mt-3 overflow-x-auto">
+        <table className="w-full text-left text-xs text-[#4b5133]">
+          <thead>
+            <tr>
+              <th className="py-1 pr-2 font-semibold text-[#314123]">Permission</th>
+              {roles.map((role) => (
+                <th key={role.id} className="px-2 py-1 text-center font-semibold text-[#314123]">
+                  {role.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {options.map((option) => (
+              <tr key={option.key} className="border-t border-[#ece6cb]">
+                <td className="py-2 pr-2">
+                  <div className="font-semibold">{option.key}</div>
+                  <div className="text-[11px] text-[#7a7f54]">{option.label}</div>
+                </td>
+                {roles.map((role) => (
+                  <td key={role.id} className="px-2 py-2 text-center">
+                    <input
+                      type="checkbox"
+                      checked={role.permissions.includes(option.key)}
+                      disabled={role.locked || saving === `${role.id}:${option.key}`}
+                      onChange={(e) => togglePermission(role, option.key, e.target.checked)}
+                      className="h-4 w-4 accent-[#8fae4c]"
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function PasscodeMigrationPanel() {
+  const [remaining, setRemaining] = useState<number | null>(null);
+  const [migrating, setMigrating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  async function checkPasscodes() {
+    try {
+      const res = await fetch("/api/admin/migrate-passcodes");
+      const json = await res.json().catch(() => null);
+      if (res.status === 403) return;
+      if (!res.ok && res.status !== 409) {
+        setError(json?.error || "Unable to check passcodes.");
+        return;
+      }
+      setRemaining(json?.remaining ?? 0);
+    } catch (err) {
+      console.error("Failed to check passcodes", err);
+      setError("Unable to check passcodes.");
+    }
+  }
+
+  useEffect(() => {
+    checkPasscodes();
+  }, []);
+
+  async function migratePasscodes() {
+    setMigrating(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch("/api/admin/migrate-passcodes", { method: "POST" });
+      const json = await res.json().catch(() => null);
+      if (typeof json?.remaining === "number") setRemaining(json.remaining);
+      if (!res.ok) {
+        setError(json?.error || "Unable to migrate passcodes.");
+        return;
+      }
+      setNotice(`Hashed ${json.migrated} plaintext passcode${json.migrated === 1 ? "" : "s"}.`);
+    } catch (err) {
+      console.error("Failed to migrate passcodes", err);
+      setError("Unable to migrate passcodes.");
+    } finally {
+      setMigrating(false);
+    }
+  }
+
+  if (remaining === null && !error) return null;
+
+  return (
+    <div className="rounded-2xl border border-[#d0c9a4] bg-white/70 p-5 shadow-sm">
+      <h2 className="text-lg font-semibold text-[#314123]">Passcode storage</h2>
+      {remaining ? (
+        <p className="mt-1 text-sm font-semibold text-[#8a3b3b]">
+          {remaining} user{remaining === 1 ? " still has a" : "s still have"} plaintext passcode
+          {remaining === 1 ? "" : "s"}. Hash them now rather than waiting for each to log in.
+        </p>
+      ) : (
+        remaining === 0 && <p className="mt-1 text-xs text-[#7a7f54]">Every stored passcode is hashed.</p>
+      )}
+      {error && <p className="mt-2 text-xs text-[#8a3b3b]">{error}</p>}
+      {notice && <p className="mt-2 text-xs text-[#4b5133]">{notice}</p>}
+      {Boolean(remaining) && (
+        <button
+          type="button"
+          disabled={migrating}
+          onClick={migratePasscodes}
+          className="mt-3 rounded-md bg-[#8a3b3b] px-4 py-2 text-xs font-semibold uppercase tracking-[0.12em] text-[#f9f9ec] shadow-md transition hover:bg-[#7a3333] disabled:opacity-50"
+        >
+          {migrating ? "Hashing…" : "Hash plaintext passcodes"}
+        </button>
+      )}
+    </div>
+  );
+}
+
+type SecurityEvent = {
+  id: string;
+  kind: string;
+  subject: string | null;
+  actor: string | null;
+  client: string | null;
+  detail: Record<string, unknown> | null;
+  created_at: string;
+};
+
+const SECURITY_KIND_LABELS: Record<string, string> = {
+  login_success: "Login",
+  login_failure: "Failed login",
+  login_throttled: "Throttled",
+  account_locked: "Account locked",
+  client_locked: "Client locked",
+  passcode_changed: "Passcode changed",
+  reset_code_issued: "Reset code issued",
+  passcode_reset: "Passcode reset",
+};
+
+function SecurityLogPanel() {
+  const [events, setEvents] = useState<SecurityEvent[]>([]);
+  const [kind, setKind] = useState("");
+  const [name, setName] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function loadEvents() {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (kind) params.set("kind", kind);
+      if (name.trim()) params.set("name", name.trim());
+      if (from) params.set("from", from);
+      if (to) params.set("to", to);
+      const res = await fetch(`/api/security-events?${params.toString()}`);
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(json?.error || "Unable to load security events.");
+        return;
+      }
+      setEvents(json.events || []);
+    } catch (err) {
+      console.error("Failed to load security events", err);
+      setError("Unable to load security events.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadEvents();
+  }, []);
+
+  const inputClasses =
+    "rounded-md border border-[#d0c9a4] px-3 py-2 text-sm focus:border-[#8fae4c] focus:outline-none";
+
+  return (
+    <div className="rounded-2xl border border-[#d0c9a4] bg-white/70 p-5 shadow-sm">
+      <h2 className="text-lg font-semibold text-[#314123]">Security log</h2>
+      <p className="text-xs text-[#7a7f54]">
+        Logins, failed attempts, lockouts, and passcode changes. Newest first.
+      </p>
+      <form
+        className="mt-3 flex flex-wrap items-end gap-2 text-sm"
+        onSubmit={(e) => {
+          e.preventDefault();
+          loadEvents();
+        }}
+      >
+        <select value={kind} onChange={(e) => setKind(e.target.value)} className={inputClasses}>
+          <option value="">All events</option>
+          {Object.entries(SECURITY_KIND_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className={inputClasses}
+          placeholder="Name or number"
+        />
+        <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClasses} />
+        <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClasses} />
+        <button
+          type="submit"
+          disabled={loading}
+          className="rounded-md bg-[#8fae4c] px-4 py-2 text-xs font-semibold uppercase tracking-[0.1em] text-[#f9f9ec] shadow-md transition hover:bg-[#7e9c44] disabled:opacity-60"
+        >
+          {loading ? "Loading…" : "Apply"}
+        </button>
+      </form>
+      {error && <p className="mt-2 text-xs text-[#8a3b3b]">{error}</p>}
+      <div className="mt-3 max-h-96 overflow-auto">
+        {events.length === 0 ? (
+          <p className="text-sm text-[#7a7f54]">No matching events.</p>
+        ) : (
+          <table className="w-full text-left text-xs text-[#4b5133]">
+            <thead className="sticky top-0 bg-[#f9f6e7]">
+              <tr>
+                <th className="px-2 py-1 font-semibold">When</th>
+                <th className="px-2 py-1 font-semibold">Event</th>
+                <th className="px-2 py-1 font-semibold">Account</th>
+                <th className="px-2 py-1 font-semibold">By</th>
+                <th className="px-2 py-1 font-semibold">Client</th>
+                <th className="px-2 py-1 font-semibold">Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((event) => (
+                <tr key={event.id} className="border-t border-[#ece6cb]">
+                  <td className="whitespace-nowrap px-2 py-1">{new Date(event.created_at).toLocaleString()}</td>
+                  <td className="px-2 py-1 font-semibold">{SECURITY_KIND_LABELS[event.kind] || event.kind}</td>
+                  <td className="px-2 py-1">{event.subject || "—"}</td>
+                  <td className="px-2 py-1">{event.actor || "—"}</td>
+                  <td className="px-2 py-1 font-mono text-[11px]">{event.client || "—"}</td>
+                  <td className="px-2 py-1 text-[#7a7f54]">
+                    {event.detail
+                      ? Object.entries(event.detail)
+                          .map(([key, value]) => `${key}: ${String(value)}`)
+                          .join(", ")
+                      : ""}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -42,6 +42,37 @@ type DragPayload = {
   fromIndex?: number;
 };
 type CellContent = { tasks: string[]; note: string };
+type CellRef = { person: string; slotId: string; slotLabel: string };
+type ScheduleChange =
+  | ({ type: "added"; task: string } & CellRef)
+  | ({ type: "removed"; task: string } & CellRef)
+  | ({ type: "moved"; task: string; from: CellRef } & CellRef)
+  | ({ type: "note"; before: string; after: string } & CellRef);
+type UnfilledTask = {
+  task: string;
+  slotLabel: string | null;
+  needed: number;
+  assigned: number;
+  reason: string;
+};
+type ScheduleIssue = {
+  severity: "error" | "warning";
+  code: "overlap" | "uncovered" | "understaffed" | "inactive" | "unavailable";
+  message: string;
+  person?: string;
+  slotId?: string;
+  task?: string;
+};
+type PublishDiff = {
+  liveVersion: number | null;
+  publishedAt: string | null;
+  publishedBy: string | null;
+  changes: ScheduleChange[];
+  peopleAdded: string[];
+  peopleRemoved: string[];
+  slotsAdded: string[];
+  slotsRemoved: string[];
+};
 
 const DRAG_DATA_TYPE = "application/json/task";
 
@@ -86,6 +117,13 @@ function typeColorClasses(color?: string) {
   return map[color || "default"] || map.default;
 }
 
+// Editors get staging copies created for upcoming days; anyone else (or a
+// read-only view) falls back to the plain list.
+async function fetchScheduleList() {
+  const res = await fetch("/api/schedule/list", { method: "POST" });
+  return res.ok ? res : fetch("/api/schedule/list");
+}
+
 function safeIndex(length: number, index?: number) {
   if (index === undefined || Number.isNaN(index)) return length;
   return Math.min(Math.max(index, 0), length);
@@ -163,6 +201,17 @@ export default function AdminScheduleEditorPage() {
   const [scheduleNote, setScheduleNote] = useState<string | null>(null);
   const [newPersonName, setNewPersonName] = useState("");
   const [volunteerSyncMessage, setVolunteerSyncMessage] = useState<string | null>(null);
+  const [publishDiff, setPublishDiff] = useState<PublishDiff | null>(null);
+  const [publishReviewLoading, setPublishReviewLoading] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+  const [generatingDraft, setGeneratingDraft] = useState(false);
+  const [importingCsv, setImportingCsv] = useState(false);
+  const [csvUnknowns, setCsvUnknowns] = useState<{ people: string[]; tasks: string[] } | null>(
+    null
+  );
+  const [unfilledTasks, setUnfilledTasks] = useState<UnfilledTask[]>([]);
+  const [scheduleIssues, setScheduleIssues] = useState<ScheduleIssue[]>([]);
+  const [publishOverride, setPublishOverride] = useState(false);
   const [taskDetail, setTaskDetail] = useState<TaskDetail | null>(null);
   const [taskEditFields, setTaskEditFields] = useState<TaskPropertyField[]>([]);
   const [taskDetailLoading, setTaskDetailLoading] = useState(false);
@@ -210,7 +259,7 @@ export default function AdminScheduleEditorPage() {
         const [taskRes, typeRes, scheduleListRes] = await Promise.all([
           fetch("/api/task?list=1"),
           fetch("/api/task-types"),
-          fetch("/api/schedule/list?ensureStaging=1"),
+          fetchScheduleList(),
         ]);
 
         if (taskRes.ok) {
@@ -289,6 +338,46 @@ export default function AdminScheduleEditorPage() {
     };
   }, [authorized, scheduleMissing, scheduleMode, selectedDate]);
 
+  useEffect(() => {
+    if (!authorized || scheduleMode !== "page" || !selectedDate || !scheduleData) return;
+    if (pendingCells.size) return;
+    let cancelled = false;
+    const timeout = window.setTimeout(async () => {
+      try {
+        const res = await fetch(
+          `/api/schedule/validate?date=${encodeURIComponent(selectedDate)}&staging=1`
+        );
+        if (!res.ok) return;
+        const json = await res.json();
+        if (!cancelled) setScheduleIssues(json.issues || []);
+      } catch (err) {
+        console.error("Failed to validate schedule", err);
+      }
+    }, 500);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timeout);
+    };
+  }, [authorized, pendingCells.size, scheduleData, scheduleMode, selectedDate]);
+
+  const issuesByCell = useMemo(() => {
+    const map: Record<string, ScheduleIssue[]> = {};
+    scheduleIssues.forEach((issue) => {
+      if (!issue.person || !issue.slotId) return;
+      const key = `${issue.person}-${issue.slotId}`;
+      map[key] = [...(map[key] || []), issue];
+    });
+    return map;
+  }, [scheduleIssues]);
+  const gridIssues = useMemo(
+    () => scheduleIssues.filter((issue) => !issue.person || !issue.slotId),
+    [scheduleIssues]
+  );
+  const blockingIssues = useMemo(
+    () => scheduleIssues.filter((issue) => issue.severity === "error"),
+    [scheduleIssues]
+  );
+
   useEffect(() => {
     if (typeof window === "undefined") return;
     // no-op placeholder to avoid hydration mismatch if future window sizing is needed
@@ -605,6 +694,14 @@ export default function AdminScheduleEditorPage() {
     }
   };
 
+  const refreshScheduleList = async () => {
+    const listRes = await fetchScheduleList();
+    if (listRes.ok) {
+      const listJson = await listRes.json();
+      setAvailableSchedules(listJson.schedules || []);
+    }
+  };
+
   const ensureScheduleForDate = async (dateLabel: string) => {
     if (scheduleMode !== "page") return;
     if (!dateLabel) return;
@@ -620,7 +717,7 @@ export default function AdminScheduleEditorPage() {
         throw new Error(json.error || "Failed to create schedule");
       }
       setScheduleNote(`Created schedule for ${dateLabel}.`);
-      const listRes = await fetch("/api/schedule/list?ensureStaging=1");
+      const listRes = await fetchScheduleList();
       if (listRes.ok) {
         const listJson = await listRes.json();
         setAvailableSchedules(listJson.schedules || []);
@@ -632,6 +729,76 @@ export default function AdminScheduleEditorPage() {
     }
   };
 
+  const generateDraft = async () => {
+    if (scheduleMode !== "page") return;
+    if (!selectedDate) return;
+    const confirmed = window.confirm(
+      `Generate a draft for ${selectedDate}? This replaces every task currently in the staging grid.`
+    );
+    if (!confirmed) return;
+    setScheduleNote(null);
+    setGeneratingDraft(true);
+    try {
+      const res = await fetch("/api/schedule/create", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dateLabel: selectedDate, mode: "auto" }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        throw new Error(json.error || "Failed to generate schedule");
+      }
+      setUnfilledTasks(json.unfilled || []);
+      setScheduleNote(
+        `Generated a draft with ${json.assignments || 0} assignments. Adjust it by dragging tasks before publishing.`
+      );
+      await refreshScheduleList();
+      await refreshSchedule();
+    } catch (err) {
+      console.error("Failed to generate schedule", err);
+      setScheduleNote("Unable to generate a draft right now.");
+    } finally {
+      setGeneratingDraft(false);
+    }
+  };
+
+  const importCsv = async (file: File) => {
+    if (scheduleMode !== "page") return;
+    if (!selectedDate) return;
+    const confirmed = window.confirm(
+      `Import ${file.name} into the staging schedule for ${selectedDate}? This replaces the current staging grid.`
+    );
+    if (!confirmed) return;
+    setScheduleNote(null);
+    setCsvUnknowns(null);
+    setImportingCsv(true);
+    try {
+      const csv = await file.text();
+      const res = await fetch("/api/schedule/csv", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dateLabel: selectedDate, csv }),
+      });
+      const json = await res.json();
+      if (!res.ok) {
+        throw new Error(json.error || "Failed to import schedule");
+      }
+      if (json.unknownPeople?.length || json.unknownTasks?.length) {
+        setCsvUnknowns({ people: json.unknownPeople || [], tasks: json.unknownTasks || [] });
+      }
+      setScheduleNote(
+        `Imported ${json.people} people across ${json.slots} shifts into the staging schedule.`
+      );
+      await refreshScheduleList();
+      await refreshSchedule();
+    } catch (err) {
+      console.error("Failed to import schedule CSV", err);
+      setScheduleNote(err instanceof Error ? err.message : "Unable to import that file.");
+    } finally {
+      setImportingCsv(false);
+    }
+  };
+
   useEffect(() => {
     if (!selectedDate || !scheduleMissing) return;
     if (autoCreateRef.current === selectedDate) return;
@@ -639,28 +806,66 @@ export default function AdminScheduleEditorPage() {
     ensureScheduleForDate(selectedDate);
   }, [scheduleMissing, selectedDate]);
 
+  const reviewPublish = async () => {
+    if (scheduleMode !== "page") return;
+    if (!selectedDate) return;
+    setScheduleNote(null);
+    setPublishReviewLoading(true);
+    try {
+      const res = await fetch(`/api/schedule/diff?date=${encodeURIComponent(selectedDate)}`);
+      const json = await res.json();
+      if (!res.ok) {
+        throw new Error(json.error || "Failed to compare schedules");
+      }
+      setPublishDiff(json);
+      setPublishOverride(false);
+    } catch (err) {
+      console.error("Failed to load publish diff", err);
+      setScheduleNote("Unable to compare staging with the live schedule right now.");
+    } finally {
+      setPublishReviewLoading(false);
+    }
+  };
+
   const publishSchedule = async () => {
     if (scheduleMode !== "page") return;
     if (!selectedDate) return;
     setScheduleNote(null);
+    setPublishing(true);
     try {
       const res = await fetch("/api/schedule/publish", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ dateLabel: selectedDate }),
+        body: JSON.stringify({
+          dateLabel: selectedDate,
+          override: publishOverride,
+        }),
       });
       const json = await res.json();
+      if (res.status === 409) {
+        setScheduleIssues((prev) => (json.issues?.length ? json.issues : prev));
+        setScheduleNote("Publishing is blocked by schedule conflicts. Fix them or override.");
+        return;
+      }
       if (!res.ok) {
         throw new Error(json.error || "Failed to publish schedule");
       }
-      setScheduleNote(`Published staging schedule for ${selectedDate}.`);
+      setPublishDiff(null);
+      setScheduleNote(
+        json.version
+          ? `Published staging schedule for ${selectedDate} as version ${json.version}.`
+          : `Published staging schedule for ${selectedDate}.`
+      );
+      await refreshScheduleList();
     } catch (err) {
       console.error("Failed to publish schedule", err);
       setScheduleNote("Unable to publish the schedule right now.");
+    } finally {
+      setPublishing(false);
     }
   };
 
-  const syncVolunteers = async () => {
+  const syncVolunteers = async (removeAssigned: string[] = []) => {
     if (scheduleMode !== "page") return;
     if (!selectedDate) return;
     setVolunteerSyncMessage(null);
@@ -668,16 +873,32 @@ export default function AdminScheduleEditorPage() {
       const res = await fetch("/api/schedule/volunteers", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ dateLabel: selectedDate, staging: true }),
+        body: JSON.stringify({ dateLabel: selectedDate, staging: true, removeAssigned }),
       });
       const json = await res.json();
       if (!res.ok) {
         throw new Error(json.error || "Failed to sync volunteers");
       }
+      const away = (json.away || []) as { name: string; reason: string | null }[];
+      const assignedAway = (json.assignedAway || []) as string[];
       setVolunteerSyncMessage(
-        `Added ${json.added || 0} volunteers and removed ${json.removed || 0} rows.`
+        `Added ${json.added || 0} volunteers and removed ${json.removed || 0} rows.` +
+          (away.length
+            ? ` Away: ${away
+                .map((entry) => (entry.reason ? `${entry.name} (${entry.reason})` : entry.name))
+                .join(", ")}.`
+            : "") +
+          (assignedAway.length ? ` Kept (still assigned): ${assignedAway.join(", ")}.` : "")
       );
       await refreshSchedule();
+      if (
+        assignedAway.length &&
+        window.confirm(
+          `${assignedAway.join(", ")} ${assignedAway.length === 1 ? "is" : "are"} away but still assigned on this day. Remove ${assignedAway.length === 1 ? "that row" : "those rows"} and their assignments?`
+        )
+      ) {
+        await syncVolunteers(assignedAway);
+      }
     } catch (err) {
       console.error("Failed to sync volunteers", err);
       setVolunteerSyncMessage("Unable to sync volunteers right now.");
@@ -826,15 +1047,56 @@ export default function AdminScheduleEditorPage() {
             </button>
             <button
               type="button"
-              onClick={publishSchedule}
-              disabled={!selectedDate || scheduleMissing || scheduleMode !== "page"}
+              onClick={generateDraft}
+              disabled={!selectedDate || scheduleMode !== "page" || generatingDraft}
+              className="rounded-md border border-[#d0c9a4] bg-white px-3 py-1 font-semibold uppercase tracking-[0.08em] text-[#314123] shadow-sm transition hover:bg-[#f1edd8] disabled:opacity-60"
+            >
+              {generatingDraft ? "Generating…" : "Generate draft"}
+            </button>
+            <a
+              href={`/print/schedule?date=${encodeURIComponent(selectedDate)}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="rounded-md border border-[#d0c9a4] bg-white px-3 py-1 font-semibold uppercase tracking-[0.08em] text-[#314123] shadow-sm transition hover:bg-[#f1edd8]"
+            >
+              Print live
+            </a>
+            <a
+              href={`/api/schedule/csv?date=${encodeURIComponent(selectedDate)}&staging=1`}
+              className="rounded-md border border-[#d0c9a4] bg-white px-3 py-1 font-semibold uppercase tracking-[0.08em] text-[#314123] shadow-sm transition hover:bg-[#f1edd8]"
+            >
+              Export CSV
+            </a>
+            <label
+              className={`cursor-pointer rounded-md border border-[#d0c9a4] bg-white px-3 py-1 font-semibold uppercase tracking-[0.08em] text-[#314123] shadow-sm transition hover:bg-[#f1edd8] ${
+                !selectedDate || scheduleMode !== "page" || importingCsv ? "pointer-events-none opacity-60" : ""
+              }`}
+            >
+              {importingCsv ? "Importing…" : "Import CSV"}
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = "";
+                  if (file) importCsv(file);
+                }}
+              />
+            </label>
+            <button
+              type="button"
+              onClick={reviewPublish}
+              disabled={
+                !selectedDate || scheduleMissing || scheduleMode !== "page" || publishReviewLoading
+              }
               className="rounded-md bg-[#8fae4c] px-3 py-1 font-semibold uppercase tracking-[0.08em] text-[#f9f9ec] shadow-sm transition hover:bg-[#7e9c44] disabled:opacity-60"
             >
-              Publish
+              {publishReviewLoading ? "Comparing…" : "Publish"}
             </button>
             <button
               type="button"
-              onClick={syncVolunteers}
+              onClick={() => syncVolunteers()}
               disabled={!selectedDate || scheduleMode !== "page"}
               className="rounded-md border border-[#d0c9a4] bg-[#f4f1df] px-3 py-1 font-semibold uppercase tracking-[0.08em] text-[#4b5133] shadow-sm transition hover:bg-[#ede6c6] disabled:opacity-60"
             >
@@ -860,9 +1122,51 @@ export default function AdminScheduleEditorPage() {
           {scheduleNote && (
             <p className="mt-2 text-xs text-[#4b5133]">{scheduleNote}</p>
           )}
+          {csvUnknowns && (
+            <div className="mt-2 rounded-md border border-[#e2d7b5] bg-[#f9f6e7] px-3 py-2 text-xs text-[#4b5133]">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-semibold">Names in the import that did not match</span>
+                <button
+                  type="button"
+                  onClick={() => setCsvUnknowns(null)}
+                  className="text-[11px] font-semibold text-[#7a7f54] hover:underline"
+                >
+                  Dismiss
+                </button>
+              </div>
+              {csvUnknowns.people.length > 0 && (
+                <p className="mt-1">People not in users: {csvUnknowns.people.join(", ")}</p>
+              )}
+              {csvUnknowns.tasks.length > 0 && (
+                <p className="mt-1">Tasks not in the catalog: {csvUnknowns.tasks.join(", ")}</p>
+              )}
+            </div>
+          )}
           {volunteerSyncMessage && (
             <p className="mt-1 text-xs text-[#4b5133]">{volunteerSyncMessage}</p>
           )}
+          {unfilledTasks.length > 0 && (
+            <div className="mt-2 rounded-md border border-[#e2d7b5] bg-[#f9f6e7] px-3 py-2 text-xs text-[#4b5133]">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-semibold">Tasks the generator could not fully staff</span>
+                <button
+                  type="button"
+                  onClick={() => setUnfilledTasks([])}
+                  className="text-[11px] font-semibold text-[#7a7f54] hover:underline"
+                >
+                  Dismiss
+                </button>
+              </div>
+              <ul className="mt-1 space-y-[2px]">
+                {unfilledTasks.map((item, idx) => (
+                  <li key={`${item.task}-${item.slotLabel}-${idx}`}>
+                    {item.task}
+                    {item.slotLabel ? ` • ${item.slotLabel}` : ""} — {item.assigned}/{item.needed} ({item.reason})
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       </div>
 
@@ -872,6 +1176,40 @@ export default function AdminScheduleEditorPage() {
         </div>
       )}
 
+      {scheduleMode === "page" && (
+        <ScheduleTemplatesPanel
+          selectedDate={selectedDate}
+          onApplied={async (note) => {
+            setScheduleNote(note);
+            await refreshScheduleList();
+            await refreshSchedule();
+          }}
+        />
+      )}
+
+      {scheduleMode === "page" && selectedDate && (
+        <ShiftSwapsPanel
+          selectedDate={selectedDate}
+          onApproved={async (note) => {
+            setScheduleNote(note);
+            await refreshSchedule();
+          }}
+        />
+      )}
+
+      {publishDiff && (
+        <PublishReviewPanel
+          diff={publishDiff}
+          dateLabel={selectedDate}
+          blockingIssues={blockingIssues}
+          override={publishOverride}
+          onOverrideChange={setPublishOverride}
+          publishing={publishing}
+          onConfirm={publishSchedule}
+          onCancel={() => setPublishDiff(null)}
+        />
+      )}
+
       <div className="grid gap-5 xl:grid-cols-[minmax(0,1.6fr)_360px]">
         <div className="rounded-2xl border border-[#d0c9a4] bg-white/70 p-4 shadow-sm">
           <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
@@ -919,6 +1257,18 @@ export default function AdminScheduleEditorPage() {
           {scheduleLoading && (
             <p className="mt-2 text-xs text-[#7a7f54]">Loading schedule…</p>
           )}
+          {gridIssues.length > 0 && (
+            <ul className="mt-2 space-y-1 text-[11px]">
+              {gridIssues.map((issue, idx) => (
+                <li
+                  key={`${issue.code}-${issue.task || issue.person}-${idx}`}
+                  className={`rounded-md border px-2 py-1 ${issueClasses(issue.severity)}`}
+                >
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
           <div className="mt-3 max-h-[calc(100vh-220px)] min-h-[50vh] overflow-auto rounded-xl border border-[#e2d7b5] bg-[#faf7eb] shadow-inner">
             <table className="min-w-full border-collapse text-sm">
               <thead className="bg-[#e5e7c5]">
@@ -1091,6 +1441,15 @@ export default function AdminScheduleEditorPage() {
                                 </span>
                               </div>
                             )}
+                            {issuesByCell[`${person}-${slot.id}`]?.map((issue, idx) => (
+                              <p
+                                key={`${issue.code}-${idx}`}
+                                className={`rounded-md border px-2 py-1 text-[10px] leading-snug ${issueClasses(issue.severity)}`}
+                              >
+                                {issue.severity === "error" ? "⚠️ " : ""}
+                                {issue.message}
+                              </p>
+                            ))}
                             <div className="rounded-md border border-[#d0c9a4] bg-white/80 p-2">
                               <label className="text-[10px] uppercase tracking-[0.12em] text-[#7a7f54]">
                                 Add task
@@ -1532,3 +1891,555 @@ export default function AdminScheduleEditorPage() {
     </div>
   );
 }
+
+function describeChange(change: ScheduleChange) {
+  switch (change.type) {
+    case "added":
+      return `${change.task} added for ${change.person} • ${change.slotLabel}`;
+    case "removed":
+      return `${change.task} removed from ${change.person} • ${change.slotLabel}`;
+    case "moved":
+      return `${change.task} moved from ${change.from.person} • ${change.from.slotLabel} to ${change.person} • ${change.slotLabel}`;
+    case "note":
+      return `Note for ${change.person} • ${change.slotLabel}: ${change.after || "(cleared)"}`;
+  }
+}
+
+function changeBadgeClasses(type: ScheduleChange["type"]) {
+  const map: Record<ScheduleChange["type"], string> = {
+    added: "bg-green-50 border-green-200 text-green-900",
+    removed: "bg-rose-50 border-rose-200 text-rose-900",
+    moved: "bg-sky-50 border-sky-200 text-sky-900",
+    note: "bg-amber-50 border-amber-200 text-amber-900",
+  };
+  return map[type];
+}
+
+type ShiftSwapEvent = {
+  id: string;
+  status: string;
+  actor: string | null;
+  note: string | null;
+  created_at: string;
+};
+
+type ShiftSwap = {
+  id: string;
+  kind: "cover" | "swap";
+  requester: string;
+  requester_slot: string;
+  requester_value: string;
+  target_person: string | null;
+  target_slot: string | null;
+  target_value: string | null;
+  accepted_by: string | null;
+  decided_by: string | null;
+  status: "pending" | "accepted" | "approved" | "declined";
+  note: string | null;
+  created_at: string;
+  events: ShiftSwapEvent[];
+};
+
+function ShiftSwapsPanel({
+  selectedDate,
+  onApproved,
+}: {
+  selectedDate: string;
+  onApproved: (note: string) => Promise<void>;
+}) {
+  const [swaps, setSwaps] = useState<ShiftSwap[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [panelMessage, setPanelMessage] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const loadSwaps = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/schedule/swaps?date=${encodeURIComponent(selectedDate)}`);
+      if (!res.ok) return;
+      const json = await res.json();
+      setSwaps(json.swaps || []);
+    } catch (err) {
+      console.error("Failed to load shift swaps", err);
+    }
+  }, [selectedDate]);
+
+  useEffect(() => {
+    loadSwaps();
+  }, [loadSwaps]);
+
+  const decide = async (swap: ShiftSwap, action: "approve" | "decline") => {
+    setBusyId(swap.id);
+    setPanelMessage(null);
+    try {
+      const res = await fetch("/api/schedule/swaps", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: swap.id, action }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to update swap");
+      if (action === "approve") {
+        await onApproved(
+          `Approved the swap for ${swap.requester}; published as version ${json.version}.`
+        );
+      }
+      await loadSwaps();
+    } catch (err) {
+      console.error("Failed to update shift swap", err);
+      setPanelMessage(err instanceof Error ? err.message : "Unable to update swap.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!swaps.length) return null;
+
+  const firstLine = (value: string | null) => (value || "").split("\n")[0];
+
+  return (
+    <div className="rounded-2xl border border-[#d0c9a4] bg-white/70 p-4 shadow-sm">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-[#314123]">Shift swaps</h2>
+        {panelMessage && <p className="text-xs text-[#a05252]">{panelMessage}</p>}
+      </div>
+      <ul className="mt-2 divide-y divide-[#ece6cb] text-xs text-[#4b5133]">
+        {swaps.map((swap) => (
+          <li key={swap.id} className="py-2">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <span className="font-semibold text-[#314123]">{swap.requester}</span>{" "}
+                {swap.kind === "swap"
+                  ? `swaps ${swap.requester_slot} (${firstLine(swap.requester_value)}) with ${swap.target_person}'s ${swap.target_slot} (${firstLine(swap.target_value)})`
+                  : `needs cover for ${swap.requester_slot} (${firstLine(swap.requester_value)})${
+                      swap.accepted_by ? ` — ${swap.accepted_by} will cover` : swap.target_person ? ` — asked ${swap.target_person}` : ""
+                    }`}
+                {swap.note && <span className="text-[#7a7f54]"> • {swap.note}</span>}
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="rounded-full border border-[#d0c9a4] bg-[#faf7eb] px-2 py-[1px] text-[10px] font-semibold uppercase">
+                  {swap.status}
+                </span>
+                {swap.status === "accepted" && (
+                  <button
+                    type="button"
+                    disabled={busyId === swap.id}
+                    onClick={() => decide(swap, "approve")}
+                    className="rounded-md bg-[#8fae4c] px-2 py-1 text-[11px] font-semibold uppercase tracking-[0.08em] text-white disabled:opacity-60"
+                  >
+                    Approve
+                  </button>
+                )}
+                {(swap.status === "pending" || swap.status === "accepted") && (
+                  <button
+                    type="button"
+                    disabled={busyId === swap.id}
+                    onClick={() => decide(swap, "decline")}
+                    className="text-[11px] font-semibold text-[#a05252] hover:underline disabled:opacity-60"
+                  >
+                    Decline
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setExpanded((prev) => (prev === swap.id ? null : swap.id))}
+                  className="text-[11px] font-semibold text-[#7a7f54] hover:underline"
+                >
+                  {expanded === swap.id ? "Hide history" : "History"}
+                </button>
+              </div>
+            </div>
+            {expanded === swap.id && (
+              <ol className="mt-1 space-y-[2px] border-l border-[#e2d7b5] pl-3 text-[11px] text-[#6a6c4d]">
+                {swap.events.map((event) => (
+                  <li key={event.id}>
+                    {new Date(event.created_at).toLocaleString()} — {event.status}
+                    {event.actor ? ` by ${event.actor}` : ""}
+                    {event.note ? ` (${event.note})` : ""}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+type ScheduleTemplate = {
+  id: string;
+  name: string;
+  kind: "weekday" | "weekend" | "holiday";
+  slots: Slot[];
+  people: string[];
+  updatedAt: string;
+};
+
+const TEMPLATE_KINDS: ScheduleTemplate["kind"][] = ["weekday", "weekend", "holiday"];
+
+function ScheduleTemplatesPanel({
+  selectedDate,
+  onApplied,
+}: {
+  selectedDate: string;
+  onApplied: (note: string) => Promise<void>;
+}) {
+  const [templates, setTemplates] = useState<ScheduleTemplate[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  const [copyFromDate, setCopyFromDate] = useState("");
+  const [templateName, setTemplateName] = useState("");
+  const [templateKind, setTemplateKind] = useState<ScheduleTemplate["kind"]>("weekday");
+  const [busy, setBusy] = useState(false);
+  const [panelMessage, setPanelMessage] = useState<string | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const res = await fetch("/api/schedule/templates");
+      if (!res.ok) return;
+      const json = await res.json();
+      setTemplates(json.templates || []);
+    } catch (err) {
+      console.error("Failed to load schedule templates", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const startFrom = async (source: { templateId?: string; copyFromDate?: string }, label: string) => {
+    if (!selectedDate) return;
+    const confirmed = window.confirm(
+      `Replace the staging grid for ${selectedDate} with ${label}?`
+    );
+    if (!confirmed) return;
+    setBusy(true);
+    setPanelMessage(null);
+    try {
+      const res = await fetch("/api/schedule/create", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dateLabel: selectedDate, ...source }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to start schedule");
+      await onApplied(`Started ${selectedDate} from ${label}.`);
+    } catch (err) {
+      console.error("Failed to start schedule from source", err);
+      setPanelMessage(err instanceof Error ? err.message : "Unable to start from that source.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveTemplate = async () => {
+    if (!selectedDate || !templateName.trim()) return;
+    setBusy(true);
+    setPanelMessage(null);
+    try {
+      const res = await fetch("/api/schedule/templates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: templateName.trim(),
+          kind: templateKind,
+          dateLabel: selectedDate,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Failed to save template");
+      setTemplateName("");
+      setPanelMessage(`Saved ${selectedDate} as "${json.template?.name || templateName.trim()}".`);
+      await loadTemplates();
+    } catch (err) {
+      console.error("Failed to save template", err);
+      setPanelMessage(err instanceof Error ? err.message : "Unable to save template.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const updateTemplateKind = async (template: ScheduleTemplate, kind: ScheduleTemplate["kind"]) => {
+    setTemplates((prev) => prev.map((t) => (t.id === template.id ? { ...t, kind } : t)));
+    try {
+      await fetch("/api/schedule/templates", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: template.id, kind }),
+      });
+    } catch (err) {
+      console.error("Failed to update template", err);
+      await loadTemplates();
+    }
+  };
+
+  const deleteTemplate = async (template: ScheduleTemplate) => {
+    if (!window.confirm(`Delete the "${template.name}" template?`)) return;
+    try {
+      await fetch("/api/schedule/templates", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: template.id }),
+      });
+      if (templateId === template.id) setTemplateId("");
+      await loadTemplates();
+    } catch (err) {
+      console.error("Failed to delete template", err);
+    }
+  };
+
+  const inputClasses =
+    "rounded-md border border-[#d0c9a4] bg-white px-2 py-1 text-xs text-[#314123] focus:border-[#8fae4c] focus:outline-none";
+  const buttonClasses =
+    "rounded-md border border-[#d0c9a4] bg-white px-3 py-1 text-xs font-semibold uppercase tracking-[0.08em] text-[#314123] shadow-sm transition hover:bg-[#f1edd8] disabled:opacity-60";
+
+  return (
+    <div className="rounded-2xl border border-[#d0c9a4] bg-white/70 p-4 shadow-sm">
+      <div className="flex flex-col gap-1 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-[#314123]">Templates</h2>
+          <p className="text-xs text-[#6a6c4d]">
+            Start a day from a saved weekday, weekend, or holiday grid, or copy another date.
+          </p>
+        </div>
+        {panelMessage && <p className="text-xs text-[#4b5133]">{panelMessage}</p>}
+      </div>
+
+      <div className="mt-3 grid gap-4 lg:grid-cols-3">
+        <div className="flex flex-col gap-2">
+          <span className="text-[10px] uppercase tracking-[0.12em] text-[#7a7f54]">Start from template</span>
+          <div className="flex flex-wrap gap-2">
+            <select value={templateId} onChange={(e) => setTemplateId(e.target.value)} className={inputClasses}>
+              <option value="">Choose a template</option>
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>
+                  {template.name} ({template.kind})
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              disabled={!selectedDate || !templateId || busy}
+              onClick={() => {
+                const template = templates.find((t) => t.id === templateId);
+                startFrom({ templateId }, `the "${template?.name || "selected"}" template`);
+              }}
+              className={buttonClasses}
+            >
+              Apply
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <span className="text-[10px] uppercase tracking-[0.12em] text-[#7a7f54]">Copy from date</span>
+          <div className="flex flex-wrap gap-2">
+            <input
+              type="date"
+              value={copyFromDate}
+              onChange={(e) => setCopyFromDate(e.target.value)}
+              className={inputClasses}
+            />
+            <button
+              type="button"
+              disabled={!selectedDate || !copyFromDate || busy}
+              onClick={() => {
+                const [year, month, day] = copyFromDate.split("-");
+                const label = `${month}/${day}/${year}`;
+                startFrom({ copyFromDate: label }, `the ${label} schedule`);
+              }}
+              className={buttonClasses}
+            >
+              Copy
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <span className="text-[10px] uppercase tracking-[0.12em] text-[#7a7f54]">Save staging as template</span>
+          <div className="flex flex-wrap gap-2">
+            <input
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              placeholder="Template name"
+              className={inputClasses}
+            />
+            <select
+              value={templateKind}
+              onChange={(e) => setTemplateKind(e.target.value as ScheduleTemplate["kind"])}
+              className={inputClasses}
+            >
+              {TEMPLATE_KINDS.map((kind) => (
+                <option key={kind} value={kind}>
+                  {kind}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              disabled={!selectedDate || !templateName.trim() || busy}
+              onClick={saveTemplate}
+              className={buttonClasses}
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {templates.length > 0 && (
+        <ul className="mt-3 divide-y divide-[#ece6cb] rounded-md border border-[#e2d7b5] bg-[#faf7eb] text-xs text-[#4b5133]">
+          {templates.map((template) => (
+            <li key={template.id} className="flex flex-wrap items-center justify-between gap-2 px-3 py-2">
+              <div>
+                <span className="font-semibold text-[#314123]">{template.name}</span>
+                <span className="ml-2 text-[11px] text-[#7a7f54]">
+                  {template.slots.length} shifts • {template.people.length} rows
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <select
+                  value={template.kind}
+                  onChange={(e) =>
+                    updateTemplateKind(template, e.target.value as ScheduleTemplate["kind"])
+                  }
+                  className={inputClasses}
+                >
+                  {TEMPLATE_KINDS.map((kind) => (
+                    <option key={kind} value={kind}>
+                      {kind}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => deleteTemplate(template)}
+                  className="text-[11px] font-semibold text-[#a05252] hover:underline"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function issueClasses(severity: ScheduleIssue["severity"]) {
+  return severity === "error"
+    ? "bg-rose-50 border-rose-200 text-rose-900"
+    : "bg-amber-50 border-amber-200 text-amber-900";
+}
+
+function PublishReviewPanel({
+  diff,
+  dateLabel,
+  blockingIssues,
+  override,
+  onOverrideChange,
+  publishing,
+  onConfirm,
+  onCancel,
+}: {
+  diff: PublishDiff;
+  dateLabel: string;
+  blockingIssues: ScheduleIssue[];
+  override: boolean;
+  onOverrideChange: (value: boolean) => void;
+  publishing: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}) {
+  const rosterNotes = [
+    ...diff.peopleAdded.map((person) => `${person} joins the grid`),
+    ...diff.peopleRemoved.map((person) => `${person} leaves the grid`),
+    ...diff.slotsAdded.map((slot) => `New shift: ${slot}`),
+    ...diff.slotsRemoved.map((slot) => `Shift removed: ${slot}`),
+  ];
+  const hasChanges = diff.changes.length > 0 || rosterNotes.length > 0;
+
+  return (
+    <div className="rounded-2xl border border-[#d0c9a4] bg-white/90 p-4 shadow-sm">
+      <div className="flex flex-col gap-1 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-[#314123]">Review changes before publishing</h2>
+          <p className="text-xs text-[#6a6c4d]">
+            {diff.liveVersion
+              ? `Comparing staging for ${dateLabel} with live version ${diff.liveVersion}${
+                  diff.publishedBy ? ` by ${diff.publishedBy}` : ""
+                }${diff.publishedAt ? ` (${new Date(diff.publishedAt).toLocaleString()})` : ""}.`
+              : `Nothing has been published for ${dateLabel} yet.`}
+          </p>
+        </div>
+        <div className="flex gap-2 text-xs">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-md border border-[#d0c9a4] bg-white px-3 py-1 font-semibold uppercase tracking-[0.08em] text-[#314123] shadow-sm transition hover:bg-[#f1edd8]"
+          >
+            Keep editing
+          </button>
+          <button
+            type="button"
+            onClick={onConfirm}
+            disabled={publishing || (blockingIssues.length > 0 && !override)}
+            className="rounded-md bg-[#8fae4c] px-3 py-1 font-semibold uppercase tracking-[0.08em] text-[#f9f9ec] shadow-sm transition hover:bg-[#7e9c44] disabled:opacity-60"
+          >
+            {publishing ? "Publishing…" : "Confirm publish"}
+          </button>
+        </div>
+      </div>
+
+      {blockingIssues.length > 0 && (
+        <div className="mt-3 rounded-md border border-rose-200 bg-rose-50 px-3 py-2 text-[12px] text-rose-900">
+          <p className="font-semibold">
+            {blockingIssues.length} conflict{blockingIssues.length === 1 ? "" : "s"} must be fixed before publishing.
+          </p>
+          <ul className="mt-1 list-disc space-y-[2px] pl-4">
+            {blockingIssues.map((issue, idx) => (
+              <li key={`${issue.code}-${idx}`}>{issue.message}</li>
+            ))}
+          </ul>
+          <label className="mt-2 flex items-center gap-2 text-[11px] font-semibold">
+            <input
+              type="checkbox"
+              checked={override}
+              onChange={(e) => onOverrideChange(e.target.checked)}
+            />
+            Publish anyway (admin override)
+          </label>
+        </div>
+      )}
+
+      {!hasChanges && (
+        <p className="mt-3 text-sm text-[#7a7f54]">Staging matches the live schedule.</p>
+      )}
+
+      {rosterNotes.length > 0 && (
+        <ul className="mt-3 flex flex-wrap gap-2 text-[11px] text-[#4b5133]">
+          {rosterNotes.map((note) => (
+            <li key={note} className="rounded-full border border-[#e2d7b5] bg-[#f6f1dd] px-2 py-[2px]">
+              {note}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {diff.changes.length > 0 && (
+        <ul className="mt-3 max-h-64 space-y-1 overflow-y-auto pr-1 text-[12px]">
+          {diff.changes.map((change, idx) => (
+            <li
+              key={`${change.type}-${change.person}-${change.slotId}-${idx}`}
+              className={`flex items-start gap-2 rounded-md border px-2 py-1 ${changeBadgeClasses(change.type)}`}
+            >
+              <span className="text-[10px] font-semibold uppercase tracking-[0.1em]">{change.type}</span>
+              <span>{describeChange(change)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,16 @@
 
 import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
+import {
+  describeRecurrence,
+  RECURRENCE_UNITS,
+  ruleFromColumns,
+  SETPOS_OPTIONS,
+  toRRule,
+  WEEKDAY_LABELS,
+  WEEKDAYS,
+  weekdayOf,
+} from "@/lib/recurrence";
 import { loadSession } from "@/lib/session";
 
 type TaskType = { id: string; name: string; color: string };
@@ -15,22 +25,29 @@ type TaskItem = {
   recurring: boolean;
   recurrence_interval?: number | null;
   recurrence_unit?: string | null;
+  recurrence_weekdays?: string[] | null;
+  recurrence_setpos?: number | null;
   recurrence_until?: string | null;
+  recurrence_count?: number | null;
+  recurrence_exdates?: string[] | null;
   origin_date?: string | null;
   occurrence_date?: string | null;
+  parent_task_id?: string | null;
   person_count?: number | null;
   links?: string[] | null;
-  comments?: string[] | null;
   photos?: string[] | null;
   time_slots?: string[] | null;
+  required_capabilities?: string[] | null;
   extra_notes?: string[] | null;
   task_type?: TaskType | null;
   task_type_id?: string | null;
 };
 
+type ChecklistStep = { id?: string | null; label: string };
+type TaskReference = { id: string; name: string };
+
 const STATUS_OPTIONS = ["Not Started", "In Progress", "Completed"];
 const PRIORITY_OPTIONS = ["Low", "Medium", "High"];
-const RECURRENCE_UNITS = ["day", "month", "year"];
 const COLOR_OPTIONS = [
   "default",
   "gray",
@@ -75,6 +92,11 @@ export default function TaskEditorPage() {
   }>({ task: null, mode: "single", occurrenceDate: null });
   const [deleteOccurrences, setDeleteOccurrences] = useState(false);
   const [editing, setEditing] = useState<TaskItem | null>(null);
+  const [checklist, setChecklist] = useState<ChecklistStep[]>([]);
+  const [checklistDirty, setChecklistDirty] = useState(false);
+  const [prerequisites, setPrerequisites] = useState<TaskReference[]>([]);
+  const [prerequisitesDirty, setPrerequisitesDirty] = useState(false);
+  const [taskOptions, setTaskOptions] = useState<TaskReference[]>([]);
   const [draft, setDraft] = useState<TaskItem>({
     id: "",
     name: "",
@@ -85,14 +107,18 @@ export default function TaskEditorPage() {
     recurring: false,
     recurrence_interval: null,
     recurrence_unit: "day",
+    recurrence_weekdays: [],
+    recurrence_setpos: null,
     recurrence_until: "",
+    recurrence_count: null,
+    recurrence_exdates: [],
     origin_date: "",
     occurrence_date: "",
     person_count: null,
     links: [],
-    comments: [],
     photos: [],
     time_slots: [],
+    required_capabilities: [],
     extra_notes: [],
     task_type_id: "",
   });
@@ -153,14 +179,66 @@ export default function TaskEditorPage() {
     return () => clearTimeout(timeout);
   }, [filters, authorized]);
 
+  async function loadChecklist(taskId: string) {
+    try {
+      const res = await fetch(`/api/tasks/checklist?taskId=${encodeURIComponent(taskId)}`);
+      const json = await res.json().catch(() => null);
+      setChecklist((json?.items || []).map((item: ChecklistStep) => ({ id: item.id, label: item.label })));
+    } catch (err) {
+      console.error("Failed to load checklist", err);
+    }
+  }
+
+  async function loadDependencies(taskId: string) {
+    try {
+      const res = await fetch(`/api/tasks/dependencies?taskId=${encodeURIComponent(taskId)}`);
+      const json = await res.json().catch(() => null);
+      setPrerequisites(json?.prerequisites || []);
+    } catch (err) {
+      console.error("Failed to load task dependencies", err);
+    }
+  }
+
+  // Prerequisites are picked from series roots and one-off tasks, not occurrences.
+  async function loadTaskOptions() {
+    try {
+      const res = await fetch("/api/tasks?includeOccurrences=false");
+      const json = await res.json().catch(() => null);
+      setTaskOptions((json?.tasks || []).map((task: TaskItem) => ({ id: task.id, name: task.name })));
+    } catch (err) {
+      console.error("Failed to load task options", err);
+    }
+  }
+
+  function updatePrerequisites(next: TaskReference[]) {
+    setPrerequisites(next);
+    setPrerequisitesDirty(true);
+  }
+
+  function updateChecklist(steps: ChecklistStep[]) {
+    setChecklist(steps);
+    setChecklistDirty(true);
+  }
+
   function openEditor(task?: TaskItem) {
+    setChecklist([]);
+    setChecklistDirty(false);
+    setPrerequisites([]);
+    setPrerequisitesDirty(false);
+    loadTaskOptions();
     if (task) {
+      loadChecklist(task.id);
+      loadDependencies(task.id);
       setEditing(task);
       setDraft({
         ...task,
         task_type_id: task.task_type?.id || task.task_type_id || "",
         recurrence_interval: task.recurrence_interval ?? null,
         recurrence_unit: task.recurrence_unit ?? "day",
+        recurrence_weekdays: task.recurrence_weekdays ?? [],
+        recurrence_setpos: task.recurrence_setpos ?? null,
+        recurrence_count: task.recurrence_count ?? null,
+        recurrence_exdates: task.recurrence_exdates ?? [],
       });
     } else {
       setEditing(null);
@@ -174,14 +252,18 @@ export default function TaskEditorPage() {
         recurring: false,
         recurrence_interval: null,
         recurrence_unit: "day",
+        recurrence_weekdays: [],
+        recurrence_setpos: null,
         recurrence_until: "",
+        recurrence_count: null,
+        recurrence_exdates: [],
         origin_date: "",
         occurrence_date: "",
         person_count: null,
         links: [],
-        comments: [],
         photos: [],
         time_slots: [],
+        required_capabilities: [],
         extra_notes: [],
         task_type_id: "",
       });
@@ -210,20 +292,30 @@ export default function TaskEditorPage() {
       recurring: draft.recurring,
       recurrence_interval: draft.recurring ? Number(draft.recurrence_interval || 1) : null,
       recurrence_unit: draft.recurring ? draft.recurrence_unit || "day" : null,
+      recurrence_weekdays:
+        draft.recurring &&
+        (draft.recurrence_unit === "week" ||
+          (draft.recurrence_unit === "month" && draft.recurrence_setpos != null))
+          ? draft.recurrence_weekdays || []
+          : [],
+      recurrence_setpos:
+        draft.recurring && draft.recurrence_unit === "month" ? draft.recurrence_setpos ?? null : null,
       recurrence_until: draft.recurring ? draft.recurrence_until || null : null,
+      recurrence_count: draft.recurring ? draft.recurrence_count || null : null,
+      recurrence_exdates: draft.recurring ? draft.recurrence_exdates || [] : [],
       origin_date: draft.origin_date || null,
       occurrence_date: draft.occurrence_date || null,
       person_count: draft.person_count ?? null,
       links: draft.links || [],
-      comments: draft.comments || [],
       photos: draft.photos || [],
       time_slots: draft.time_slots || [],
+      required_capabilities: draft.required_capabilities || [],
       extra_notes: draft.extra_notes || [],
     };
 
     try {
       if (editing?.id) {
-        await fetch("/api/tasks", {
+        const res = await fetch("/api/tasks", {
           method: "PATCH",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
@@ -234,13 +326,25 @@ export default function TaskEditorPage() {
             ...payload,
           }),
         });
+        const json = await res.json().catch(() => null);
+        if (!res.ok) {
+          setMessage(json?.error || "Unable to save task.");
+          return;
+        }
+        if (!(await saveTaskExtras(json?.id || editing.id))) return;
         setMessage("Task updated.");
       } else {
-        await fetch("/api/tasks", {
+        const res = await fetch("/api/tasks", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify(payload),
         });
+        const json = await res.json().catch(() => null);
+        if (!res.ok) {
+          setMessage(json?.error || "Unable to save task.");
+          return;
+        }
+        if (json?.task?.id && !(await saveTaskExtras(json.task.id))) return;
         setMessage("Task created.");
       }
       setEditorOpen(false);
@@ -253,6 +357,40 @@ export default function TaskEditorPage() {
     }
   }
 
+  // Checklist steps and prerequisites live in their own tables and are saved
+  // once the task itself has an id.
+  async function saveTaskExtras(taskId: string) {
+    const saves: [string, string, Record<string, unknown>][] = [];
+    if (checklistDirty) {
+      saves.push([
+        "checklist",
+        "/api/tasks/checklist",
+        { taskId, items: checklist.filter((step) => step.label.trim()) },
+      ]);
+    }
+    if (prerequisitesDirty) {
+      saves.push([
+        "prerequisites",
+        "/api/tasks/dependencies",
+        { taskId, prerequisiteIds: prerequisites.map((task) => task.id) },
+      ]);
+    }
+
+    for (const [label, url, body] of saves) {
+      const res = await fetch(url, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        setMessage(`Task saved, but saving its ${label} failed: ${json?.error || "unknown error"}.`);
+        return false;
+      }
+    }
+    return true;
+  }
+
   async function handleCreateType() {
     if (!typeEditor.name.trim()) return;
     try {
@@ -729,6 +867,7 @@ export default function TaskEditorPage() {
                 <input
                   value={draft.estimated_time || ""}
                   onChange={(e) => setDraft((prev) => ({ ...prev, estimated_time: e.target.value }))}
+                  placeholder="e.g. 45 min or 1h 30m"
                   className="w-full rounded-md border border-[#d0c9a4] px-3 py-2 text-sm"
                 />
               </div>
@@ -801,50 +940,10 @@ export default function TaskEditorPage() {
                 </label>
               </div>
               {draft.recurring && (
-                <div className="mt-3 grid gap-3 md:grid-cols-3">
-                  <div className="space-y-1">
-                    <label className="text-[11px] uppercase text-[#6b6f4c]">Every</label>
-                    <input
-                      type="number"
-                      min={1}
-                      value={draft.recurrence_interval ?? 1}
-                      onChange={(e) =>
-                        setDraft((prev) => ({
-                          ...prev,
-                          recurrence_interval: Number(e.target.value),
-                        }))
-                      }
-                      className="w-full rounded-md border border-[#d0c9a4] px-3 py-2 text-sm"
-                    />
-                  </div>
-                  <div className="space-y-1">
-                    <label className="text-[11px] uppercase text-[#6b6f4c]">Unit</label>
-                    <select
-                      value={draft.recurrence_unit || "day"}
-                      onChange={(e) =>
-                        setDraft((prev) => ({ ...prev, recurrence_unit: e.target.value }))
-                      }
-                      className="w-full rounded-md border border-[#d0c9a4] px-3 py-2 text-sm"
-                    >
-                      {RECURRENCE_UNITS.map((unit) => (
-                        <option key={unit} value={unit}>
-                          {unit}
-                        </option>
-                      ))}
-                    </select>
-                  </div>
-                  <div className="space-y-1">
-                    <label className="text-[11px] uppercase text-[#6b6f4c]">Until</label>
-                    <input
-                      type="date"
-                      value={draft.recurrence_until || ""}
-                      onChange={(e) =>
-                        setDraft((prev) => ({ ...prev, recurrence_until: e.target.value }))
-                      }
-                      className="w-full rounded-md border border-[#d0c9a4] px-3 py-2 text-sm"
-                    />
-                  </div>
-                </div>
+                <RecurrenceFields
+                  draft={draft}
+                  onChange={(changes) => setDraft((prev) => ({ ...prev, ...changes }))}
+                />
               )}
             </div>
 
@@ -916,37 +1015,39 @@ export default function TaskEditorPage() {
                 />
               </div>
               <div className="space-y-2">
-                <label className="text-xs font-semibold uppercase text-[#6b6f4c]">Links</label>
+                <label className="text-xs font-semibold uppercase text-[#6b6f4c]">
+                  Required capabilities
+                </label>
                 <input
-                  value={(draft.links || []).join(", ")}
+                  value={(draft.required_capabilities || []).join(", ")}
                   onChange={(e) =>
                     setDraft((prev) => ({
                       ...prev,
-                      links: e.target.value
+                      required_capabilities: e.target.value
                         .split(",")
-                        .map((link) => link.trim())
+                        .map((capability) => capability.trim())
                         .filter(Boolean),
                     }))
                   }
                   className="w-full rounded-md border border-[#d0c9a4] px-3 py-2 text-sm"
-                  placeholder="https://example.com"
+                  placeholder="Milking, Tractor"
                 />
               </div>
               <div className="space-y-2">
-                <label className="text-xs font-semibold uppercase text-[#6b6f4c]">Comments</label>
+                <label className="text-xs font-semibold uppercase text-[#6b6f4c]">Links</label>
                 <input
-                  value={(draft.comments || []).join(", ")}
+                  value={(draft.links || []).join(", ")}
                   onChange={(e) =>
                     setDraft((prev) => ({
                       ...prev,
-                      comments: e.target.value
+                      links: e.target.value
                         .split(",")
-                        .map((comment) => comment.trim())
+                        .map((link) => link.trim())
                         .filter(Boolean),
                     }))
                   }
                   className="w-full rounded-md border border-[#d0c9a4] px-3 py-2 text-sm"
-                  placeholder="Internal notes, follow ups"
+                  placeholder="https://example.com"
                 />
               </div>
               <div className="space-y-2">
@@ -985,6 +1086,18 @@ export default function TaskEditorPage() {
               </div>
             </div>
 
+            <PrerequisitesField
+              value={prerequisites}
+              options={taskOptions.filter((task) => task.id !== editing?.id && task.id !== editing?.parent_task_id)}
+              onChange={updatePrerequisites}
+            />
+
+            <ChecklistEditor
+              steps={checklist}
+              onChange={updateChecklist}
+              extraNotes={draft.extra_notes || []}
+            />
+
               <div className="mt-5 flex items-center justify-end gap-2">
                 {editing && (
                   <button
@@ -1103,3 +1216,381 @@ export default function TaskEditorPage() {
     </div>
   );
 }
+
+function RecurrenceFields({
+  draft,
+  onChange,
+}: {
+  draft: TaskItem;
+  onChange: (changes: Partial<TaskItem>) => void;
+}) {
+  const [exdate, setExdate] = useState("");
+  const unit = draft.recurrence_unit || "day";
+  const weekdays = draft.recurrence_weekdays || [];
+  const exdates = draft.recurrence_exdates || [];
+  const start = draft.origin_date || draft.occurrence_date || null;
+  const rule = ruleFromColumns(draft);
+
+  function toggleWeekday(day: string) {
+    onChange({
+      recurrence_weekdays: weekdays.includes(day)
+        ? weekdays.filter((item) => item !== day)
+        : [...weekdays, day],
+    });
+  }
+
+  return (
+    <div className="mt-3 space-y-3">
+      <div className="grid gap-3 md:grid-cols-2">
+        <div className="space-y-1">
+          <label className="text-[11px] uppercase text-[#6b6f4c]">Every</label>
+          <input
+            type="number"
+            min={1}
+            value={draft.recurrence_interval ?? 1}
+            onChange={(e) => onChange({ recurrence_interval: Number(e.target.value) })}
+            className="w-full rounded-md border border-[#d0c9a4] px-3 py-2 text-sm"
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[11px] uppercase text-[#6b6f4c]">Unit</label>
+          <select
+            value={unit}
+            onChange={(e) =>
+              onChange({ recurrence_unit: e.target.value, recurrence_weekdays: [], recurrence_setpos: null })
+            }
+            className="w-full rounded-md border border-[#d0c9a4] px-3 py-2 text-sm"
+          >
+            {RECURRENCE_UNITS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {unit === "week" && (
+        <div className="space-y-1">
+          <label className="text-[11px] uppercase text-[#6b6f4c]">On</label>
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAYS.map((day) => (
+              <button
+                key={day}
+                type="button"
+                onClick={() => toggleWeekday(day)}
+                className={`rounded-full border px-3 py-1 text-xs font-semibold ${
+                  weekdays.includes(day)
+                    ? "border-[#8fae4c] bg-[#a0b764] text-white"
+                    : "border-[#d0c9a4] bg-white text-[#4f5730]"
+                }`}
+              >
+                {WEEKDAY_LABELS[day]}
+              </button>
+            ))}
+          </div>
+          <p className="text-[11px] text-[#6f754f]">Leave empty to repeat on the start date&apos;s weekday.</p>
+        </div>
+      )}
+
+      {unit === "month" && (
+        <div className="space-y-2 text-sm text-[#4b5133]">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={draft.recurrence_setpos == null}
+              onChange={() => onChange({ recurrence_setpos: null, recurrence_weekdays: [] })}
+            />
+            On the same day of the month as the start date
+          </label>
+          <label className="flex flex-wrap items-center gap-2">
+            <input
+              type="radio"
+              checked={draft.recurrence_setpos != null}
+              onChange={() =>
+                onChange({
+                  recurrence_setpos: 1,
+                  recurrence_weekdays: [start ? weekdayOf(start) : "SU"],
+                })
+              }
+            />
+            On the
+            <select
+              value={draft.recurrence_setpos ?? 1}
+              disabled={draft.recurrence_setpos == null}
+              onChange={(e) => onChange({ recurrence_setpos: Number(e.target.value) })}
+              className="rounded-md border border-[#d0c9a4] px-2 py-1 text-sm disabled:opacity-60"
+            >
+              {SETPOS_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={weekdays[0] || "SU"}
+              disabled={draft.recurrence_setpos == null}
+              onChange={(e) => onChange({ recurrence_weekdays: [e.target.value] })}
+              className="rounded-md border border-[#d0c9a4] px-2 py-1 text-sm disabled:opacity-60"
+            >
+              {WEEKDAYS.map((day) => (
+                <option key={day} value={day}>
+                  {WEEKDAY_LABELS[day]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+
+      <div className="grid gap-3 md:grid-cols-2">
+        <div className="space-y-1">
+          <label className="text-[11px] uppercase text-[#6b6f4c]">Until</label>
+          <input
+            type="date"
+            value={draft.recurrence_until || ""}
+            onChange={(e) => onChange({ recurrence_until: e.target.value })}
+            className="w-full rounded-md border border-[#d0c9a4] px-3 py-2 text-sm"
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-[11px] uppercase text-[#6b6f4c]">Or after (occurrences)</label>
+          <input
+            type="number"
+            min={1}
+            value={draft.recurrence_count ?? ""}
+            onChange={(e) =>
+              onChange({ recurrence_count: e.target.value ? Number(e.target.value) : null })
+            }
+            className="w-full rounded-md border border-[#d0c9a4] px-3 py-2 text-sm"
+            placeholder="No limit"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <label className="text-[11px] uppercase text-[#6b6f4c]">Skip dates</label>
+        <div className="flex gap-2">
+          <input
+            type="date"
+            value={exdate}
+            onChange={(e) => setExdate(e.target.value)}
+            className="rounded-md border border-[#d0c9a4] px-3 py-2 text-sm"
+          />
+          <button
+            type="button"
+            disabled={!exdate}
+            onClick={() => {
+              onChange({ recurrence_exdates: Array.from(new Set([...exdates, exdate])).sort() });
+              setExdate("");
+            }}
+            className="rounded-md border border-[#d0c9a4] bg-white px-3 py-2 text-xs font-semibold text-[#4f5730] disabled:opacity-60"
+          >
+            Add
+          </button>
+        </div>
+        {exdates.length > 0 && (
+          <div className="flex flex-wrap gap-2 pt-1">
+            {exdates.map((date) => (
+              <button
+                key={date}
+                type="button"
+                onClick={() => onChange({ recurrence_exdates: exdates.filter((item) => item !== date) })}
+                className="rounded-full border border-[#d0c9a4] bg-white px-3 py-1 text-xs text-[#4f5730]"
+                title="Remove"
+              >
+                {date} ✕
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {rule && (
+        <p className="text-[11px] text-[#6f754f]">
+          {describeRecurrence(rule, start)} · <span className="font-mono">{toRRule(rule)}</span>
+        </p>
+      )}
+    </div>
+  );
+}
+
+function ChecklistEditor({
+  steps,
+  onChange,
+  extraNotes,
+}: {
+  steps: ChecklistStep[];
+  onChange: (steps: ChecklistStep[]) => void;
+  extraNotes: string[];
+}) {
+  const [newStep, setNewStep] = useState("");
+
+  function move(index: number, offset: number) {
+    const target = index + offset;
+    if (target < 0 || target >= steps.length) return;
+    const next = [...steps];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  }
+
+  function addStep() {
+    if (!newStep.trim()) return;
+    onChange([...steps, { label: newStep.trim() }]);
+    setNewStep("");
+  }
+
+  return (
+    <div className="mt-4 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <label className="text-xs font-semibold uppercase text-[#6b6f4c]">Checklist</label>
+        {!steps.length && extraNotes.length > 0 && (
+          <button
+            type="button"
+            onClick={() => onChange(extraNotes.map((note) => ({ label: note })))}
+            className="text-[11px] font-semibold text-[#5d7f3b] hover:underline"
+          >
+            Use extra notes as steps
+          </button>
+        )}
+      </div>
+      <p className="text-[11px] text-[#7a7f54]">
+        Steps apply to every occurrence; volunteers tick them off for each day.
+      </p>
+      {steps.length > 0 && (
+        <ol className="space-y-1">
+          {steps.map((step, index) => (
+            <li key={step.id || `new-${index}`} className="flex items-center gap-2">
+              <span className="w-5 text-right text-xs text-[#7a7f54]">{index + 1}.</span>
+              <input
+                value={step.label}
+                onChange={(e) =>
+                  onChange(steps.map((item, idx) => (idx === index ? { ...item, label: e.target.value } : item)))
+                }
+                className="flex-1 rounded-md border border-[#d0c9a4] px-2 py-1 text-sm"
+              />
+              <button
+                type="button"
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                className="rounded border border-[#d0c9a4] px-2 py-1 text-xs text-[#4f5730] disabled:opacity-40"
+                aria-label="Move step up"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => move(index, 1)}
+                disabled={index === steps.length - 1}
+                className="rounded border border-[#d0c9a4] px-2 py-1 text-xs text-[#4f5730] disabled:opacity-40"
+                aria-label="Move step down"
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(steps.filter((_, idx) => idx !== index))}
+                className="rounded border border-red-200 px-2 py-1 text-xs text-red-700"
+                aria-label="Remove step"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+      <div className="flex gap-2">
+        <input
+          value={newStep}
+          onChange={(e) => setNewStep(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addStep();
+            }
+          }}
+          className="flex-1 rounded-md border border-[#d0c9a4] px-3 py-2 text-sm"
+          placeholder="Add a step, e.g. Sanitise the milking stand"
+        />
+        <button
+          type="button"
+          onClick={addStep}
+          disabled={!newStep.trim()}
+          className="rounded-md border border-[#d0c9a4] bg-white px-3 py-2 text-xs font-semibold uppercase text-[#4f5730] disabled:opacity-60"
+        >
+          Add step
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function PrerequisitesField({
+  value,
+  options,
+  onChange,
+}: {
+  value: TaskReference[];
+  options: TaskReference[];
+  onChange: (next: TaskReference[]) => void;
+}) {
+  const [pick, setPick] = useState("");
+  const chosen = new Set(value.map((task) => task.id));
+  const available = options.filter((task) => !chosen.has(task.id));
+
+  return (
+    <div className="mt-4 space-y-2">
+      <label className="text-xs font-semibold uppercase text-[#6b6f4c]">Prerequisites</label>
+      <p className="text-[11px] text-[#7a7f54]">
+        On days both are due, this task shows as blocked until these are completed.
+      </p>
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((task) => (
+            <span
+              key={task.id}
+              className="inline-flex items-center gap-1 rounded-full border border-[#d0c9a4] bg-[#f6f1dd] px-2 py-1 text-xs text-[#4b5133]"
+            >
+              {task.name}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((item) => item.id !== task.id))}
+                className="text-[#7a7f54] hover:text-red-700"
+                aria-label={`Remove ${task.name}`}
+              >
+                ✕
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2">
+        <select
+          value={pick}
+          onChange={(e) => setPick(e.target.value)}
+          className="flex-1 rounded-md border border-[#d0c9a4] px-3 py-2 text-sm"
+        >
+          <option value="">Choose a task that must happen first</option>
+          {available.map((task) => (
+            <option key={task.id} value={task.id}>
+              {task.name}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => {
+            const task = available.find((item) => item.id === pick);
+            if (!task) return;
+            onChange([...value, task]);
+            setPick("");
+          }}
+          disabled={!pick}
+          className="rounded-md border border-[#d0c9a4] bg-white px-3 py-2 text-xs font-semibold uppercase text-[#4f5730] disabled:opacity-60"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  );
+}
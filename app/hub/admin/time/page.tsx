@@ -0,0 +1,194 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import { loadSession } from "@/lib/session";
+
+type TimeReportRow = {
+  key: string;
+  label: string;
+  occurrences: number;
+  estimatedMinutes: number | null;
+  averageMinutes: number;
+  totalMinutes: number;
+  entries: number;
+};
+
+type TimeReport = {
+  tasks: TimeReportRow[];
+  types: TimeReportRow[];
+  entries: number;
+};
+
+const formatMinutes = (minutes: number | null) => {
+  if (minutes === null) return "—";
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours}h ${rest}m` : `${hours}h`;
+};
+
+export default function AdminTimeReportPage() {
+  const router = useRouter();
+  const [authorized, setAuthorized] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [report, setReport] = useState<TimeReport | null>(null);
+  const [groupBy, setGroupBy] = useState<"tasks" | "types">("tasks");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const session = loadSession();
+    if (!session?.name) {
+      router.replace("/");
+      return;
+    }
+    if (!session.permissions?.includes("tasks.edit")) {
+      setMessage("You need the tasks.edit permission to view the time report.");
+      return;
+    }
+    setAuthorized(true);
+  }, [router]);
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    setMessage(null);
+    try {
+      const params = new URLSearchParams();
+      if (from) params.set("from", from);
+      if (to) params.set("to", to);
+      const res = await fetch(`/api/tasks/time/report?${params.toString()}`);
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        setMessage(json?.error || "Unable to load the time report.");
+        return;
+      }
+      setReport({ tasks: json.tasks || [], types: json.types || [], entries: json.entries || 0 });
+    } catch (err) {
+      console.error("Failed to load time report", err);
+      setMessage("Unable to load the time report.");
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to]);
+
+  useEffect(() => {
+    if (authorized) loadReport();
+    // Dates are applied with the Apply button, not on every change.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [authorized]);
+
+  const inputClasses =
+    "rounded-md border border-[#d0c9a4] px-3 py-2 text-sm focus:border-[#8fae4c] focus:outline-none";
+  const rows = report?.[groupBy] || [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-xl font-semibold text-[#314123]">Time report</h1>
+          <p className="text-sm text-[#7a7f54]">
+            How long tasks actually take next to their estimates, from the timers volunteers run in the hub.
+          </p>
+        </div>
+        <Link
+          href="/hub/admin"
+          className="rounded-md border border-[#d0c9a4] bg-white px-4 py-2 text-xs font-semibold uppercase tracking-[0.1em] text-[#314123] shadow-sm transition hover:bg-[#f1edd8]"
+        >
+          Back to admin
+        </Link>
+      </div>
+
+      {message && (
+        <div className="rounded-md border border-[#d0c9a4] bg-[#f8f4e3] px-3 py-2 text-sm text-[#4b5133]">
+          {message}
+        </div>
+      )}
+
+      {authorized && (
+        <>
+          <form
+            className="flex flex-wrap items-end gap-2 rounded-xl border border-[#d0c9a4] bg-white/80 p-4 text-sm shadow-sm"
+            onSubmit={(e) => {
+              e.preventDefault();
+              loadReport();
+            }}
+          >
+            <select
+              value={groupBy}
+              onChange={(e) => setGroupBy(e.target.value as "tasks" | "types")}
+              className={inputClasses}
+            >
+              <option value="tasks">By task</option>
+              <option value="types">By task type</option>
+            </select>
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClasses} />
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClasses} />
+            <button
+              type="submit"
+              disabled={loading}
+              className="rounded-md bg-[#8fae4c] px-4 py-2 text-xs font-semibold uppercase tracking-[0.1em] text-[#f9f9ec] shadow-md transition hover:bg-[#7e9c44] disabled:opacity-60"
+            >
+              {loading ? "Loading…" : "Apply"}
+            </button>
+          </form>
+
+          <section className="overflow-x-auto rounded-xl border border-[#d0c9a4] bg-white/80 shadow-sm">
+            {rows.length === 0 ? (
+              <p className="p-4 text-sm text-[#7a7f54]">No time tracked in this range.</p>
+            ) : (
+              <table className="w-full text-left text-sm text-[#4b5133]">
+                <thead className="bg-[#f9f6e7] text-xs uppercase tracking-[0.08em] text-[#7a7f54]">
+                  <tr>
+                    <th className="px-3 py-2 font-semibold">{groupBy === "tasks" ? "Task" : "Task type"}</th>
+                    <th className="px-3 py-2 font-semibold">Runs</th>
+                    <th className="px-3 py-2 font-semibold">Estimate</th>
+                    <th className="px-3 py-2 font-semibold">Actual (avg)</th>
+                    <th className="px-3 py-2 font-semibold">Difference</th>
+                    <th className="px-3 py-2 font-semibold">Total tracked</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => {
+                    const difference =
+                      row.estimatedMinutes === null ? null : row.averageMinutes - row.estimatedMinutes;
+                    return (
+                      <tr key={row.key} className="border-t border-[#ece6cb]">
+                        <td className="px-3 py-2 font-semibold text-[#314123]">{row.label}</td>
+                        <td className="px-3 py-2">{row.occurrences}</td>
+                        <td className="px-3 py-2">{formatMinutes(row.estimatedMinutes)}</td>
+                        <td className="px-3 py-2">{formatMinutes(row.averageMinutes)}</td>
+                        <td
+                          className={`px-3 py-2 ${
+                            difference === null
+                              ? "text-[#7a7f54]"
+                              : difference > 0
+                                ? "text-[#8a3b3b]"
+                                : "text-[#476524]"
+                          }`}
+                        >
+                          {difference === null
+                            ? "No estimate"
+                            : `${difference > 0 ? "+" : difference < 0 ? "−" : ""}${formatMinutes(Math.abs(difference))}`}
+                        </td>
+                        <td className="px-3 py-2">{formatMinutes(row.totalMinutes)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </section>
+          {report && report.entries > 0 && (
+            <p className="text-xs text-[#7a7f54]">
+              Based on {report.entries} timer {report.entries === 1 ? "entry" : "entries"}. Actual time adds up
+              everyone who worked a run; timers left running count up to 12 hours.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
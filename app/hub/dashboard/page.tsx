@@ -162,7 +162,7 @@ export default function WorkDashboardPage() {
               return {
                 name: taskName,
                 status: detail.status || "",
-                commentCount: Array.isArray(detail.comments) ? detail.comments.length : 0,
+                commentCount: Number(detail.commentCount) || 0,
               };
             })
           ),
@@ -3,7 +3,13 @@
 import { ReactNode, useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
-import { clearSession, loadSession } from "@/lib/session";
+import {
+  loadSession,
+  logout,
+  refreshSession,
+  stopImpersonating,
+  type UserSession,
+} from "@/lib/session";
 import { HubAssistantChat } from "@/components/HubAssistantChat";
 
 function labelColorToClasses(color?: string | null) {
@@ -29,6 +35,7 @@ export default function HubLayout({ children }: { children: ReactNode }) {
   const [name, setName] = useState<string>("");
   const [userType, setUserType] = useState<string | null>(null);
   const [userTypeColor, setUserTypeColor] = useState<string | null>(null);
+  const [impersonation, setImpersonation] = useState<UserSession["impersonation"]>(null);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [desktopGuidesOpen, setDesktopGuidesOpen] = useState(false);
   const [mobileGuidesOpen, setMobileGuidesOpen] = useState(false);
@@ -43,14 +50,29 @@ export default function HubLayout({ children }: { children: ReactNode }) {
   const isAdmin = normalizedType === "admin";
 
   useEffect(() => {
-    const session = loadSession();
-    if (!session || !session.name) {
-      router.replace("/");
-      return;
+    const cached = loadSession();
+    if (cached?.name) {
+      setName(cached.name);
+      setUserType(cached.userType ?? null);
+      setUserTypeColor(cached.userTypeColor ?? null);
+      setImpersonation(cached.impersonation ?? null);
     }
-    setName(session.name);
-    setUserType(session.userType ?? null);
-    setUserTypeColor(session.userTypeColor ?? null);
+
+    let cancelled = false;
+    refreshSession().then((session) => {
+      if (cancelled) return;
+      if (!session || !session.name || session.mustChangePasscode) {
+        router.replace("/");
+        return;
+      }
+      setName(session.name);
+      setUserType(session.userType ?? null);
+      setUserTypeColor(session.userTypeColor ?? null);
+      setImpersonation(session.impersonation ?? null);
+    });
+    return () => {
+      cancelled = true;
+    };
   }, [router]);
 
   useEffect(() => {
@@ -110,11 +132,24 @@ export default function HubLayout({ children }: { children: ReactNode }) {
   );
   const showAssistant = false;
 
-  function handleLogout() {
-    clearSession();
+  async function handleLogout() {
+    await logout();
     router.replace("/");
   }
 
+  async function handleStopImpersonating() {
+    const session = await stopImpersonating();
+    if (!session?.name) {
+      router.replace("/");
+      return;
+    }
+    setName(session.name);
+    setUserType(session.userType ?? null);
+    setUserTypeColor(session.userTypeColor ?? null);
+    setImpersonation(session.impersonation ?? null);
+    router.replace("/hub/admin");
+  }
+
   useEffect(() => {
     // Close any open menus when navigating
     setMobileMenuOpen(false);
@@ -126,7 +161,7 @@ export default function HubLayout({ children }: { children: ReactNode }) {
 
   // Heartbeat to keep users marked online across all hub pages
   useEffect(() => {
-    if (!name) return undefined;
+    if (!name || impersonation) return undefined;
 
     let cancelled = false;
 
@@ -162,7 +197,7 @@ export default function HubLayout({ children }: { children: ReactNode }) {
         ping(true);
       }
     };
-  }, [name]);
+  }, [name, impersonation]);
 
   // Auto-generate reports once the configured Hawaii-time clock hits
   useEffect(() => {
@@ -257,6 +292,24 @@ export default function HubLayout({ children }: { children: ReactNode }) {
   return (
     <>
       <main className="min-h-screen flex flex-col bg-[#f8f4e3] text-[#3b4224]">
+        {impersonation && (
+          <div className="sticky top-0 z-40 bg-[#7a4e1d] text-[#fdf6e3] shadow-md">
+            <div className="max-w-6xl mx-auto px-3 sm:px-4 py-2 flex flex-wrap items-center justify-between gap-2 text-xs sm:text-sm">
+              <span>
+                Viewing the hub as <span className="font-semibold">{name}</span>
+                {userType ? ` (${userType})` : ""} ·{" "}
+                {impersonation.readOnly ? "read-only" : "changes allowed"} · signed in as{" "}
+                <span className="font-semibold">{impersonation.by}</span>
+              </span>
+              <button
+                onClick={handleStopImpersonating}
+                className="rounded-md border border-[#fdf6e3]/60 bg-[#fdf6e3] px-3 py-1 text-[10px] sm:text-xs font-semibold uppercase tracking-[0.12em] text-[#7a4e1d] hover:bg-white transition-colors"
+              >
+                Stop viewing as
+              </button>
+            </div>
+          </div>
+        )}
         {/* Header bar */}
         <header className="w-full bg-[#a0b764] text-[#f9f9ec] shadow-md relative">
           <div className="max-w-6xl mx-auto px-3 sm:px-4 py-2 sm:py-3 flex flex-col gap-2 sm:gap-3 sm:flex-row sm:items-center sm:justify-between">
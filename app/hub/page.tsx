@@ -2,6 +2,9 @@
 
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { loadSession } from "@/lib/session";
+import { computeGroupNamesForSlotTask } from "@/lib/scheduleCells";
+import { getMealIcon, typeColorClasses } from "@/lib/scheduleDisplay";
+import { parseTimeRange } from "@/lib/timeRange";
 import type { TaskMeta } from "./types";
 
 type Slot = {
@@ -30,6 +33,20 @@ type MealAssignment = {
   people: string[];
 };
 
+type ShiftSwap = {
+  id: string;
+  kind: "cover" | "swap";
+  requester: string;
+  requester_slot: string;
+  requester_value: string;
+  target_person: string | null;
+  target_slot: string | null;
+  target_value: string | null;
+  accepted_by: string | null;
+  status: "pending" | "accepted" | "approved" | "declined";
+  note: string | null;
+};
+
 type TaskClickPayload = {
   person: string;
   slot: Slot;
@@ -40,9 +57,54 @@ type TaskClickPayload = {
 
 type TaskComment = {
   id: string;
+  parentId: string | null;
   text: string;
   createdTime: string;
+  editedTime: string | null;
   author: string;
+  deleted: boolean;
+  mentions: string[];
+  canEdit: boolean;
+  canDelete: boolean;
+  replies: TaskComment[];
+};
+
+type ChecklistItem = {
+  id: string;
+  label: string;
+  checked: boolean;
+  checkedBy: string | null;
+  checkedAt: string | null;
+};
+
+type TaskMediaItem = {
+  id?: string;
+  name: string;
+  url: string;
+  thumbnailUrl?: string | null;
+  kind: "image" | "video" | "audio" | "file";
+  reference?: boolean;
+  uploadedBy?: string;
+  canDelete?: boolean;
+};
+
+type TimeEntry = {
+  id: string;
+  user: string;
+  startedAt: string;
+  endedAt: string | null;
+  minutes: number;
+  mine: boolean;
+};
+
+type TaskStatusEvent = {
+  id: string;
+  by: string;
+  from: string | null;
+  to: string;
+  scheduleDate: string | null;
+  slot: string | null;
+  at: string;
 };
 
 type AnimalProfile = {
@@ -70,15 +132,22 @@ type AnimalsResponse = {
 };
 
 type TaskDetails = {
+  id?: string;
   name: string;
   description: string;
   extraNotes?: string;
   status: string;
   comments: TaskComment[];
-  media: { name: string; url: string; kind: "image" | "video" | "audio" | "file" }[];
+  history?: TaskStatusEvent[];
+  lastCompleted?: { by: string; at: string } | null;
+  checklist?: ChecklistItem[];
+  blockedBy?: { name: string; status: string }[];
+  media: TaskMediaItem[];
   links?: { label: string; url: string }[];
   taskType?: { name: string; color: string };
   estimatedTime?: string;
+  estimatedMinutes?: number | null;
+  timeEntries?: TimeEntry[];
 };
 
 type TaskTypeOption = { name: string; color: string };
@@ -105,54 +174,13 @@ function taskBaseName(task: string): string {
   return task.split("\n")[0].trim();
 }
 
-function typeColorClasses(color?: string) {
-  const map: Record<string, string> = {
-    default: "bg-[#f7f7ef] border-[#e3e6d2] text-[#3f4630]",
-    gray: "bg-slate-50 border-slate-200 text-slate-800",
-    brown: "bg-amber-50 border-amber-200 text-amber-900",
-    orange: "bg-orange-50 border-orange-200 text-orange-900",
-    yellow: "bg-amber-100 border-amber-200 text-amber-900",
-    green: "bg-green-50 border-green-200 text-green-900",
-    blue: "bg-sky-50 border-sky-200 text-sky-900",
-    purple: "bg-violet-50 border-violet-200 text-violet-900",
-    pink: "bg-pink-50 border-pink-200 text-pink-900",
-    red: "bg-rose-50 border-rose-200 text-rose-900",
-  };
-
-  return map[color || "default"] || map.default;
-}
-
-function computeGroupNamesForSlotTask(
-  schedule: ScheduleResponse,
-  slotId: string,
-  taskFullText: string
-): string[] {
-  const slotIdx = schedule.slots.findIndex((s) => s.id === slotId);
-  if (slotIdx === -1) return [];
-
-  const base = taskBaseName(taskFullText || "");
-  if (!base) return [];
-
-  const names: string[] = [];
-
-  schedule.people.forEach((person, rowIdx) => {
-    const cell = (schedule.cells[rowIdx]?.[slotIdx] ?? "").trim();
-    if (!cell) return;
-
-    const hasTask = splitCellTasks(cell).some((t) => taskBaseName(t) === base);
-    if (hasTask) names.push(person);
-  });
-
-  // de-dupe, preserve order
-  return Array.from(new Set(names));
-}
-
 export default function HubSchedulePage() {
   const [data, setData] = useState<ScheduleResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [currentUserName, setCurrentUserName] = useState<string | null>(null);
   const [currentUserType, setCurrentUserType] = useState<string | null>(null);
+  const [canEditTasks, setCanEditTasks] = useState(false);
   const [currentSlotId, setCurrentSlotId] = useState<string | null>(null);
   const [knownUsers, setKnownUsers] = useState<string[]>([]);
   const scheduleScrollRef = useRef<HTMLDivElement | null>(null);
@@ -163,16 +191,22 @@ export default function HubSchedulePage() {
   const [showMineOnly, setShowMineOnly] = useState(false);
 
   const [taskMetaMap, setTaskMetaMap] = useState<Record<string, TaskMeta>>({});
+  const [blockedTasks, setBlockedTasks] = useState<Record<string, string[]>>({});
   const [taskTypes, setTaskTypes] = useState<TaskTypeOption[]>([]);
   const [statusOptions, setStatusOptions] = useState<StatusOption[]>([]);
   const scheduleFetchInFlight = useRef(false);
   const scheduleLastFetchAt = useRef(0);
   const scheduleRefreshIntervalMs = 120_000;
 
+  const [swaps, setSwaps] = useState<ShiftSwap[]>([]);
+
   // Modal state
   const [modalTask, setModalTask] = useState<TaskClickPayload | null>(null);
   const [modalDetails, setModalDetails] = useState<TaskDetails | null>(null);
   const [modalLoading, setModalLoading] = useState(false);
+  const [mediaUploading, setMediaUploading] = useState(false);
+  const [mediaMessage, setMediaMessage] = useState<string | null>(null);
+  const [mediaForEveryDay, setMediaForEveryDay] = useState(false);
   const [modalIsMeal, setModalIsMeal] = useState(false);
   const taskDetailsRequestRef = useRef(0);
   const [weekSchedules, setWeekSchedules] = useState<
@@ -519,6 +553,7 @@ export default function HubSchedulePage() {
     const session = loadSession();
     if (session?.name) setCurrentUserName(session.name);
     if (session?.userType) setCurrentUserType(session.userType);
+    setCanEditTasks(Boolean(session?.permissions?.includes("tasks.edit")));
   }, []);
 
   useEffect(() => {
@@ -543,6 +578,12 @@ export default function HubSchedulePage() {
     setReportSubmitting(true);
     setReportError(null);
 
+    const ensureOk = async (res: Response, fallback: string) => {
+      if (res.ok) return;
+      const json = await res.json().catch(() => null);
+      throw new Error(json?.error || fallback);
+    };
+
     try {
       const updates = reportRows.map(async (row) => {
         const base = taskBaseName(row.task);
@@ -550,22 +591,27 @@ export default function HubSchedulePage() {
         const comment = reportComments[base]?.trim() || "";
 
         if (status) {
-          await fetch("/api/task", {
+          const res = await fetch("/api/task", {
             method: "PATCH",
             headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ name: base, status }),
+            body: JSON.stringify({
+              name: base,
+              date: data.scheduleDate,
+              slotId: row.slot.id,
+              slotLabel: row.slot.label,
+              status,
+            }),
           });
+          await ensureOk(res, `Unable to update ${base}`);
         }
 
         if (comment) {
-          await fetch("/api/task", {
+          const res = await fetch("/api/task", {
             method: "POST",
             headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              name: base,
-              comment: `${currentUserName} : ${comment}`,
-            }),
+            body: JSON.stringify({ name: base, date: data.scheduleDate, comment }),
           });
+          await ensureOk(res, `Unable to comment on ${base}`);
         }
       });
 
@@ -573,7 +619,7 @@ export default function HubSchedulePage() {
 
       if (requestName.trim() && requestDescription.trim()) {
         setRequestSubmitting(true);
-        await fetch("/api/request", {
+        const res = await fetch("/api/request", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
@@ -584,6 +630,7 @@ export default function HubSchedulePage() {
             anonymous: false,
           }),
         });
+        await ensureOk(res, "Unable to send the request");
         setRequestName("");
         setRequestDescription("");
       }
@@ -592,7 +639,7 @@ export default function HubSchedulePage() {
         (p) => p.toLowerCase() === currentUserName.toLowerCase()
       );
       if (rowIndex !== -1) {
-        await fetch("/api/schedule/update", {
+        const res = await fetch("/api/schedule/update", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
@@ -601,12 +648,17 @@ export default function HubSchedulePage() {
             reportValue: true,
           }),
         });
+        await ensureOk(res, "Unable to mark your report as submitted");
       }
 
       setReportOpen(false);
     } catch (err) {
       console.error("Failed to submit report", err);
-      setReportError("Unable to submit the report. Please try again.");
+      setReportError(
+        err instanceof Error && err.message
+          ? `${err.message}. Please try again.`
+          : "Unable to submit the report. Please try again."
+      );
     } finally {
       setReportSubmitting(false);
       setRequestSubmitting(false);
@@ -711,6 +763,44 @@ export default function HubSchedulePage() {
     };
   }, [loadSchedule]);
 
+  const loadSwaps = useCallback(async () => {
+    if (!data?.scheduleDate) return;
+    try {
+      const res = await fetch(
+        `/api/schedule/swaps?date=${encodeURIComponent(data.scheduleDate)}`,
+        { cache: "no-store" }
+      );
+      if (!res.ok) return;
+      const json = await res.json();
+      setSwaps(json.swaps || []);
+    } catch (err) {
+      console.error("Failed to load shift swaps", err);
+    }
+  }, [data?.scheduleDate]);
+
+  useEffect(() => {
+    loadSwaps();
+  }, [loadSwaps]);
+
+  const respondToSwap = async (swap: ShiftSwap, action: "accept" | "decline") => {
+    if (!currentUserName) return;
+    try {
+      const res = await fetch("/api/schedule/swaps", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: swap.id, action }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        alert(json?.error || "Unable to update that request.");
+      }
+    } catch (err) {
+      console.error("Failed to respond to shift swap", err);
+    } finally {
+      loadSwaps();
+    }
+  };
+
   // Preload task status/description for tagging
   useEffect(() => {
     if (!data) return;
@@ -734,9 +824,9 @@ export default function HubSchedulePage() {
       const results = await Promise.all(
         missing.map(async (name) => {
           try {
-            const res = await fetch(
-              `/api/task?name=${encodeURIComponent(name)}`
-            );
+            const params = new URLSearchParams({ name });
+            if (data?.scheduleDate) params.set("date", data.scheduleDate);
+            const res = await fetch(`/api/task?${params.toString()}`);
             if (!res.ok) return null;
             const json = await res.json();
             return {
@@ -746,6 +836,7 @@ export default function HubSchedulePage() {
               description: json.description || "",
               typeName: json.taskType?.name || "",
               typeColor: json.taskType?.color || "default",
+              checklist: json.checklistProgress || undefined,
             } as const;
           } catch (err) {
             console.error("Failed to preload task meta", err);
@@ -763,12 +854,14 @@ export default function HubSchedulePage() {
               description: item.description,
               typeName: item.typeName,
               typeColor: item.typeColor,
+              checklist: item.checklist,
             };
             next[item.original] = {
               status: item.status,
               description: item.description,
               typeName: item.typeName,
               typeColor: item.typeColor,
+              checklist: item.checklist,
             };
           }
         });
@@ -777,6 +870,38 @@ export default function HubSchedulePage() {
     })();
   }, [data, taskMetaMap]);
 
+  // Blocked state is per day, so it is refreshed with the schedule rather than cached per task.
+  useEffect(() => {
+    if (!data?.scheduleDate) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(`/api/tasks/blocked?date=${encodeURIComponent(data.scheduleDate || "")}`);
+        if (!res.ok) return;
+        const json = await res.json();
+        if (cancelled) return;
+        const next: Record<string, string[]> = {};
+        (json.tasks || []).forEach((task: { name: string; blockedBy: { name: string }[] }) => {
+          next[task.name] = task.blockedBy.map((blocker) => blocker.name);
+        });
+        setBlockedTasks(next);
+      } catch (err) {
+        console.error("Failed to load blocked tasks", err);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [data]);
+
+  const boardMetaMap = useMemo(() => {
+    const next: Record<string, TaskMeta> = { ...taskMetaMap };
+    Object.entries(blockedTasks).forEach(([name, blockedBy]) => {
+      next[name] = { ...(next[name] || { status: "", description: "" }), blockedBy };
+    });
+    return next;
+  }, [blockedTasks, taskMetaMap]);
+
   // Split slots
   const mealSlots = useMemo(
     () => data?.slots.filter((s) => s.isMeal) ?? [],
@@ -1192,12 +1317,12 @@ export default function HubSchedulePage() {
 
   const reportRows = useMemo(() => {
     if (!myTasks.length) return [];
-    const unique = new Map<string, { task: string; groupNames: string[] }>();
+    const unique = new Map<string, { task: string; groupNames: string[]; slot: Slot }>();
     myTasks.forEach((entry) => {
       const base = taskBaseName(entry.task);
       if (!base) return;
       if (!unique.has(base)) {
-        unique.set(base, { task: entry.task, groupNames: entry.groupNames });
+        unique.set(base, { task: entry.task, groupNames: entry.groupNames, slot: entry.slot });
       }
     });
     return Array.from(unique.values());
@@ -1349,6 +1474,12 @@ export default function HubSchedulePage() {
         description: detail.description || "",
         typeName: detail.taskType?.name,
         typeColor: detail.taskType?.color,
+        checklist: detail.checklist?.length
+          ? {
+              done: detail.checklist.filter((item) => item.checked).length,
+              total: detail.checklist.length,
+            }
+          : undefined,
       };
       setTaskMetaMap((prev) => ({
         ...prev,
@@ -1370,7 +1501,9 @@ export default function HubSchedulePage() {
     };
 
     try {
-      const res = await fetch(`/api/task?name=${encodeURIComponent(taskName)}`);
+      const params = new URLSearchParams({ name: taskName });
+      if (scheduleDateLabel) params.set("date", scheduleDateLabel);
+      const res = await fetch(`/api/task?${params.toString()}`);
       if (!res.ok) {
         applyDetails(emptyDetails);
         return;
@@ -1378,15 +1511,22 @@ export default function HubSchedulePage() {
 
       const json = await res.json();
       const detail: TaskDetails = {
+        id: json.id,
         name: json.name || taskName,
         description: json.description || "",
         extraNotes: json.extraNotes || "",
         status: json.status || "",
         comments: json.comments || [],
+        history: json.history || [],
+        lastCompleted: json.lastCompleted || null,
+        checklist: json.checklist || [],
+        blockedBy: json.blockedBy || [],
         media: json.media || json.photos || [],
         links: json.links || [],
         taskType: json.taskType || { name: "", color: "default" },
         estimatedTime: json.estimatedTime || "",
+        estimatedMinutes: json.estimatedMinutes ?? null,
+        timeEntries: json.timeEntries || [],
       };
       applyDetails(detail);
     } catch (e) {
@@ -1401,6 +1541,94 @@ export default function HubSchedulePage() {
     }
   }
 
+  async function toggleChecklistItem(item: ChecklistItem, taskName: string) {
+    if (!modalDetails?.id) return;
+    setModalDetails((prev) =>
+      prev
+        ? {
+            ...prev,
+            checklist: prev.checklist?.map((entry) =>
+              entry.id === item.id ? { ...entry, checked: !item.checked } : entry
+            ),
+          }
+        : prev
+    );
+
+    try {
+      await fetch("/api/tasks/checklist", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ taskId: modalDetails.id, itemId: item.id, checked: !item.checked }),
+      });
+    } catch (e) {
+      console.error("Failed to update checklist:", e);
+    }
+    await loadTaskDetails(taskName, { quiet: true });
+  }
+
+  async function uploadMedia(file: File, taskName: string) {
+    if (!modalDetails?.id) return;
+    setMediaUploading(true);
+    setMediaMessage(null);
+    try {
+      const form = new FormData();
+      form.append("taskId", modalDetails.id);
+      form.append("file", file);
+      if (mediaForEveryDay) form.append("reference", "true");
+      const res = await fetch("/api/task/media", { method: "POST", body: form });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) {
+        setMediaMessage(json?.error || "Upload failed.");
+        return;
+      }
+      await loadTaskDetails(taskName, { quiet: true });
+    } catch (e) {
+      console.error("Failed to upload media:", e);
+      setMediaMessage("Upload failed.");
+    } finally {
+      setMediaUploading(false);
+    }
+  }
+
+  async function removeMedia(item: TaskMediaItem, taskName: string) {
+    if (!item.id || !window.confirm(`Remove ${item.name}?`)) return;
+    setModalDetails((prev) =>
+      prev ? { ...prev, media: prev.media.filter((entry) => entry.id !== item.id) } : prev
+    );
+    try {
+      const res = await fetch("/api/task/media", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: item.id }),
+      });
+      if (!res.ok) {
+        const json = await res.json().catch(() => null);
+        setMediaMessage(json?.error || "Unable to remove media.");
+      }
+    } catch (e) {
+      console.error("Failed to remove media:", e);
+    }
+    await loadTaskDetails(taskName, { quiet: true });
+  }
+
+  async function toggleTimer(action: "start" | "stop", taskName: string) {
+    if (!modalDetails?.id) return;
+    try {
+      const res = await fetch("/api/tasks/time", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ taskId: modalDetails.id, action }),
+      });
+      const json = await res.json().catch(() => null);
+      if (res.ok && json?.entries) {
+        setModalDetails((prev) => (prev ? { ...prev, timeEntries: json.entries } : prev));
+      }
+    } catch (e) {
+      console.error("Failed to update timer:", e);
+    }
+    await loadTaskDetails(taskName, { quiet: true });
+  }
+
   async function updateTaskStatus(newStatus: string, taskName: string) {
     setModalDetails((prev) =>
       prev ? { ...prev, status: newStatus } : prev
@@ -1421,11 +1649,19 @@ export default function HubSchedulePage() {
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ name: taskName, status: newStatus }),
+        body: JSON.stringify({
+          id: modalDetails?.id,
+          name: taskName,
+          date: scheduleDateLabel,
+          slotId: modalTask?.slot?.id,
+          slotLabel: modalTask?.slot?.label,
+          status: newStatus,
+        }),
       });
     } catch (e) {
       console.error("Failed to update task status:", e);
     }
+    await loadTaskDetails(taskName, { quiet: true });
   }
 
   async function submitTaskComment(taskName: string) {
@@ -1433,15 +1669,17 @@ export default function HubSchedulePage() {
     setCommentSubmitting(true);
 
     try {
-      const comment = currentUserName
-        ? `${currentUserName} : ${commentDraft.trim()}`
-        : commentDraft.trim();
       const res = await fetch("/api/task", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({ name: taskName, comment }),
+        body: JSON.stringify({
+          id: modalDetails?.id,
+          name: taskName,
+          date: scheduleDateLabel,
+          comment: commentDraft.trim(),
+        }),
       });
 
       if (res.ok) {
@@ -1504,6 +1742,8 @@ async function handleTaskClick(taskPayload: TaskClickPayload) {
     setModalDetails(null);
     setModalIsMeal(false);
     setCommentDraft("");
+    setMediaMessage(null);
+    setMediaForEveryDay(false);
     setAnimalOverlay(null);
     setAnimalLookupError(null);
   }
@@ -1638,8 +1878,27 @@ async function handleTaskClick(taskPayload: TaskClickPayload) {
                 >
                   Refresh
                 </button>
+                <a
+                  href={`/print/schedule${
+                    data?.scheduleDate ? `?date=${encodeURIComponent(data.scheduleDate)}` : ""
+                  }`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-2 rounded-full border border-[#d0c9a4] bg-white/80 px-3 py-1 text-xs font-semibold uppercase tracking-[0.12em] text-[#4a5b2a] shadow-sm transition hover:bg-white"
+                >
+                  Print
+                </a>
               </div>
 
+              {data && currentUserName && (
+                <ShiftSwapInbox
+                  swaps={swaps}
+                  slots={data.slots}
+                  currentUserName={currentUserName}
+                  onRespond={respondToSwap}
+                />
+              )}
+
               {activeView === "schedule" && (
                 <div className="mt-3 flex items-center gap-2">
                   <button
@@ -1709,7 +1968,7 @@ async function handleTaskClick(taskPayload: TaskClickPayload) {
                             currentUserName={currentUserName}
                             currentSlotId={currentSlotId}
                             onTaskClick={handleTaskClick}
-                            statusMap={taskMetaMap}
+                            statusMap={boardMetaMap}
                             statusColors={statusColorLookup}
                           />
                         </div>
@@ -1725,7 +1984,7 @@ async function handleTaskClick(taskPayload: TaskClickPayload) {
                       <MyTasksList
                         tasks={myTasks}
                         onTaskClick={handleTaskClick}
-                        statusMap={taskMetaMap}
+                        statusMap={boardMetaMap}
                         statusColors={statusColorLookup}
                         currentUserName={currentUserName}
                       />
@@ -1971,6 +2230,17 @@ async function handleTaskClick(taskPayload: TaskClickPayload) {
                     );
                   })()}
                 </div>
+
+                {data &&
+                  currentUserName &&
+                  modalTask.person.toLowerCase() === currentUserName.toLowerCase() && (
+                    <ShiftSwapForm
+                      schedule={data}
+                      slot={modalTask.slot}
+                      currentUserName={currentUserName}
+                      onSubmitted={loadSwaps}
+                    />
+                  )}
               </div>
 
               {showFullTaskDetail && (
@@ -1987,7 +2257,7 @@ async function handleTaskClick(taskPayload: TaskClickPayload) {
                       </div>
                     </div>
                   </div>
-                  <div className="max-h-40 space-y-2 overflow-y-auto pr-1">
+                  <div className="max-h-64 space-y-2 overflow-y-auto pr-1">
                     {modalLoading && (
                       <p className="text-[11px] italic text-[#8e875d]">
                         Loading comments…
@@ -1999,18 +2269,16 @@ async function handleTaskClick(taskPayload: TaskClickPayload) {
                       </p>
                     )}
                     {!modalLoading &&
-                      modalDetails?.comments?.map((comment) => (
-                        <div
+                      modalDetails?.id &&
+                      modalDetails.comments?.map((comment) => (
+                        <TaskCommentThread
                           key={comment.id}
-                          className="rounded-md border border-[#e1d8b6] bg-[#f7f3de] px-3 py-2"
-                        >
-                          <p className="text-[12px] text-[#3f3c2d] leading-snug">
-                            {comment.text || "(No text)"}
-                          </p>
-                          <p className="mt-1 text-[10px] text-[#8a8256]">
-                            {comment.author || "Unknown"} • {new Date(comment.createdTime).toLocaleString()}
-                          </p>
-                        </div>
+                          taskId={modalDetails.id as string}
+                          comment={comment}
+                          onChanged={() =>
+                            loadTaskDetails(modalDetails.name || modalTask.task, { quiet: true })
+                          }
+                        />
                       ))}
                   </div>
 
@@ -2019,7 +2287,7 @@ async function handleTaskClick(taskPayload: TaskClickPayload) {
                       type="text"
                       value={commentDraft}
                       onChange={(e) => setCommentDraft(e.target.value)}
-                      placeholder="Add a comment"
+                      placeholder="Add a comment (use @Name to mention someone)"
                       className="flex-1 rounded-md border border-[#d0c9a4] bg-white px-3 py-2 text-sm text-[#3f3c2d] shadow-inner focus:outline-none focus:ring-2 focus:ring-[#8fae4c]"
                     />
                     <button
@@ -2044,68 +2312,54 @@ async function handleTaskClick(taskPayload: TaskClickPayload) {
                         Task Media
                       </p>
                       <p className="text-[11px] text-[#6a6748]">
-                        Uploads are temporarily disabled. Existing media stays visible below.
+                        Photos, videos, voice notes or documents for this task.
                       </p>
                     </div>
+                    {modalDetails?.id && (
+                      <div className="flex items-center gap-2">
+                        {canEditTasks && (
+                          <label className="flex items-center gap-1 text-[10px] text-[#6a6748]">
+                            <input
+                              type="checkbox"
+                              checked={mediaForEveryDay}
+                              onChange={(e) => setMediaForEveryDay(e.target.checked)}
+                              className="accent-[#8fae4c]"
+                            />
+                            Every day
+                          </label>
+                        )}
+                        <label
+                          className={`cursor-pointer rounded-md bg-[#6f8f3d] px-3 py-1.5 text-xs font-semibold text-white shadow-sm hover:bg-[#5f7f35] ${
+                            mediaUploading ? "pointer-events-none opacity-60" : ""
+                          }`}
+                        >
+                          {mediaUploading ? "Uploading…" : "Upload"}
+                          <input
+                            type="file"
+                            accept="image/*,video/*,audio/*,.pdf,.txt,.csv,.doc,.docx,.xls,.xlsx"
+                            className="hidden"
+                            disabled={mediaUploading}
+                            onChange={(e) => {
+                              const file = e.target.files?.[0];
+                              e.target.value = "";
+                              if (file) uploadMedia(file, modalDetails.name || modalTask.task);
+                            }}
+                          />
+                        </label>
+                      </div>
+                    )}
                   </div>
+                  {mediaMessage && <p className="text-[11px] text-red-700">{mediaMessage}</p>}
                   <div className="space-y-2">
                     {modalDetails?.media?.length ? (
                       <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
-                        {modalDetails.media.map((item) => {
-                          if (item.kind === "video") {
-                            return (
-                              <div
-                                key={item.url}
-                                className="overflow-hidden rounded-md border border-[#e2d7b5] bg-[#f7f3de]"
-                              >
-                                <video
-                                  src={item.url}
-                                  controls
-                                  className="h-36 w-full object-cover"
-                                />
-                                <p className="truncate px-2 py-1 text-[10px] text-[#5b593c]">
-                                  {item.name}
-                                </p>
-                              </div>
-                            );
-                          }
-
-                          if (item.kind === "audio") {
-                            return (
-                              <div
-                                key={item.url}
-                                className="rounded-md border border-[#e2d7b5] bg-[#f7f3de] p-2"
-                              >
-                                <p className="truncate text-[11px] font-semibold text-[#5b593c]">
-                                  {item.name}
-                                </p>
-                                <audio src={item.url} controls className="mt-2 w-full" />
-                              </div>
-                            );
-                          }
-
-                          return (
-                            <a
-                              key={item.url}
-                              href={item.url}
-                              target="_blank"
-                              rel="noreferrer"
-                              className="group block overflow-hidden rounded-md border border-[#e2d7b5] bg-[#f7f3de]"
-                            >
-                              <div className="aspect-square w-full overflow-hidden">
-                                {/* eslint-disable-next-line @next/next/no-img-element */}
-                                <img
-                                  src={item.url}
-                                  alt={item.name}
-                                  className="h-full w-full object-cover transition group-hover:scale-105"
-                                />
-                              </div>
-                              <p className="truncate px-2 py-1 text-[10px] text-[#5b593c]">
-                                {item.name}
-                              </p>
-                            </a>
-                          );
-                        })}
+                        {modalDetails.media.map((item) => (
+                          <TaskMediaTile
+                            key={item.id || item.url}
+                            item={item}
+                            onRemove={() => removeMedia(item, modalDetails.name || modalTask.task)}
+                          />
+                        ))}
                       </div>
                     ) : (
                       <p className="text-[11px] text-[#7a7f54] italic">
@@ -2116,6 +2370,50 @@ async function handleTaskClick(taskPayload: TaskClickPayload) {
                 </div>
               )}
 
+              {showFullTaskDetail && !!modalDetails?.checklist?.length && (
+                <div className="rounded-lg border border-[#e2d7b5] bg-white/70 px-4 py-3 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <p className="text-[10px] uppercase tracking-[0.12em] text-[#8a8256]">
+                      Checklist
+                    </p>
+                    <span className="text-[11px] text-[#6a6748]">
+                      {modalDetails.checklist.filter((item) => item.checked).length}/
+                      {modalDetails.checklist.length} done
+                    </span>
+                  </div>
+                  <ul className="space-y-1">
+                    {modalDetails.checklist.map((item) => (
+                      <li key={item.id}>
+                        <label className="flex items-start gap-2 text-[12px] text-[#3f3c2d]">
+                          <input
+                            type="checkbox"
+                            checked={item.checked}
+                            onChange={() => toggleChecklistItem(item, modalDetails.name || modalTask.task)}
+                            className="mt-0.5 accent-[#8fae4c]"
+                          />
+                          <span className={item.checked ? "text-[#8a8256] line-through" : ""}>
+                            {item.label}
+                            {item.checked && item.checkedBy && (
+                              <span className="ml-1 text-[10px] no-underline text-[#8a8256]">
+                                ({item.checkedBy})
+                              </span>
+                            )}
+                          </span>
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {showFullTaskDetail && !modalLoading && modalDetails?.id && (
+                <TaskTimer
+                  entries={modalDetails.timeEntries || []}
+                  estimatedMinutes={modalDetails.estimatedMinutes ?? null}
+                  onToggle={(action) => toggleTimer(action, modalDetails.name || modalTask.task)}
+                />
+              )}
+
               {showFullTaskDetail && (
                 <div className="rounded-lg border border-[#e2d7b5] bg-white/70 px-4 py-3 space-y-3">
                   <div className="flex items-center justify-between">
@@ -2130,8 +2428,18 @@ async function handleTaskClick(taskPayload: TaskClickPayload) {
                     <StatusBadge
                       status={modalDetails?.status}
                       color={statusColorLookup[modalDetails?.status || ""]}
+                      blockedBy={modalDetails?.blockedBy?.map((blocker) => blocker.name)}
                     />
                   </div>
+                  {!!modalDetails?.blockedBy?.length && (
+                    <p className="rounded-md border border-[#e3b7a3] bg-[#fbe9e1] px-3 py-2 text-[11px] text-[#9a4a2c]">
+                      Waiting on{" "}
+                      {modalDetails.blockedBy
+                        .map((blocker) => `${blocker.name} (${blocker.status || "Not Started"})`)
+                        .join(", ")}
+                      . Finish those first.
+                    </p>
+                  )}
                   <select
                     value={modalDetails?.status || ""}
                     onChange={(e) =>
@@ -2152,6 +2460,10 @@ async function handleTaskClick(taskPayload: TaskClickPayload) {
                       </option>
                     ))}
                   </select>
+                  <TaskStatusTimeline
+                    lastCompleted={modalDetails?.lastCompleted || null}
+                    history={modalDetails?.history || []}
+                  />
                 </div>
               )}
 
@@ -2234,6 +2546,12 @@ async function handleTaskClick(taskPayload: TaskClickPayload) {
                       <span className="text-[11px] uppercase tracking-[0.12em] text-[#7a7f54]">
                         {row.groupNames.length}{" "}
                         {row.groupNames.length === 1 ? "person" : "people"}
+                        {taskMetaMap[base]?.checklist?.total ? (
+                          <>
+                            {" "}• {taskMetaMap[base]?.checklist?.done}/{taskMetaMap[base]?.checklist?.total}{" "}
+                            checklist steps done
+                          </>
+                        ) : null}
                       </span>
                     </div>
 
@@ -2544,13 +2862,6 @@ function MealBlock({
   );
 }
 
-function getMealIcon(label: string): string {
-  if (/breakfast/i.test(label)) return "🥚";
-  if (/lunch/i.test(label)) return "🍱";
-  if (/dinner/i.test(label)) return "🍽️";
-  return "🍽️";
-}
-
 function ShiftBoard({
   title,
   description,
@@ -3334,17 +3645,36 @@ function WeekendScheduleTable({
   );
 }
 
-function StatusBadge({ status, color }: { status?: string; color?: string }) {
-  if (!status) return null;
+function StatusBadge({
+  status,
+  color,
+  blockedBy,
+}: {
+  status?: string;
+  color?: string;
+  blockedBy?: string[];
+}) {
+  const blocked = blockedBy?.length ? (
+    <span
+      title={`Waiting on ${blockedBy.join(", ")}`}
+      className="inline-flex items-center gap-1 rounded-full border border-[#e3b7a3] bg-[#fbe9e1] px-2 py-[2px] text-[10px] font-semibold uppercase tracking-[0.12em] text-[#9a4a2c]"
+    >
+      Blocked
+    </span>
+  ) : null;
+  if (!status) return blocked;
 
   const badgeClass = typeColorClasses(color);
 
   return (
-    <span
-      className={`inline-flex items-center gap-1 rounded-full border px-2 py-[2px] text-[10px] font-semibold uppercase tracking-[0.12em] ${badgeClass}`}
-    >
-      <span className="h-2 w-2 rounded-full bg-current opacity-80" />
-      {status}
+    <span className="inline-flex flex-wrap items-center gap-1">
+      <span
+        className={`inline-flex items-center gap-1 rounded-full border px-2 py-[2px] text-[10px] font-semibold uppercase tracking-[0.12em] ${badgeClass}`}
+      >
+        <span className="h-2 w-2 rounded-full bg-current opacity-80" />
+        {status}
+      </span>
+      {blocked}
     </span>
   );
 }
@@ -3429,6 +3759,7 @@ function MyTasksList({
               <StatusBadge
                 status={status}
                 color={statusColors[status || ""]}
+                blockedBy={meta?.blockedBy}
               />
             </div>
             {task.includes("\n") && (
@@ -3840,6 +4171,7 @@ function ScheduleGrid({
         <StatusBadge
           status={meta?.status}
           color={statusColors[meta?.status || ""]}
+          blockedBy={meta?.blockedBy}
         />
       </div>
 
@@ -3983,42 +4315,582 @@ function getNowMinutes(): number {
   return now.getHours() * 60 + now.getMinutes();
 }
 
-function parseTimeRange(
-  range: string
-): { startMinutes: number; endMinutes: number } | null {
-  const pattern =
-    /(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\s*[-–]\s*(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/i;
-  const match = range.match(pattern);
-  if (!match) return null;
+function swapTasks(value: string | null) {
+  return splitCellTasks(value || "").map(taskBaseName).join(", ");
+}
+
+function swapStatusClasses(status: ShiftSwap["status"]) {
+  if (status === "approved") return "bg-green-50 border-green-200 text-green-900";
+  if (status === "declined") return "bg-rose-50 border-rose-200 text-rose-900";
+  if (status === "accepted") return "bg-sky-50 border-sky-200 text-sky-900";
+  return "bg-amber-50 border-amber-200 text-amber-900";
+}
+
+function describeSwap(swap: ShiftSwap, slotLabel: (id: string | null) => string) {
+  const offered = `${slotLabel(swap.requester_slot)} (${swapTasks(swap.requester_value)})`;
+  if (swap.kind === "swap") {
+    return `${swap.requester} wants to swap ${offered} for ${swap.target_person}'s ${slotLabel(
+      swap.target_slot
+    )} (${swapTasks(swap.target_value)})`;
+  }
+  return swap.target_person
+    ? `${swap.requester} asked ${swap.target_person} to cover ${offered}`
+    : `${swap.requester} is offering ${offered} to anyone`;
+}
+
+function ShiftSwapInbox({
+  swaps,
+  slots,
+  currentUserName,
+  onRespond,
+}: {
+  swaps: ShiftSwap[];
+  slots: Slot[];
+  currentUserName: string;
+  onRespond: (swap: ShiftSwap, action: "accept" | "decline") => void;
+}) {
+  const me = currentUserName.toLowerCase();
+  const isMe = (name: string | null) => (name || "").toLowerCase() === me;
+  const slotLabel = (id: string | null) => slots.find((slot) => slot.id === id)?.label || id || "";
+
+  const relevant = swaps.filter(
+    (swap) =>
+      isMe(swap.requester) ||
+      isMe(swap.target_person) ||
+      isMe(swap.accepted_by) ||
+      (swap.status === "pending" && !swap.target_person)
+  );
+  if (!relevant.length) return null;
+
+  return (
+    <div className="mt-3 rounded-lg border border-[#d0c9a4] bg-white/80 px-3 py-2 text-xs text-[#4b5133] shadow-sm">
+      <p className="text-[10px] font-semibold uppercase tracking-[0.14em] text-[#7a7f54]">
+        Shift swaps
+      </p>
+      <ul className="mt-1 space-y-1">
+        {relevant.map((swap) => {
+          const open = swap.status === "pending";
+          const canAccept =
+            open && !isMe(swap.requester) && (swap.target_person ? isMe(swap.target_person) : true);
+          const canDecline =
+            (open || swap.status === "accepted") &&
+            (isMe(swap.requester) || isMe(swap.target_person) || isMe(swap.accepted_by));
+
+          return (
+            <li key={swap.id} className="flex flex-wrap items-center justify-between gap-2">
+              <span>
+                {describeSwap(swap, slotLabel)}
+                {swap.accepted_by && swap.kind === "cover" ? ` • taken by ${swap.accepted_by}` : ""}
+                {swap.note ? ` — “${swap.note}”` : ""}
+              </span>
+              <span className="flex items-center gap-2">
+                <span
+                  className={`rounded-full border px-2 py-[1px] text-[10px] font-semibold uppercase ${swapStatusClasses(
+                    swap.status
+                  )}`}
+                >
+                  {swap.status === "accepted" ? "awaiting admin" : swap.status}
+                </span>
+                {canAccept && (
+                  <button
+                    type="button"
+                    onClick={() => onRespond(swap, "accept")}
+                    className="font-semibold text-[#5d7f3b] hover:underline"
+                  >
+                    Accept
+                  </button>
+                )}
+                {canDecline && (
+                  <button
+                    type="button"
+                    onClick={() => onRespond(swap, "decline")}
+                    className="font-semibold text-[#a05252] hover:underline"
+                  >
+                    {isMe(swap.requester) ? "Withdraw" : "Decline"}
+                  </button>
+                )}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+function ShiftSwapForm({
+  schedule,
+  slot,
+  currentUserName,
+  onSubmitted,
+}: {
+  schedule: ScheduleResponse;
+  slot: Slot;
+  currentUserName: string;
+  onSubmitted: () => void;
+}) {
+  const [mode, setMode] = useState<"open" | "person" | "swap">("open");
+  const [targetPerson, setTargetPerson] = useState("");
+  const [targetSlotId, setTargetSlotId] = useState("");
+  const [note, setNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const others = schedule.people.filter(
+    (person) => person.toLowerCase() !== currentUserName.toLowerCase()
+  );
+  const targetRow = schedule.people.indexOf(targetPerson);
+  const targetSlots =
+    targetRow === -1
+      ? []
+      : schedule.slots.filter((s, idx) => splitCellTasks(schedule.cells[targetRow]?.[idx] || "").length);
+
+  const submit = async () => {
+    setSubmitting(true);
+    setMessage(null);
+    try {
+      const res = await fetch("/api/schedule/swaps", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          dateLabel: schedule.scheduleDate,
+          kind: mode === "swap" ? "swap" : "cover",
+          slotId: slot.id,
+          targetPerson: mode === "open" ? null : targetPerson,
+          targetSlotId: mode === "swap" ? targetSlotId : null,
+          note,
+        }),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || "Unable to send request");
+      setMessage("Request sent. An admin approves it once it is accepted.");
+      setNote("");
+      onSubmitted();
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Unable to send request");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const disabled =
+    submitting || (mode !== "open" && !targetPerson) || (mode === "swap" && !targetSlotId);
+
+  return (
+    <div className="space-y-2 rounded-lg border border-[#d0c9a4] bg-white/70 px-3 py-3 text-xs text-[#4b5133]">
+      <p className="text-[10px] uppercase tracking-[0.12em] text-[#8a8256]">Need cover for this shift?</p>
+      <div className="flex flex-wrap gap-2">
+        {(
+          [
+            ["open", "Offer to anyone"],
+            ["person", "Ask someone"],
+            ["swap", "Swap with someone"],
+          ] as const
+        ).map(([value, label]) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setMode(value)}
+            className={`rounded-full border px-3 py-1 font-semibold ${
+              mode === value
+                ? "bg-[#a0b764] text-white border-[#8fae4c]"
+                : "bg-white text-[#5d7f3b] border-[#d0c9a4]"
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      {mode !== "open" && (
+        <select
+          value={targetPerson}
+          onChange={(e) => {
+            setTargetPerson(e.target.value);
+            setTargetSlotId("");
+          }}
+          className="w-full rounded-md border border-[#d0c9a4] bg-white px-2 py-1"
+        >
+          <option value="">Choose a person</option>
+          {others.map((person) => (
+            <option key={person} value={person}>
+              {person}
+            </option>
+          ))}
+        </select>
+      )}
+      {mode === "swap" && targetPerson && (
+        <select
+          value={targetSlotId}
+          onChange={(e) => setTargetSlotId(e.target.value)}
+          className="w-full rounded-md border border-[#d0c9a4] bg-white px-2 py-1"
+        >
+          <option value="">Their shift to take</option>
+          {targetSlots.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.label} — {swapTasks(schedule.cells[targetRow]?.[schedule.slots.indexOf(s)] || "")}
+            </option>
+          ))}
+        </select>
+      )}
+      <input
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Note (optional)"
+        className="w-full rounded-md border border-[#d0c9a4] bg-white px-2 py-1"
+      />
+      <div className="flex items-center justify-between gap-2">
+        {message ? <span className="text-[11px] text-[#666242]">{message}</span> : <span />}
+        <button
+          type="button"
+          onClick={submit}
+          disabled={disabled}
+          className="rounded-md bg-[#a0b764] px-3 py-1 font-semibold uppercase tracking-[0.1em] text-white shadow-sm hover:bg-[#95ad5e] disabled:opacity-60"
+        >
+          {submitting ? "Sending…" : "Send request"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Renders @mentions of known users in bold so they stand out in the thread.
+function CommentText({ text, mentions }: { text: string; mentions: string[] }) {
+  if (!mentions.length) return <>{text}</>;
+  const escaped = [...mentions]
+    .sort((a, b) => b.length - a.length)
+    .map((name) => name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const pattern = new RegExp(`(@(?:${escaped.join("|")}))`, "gi");
+  return (
+    <>
+      {text.split(pattern).map((part, idx) =>
+        idx % 2 === 1 ? (
+          <span key={idx} className="font-semibold text-[#5d7f3b]">
+            {part}
+          </span>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
+
+function TaskCommentThread({
+  taskId,
+  comment,
+  onChanged,
+  depth = 0,
+}: {
+  taskId: string;
+  comment: TaskComment;
+  onChanged: () => void;
+  depth?: number;
+}) {
+  const [mode, setMode] = useState<"idle" | "reply" | "edit">("idle");
+  const [draft, setDraft] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = async (method: "POST" | "PATCH" | "DELETE", payload: Record<string, unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/task-comments", {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || "Unable to save comment");
+      setMode("idle");
+      setDraft("");
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to save comment");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submit = () => {
+    if (!draft.trim()) return;
+    if (mode === "edit") send("PATCH", { id: comment.id, body: draft });
+    else send("POST", { taskId, parentId: comment.id, body: draft });
+  };
+
+  return (
+    <div className={depth ? "border-l-2 border-[#e1d8b6] pl-3" : ""}>
+      <div className="rounded-md border border-[#e1d8b6] bg-[#f7f3de] px-3 py-2">
+        {comment.deleted ? (
+          <p className="text-[12px] italic text-[#8e875d]">Comment deleted</p>
+        ) : (
+          <p className="whitespace-pre-wrap text-[12px] text-[#3f3c2d] leading-snug">
+            <CommentText text={comment.text || "(No text)"} mentions={comment.mentions} />
+          </p>
+        )}
+        <div className="mt-1 flex flex-wrap items-center gap-x-2 text-[10px] text-[#8a8256]">
+          <span>
+            {comment.author || "Unknown"} • {new Date(comment.createdTime).toLocaleString()}
+            {comment.editedTime ? " (edited)" : ""}
+          </span>
+          {!comment.deleted && depth === 0 && (
+            <button
+              type="button"
+              onClick={() => {
+                setMode(mode === "reply" ? "idle" : "reply");
+                setDraft("");
+              }}
+              className="font-semibold text-[#5d7f3b] hover:underline"
+            >
+              Reply
+            </button>
+          )}
+          {comment.canEdit && (
+            <button
+              type="button"
+              onClick={() => {
+                setMode(mode === "edit" ? "idle" : "edit");
+                setDraft(comment.text);
+              }}
+              className="font-semibold text-[#5d7f3b] hover:underline"
+            >
+              Edit
+            </button>
+          )}
+          {comment.canDelete && (
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => {
+                if (confirm("Delete this comment?")) send("DELETE", { id: comment.id });
+              }}
+              className="font-semibold text-[#a05a3c] hover:underline disabled:opacity-60"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+        {mode !== "idle" && (
+          <div className="mt-2 flex flex-col gap-2 sm:flex-row sm:items-center">
+            <input
+              type="text"
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder={mode === "edit" ? "Edit comment" : `Reply to ${comment.author || "comment"}`}
+              className="flex-1 rounded-md border border-[#d0c9a4] bg-white px-2 py-1 text-[12px] text-[#3f3c2d] focus:outline-none focus:ring-2 focus:ring-[#8fae4c]"
+            />
+            <button
+              type="button"
+              onClick={submit}
+              disabled={busy || !draft.trim()}
+              className="rounded-md bg-[#a0b764] px-3 py-1 text-[10px] font-semibold uppercase tracking-[0.1em] text-white shadow-sm hover:bg-[#95ad5e] disabled:opacity-60"
+            >
+              {busy ? "Saving…" : mode === "edit" ? "Save" : "Reply"}
+            </button>
+          </div>
+        )}
+        {error && <p className="mt-1 text-[10px] text-[#a05a3c]">{error}</p>}
+      </div>
+      {comment.replies.length > 0 && (
+        <div className="mt-2 space-y-2">
+          {comment.replies.map((reply) => (
+            <TaskCommentThread
+              key={reply.id}
+              taskId={taskId}
+              comment={reply}
+              onChanged={onChanged}
+              depth={depth + 1}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function timeAgo(iso: string) {
+  const seconds = Math.max(0, Math.round((Date.now() - new Date(iso).getTime()) / 1000));
+  if (seconds < 60) return "just now";
+  const units: [string, number][] = [
+    ["day", 86_400],
+    ["hour", 3_600],
+    ["minute", 60],
+  ];
+  const [unit, size] = units.find(([, size]) => seconds >= size) as [string, number];
+  const count = Math.floor(seconds / size);
+  return `${count} ${unit}${count === 1 ? "" : "s"} ago`;
+}
+
+function TaskMediaTile({ item, onRemove }: { item: TaskMediaItem; onRemove: () => void }) {
+  const label = item.reference ? `${item.name} · every day` : item.name;
+  const removeButton = item.canDelete ? (
+    <button
+      type="button"
+      onClick={onRemove}
+      className="absolute right-1 top-1 rounded bg-white/90 px-1.5 py-0.5 text-[10px] font-semibold text-[#8a3b3b] shadow-sm hover:bg-white"
+    >
+      Remove
+    </button>
+  ) : null;
+
+  if (item.kind === "video") {
+    return (
+      <div className="relative overflow-hidden rounded-md border border-[#e2d7b5] bg-[#f7f3de]">
+        <video src={item.url} controls className="h-36 w-full object-cover" />
+        <p className="truncate px-2 py-1 text-[10px] text-[#5b593c]">{label}</p>
+        {removeButton}
+      </div>
+    );
+  }
 
-  const [, h1Str, m1Str, ampm1, h2Str, m2Str, ampm2] = match;
+  if (item.kind === "audio") {
+    return (
+      <div className="relative rounded-md border border-[#e2d7b5] bg-[#f7f3de] p-2">
+        <p className="truncate pr-12 text-[11px] font-semibold text-[#5b593c]">{label}</p>
+        <audio src={item.url} controls className="mt-2 w-full" />
+        {removeButton}
+      </div>
+    );
+  }
 
-  const h1 = parseInt(h1Str, 10);
-  const m1 = m1Str ? parseInt(m1Str, 10) : 0;
-  const h2 = parseInt(h2Str, 10);
-  const m2 = m2Str ? parseInt(m2Str, 10) : 0;
+  if (item.kind === "file") {
+    return (
+      <div className="relative rounded-md border border-[#e2d7b5] bg-[#f7f3de] p-2">
+        <a
+          href={item.url}
+          target="_blank"
+          rel="noreferrer"
+          className="block truncate pr-12 text-[11px] font-semibold text-[#5b593c] underline"
+        >
+          {label}
+        </a>
+        {item.uploadedBy && <p className="text-[10px] text-[#8a8256]">Added by {item.uploadedBy}</p>}
+        {removeButton}
+      </div>
+    );
+  }
 
-  const startMinutes = toMinutes(h1, m1, ampm1 as string | undefined);
-  const endMinutes = toMinutes(h2, m2, ampm2 as string | undefined, ampm1);
+  return (
+    <div className="relative">
+      <a
+        href={item.url}
+        target="_blank"
+        rel="noreferrer"
+        className="group block overflow-hidden rounded-md border border-[#e2d7b5] bg-[#f7f3de]"
+      >
+        <div className="aspect-square w-full overflow-hidden">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={item.thumbnailUrl || item.url}
+            alt={item.name}
+            loading="lazy"
+            className="h-full w-full object-cover transition group-hover:scale-105"
+          />
+        </div>
+        <p className="truncate px-2 py-1 text-[10px] text-[#5b593c]">{label}</p>
+      </a>
+      {removeButton}
+    </div>
+  );
+}
 
-  return { startMinutes, endMinutes };
+function formatMinutes(minutes: number) {
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded} min`;
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  return rest ? `${hours}h ${rest}m` : `${hours}h`;
 }
 
-function toMinutes(
-  hour: number,
-  minute: number,
-  ampm?: string,
-  fallbackAmpm?: string
-): number {
-  let h = hour;
-  let meridiem = ampm?.toLowerCase() as "am" | "pm" | undefined;
-
-  if (!meridiem && fallbackAmpm) {
-    meridiem = fallbackAmpm.toLowerCase() as "am" | "pm";
+function TaskTimer({
+  entries,
+  estimatedMinutes,
+  onToggle,
+}: {
+  entries: TimeEntry[];
+  estimatedMinutes: number | null;
+  onToggle: (action: "start" | "stop") => Promise<void>;
+}) {
+  const [now, setNow] = useState(() => Date.now());
+  const [busy, setBusy] = useState(false);
+  const running = entries.filter((entry) => !entry.endedAt);
+  const mine = running.find((entry) => entry.mine);
+
+  useEffect(() => {
+    if (!running.length) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 15_000);
+    return () => window.clearInterval(timer);
+  }, [running.length]);
+
+  const elapsed = (entry: TimeEntry) =>
+    entry.endedAt ? entry.minutes : Math.max(0, (now - new Date(entry.startedAt).getTime()) / 60000);
+  const tracked = entries.reduce((sum, entry) => sum + elapsed(entry), 0);
+
+  async function toggle() {
+    setBusy(true);
+    await onToggle(mine ? "stop" : "start");
+    setBusy(false);
   }
 
-  if (meridiem === "pm" && h < 12) h += 12;
-  if (meridiem === "am" && h === 12) h = 0;
+  return (
+    <div className="rounded-lg border border-[#e2d7b5] bg-white/70 px-4 py-3 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <p className="text-[10px] uppercase tracking-[0.12em] text-[#8a8256]">Time tracking</p>
+          <p className="text-[11px] text-[#6a6748]">
+            {formatMinutes(tracked)} tracked
+            {estimatedMinutes !== null ? ` of ${formatMinutes(estimatedMinutes)} estimated` : ""}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={toggle}
+          disabled={busy}
+          className={`rounded-md px-3 py-1.5 text-xs font-semibold text-white shadow-sm disabled:opacity-60 ${
+            mine ? "bg-[#b85c38] hover:bg-[#a24f2f]" : "bg-[#6f8f3d] hover:bg-[#5f7f35]"
+          }`}
+        >
+          {mine ? `Stop timer (${formatMinutes(elapsed(mine))})` : "Start timer"}
+        </button>
+      </div>
+      {running.length > 0 && (
+        <p className="text-[11px] text-[#3f3c2d]">
+          Working now:{" "}
+          {running.map((entry) => `${entry.mine ? "You" : entry.user} (${formatMinutes(elapsed(entry))})`).join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
 
-  return h * 60 + minute;
+function TaskStatusTimeline({
+  lastCompleted,
+  history,
+}: {
+  lastCompleted: { by: string; at: string } | null;
+  history: TaskStatusEvent[];
+}) {
+  return (
+    <div className="space-y-2">
+      <p className="text-[11px] text-[#6a6748]">
+        {lastCompleted
+          ? `Last completed by ${lastCompleted.by} ${timeAgo(lastCompleted.at)}`
+          : "Not completed yet."}
+      </p>
+      {history.length > 0 && (
+        <ol className="max-h-32 space-y-1 overflow-y-auto border-l-2 border-[#e1d8b6] pl-3">
+          {history.map((event) => (
+            <li key={event.id} className="text-[11px] text-[#3f3c2d]">
+              <span className="font-semibold">{event.by}</span> {event.from || "No status"} → {event.to}
+              <span className="text-[10px] text-[#8a8256]">
+                {" "}
+                • {new Date(event.at).toLocaleString()}
+                {event.slot ? ` • ${event.slot}` : ""}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
 }
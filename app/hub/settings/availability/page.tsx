@@ -0,0 +1,271 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { loadSession } from "@/lib/session";
+
+type AvailabilityKind = "stay" | "day_off" | "partial";
+
+type AvailabilityRecord = {
+  id: string;
+  kind: AvailabilityKind;
+  start_date: string;
+  end_date: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  note: string | null;
+  status: "pending" | "approved" | "declined";
+  reviewed_by: string | null;
+};
+
+const KIND_LABELS: Record<AvailabilityKind, string> = {
+  stay: "Stay dates",
+  day_off: "Day(s) off",
+  partial: "Part of a day",
+};
+
+const KIND_HINTS: Record<AvailabilityKind, string> = {
+  stay: "When you arrive and leave. Leave the end date empty if you are not sure yet.",
+  day_off: "Whole days you are not available. Leave the end date empty for a single day.",
+  partial: "A window on a day when you are not available, e.g. 1:00pm to 3:00pm.",
+};
+
+function statusClasses(status: AvailabilityRecord["status"]) {
+  if (status === "approved") return "border-[#8fae4c] bg-[#e2f0c8] text-[#476524]";
+  if (status === "declined") return "border-red-500/60 bg-red-500/10 text-red-800";
+  return "border-[#d0c9a4] bg-[#f1edd8] text-[#6b6f4c]";
+}
+
+function describeAvailability(record: AvailabilityRecord) {
+  const range = record.end_date && record.end_date !== record.start_date
+    ? `${record.start_date} → ${record.end_date}`
+    : record.kind === "stay" && !record.end_date
+      ? `from ${record.start_date}`
+      : record.start_date;
+  const times = record.kind === "partial" ? ` • ${record.start_time} - ${record.end_time}` : "";
+  return `${KIND_LABELS[record.kind]}: ${range}${times}`;
+}
+
+export default function AvailabilitySettingsPage() {
+  const [currentUserName, setCurrentUserName] = useState<string | null>(null);
+  const [records, setRecords] = useState<AvailabilityRecord[]>([]);
+  const [kind, setKind] = useState<AvailabilityKind>("day_off");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [startTime, setStartTime] = useState("");
+  const [endTime, setEndTime] = useState("");
+  const [note, setNote] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [formSuccess, setFormSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    const session = loadSession();
+    if (session?.name) setCurrentUserName(session.name);
+  }, []);
+
+  const loadRecords = useCallback(async () => {
+    if (!currentUserName) return;
+    try {
+      const res = await fetch("/api/availability?mine=1");
+      if (!res.ok) return;
+      const json = await res.json();
+      setRecords(json.records || []);
+    } catch (err) {
+      console.error("Failed to load availability:", err);
+    }
+  }, [currentUserName]);
+
+  useEffect(() => {
+    loadRecords();
+  }, [loadRecords]);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setFormError(null);
+    setFormSuccess(null);
+
+    if (!currentUserName) {
+      setFormError("You must be logged in to submit availability.");
+      return;
+    }
+    if (!startDate) {
+      setFormError("Please choose a start date.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const res = await fetch("/api/availability", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          kind,
+          startDate,
+          endDate: endDate || null,
+          startTime,
+          endTime,
+          note,
+        }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setFormError(data?.error || "Unable to save. Please try again.");
+        return;
+      }
+      setFormSuccess("Saved. An admin will review it before it affects the schedule.");
+      setStartDate("");
+      setEndDate("");
+      setStartTime("");
+      setEndTime("");
+      setNote("");
+      await loadRecords();
+    } catch (err) {
+      console.error("Availability submit failed:", err);
+      setFormError("Something went wrong. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function handleDelete(record: AvailabilityRecord) {
+    if (!currentUserName) return;
+    if (!window.confirm(`Remove "${describeAvailability(record)}"?`)) return;
+    try {
+      await fetch("/api/availability", {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: record.id }),
+      });
+      await loadRecords();
+    } catch (err) {
+      console.error("Failed to delete availability:", err);
+    }
+  }
+
+  const inputClasses =
+    "w-full rounded-md border border-[#c8cba0] bg-[#f1edd8] px-3 py-2 text-sm text-[#3b4224] shadow-inner focus:outline-none focus:ring-2 focus:ring-[#8fae4c] focus:border-[#8fae4c]";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <h1 className="text-2xl font-semibold tracking-[0.18em] uppercase text-[#5d7f3b]">
+          Availability
+        </h1>
+        <Link href="/hub/settings" className="text-xs font-semibold text-[#5d7f3b] hover:underline">
+          ← Settings
+        </Link>
+      </div>
+      <p className="text-sm text-[#7a7f54]">
+        Let the schedulers know when you are on the farm, your days off, and times you are busy.
+      </p>
+
+      <div className="rounded-lg bg-[#d3d6b0] px-6 py-6 text-[#4f5730] text-sm shadow-sm border border-[#c8cba0]/70">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(KIND_LABELS) as AvailabilityKind[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setKind(option)}
+                className={`rounded-full border px-3 py-1 text-xs font-semibold uppercase tracking-[0.1em] ${
+                  kind === option
+                    ? "bg-[#a0b764] text-white border-[#8fae4c]"
+                    : "bg-[#f1edd8] text-[#4f5730] border-[#c8cba0]"
+                }`}
+              >
+                {KIND_LABELS[option]}
+              </button>
+            ))}
+          </div>
+          <p className="text-[11px] text-[#8e875d]">{KIND_HINTS[kind]}</p>
+
+          <div className="grid gap-3 sm:grid-cols-2">
+            <label className="space-y-1.5">
+              <span className="block text-sm font-medium">
+                {kind === "stay" ? "Arriving" : kind === "partial" ? "Date" : "First day"}
+              </span>
+              <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClasses} />
+            </label>
+            <label className="space-y-1.5">
+              <span className="block text-sm font-medium">
+                {kind === "stay" ? "Leaving" : "Last day"} <span className="text-[11px] text-[#8e875d]">(optional)</span>
+              </span>
+              <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClasses} />
+            </label>
+            {kind === "partial" && (
+              <>
+                <label className="space-y-1.5">
+                  <span className="block text-sm font-medium">Unavailable from</span>
+                  <input value={startTime} onChange={(e) => setStartTime(e.target.value)} placeholder="1:00pm" className={inputClasses} />
+                </label>
+                <label className="space-y-1.5">
+                  <span className="block text-sm font-medium">Until</span>
+                  <input value={endTime} onChange={(e) => setEndTime(e.target.value)} placeholder="3:00pm" className={inputClasses} />
+                </label>
+              </>
+            )}
+          </div>
+
+          <label className="block space-y-1.5">
+            <span className="block text-sm font-medium">Note</span>
+            <input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Optional" className={inputClasses} />
+          </label>
+
+          {formError && (
+            <div className="rounded-md border border-red-500/80 bg-red-500/10 px-3 py-2 text-xs text-red-800">
+              {formError}
+            </div>
+          )}
+          {formSuccess && (
+            <div className="rounded-md border border-[#8fae4c] bg-[#e2f0c8] px-3 py-2 text-xs text-[#476524]">
+              {formSuccess}
+            </div>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={isSubmitting || !currentUserName}
+              className="rounded-md bg-[#a0b764] px-5 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-[#f9f9ec] shadow-md hover:bg-[#95ad5e] disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? "Saving…" : "Submit"}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      <div className="rounded-lg border border-[#d0c9a4] bg-white/80 px-4 py-3 text-sm text-[#4f5730]">
+        <p className="text-[12px] font-semibold uppercase tracking-[0.14em] text-[#6b6f4c]">
+          Your submissions
+        </p>
+        {records.length === 0 ? (
+          <p className="mt-2 text-[12px] text-[#6f754f]">Nothing submitted yet.</p>
+        ) : (
+          <ul className="mt-2 divide-y divide-[#ece6cb]">
+            {records.map((record) => (
+              <li key={record.id} className="flex flex-wrap items-center justify-between gap-2 py-2 text-[12px]">
+                <div>
+                  <div className="font-semibold">{describeAvailability(record)}</div>
+                  {record.note && <div className="text-[#6f754f]">{record.note}</div>}
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className={`rounded-full border px-2 py-[1px] text-[10px] font-semibold uppercase ${statusClasses(record.status)}`}>
+                    {record.status}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(record)}
+                    className="text-[11px] font-semibold text-[#a05252] hover:underline"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 "use client";
 
+import Link from "next/link";
 import { useEffect, useState } from "react";
-import { loadSession, saveSession } from "@/lib/session";
+import { loadSession, refreshSession } from "@/lib/session";
 
 export default function HubSettingsPage() {
   const [currentUserName, setCurrentUserName] = useState<string | null>(null);
@@ -21,6 +22,12 @@ export default function HubSettingsPage() {
   const [formSuccess, setFormSuccess] = useState<string | null>(null);
   const [cacheStatus, setCacheStatus] = useState<string | null>(null);
   const [cacheBusy, setCacheBusy] = useState(false);
+  const [calendarPass, setCalendarPass] = useState("");
+  const [calendarToken, setCalendarToken] = useState<string | null>(null);
+  const [calendarFarmFeed, setCalendarFarmFeed] = useState(false);
+  const [calendarBusy, setCalendarBusy] = useState(false);
+  const [calendarError, setCalendarError] = useState<string | null>(null);
+  const [copiedFeed, setCopiedFeed] = useState<string | null>(null);
 
   // Load current user from session
   useEffect(() => {
@@ -84,10 +91,7 @@ export default function HubSettingsPage() {
       setConfirmPass("");
       if (newName.trim().length > 0) {
         setCurrentUserName(newName.trim());
-        const existing = loadSession();
-        if (existing) {
-          saveSession({ ...existing, name: newName.trim() });
-        }
+        await refreshSession();
         setNewName("");
       }
     } catch (err) {
@@ -127,6 +131,70 @@ export default function HubSettingsPage() {
     }
   }
 
+  async function handleCalendarLink(reset: boolean) {
+    setCalendarError(null);
+    setCopiedFeed(null);
+
+    if (!currentUserName) {
+      setCalendarError("You must be logged in to get a calendar link.");
+      return;
+    }
+    if (!calendarPass) {
+      setCalendarError("Please enter your passcode.");
+      return;
+    }
+    if (reset && !window.confirm("Reset your calendar link? Calendars using the old link will stop updating.")) {
+      return;
+    }
+
+    setCalendarBusy(true);
+    try {
+      const res = await fetch("/api/schedule/calendar/token", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ passcode: calendarPass, reset }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setCalendarError(
+          res.status === 401 ? "Passcode is incorrect." : data?.error || "Unable to get calendar link."
+        );
+        return;
+      }
+      setCalendarToken(data.token);
+      setCalendarFarmFeed(Boolean(data.farmFeed));
+      setCalendarPass("");
+    } catch (err) {
+      console.error("Calendar link request failed:", err);
+      setCalendarError("Something went wrong. Please try again.");
+    } finally {
+      setCalendarBusy(false);
+    }
+  }
+
+  function calendarFeedUrl(scope?: "farm") {
+    if (!calendarToken || typeof window === "undefined") return "";
+    const params = new URLSearchParams({ token: calendarToken });
+    if (scope) params.set("scope", scope);
+    return `${window.location.origin}/api/schedule/calendar?${params.toString()}`;
+  }
+
+  async function copyFeed(label: string, url: string) {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopiedFeed(label);
+    } catch (err) {
+      console.error("Failed to copy calendar link:", err);
+    }
+  }
+
+  const calendarFeeds = calendarToken
+    ? [
+        { label: "My shifts", url: calendarFeedUrl() },
+        ...(calendarFarmFeed ? [{ label: "Whole farm", url: calendarFeedUrl("farm") }] : []),
+      ]
+    : [];
+
   return (
     <div className="space-y-4">
       <h1 className="text-2xl font-semibold tracking-[0.18em] uppercase text-[#5d7f3b]">
@@ -305,6 +373,96 @@ export default function HubSettingsPage() {
           </div>
         </form>
       </div>
+
+      <div className="rounded-lg bg-[#d3d6b0] px-6 py-6 text-[#4f5730] text-sm shadow-sm border border-[#c8cba0]/70 space-y-3">
+        <div>
+          <p className="text-[12px] font-semibold uppercase tracking-[0.14em] text-[#6b6f4c]">
+            Calendar feed
+          </p>
+          <p className="text-[12px] text-[#6f754f]">
+            Subscribe to your published shifts from your phone or computer calendar. Keep the link
+            private — anyone with it can see your schedule.
+          </p>
+        </div>
+
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+          <input
+            type="password"
+            value={calendarPass}
+            onChange={(e) => setCalendarPass(e.target.value)}
+            className="w-full sm:max-w-xs rounded-md border border-[#c8cba0] bg-[#f1edd8] px-3 py-2 text-sm text-[#3b4224] shadow-inner focus:outline-none focus:ring-2 focus:ring-[#8fae4c] focus:border-[#8fae4c]"
+            placeholder="Enter passcode"
+          />
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => handleCalendarLink(false)}
+              disabled={calendarBusy || !currentUserName}
+              className="rounded-md bg-[#a0b764] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-[#f9f9ec] shadow-md hover:bg-[#95ad5e] disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {calendarBusy ? "Loading…" : "Get link"}
+            </button>
+            <button
+              type="button"
+              onClick={() => handleCalendarLink(true)}
+              disabled={calendarBusy || !currentUserName}
+              className="rounded-md border border-[#d0c9a4] bg-[#f1edd8] px-4 py-2 text-xs font-semibold uppercase tracking-[0.14em] text-[#4f5730] shadow-sm hover:bg-[#e6dfc2] disabled:opacity-60"
+            >
+              Reset link
+            </button>
+          </div>
+        </div>
+
+        {calendarError && (
+          <div className="rounded-md border border-red-500/80 bg-red-500/10 px-3 py-2 text-xs text-red-800">
+            {calendarError}
+          </div>
+        )}
+
+        {calendarFeeds.map((feed) => (
+          <div
+            key={feed.label}
+            className="space-y-1 rounded-lg border border-[#d0c9a4] bg-white/80 px-4 py-3"
+          >
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-[12px] font-semibold text-[#4f5730]">{feed.label}</span>
+              <div className="flex gap-3 text-[11px]">
+                <a
+                  href={feed.url.replace(/^https?:/, "webcal:")}
+                  className="font-semibold text-[#5d7f3b] hover:underline"
+                >
+                  Subscribe
+                </a>
+                <button
+                  type="button"
+                  onClick={() => copyFeed(feed.label, feed.url)}
+                  className="font-semibold text-[#5d7f3b] hover:underline"
+                >
+                  {copiedFeed === feed.label ? "Copied" : "Copy link"}
+                </button>
+              </div>
+            </div>
+            <p className="break-all font-mono text-[11px] text-[#6f754f]">{feed.url}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="rounded-lg bg-[#d3d6b0] px-6 py-6 text-[#4f5730] text-sm shadow-sm border border-[#c8cba0]/70 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <p className="text-[12px] font-semibold uppercase tracking-[0.14em] text-[#6b6f4c]">
+            Availability
+          </p>
+          <p className="text-[12px] text-[#6f754f]">
+            Share your stay dates, days off, and busy times so you are not scheduled while away.
+          </p>
+        </div>
+        <Link
+          href="/hub/settings/availability"
+          className="rounded-md bg-[#a0b764] px-4 py-2 text-center text-xs font-semibold uppercase tracking-[0.14em] text-[#f9f9ec] shadow-md hover:bg-[#95ad5e]"
+        >
+          Manage availability
+        </Link>
+      </div>
     </div>
   );
 }
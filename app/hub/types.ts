@@ -3,5 +3,7 @@ export type TaskMeta = {
   description: string;
   typeName?: string;
   typeColor?: string;
+  checklist?: { done: number; total: number };
+  blockedBy?: string[];
 };
 
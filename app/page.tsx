@@ -4,10 +4,10 @@ import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import {
-  clearSession,
   getHubLandingPath,
   loadSession,
-  saveSession,
+  logout,
+  refreshSession,
   UserSession,
 } from "@/lib/session";
 
@@ -25,6 +25,8 @@ export default function HomePage() {
   const router = useRouter();
   const [session, setSession] = useState<UserSession | null>(null);
   const [showLogin, setShowLogin] = useState(false);
+  const [loginStep, setLoginStep] = useState<"login" | "reset" | "change">("login");
+  const [loginNotice, setLoginNotice] = useState<string | null>(null);
   const [showMobileMenu, setShowMobileMenu] = useState(false);
 
   const [users, setUsers] = useState<{ name: string; number: string }[]>([]);
@@ -41,6 +43,15 @@ export default function HomePage() {
   useEffect(() => {
     const existing = formatSession(loadSession());
     if (existing) setSession(existing);
+    refreshSession().then(async (current) => {
+      // A temporary passcode has to be replaced right after signing in with it.
+      if (current?.mustChangePasscode) {
+        await logout();
+        setSession(null);
+        return;
+      }
+      setSession(formatSession(current));
+    });
   }, []);
 
   const canAccessWork = useMemo(() => {
@@ -59,8 +70,8 @@ export default function HomePage() {
     router.replace("/hub");
   }, [router, shouldAutoRouteToSchedule]);
 
-  function handleLogout() {
-    clearSession();
+  async function handleLogout() {
+    await logout();
     setSession(null);
   }
 
@@ -121,22 +132,27 @@ export default function HomePage() {
       if (!res.ok) {
         if (res.status === 401) {
           setLoginError("Incorrect passcode for that user.");
+        } else if (res.status === 429) {
+          const data = await res.json().catch(() => null);
+          setLoginError(data?.error || "Too many attempts. Please wait and try again.");
         } else {
           setLoginError("Login failed. Please try again.");
         }
         return;
       }
 
-      const data = await res.json();
-      const nextSession: UserSession = {
-        name: data.name || selectedName,
-        userType: data.userType || null,
-        userTypeColor: data.userTypeColor || null,
-      };
-      saveSession(nextSession);
+      const nextSession = await refreshSession();
+      if (!nextSession) {
+        setLoginError("Login failed. Please try again.");
+        return;
+      }
+      if (nextSession.mustChangePasscode) {
+        setLoginStep("change");
+        return;
+      }
       setSession(formatSession(nextSession));
       setShowLogin(false);
-      router.push(getHubLandingPath(data.userType));
+      router.push(getHubLandingPath(nextSession.userType));
     } catch (err) {
       console.error("Login error:", err);
       setLoginError("Something went wrong. Please try again.");
@@ -145,6 +161,25 @@ export default function HomePage() {
     }
   }
 
+  async function handlePasscodeChanged() {
+    const nextSession = await refreshSession();
+    setLoginStep("login");
+    setPassword("");
+    if (!nextSession) return;
+    setSession(formatSession(nextSession));
+    setShowLogin(false);
+    router.push(getHubLandingPath(nextSession.userType));
+  }
+
+  function closeLogin() {
+    setShowLogin(false);
+    setLoginNotice(null);
+    if (loginStep === "change") {
+      logout();
+    }
+    setLoginStep("login");
+  }
+
   function heroButton(label: string, href: string, primary = false) {
     return (
       <Link
@@ -506,98 +541,335 @@ export default function HomePage() {
             <div className="bg-[#a0b764] text-white px-5 py-3 flex items-center justify-between">
               <div className="flex items-center gap-2">
                 <span className="text-xl">🔐</span>
-                <span className="text-sm font-semibold uppercase tracking-[0.18em]">Login</span>
+                <span className="text-sm font-semibold uppercase tracking-[0.18em]">
+                  {loginStep === "reset" ? "Reset passcode" : loginStep === "change" ? "New passcode" : "Login"}
+                </span>
               </div>
               <button
-                onClick={() => setShowLogin(false)}
+                onClick={closeLogin}
                 className="rounded-full bg-white/20 px-2 py-1 text-xs hover:bg-white/30"
                 aria-label="Close login"
               >
                 ✕
               </button>
             </div>
-            <form onSubmit={handleLogin} className="p-6 space-y-4 text-[#3b4224]">
-              <div className="space-y-1">
-                <label htmlFor="name" className="text-sm font-semibold text-[#4f5730]">
-                  Select your name
-                </label>
-                <select
-                  id="name"
-                  value={selectedName}
-                  onChange={(e) => setSelectedName(e.target.value)}
-                  disabled={usersLoading || !!usersError || users.length === 0}
-                  className="w-full rounded-md border border-[#c8cba0] bg-white px-4 py-3 text-sm font-medium text-[#3b4224] shadow-inner focus:outline-none focus:ring-2 focus:ring-[#8fae4c] focus:border-[#8fae4c] disabled:cursor-not-allowed disabled:opacity-70"
-                >
-                  {usersLoading && <option value="">Loading users...</option>}
-                  {!usersLoading && usersError && <option value="">Error loading users</option>}
-                  {!usersLoading && !usersError && users.length === 0 && (
-                    <option value="">No users found</option>
-                  )}
-                  {!usersLoading && !usersError && users.length > 0 && (
-                    <>
-                      <option value="">Choose an option...</option>
-                      {users.map((user) => (
-                        <option key={user.name} value={user.name}>
-                          {user.name}
-                        </option>
-                      ))}
-                    </>
-                  )}
-                </select>
-              </div>
-
-              <div className="space-y-1">
-                <label htmlFor="number" className="text-sm font-semibold text-[#4f5730]">
-                  Or enter your number
-                </label>
-                <input
-                  id="number"
-                  value={number}
-                  onChange={(e) => setNumber(e.target.value)}
-                  className="w-full rounded-md border border-[#c8cba0] bg-white px-4 py-3 text-sm font-medium text-[#3b4224] shadow-inner focus:outline-none focus:ring-2 focus:ring-[#8fae4c] focus:border-[#8fae4c]"
-                  placeholder="Phone or member number"
-                />
-              </div>
+            {loginStep === "change" && (
+              <ChangePasscodeForm
+                currentPasscode={password}
+                onDone={handlePasscodeChanged}
+                onCancel={closeLogin}
+              />
+            )}
+            {loginStep === "reset" && (
+              <ResetCodeForm
+                users={users}
+                onDone={() => {
+                  setLoginStep("login");
+                  setLoginNotice("Passcode updated. Log in with your new passcode.");
+                }}
+                onCancel={() => setLoginStep("login")}
+              />
+            )}
+            {loginStep === "login" && (
+              <form onSubmit={handleLogin} className="p-6 space-y-4 text-[#3b4224]">
+                <div className="space-y-1">
+                  <label htmlFor="name" className="text-sm font-semibold text-[#4f5730]">
+                    Select your name
+                  </label>
+                  <select
+                    id="name"
+                    value={selectedName}
+                    onChange={(e) => setSelectedName(e.target.value)}
+                    disabled={usersLoading || !!usersError || users.length === 0}
+                    className="w-full rounded-md border border-[#c8cba0] bg-white px-4 py-3 text-sm font-medium text-[#3b4224] shadow-inner focus:outline-none focus:ring-2 focus:ring-[#8fae4c] focus:border-[#8fae4c] disabled:cursor-not-allowed disabled:opacity-70"
+                  >
+                    {usersLoading && <option value="">Loading users...</option>}
+                    {!usersLoading && usersError && <option value="">Error loading users</option>}
+                    {!usersLoading && !usersError && users.length === 0 && (
+                      <option value="">No users found</option>
+                    )}
+                    {!usersLoading && !usersError && users.length > 0 && (
+                      <>
+                        <option value="">Choose an option...</option>
+                        {users.map((user) => (
+                          <option key={user.name} value={user.name}>
+                            {user.name}
+                          </option>
+                        ))}
+                      </>
+                    )}
+                  </select>
+                </div>
 
-              <div className="space-y-1">
-                <label htmlFor="password" className="text-sm font-semibold text-[#4f5730]">
-                  Passcode
-                </label>
-                <input
-                  id="password"
-                  type="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="w-full rounded-md border border-[#c8cba0] bg-[#f1edd8] px-3 py-2 text-sm text-[#3b4224] shadow-inner focus:outline-none focus:ring-2 focus:ring-[#8fae4c] focus:border-[#8fae4c]"
-                  placeholder="Enter your passcode"
-                />
-                <p className="text-[11px] text-[#7a7f54]">Your passcode is set by a site admin.</p>
-              </div>
+                <div className="space-y-1">
+                  <label htmlFor="number" className="text-sm font-semibold text-[#4f5730]">
+                    Or enter your number
+                  </label>
+                  <input
+                    id="number"
+                    value={number}
+                    onChange={(e) => setNumber(e.target.value)}
+                    className="w-full rounded-md border border-[#c8cba0] bg-white px-4 py-3 text-sm font-medium text-[#3b4224] shadow-inner focus:outline-none focus:ring-2 focus:ring-[#8fae4c] focus:border-[#8fae4c]"
+                    placeholder="Phone or member number"
+                  />
+                </div>
 
-              {loginError && (
-                <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">{loginError}</div>
-              )}
+                <div className="space-y-1">
+                  <label htmlFor="password" className="text-sm font-semibold text-[#4f5730]">
+                    Passcode
+                  </label>
+                  <input
+                    id="password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="w-full rounded-md border border-[#c8cba0] bg-[#f1edd8] px-3 py-2 text-sm text-[#3b4224] shadow-inner focus:outline-none focus:ring-2 focus:ring-[#8fae4c] focus:border-[#8fae4c]"
+                    placeholder="Enter your passcode"
+                  />
+                  <p className="text-[11px] text-[#7a7f54]">
+                    Forgot it?{" "}
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setLoginError(null);
+                        setLoginNotice(null);
+                        setLoginStep("reset");
+                      }}
+                      className="font-semibold text-[#5d7f3b] hover:underline"
+                    >
+                      Use a reset code from an admin
+                    </button>
+                  </p>
+                </div>
 
-              <div className="flex items-center justify-between pt-2">
-                <button
-                  type="button"
-                  onClick={() => setShowLogin(false)}
-                  className="rounded-full border border-[#c8cba0] bg-white px-4 py-2 text-sm font-semibold text-[#3b4224] hover:bg-[#f1edd8]"
-                >
-                  Cancel
-                </button>
-                <button
-                  type="submit"
-                  disabled={isSubmitting}
-                  className="inline-flex items-center gap-2 rounded-full bg-[#a0b764] text-white px-5 py-2.5 text-sm font-semibold shadow hover:bg-[#8ba450] disabled:opacity-60"
-                >
-                  {isSubmitting ? "Signing in..." : "Login"}
-                </button>
-              </div>
-            </form>
+                {loginNotice && (
+                  <div className="rounded-md border border-[#8fae4c] bg-[#e2f0c8] px-3 py-2 text-xs text-[#476524]">{loginNotice}</div>
+                )}
+                {loginError && (
+                  <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">{loginError}</div>
+                )}
+
+                <div className="flex items-center justify-between pt-2">
+                  <button
+                    type="button"
+                    onClick={closeLogin}
+                    className="rounded-full border border-[#c8cba0] bg-white px-4 py-2 text-sm font-semibold text-[#3b4224] hover:bg-[#f1edd8]"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isSubmitting}
+                    className="inline-flex items-center gap-2 rounded-full bg-[#a0b764] text-white px-5 py-2.5 text-sm font-semibold shadow hover:bg-[#8ba450] disabled:opacity-60"
+                  >
+                    {isSubmitting ? "Signing in..." : "Login"}
+                  </button>
+                </div>
+              </form>
+            )}
           </div>
         </div>
       )}
     </main>
   );
 }
+
+const modalInputClasses =
+  "w-full rounded-md border border-[#c8cba0] bg-[#f1edd8] px-3 py-2 text-sm text-[#3b4224] shadow-inner focus:outline-none focus:ring-2 focus:ring-[#8fae4c] focus:border-[#8fae4c]";
+
+function ModalActions({
+  submitting,
+  submitLabel,
+  onCancel,
+}: {
+  submitting: boolean;
+  submitLabel: string;
+  onCancel: () => void;
+}) {
+  return (
+    <div className="flex items-center justify-between pt-2">
+      <button
+        type="button"
+        onClick={onCancel}
+        className="rounded-full border border-[#c8cba0] bg-white px-4 py-2 text-sm font-semibold text-[#3b4224] hover:bg-[#f1edd8]"
+      >
+        Cancel
+      </button>
+      <button
+        type="submit"
+        disabled={submitting}
+        className="inline-flex items-center gap-2 rounded-full bg-[#a0b764] text-white px-5 py-2.5 text-sm font-semibold shadow hover:bg-[#8ba450] disabled:opacity-60"
+      >
+        {submitting ? "Saving..." : submitLabel}
+      </button>
+    </div>
+  );
+}
+
+function ChangePasscodeForm({
+  currentPasscode,
+  onDone,
+  onCancel,
+}: {
+  currentPasscode: string;
+  onDone: () => void;
+  onCancel: () => void;
+}) {
+  const [newPasscode, setNewPasscode] = useState("");
+  const [confirmPasscode, setConfirmPasscode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!newPasscode.trim()) {
+      setError("Choose a new passcode.");
+      return;
+    }
+    if (newPasscode !== confirmPasscode) {
+      setError("The passcodes do not match.");
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/user-settings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ currentPassword: currentPasscode, newPassword: newPasscode }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(data?.error || "Unable to save your passcode.");
+        return;
+      }
+      onDone();
+    } catch (err) {
+      console.error("Passcode change failed:", err);
+      setError("Something went wrong. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="p-6 space-y-4 text-[#3b4224]">
+      <p className="text-sm text-[#4f5730]">
+        You signed in with a temporary passcode. Choose your own to continue.
+      </p>
+      <input
+        type="password"
+        value={newPasscode}
+        onChange={(e) => setNewPasscode(e.target.value)}
+        className={modalInputClasses}
+        placeholder="New passcode"
+      />
+      <input
+        type="password"
+        value={confirmPasscode}
+        onChange={(e) => setConfirmPasscode(e.target.value)}
+        className={modalInputClasses}
+        placeholder="Confirm new passcode"
+      />
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">{error}</div>
+      )}
+      <ModalActions submitting={submitting} submitLabel="Save passcode" onCancel={onCancel} />
+    </form>
+  );
+}
+
+function ResetCodeForm({
+  users,
+  onDone,
+  onCancel,
+}: {
+  users: { name: string; number: string }[];
+  onDone: () => void;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState("");
+  const [code, setCode] = useState("");
+  const [newPasscode, setNewPasscode] = useState("");
+  const [confirmPasscode, setConfirmPasscode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    if (!name || !code.trim() || !newPasscode.trim()) {
+      setError("Choose your name and enter the reset code and a new passcode.");
+      return;
+    }
+    if (newPasscode !== confirmPasscode) {
+      setError("The passcodes do not match.");
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/passcode-reset", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, code, newPasscode }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) {
+        setError(data?.error || "Unable to reset your passcode.");
+        return;
+      }
+      onDone();
+    } catch (err) {
+      console.error("Passcode reset failed:", err);
+      setError("Something went wrong. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="p-6 space-y-4 text-[#3b4224]">
+      <p className="text-sm text-[#4f5730]">
+        Ask a site admin for a reset code, then choose a new passcode.
+      </p>
+      <select
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        className="w-full rounded-md border border-[#c8cba0] bg-white px-4 py-3 text-sm font-medium text-[#3b4224] shadow-inner focus:outline-none focus:ring-2 focus:ring-[#8fae4c] focus:border-[#8fae4c]"
+      >
+        <option value="">Choose your name...</option>
+        {users.map((user) => (
+          <option key={user.name} value={user.name}>
+            {user.name}
+          </option>
+        ))}
+      </select>
+      <input
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        className={`${modalInputClasses} uppercase tracking-[0.2em]`}
+        placeholder="Reset code"
+      />
+      <input
+        type="password"
+        value={newPasscode}
+        onChange={(e) => setNewPasscode(e.target.value)}
+        className={modalInputClasses}
+        placeholder="New passcode"
+      />
+      <input
+        type="password"
+        value={confirmPasscode}
+        onChange={(e) => setConfirmPasscode(e.target.value)}
+        className={modalInputClasses}
+        placeholder="Confirm new passcode"
+      />
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">{error}</div>
+      )}
+      <ModalActions submitting={submitting} submitLabel="Reset passcode" onCancel={onCancel} />
+    </form>
+  );
+}
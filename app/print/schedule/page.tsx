@@ -0,0 +1,281 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getMealIcon, typeColorClasses } from "@/lib/scheduleDisplay";
+
+type Slot = { id: string; label: string; timeRange: string; isMeal: boolean };
+type BoardTask = { name: string; typeName: string; typeColor: string };
+type BoardCell = { tasks: BoardTask[]; note: string };
+
+type ScheduleBoard = {
+  date: string;
+  dateLabel: string;
+  reportTime: string | null;
+  workSlots: Slot[];
+  meals: { slot: Slot; assignments: { task: BoardTask; people: string[] }[] }[];
+  rows: { person: string; cells: BoardCell[] }[];
+  volunteers: {
+    person: string;
+    shifts: { slot: Slot; tasks: BoardTask[]; note: string; coworkers: string[] }[];
+    guides: { title: string; url: string }[];
+  }[];
+};
+
+type PrintMode = "board" | "volunteers";
+
+export default function PrintSchedulePage() {
+  const [date, setDate] = useState<string | null>(null);
+  const [mode, setMode] = useState<PrintMode>("board");
+  const [board, setBoard] = useState<ScheduleBoard | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    setDate(params.get("date") || "");
+    if (params.get("mode") === "volunteers") setMode("volunteers");
+  }, []);
+
+  useEffect(() => {
+    if (date === null) return;
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const query = date ? `?date=${encodeURIComponent(date)}` : "";
+        const res = await fetch(`/api/schedule/export${query}`);
+        const json = await res.json();
+        if (!res.ok) throw new Error(json.error || "Unable to load schedule");
+        setBoard(json.board);
+      } catch (err) {
+        console.error("Failed to load printable schedule", err);
+        setBoard(null);
+        setError(err instanceof Error ? err.message : "Unable to load schedule");
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [date]);
+
+  const exportUrl = (pdfMode: PrintMode) => {
+    const params = new URLSearchParams({ format: "pdf", mode: pdfMode });
+    if (board?.date) params.set("date", board.date);
+    return `/api/schedule/export?${params.toString()}`;
+  };
+
+  return (
+    <div className="min-h-screen bg-[#fdfcf9] p-6 text-[#314123] print:bg-white print:p-0">
+      <div className="mb-6 flex flex-wrap items-center gap-3 print:hidden">
+        <input
+          type="date"
+          value={board?.date || ""}
+          onChange={(e) => setDate(e.target.value)}
+          className="rounded-md border border-[#d0c9a4] bg-white px-2 py-1 text-sm"
+        />
+        <div className="flex overflow-hidden rounded-md border border-[#d0c9a4] text-xs font-semibold uppercase tracking-[0.08em]">
+          {(["board", "volunteers"] as PrintMode[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setMode(option)}
+              className={`px-3 py-1 ${mode === option ? "bg-[#a0b764] text-white" : "bg-white text-[#314123]"}`}
+            >
+              {option === "board" ? "Whole board" : "Page per volunteer"}
+            </button>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => window.print()}
+          disabled={!board}
+          className="rounded-md bg-[#a0b764] px-4 py-1.5 text-xs font-semibold uppercase tracking-[0.12em] text-white shadow-sm hover:bg-[#95ad5e] disabled:opacity-60"
+        >
+          Print
+        </button>
+        {board && (
+          <a
+            href={exportUrl(mode)}
+            className="rounded-md border border-[#d0c9a4] bg-white px-4 py-1.5 text-xs font-semibold uppercase tracking-[0.12em] text-[#314123] shadow-sm hover:bg-[#f1edd8]"
+          >
+            Download PDF
+          </a>
+        )}
+      </div>
+
+      {loading && <p className="text-sm text-[#7a7f54]">Loading schedule…</p>}
+      {error && !loading && <p className="text-sm text-red-700">{error}</p>}
+
+      {board && !loading && mode === "board" && <PrintBoard board={board} />}
+      {board && !loading && mode === "volunteers" && <PrintVolunteers board={board} />}
+    </div>
+  );
+}
+
+function PrintHeader({ board, subtitle }: { board: ScheduleBoard; subtitle?: string }) {
+  return (
+    <div className="mb-4">
+      <h1 className="text-2xl font-semibold text-[#314123]">
+        Wai &amp; Aina schedule — {board.dateLabel}
+      </h1>
+      <p className="text-xs text-[#7a7f54]">
+        {subtitle || (board.reportTime ? `Reports due ${board.reportTime}` : "Published schedule")}
+      </p>
+    </div>
+  );
+}
+
+function PrintMealBlock({ meal }: { meal: ScheduleBoard["meals"][number] }) {
+  return (
+    <div className="rounded-lg bg-[#f5f0cd] border border-[#efe4b1] break-inside-avoid">
+      <div className="flex items-center gap-2 border-b border-[#f1e6b9] px-3 py-1.5">
+        <span className="text-base">{getMealIcon(meal.slot.label)}</span>
+        <span className="text-sm font-semibold text-[#5d7f3b]">{meal.slot.label}</span>
+        {meal.slot.timeRange && (
+          <span className="text-xs text-[#9b8e4e]">{meal.slot.timeRange}</span>
+        )}
+      </div>
+      <div className="space-y-1 px-3 py-2">
+        {meal.assignments.map((assignment) => (
+          <div
+            key={assignment.task.name}
+            className={`flex items-center justify-between rounded-md border px-2 py-1 text-xs ${typeColorClasses(
+              assignment.task.typeColor
+            )}`}
+          >
+            <span>{assignment.task.name}</span>
+            <span className="font-medium">{assignment.people.join(", ")}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function PrintBoard({ board }: { board: ScheduleBoard }) {
+  return (
+    <div className="print:[print-color-adjust:exact]">
+      <PrintHeader board={board} />
+
+      {board.meals.length > 0 && (
+        <div className="mb-4 grid gap-3" style={{ gridTemplateColumns: `repeat(${board.meals.length}, minmax(0, 1fr))` }}>
+          {board.meals.map((meal) => (
+            <PrintMealBlock key={meal.slot.id} meal={meal} />
+          ))}
+        </div>
+      )}
+
+      <table className="w-full table-fixed border-collapse text-xs">
+        <thead>
+          <tr className="bg-[#f1edd8]">
+            <th className="w-28 border border-[#d0c9a4] px-2 py-1 text-left">Volunteer</th>
+            {board.workSlots.map((slot) => (
+              <th key={slot.id} className="border border-[#d0c9a4] px-2 py-1 text-left">
+                <div className="font-semibold">{slot.label}</div>
+                {slot.timeRange && (
+                  <div className="text-[10px] font-normal text-[#7a7f54]">{slot.timeRange}</div>
+                )}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {board.rows.map((row) => (
+            <tr key={row.person} className="break-inside-avoid">
+              <td className="border border-[#d0c9a4] px-2 py-1 align-top font-semibold">
+                {row.person}
+              </td>
+              {row.cells.map((cell, idx) => (
+                <td
+                  key={board.workSlots[idx]?.id || idx}
+                  className="border border-[#d0c9a4] px-1 py-1 align-top"
+                >
+                  <div className="space-y-1">
+                    {cell.tasks.map((task) => (
+                      <div
+                        key={task.name}
+                        className={`rounded border px-1.5 py-0.5 font-semibold ${typeColorClasses(task.typeColor)}`}
+                      >
+                        {task.name}
+                      </div>
+                    ))}
+                    {cell.note && (
+                      <p className="whitespace-pre-line text-[10px] text-[#7a7f54]">{cell.note}</p>
+                    )}
+                  </div>
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function PrintVolunteers({ board }: { board: ScheduleBoard }) {
+  const volunteers = board.volunteers.filter((volunteer) => volunteer.shifts.length);
+  if (!volunteers.length) {
+    return <p className="text-sm text-[#7a7f54]">No assignments on this schedule.</p>;
+  }
+
+  return (
+    <div className="print:[print-color-adjust:exact]">
+      {volunteers.map((volunteer) => (
+        <section
+          key={volunteer.person}
+          className="mb-8 break-after-page rounded-lg border border-[#d0c9a4] bg-white p-6 print:mb-0 print:border-0 print:p-0"
+        >
+          <PrintHeader board={board} />
+          <h2 className="mb-4 text-3xl font-semibold">{volunteer.person}</h2>
+
+          <div className="space-y-4">
+            {volunteer.shifts.map((shift) => (
+              <div key={shift.slot.id} className="border-t border-[#d0c9a4] pt-3 break-inside-avoid">
+                <div className="flex items-baseline gap-2">
+                  <span className="text-lg font-semibold">{shift.slot.label}</span>
+                  {shift.slot.timeRange && (
+                    <span className="text-sm text-[#7a7f54]">{shift.slot.timeRange}</span>
+                  )}
+                </div>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {shift.tasks.map((task) => (
+                    <span
+                      key={task.name}
+                      className={`rounded-md border px-2 py-1 text-sm font-semibold ${typeColorClasses(task.typeColor)}`}
+                    >
+                      {task.name}
+                      {task.typeName && (
+                        <span className="ml-2 text-[11px] font-normal opacity-80">{task.typeName}</span>
+                      )}
+                    </span>
+                  ))}
+                </div>
+                {shift.coworkers.length > 0 && (
+                  <p className="mt-2 text-sm text-[#4b5133]">With {shift.coworkers.join(", ")}</p>
+                )}
+                {shift.note && (
+                  <p className="mt-1 whitespace-pre-line text-sm text-[#7a7f54]">Note: {shift.note}</p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {volunteer.guides.length > 0 && (
+            <div className="mt-6 border-t border-[#d0c9a4] pt-3">
+              <h3 className="text-lg font-semibold">Guides</h3>
+              <ul className="mt-2 space-y-1 text-sm">
+                {volunteer.guides.map((guide) => (
+                  <li key={guide.url}>
+                    <span className="font-semibold">{guide.title}</span>
+                    <span className="ml-2 text-xs text-[#7a7f54]">{guide.url}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </section>
+      ))}
+    </div>
+  );
+}
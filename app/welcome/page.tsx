@@ -2,25 +2,32 @@
 
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-import { getHubLandingPath, loadSession } from "@/lib/session";
+import { getHubLandingPath, refreshSession } from "@/lib/session";
 
 export default function WelcomePage() {
   const router = useRouter();
   const [name, setName] = useState<string>("");
 
   useEffect(() => {
-    const session = loadSession();
-    if (!session || !session.name) {
-      router.replace("/");
-      return;
-    }
-    setName(session.name);
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
 
-    const timeout = setTimeout(() => {
-      router.replace(getHubLandingPath(session.userType));
-    }, 2500);
+    refreshSession().then((session) => {
+      if (cancelled) return;
+      if (!session || !session.name) {
+        router.replace("/");
+        return;
+      }
+      setName(session.name);
+      timeout = setTimeout(() => {
+        router.replace(getHubLandingPath(session.userType));
+      }, 2500);
+    });
 
-    return () => clearTimeout(timeout);
+    return () => {
+      cancelled = true;
+      if (timeout) clearTimeout(timeout);
+    };
   }, [router]);
 
   return (
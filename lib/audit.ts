@@ -0,0 +1,227 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { supabaseRest, type SupabaseRequestOptions } from "@/lib/supabaseRest";
+
+export type AuditActor = { id: string | null; name: string };
+
+// Writes no signed-in user makes are attributed to one of these.
+export const SYSTEM_ACTORS = {
+  cron: { id: null, name: "system:cron" },
+  auth: { id: null, name: "system:auth" },
+  unattributed: { id: null, name: "system" },
+} satisfies Record<string, AuditActor>;
+
+type Row = Record<string, unknown>;
+
+export type AuditEventRow = {
+  id: string;
+  actor_id: string | null;
+  actor: string | null;
+  table_name: string;
+  action: "POST" | "PATCH" | "DELETE";
+  row_ids: string[];
+  before: Row[] | null;
+  after: Row[] | null;
+  created_at: string;
+};
+
+const auditContext = new AsyncLocalStorage<AuditActor>();
+
+// Log tables themselves and session bookkeeping are not audited.
+const UNAUDITED_TABLES = new Set(["audit_events", "security_events", "task_status_events", "user_sessions"]);
+const REDACTED_COLUMNS = new Set(["passcode", "calendar_token", "code_hash"]);
+const NON_FILTER_PARAMS = new Set(["select", "order", "limit", "offset", "on_conflict", "columns"]);
+const UNRESTORABLE_COLUMNS = new Set(["id", "created_at", "updated_at"]);
+const ID_CHUNK = 100;
+
+/** Runs `fn` with every mutation inside it attributed to `actor`. */
+export function runWithAuditActor<T>(actor: AuditActor, fn: () => T) {
+  return auditContext.run(actor, fn);
+}
+
+export const currentAuditActor = () => auditContext.getStore() ?? null;
+
+const redact = (rows: Row[] | null) =>
+  rows?.map((row) =>
+    Object.fromEntries(
+      Object.entries(row).map(([key, value]) => [key, REDACTED_COLUMNS.has(key) ? "[redacted]" : value])
+    )
+  ) ?? null;
+
+function filtersOf(query: SupabaseRequestOptions["query"]) {
+  return Object.fromEntries(
+    Object.entries(query || {}).filter(([key]) => !NON_FILTER_PARAMS.has(key))
+  );
+}
+
+const idsOf = (rows: Row[] | null) =>
+  (rows || []).map((row) => row.id).filter((id): id is string => typeof id === "string");
+
+async function loadRowsById(table: string, ids: string[]) {
+  const rows: Row[] = [];
+  for (let i = 0; i < ids.length; i += ID_CHUNK) {
+    const chunk = ids.slice(i, i + ID_CHUNK);
+    const data = await supabaseRest<Row[]>(table, {
+      query: { select: "*", id: `in.(${chunk.join(",")})` },
+    });
+    rows.push(...(data || []));
+  }
+  return rows;
+}
+
+const filterValue = (value: unknown) => `"${String(value).replace(/["\\]/g, "\\$&")}"`;
+
+/**
+ * Rows an upsert (`resolution=merge-duplicates`) is about to overwrite,
+ * matched on its `on_conflict` columns, so the event has a before snapshot.
+ */
+async function loadConflictingRows(table: string, options: SupabaseRequestOptions) {
+  const columns = String(options.query?.on_conflict || "id")
+    .split(",")
+    .map((column) => column.trim())
+    .filter(Boolean);
+  const body = Array.isArray(options.body) ? options.body : options.body ? [options.body] : [];
+  const matches = (body as Row[])
+    .filter((row) => columns.every((column) => row[column] !== undefined && row[column] !== null))
+    .map((row) => `and(${columns.map((column) => `${column}.eq.${filterValue(row[column])}`).join(",")})`);
+
+  const rows: Row[] = [];
+  for (let i = 0; i < matches.length; i += ID_CHUNK) {
+    const data = await supabaseRest<Row[]>(table, {
+      query: { select: "*", or: `(${matches.slice(i, i + ID_CHUNK).join(",")})` },
+    });
+    rows.push(...(data || []));
+  }
+  return rows;
+}
+
+/** `prefer` with its `return=` preference replaced by `return=representation`. */
+const preferRepresentation = (prefer?: string) =>
+  [
+    ...(prefer || "")
+      .split(",")
+      .map((token) => token.trim())
+      .filter((token) => token && !token.startsWith("return=")),
+    "return=representation",
+  ].join(",");
+
+/**
+ * Performs a POST/PATCH/DELETE and records who made it with a before/after
+ * snapshot of the affected rows. Callers get exactly what the plain request
+ * would have returned; a failure to write the audit row is logged, not thrown.
+ */
+export async function auditedMutation<T>(
+  table: string,
+  options: SupabaseRequestOptions,
+  actor: AuditActor
+): Promise<T> {
+  const method = options.method as AuditEventRow["action"];
+  if (UNAUDITED_TABLES.has(table)) {
+    return supabaseRest<T>(table, options);
+  }
+
+  const isUpsert = method === "POST" && Boolean(options.prefer?.includes("resolution=merge-duplicates"));
+  const before =
+    method !== "POST"
+      ? await supabaseRest<Row[]>(table, { query: { ...filtersOf(options.query), select: "*" } })
+      : isUpsert
+        ? await loadConflictingRows(table, options)
+        : null;
+
+  const wantsRows = Boolean(options.prefer?.includes("return=representation"));
+  let result: T;
+  let after: Row[] | null = null;
+
+  if (method === "POST" && !wantsRows) {
+    const inserted = await supabaseRest<Row[]>(table, {
+      ...options,
+      query: { ...options.query, select: "*" },
+      prefer: preferRepresentation(options.prefer),
+    });
+    after = inserted || [];
+    result = null as T;
+  } else {
+    result = await supabaseRest<T>(table, options);
+    if (method === "POST") {
+      const returned = Array.isArray(result) ? (result as Row[]) : [];
+      const ids = idsOf(returned);
+      after = ids.length ? await loadRowsById(table, ids) : returned;
+    } else if (method === "PATCH") {
+      after = await loadRowsById(table, idsOf(before));
+    }
+  }
+
+  const rowIds = Array.from(new Set([...idsOf(before), ...idsOf(after)]));
+  if (!before?.length && !after?.length && method !== "POST") {
+    return result;
+  }
+
+  try {
+    await supabaseRest("audit_events", {
+      method: "POST",
+      body: {
+        actor_id: actor.id,
+        actor: actor.name,
+        table_name: table,
+        action: method,
+        row_ids: rowIds,
+        before: redact(before),
+        after: redact(after),
+      },
+    });
+  } catch (err) {
+    console.error("Failed to record audit event:", err);
+  }
+
+  return result;
+}
+
+export async function listAuditEvents(filters: {
+  actor?: string;
+  table?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}) {
+  const range = [
+    filters.from ? `created_at.gte.${filters.from}` : null,
+    filters.to ? `created_at.lt.${filters.to}` : null,
+  ].filter(Boolean);
+
+  const data = await supabaseRest<AuditEventRow[]>("audit_events", {
+    query: {
+      select: "id,actor_id,actor,table_name,action,row_ids,before,after,created_at",
+      actor: filters.actor ? `ilike.*${filters.actor}*` : undefined,
+      table_name: filters.table ? `eq.${filters.table}` : undefined,
+      and: range.length ? `(${range.join(",")})` : undefined,
+      order: "created_at.desc",
+      limit: filters.limit ?? 200,
+    },
+  });
+  return data || [];
+}
+
+/**
+ * Columns a single-row PATCH (or an upsert over an existing row) changed, with
+ * the values they had before it.
+ */
+export function restorableValues(event: AuditEventRow) {
+  if (event.action === "DELETE" || event.row_ids.length !== 1) return null;
+  const before = event.before?.[0];
+  const after = event.after?.[0];
+  if (!before || !after) return null;
+
+  const values = Object.fromEntries(
+    Object.keys(before)
+      .filter((key) => !UNRESTORABLE_COLUMNS.has(key) && !REDACTED_COLUMNS.has(key))
+      .filter((key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+      .map((key) => [key, before[key]])
+  );
+  return Object.keys(values).length ? values : null;
+}
+
+export async function findAuditEvent(id: string) {
+  const data = await supabaseRest<AuditEventRow[]>("audit_events", {
+    query: { select: "*", id: `eq.${id}`, limit: 1 },
+  });
+  return data?.[0] ?? null;
+}
@@ -0,0 +1,194 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { cookies } from "next/headers";
+import type { NextResponse } from "next/server";
+import { supabaseRequest } from "@/lib/supabase";
+
+export const SESSION_COOKIE = "waianda_session";
+const SESSION_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+export type SessionUser = {
+  id: string;
+  name: string;
+  userType: string | null;
+  roleId: string | null;
+  mustChangePasscode: boolean;
+  sessionId: string;
+  impersonator: Impersonator | null;
+};
+
+/** The admin actually signed in while the session is viewing the hub as someone else. */
+export type Impersonator = {
+  id: string;
+  name: string;
+  impersonationId: string;
+  writable: boolean;
+};
+
+type SessionUserRow = {
+  id: string;
+  display_name: string;
+  active: boolean;
+  must_change_passcode: boolean;
+  user_role: { id: string; name: string } | null;
+};
+
+type SessionRow = {
+  id: string;
+  expires_at: string;
+  revoked_at: string | null;
+  user: SessionUserRow | null;
+  impersonation: {
+    id: string;
+    writable: boolean;
+    ended_at: string | null;
+    target: SessionUserRow | null;
+  } | null;
+};
+
+const SESSION_USER_SELECT = "id,display_name,active,must_change_passcode,user_role:user_roles(id,name)";
+
+function getSessionSecret() {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("SESSION_SECRET is not configured.");
+  }
+  return secret;
+}
+
+function sign(value: string) {
+  return createHmac("sha256", getSessionSecret()).update(value).digest("base64url");
+}
+
+/** Cookie value is `<session id>.<hmac>` so a tampered id never reaches the database. */
+function readSessionId(cookieValue: string | undefined) {
+  if (!cookieValue) return null;
+  const dot = cookieValue.lastIndexOf(".");
+  if (dot <= 0) return null;
+
+  const id = cookieValue.slice(0, dot);
+  const expected = Buffer.from(sign(id));
+  const actual = Buffer.from(cookieValue.slice(dot + 1));
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+  return /^[0-9a-f-]{36}$/i.test(id) ? id : null;
+}
+
+export async function createSession(userId: string) {
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+  const [row] = await supabaseRequest<{ id: string }[]>("user_sessions", {
+    method: "POST",
+    prefer: "return=representation",
+    query: { select: "id" },
+    body: { user_id: userId, expires_at: expiresAt.toISOString() },
+  });
+  return { id: row.id, expiresAt };
+}
+
+export async function revokeSession(sessionId: string) {
+  await supabaseRequest("user_sessions", {
+    method: "PATCH",
+    query: { id: `eq.${sessionId}`, revoked_at: "is.null" },
+    body: { revoked_at: new Date().toISOString() },
+  });
+}
+
+export async function startImpersonation(
+  sessionId: string,
+  adminId: string,
+  targetUserId: string,
+  writable: boolean
+) {
+  const [row] = await supabaseRequest<{ id: string }[]>("impersonation_sessions", {
+    method: "POST",
+    prefer: "return=representation",
+    query: { select: "id" },
+    body: { admin_id: adminId, target_user_id: targetUserId, writable },
+  });
+  await supabaseRequest("user_sessions", {
+    method: "PATCH",
+    query: { id: `eq.${sessionId}` },
+    body: { impersonation_id: row.id },
+  });
+  return row.id;
+}
+
+export async function endImpersonation(user: SessionUser) {
+  if (!user.impersonator) return;
+  await supabaseRequest("impersonation_sessions", {
+    method: "PATCH",
+    query: { id: `eq.${user.impersonator.impersonationId}`, ended_at: "is.null" },
+    body: { ended_at: new Date().toISOString() },
+  });
+  await supabaseRequest("user_sessions", {
+    method: "PATCH",
+    query: { id: `eq.${user.sessionId}` },
+    body: { impersonation_id: null },
+  });
+}
+
+export function setSessionCookie(res: NextResponse, sessionId: string, expiresAt: Date) {
+  res.cookies.set(SESSION_COOKIE, `${sessionId}.${sign(sessionId)}`, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    expires: expiresAt,
+  });
+}
+
+export function clearSessionCookie(res: NextResponse) {
+  res.cookies.set(SESSION_COOKIE, "", { httpOnly: true, path: "/", maxAge: 0 });
+}
+
+/**
+ * Resolves the signed-in user for the current request from the session cookie.
+ * Returns null when the cookie is missing or tampered with, the session has
+ * expired or been revoked, or the user has been deactivated. While an admin is
+ * viewing the hub as someone else, the impersonated user is returned with the
+ * admin recorded in `impersonator`.
+ */
+export async function getCurrentUser(): Promise<SessionUser | null> {
+  const store = await cookies();
+  const sessionId = readSessionId(store.get(SESSION_COOKIE)?.value);
+  if (!sessionId) return null;
+
+  const data = await supabaseRequest<SessionRow[]>("user_sessions", {
+    query: {
+      select: `id,expires_at,revoked_at,user:users!user_id(${SESSION_USER_SELECT}),impersonation:impersonation_sessions(id,writable,ended_at,target:users!target_user_id(${SESSION_USER_SELECT}))`,
+      id: `eq.${sessionId}`,
+      limit: 1,
+    },
+  });
+
+  const session = data?.[0];
+  if (!session?.user || !session.user.active) return null;
+  if (session.revoked_at || new Date(session.expires_at).getTime() <= Date.now()) return null;
+
+  const impersonation = session.impersonation;
+  const target = impersonation?.target;
+  if (impersonation && !impersonation.ended_at && target?.active) {
+    return {
+      id: target.id,
+      name: target.display_name,
+      userType: target.user_role?.name ?? null,
+      roleId: target.user_role?.id ?? null,
+      mustChangePasscode: false,
+      sessionId: session.id,
+      impersonator: {
+        id: session.user.id,
+        name: session.user.display_name,
+        impersonationId: impersonation.id,
+        writable: impersonation.writable,
+      },
+    };
+  }
+
+  return {
+    id: session.user.id,
+    name: session.user.display_name,
+    userType: session.user.user_role?.name ?? null,
+    roleId: session.user.user_role?.id ?? null,
+    mustChangePasscode: Boolean(session.user.must_change_passcode),
+    sessionId: session.id,
+    impersonator: null,
+  };
+}
@@ -0,0 +1,112 @@
+import { supabaseRequest } from "@/lib/supabase";
+import { parseTimeRange } from "@/lib/timeRange";
+
+export const AVAILABILITY_KINDS = ["stay", "day_off", "partial"] as const;
+export type AvailabilityKind = (typeof AVAILABILITY_KINDS)[number];
+export type AvailabilityStatus = "pending" | "approved" | "declined";
+
+export type AvailabilityRow = {
+  id: string;
+  user_id: string;
+  kind: AvailabilityKind;
+  start_date: string;
+  end_date: string | null;
+  start_time: string | null;
+  end_time: string | null;
+  note: string | null;
+  status: AvailabilityStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  user?: { display_name: string } | null;
+};
+
+export type DayAvailability = {
+  away: boolean;
+  reason: string | null;
+  busy: { startMinutes: number; endMinutes: number; label: string }[];
+};
+
+const AVAILABILITY_SELECT =
+  "id,user_id,kind,start_date,end_date,start_time,end_time,note,status,reviewed_by,reviewed_at,created_at,user:users(display_name)";
+
+// Stays without an end date are open-ended; other records without one last a single day.
+function covers(row: AvailabilityRow, date: string) {
+  if (date < row.start_date) return false;
+  if (row.end_date) return date <= row.end_date;
+  return row.kind === "stay" || date === row.start_date;
+}
+
+/**
+ * Works out one user's availability on a date from their approved records.
+ * Someone with stay records is only around inside one of those stays (a stay
+ * without an end date is open-ended); someone without any is assumed to be
+ * around. Days off take the whole day, partial records block a time window.
+ */
+export function availabilityOn(records: AvailabilityRow[], date: string): DayAvailability {
+  const approved = records.filter((row) => row.status === "approved");
+  const stays = approved.filter((row) => row.kind === "stay");
+
+  if (stays.length && !stays.some((row) => covers(row, date))) {
+    const upcoming = stays
+      .filter((row) => row.start_date > date)
+      .sort((a, b) => a.start_date.localeCompare(b.start_date))[0];
+    return {
+      away: true,
+      reason: upcoming ? `Arrives ${upcoming.start_date}` : "Not staying on this date",
+      busy: [],
+    };
+  }
+
+  const dayOff = approved.find((row) => row.kind === "day_off" && covers(row, date));
+  if (dayOff) {
+    return { away: true, reason: dayOff.note || "Day off", busy: [] };
+  }
+
+  const busy = approved
+    .filter((row) => row.kind === "partial" && covers(row, date))
+    .map((row) => {
+      const label = `${row.start_time || ""} - ${row.end_time || ""}`;
+      const range = parseTimeRange(label);
+      return range ? { ...range, label: row.note ? `${label} (${row.note})` : label } : null;
+    })
+    .filter((entry): entry is DayAvailability["busy"][number] => Boolean(entry));
+
+  return { away: false, reason: null, busy };
+}
+
+export async function listAvailability(filters: {
+  userId?: string;
+  status?: AvailabilityStatus;
+  from?: string;
+}) {
+  const data = await supabaseRequest<AvailabilityRow[]>("user_availability", {
+    query: {
+      select: AVAILABILITY_SELECT,
+      user_id: filters.userId ? `eq.${filters.userId}` : undefined,
+      status: filters.status ? `eq.${filters.status}` : undefined,
+      or: filters.from
+        ? `(end_date.gte.${filters.from},and(end_date.is.null,or(kind.eq.stay,start_date.gte.${filters.from})))`
+        : undefined,
+      order: "start_date.asc",
+    },
+  });
+  return data || [];
+}
+
+/** Approved availability for every user with records, keyed by user id. */
+export async function loadAvailabilityOn(date: string) {
+  const data = await supabaseRequest<AvailabilityRow[]>("user_availability", {
+    query: { select: AVAILABILITY_SELECT, status: "eq.approved" },
+  });
+
+  const byUser = new Map<string, AvailabilityRow[]>();
+  (data || []).forEach((row) => {
+    if (!byUser.has(row.user_id)) byUser.set(row.user_id, []);
+    byUser.get(row.user_id)?.push(row);
+  });
+
+  const result = new Map<string, DayAvailability>();
+  byUser.forEach((records, userId) => result.set(userId, availabilityOn(records, date)));
+  return result;
+}
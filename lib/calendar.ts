@@ -0,0 +1,241 @@
+import { randomBytes } from "crypto";
+import { loadRolePermissions, type Permission } from "@/lib/permissions";
+import { supabaseRequest } from "@/lib/supabase";
+import { HAWAII_TIME_ZONE, type ScheduleSnapshot } from "@/lib/schedule";
+import { computeGroupNamesForSlotTask, parseCell } from "@/lib/scheduleCells";
+import { parseTimeRange } from "@/lib/timeRange";
+
+export type CalendarDay = { date: string; grid: ScheduleSnapshot };
+
+export type CalendarEvent = {
+  uid: string;
+  date: string;
+  startMinutes: number | null;
+  endMinutes: number | null;
+  summary: string;
+  description: string;
+};
+
+export type CalendarUser = { id: string; name: string; permissions: Permission[]; active: boolean };
+
+const PRODUCT_ID = "-//Wai and Aina//Farm Schedule//EN";
+const UID_DOMAIN = "waiandaina.farm";
+
+const slug = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+function slotTimes(timeRange: string | undefined) {
+  const range = timeRange ? parseTimeRange(timeRange) : null;
+  if (!range) return { startMinutes: null, endMinutes: null };
+  return { startMinutes: range.startMinutes, endMinutes: range.endMinutes };
+}
+
+/**
+ * One event per shift the person works: the tasks in that cell, who they work
+ * with on each task, and the cell note.
+ */
+export function buildPersonEvents(days: CalendarDay[], person: string): CalendarEvent[] {
+  const target = person.trim().toLowerCase();
+  const events: CalendarEvent[] = [];
+
+  days.forEach(({ date, grid }) => {
+    const rowIdx = grid.people.findIndex((name) => name.trim().toLowerCase() === target);
+    if (rowIdx === -1) return;
+
+    grid.slots.forEach((slot, colIdx) => {
+      const content = parseCell(grid.cells[rowIdx]?.[colIdx] || "");
+      if (!content.tasks.length) return;
+
+      const lines = content.tasks.map((task) => {
+        const others = computeGroupNamesForSlotTask(grid, slot.id, task).filter(
+          (name) => name !== grid.people[rowIdx]
+        );
+        return others.length ? `${task} — with ${others.join(", ")}` : task;
+      });
+      if (content.note) lines.push("", `Note: ${content.note}`);
+
+      events.push({
+        uid: `${date}-${slot.id}-${slug(grid.people[rowIdx])}@${UID_DOMAIN}`,
+        date,
+        ...slotTimes(slot.timeRange),
+        summary: `${slot.label}: ${content.tasks.join(", ")}`,
+        description: lines.join("\n"),
+      });
+    });
+  });
+
+  return events;
+}
+
+/** One event per task per shift across the whole farm, listing everyone on it. */
+export function buildFarmEvents(days: CalendarDay[]): CalendarEvent[] {
+  const events: CalendarEvent[] = [];
+
+  days.forEach(({ date, grid }) => {
+    grid.slots.forEach((slot, colIdx) => {
+      const notes = new Map<string, string[]>();
+      const order: string[] = [];
+
+      grid.people.forEach((person, rowIdx) => {
+        const content = parseCell(grid.cells[rowIdx]?.[colIdx] || "");
+        content.tasks.forEach((task) => {
+          if (!notes.has(task)) {
+            notes.set(task, []);
+            order.push(task);
+          }
+          if (content.note) notes.get(task)?.push(`${person}: ${content.note}`);
+        });
+      });
+
+      order.forEach((task) => {
+        const people = computeGroupNamesForSlotTask(grid, slot.id, task);
+        const lines = [`${slot.label}`, `Assigned: ${people.join(", ")}`];
+        const taskNotes = notes.get(task) || [];
+        if (taskNotes.length) lines.push("", ...taskNotes);
+
+        events.push({
+          uid: `${date}-${slot.id}-${slug(task)}@${UID_DOMAIN}`,
+          date,
+          ...slotTimes(slot.timeRange),
+          summary: `${task} (${people.join(", ")})`,
+          description: lines.join("\n"),
+        });
+      });
+    });
+  });
+
+  return events;
+}
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// RFC 5545 caps content lines at 75 octets; continuation lines start with a space.
+function foldLine(line: string) {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const charSize = Buffer.byteLength(char, "utf8");
+    const limit = parts.length ? 74 : 75;
+    if (size + charSize > limit) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+function addDays(date: string, days: number) {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+function formatLocal(date: string, minutes: number) {
+  const dayOffset = Math.floor(minutes / 1440);
+  const within = minutes - dayOffset * 1440;
+  const day = addDays(date, dayOffset).replace(/-/g, "");
+  return `${day}T${pad(Math.floor(within / 60))}${pad(within % 60)}00`;
+}
+
+function formatStamp(now: Date) {
+  return now.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Renders events as an iCalendar feed. Times are wall-clock Hawaii time (no
+ * daylight saving there, so a single STANDARD block covers the zone); shifts
+ * without a parseable time range become all-day events.
+ */
+export function renderCalendar(name: string, events: CalendarEvent[], now = new Date()) {
+  const stamp = formatStamp(now);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${HAWAII_TIME_ZONE}`,
+    "BEGIN:VTIMEZONE",
+    `TZID:${HAWAII_TIME_ZONE}`,
+    "BEGIN:STANDARD",
+    "DTSTART:19700101T000000",
+    "TZOFFSETFROM:-1000",
+    "TZOFFSETTO:-1000",
+    "TZNAME:HST",
+    "END:STANDARD",
+    "END:VTIMEZONE",
+  ];
+
+  events.forEach((event) => {
+    lines.push("BEGIN:VEVENT", `UID:${event.uid}`, `DTSTAMP:${stamp}`);
+    if (event.startMinutes === null || event.endMinutes === null) {
+      lines.push(
+        `DTSTART;VALUE=DATE:${event.date.replace(/-/g, "")}`,
+        `DTEND;VALUE=DATE:${addDays(event.date, 1).replace(/-/g, "")}`
+      );
+    } else {
+      const end =
+        event.endMinutes > event.startMinutes ? event.endMinutes : event.endMinutes + 1440;
+      lines.push(
+        `DTSTART;TZID=${HAWAII_TIME_ZONE}:${formatLocal(event.date, event.startMinutes)}`,
+        `DTEND;TZID=${HAWAII_TIME_ZONE}:${formatLocal(event.date, end)}`
+      );
+    }
+    lines.push(
+      `SUMMARY:${escapeText(event.summary)}`,
+      `DESCRIPTION:${escapeText(event.description)}`,
+      "END:VEVENT"
+    );
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export function generateCalendarToken() {
+  return randomBytes(24).toString("hex");
+}
+
+type CalendarUserRow = {
+  id: string;
+  display_name: string;
+  active: boolean;
+  user_role: { id: string; name: string } | null;
+};
+
+const CALENDAR_USER_SELECT = "id,display_name,active,user_role:user_roles(id,name)";
+
+const toCalendarUser = async (row: CalendarUserRow): Promise<CalendarUser> => ({
+  id: row.id,
+  name: row.display_name,
+  permissions: await loadRolePermissions(row.user_role?.id ?? null, row.user_role?.name ?? null),
+  active: Boolean(row.active),
+});
+
+export async function findUserByCalendarToken(token: string) {
+  if (!/^[a-f0-9]{48}$/.test(token)) return null;
+  const data = await supabaseRequest<CalendarUserRow[]>("users", {
+    query: { select: CALENDAR_USER_SELECT, calendar_token: `eq.${token}`, limit: 1 },
+  });
+  return data?.[0] ? await toCalendarUser(data[0]) : null;
+}
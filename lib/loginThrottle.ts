@@ -0,0 +1,168 @@
+import { supabaseRequest } from "@/lib/supabase";
+
+export type AttemptRecord = {
+  failures: number;
+  firstFailedAt: number;
+  lastFailedAt: number;
+  lockedUntil: number | null;
+};
+
+export type AttemptStore = {
+  get(key: string): Promise<AttemptRecord | null>;
+  set(key: string, record: AttemptRecord): Promise<void>;
+  delete(key: string): Promise<void>;
+};
+
+type ThrottlePolicy = { freeFailures: number; maxDelayMs: number; lockAfter: number; lockMs: number };
+
+const WINDOW_MS = 15 * 60 * 1000;
+
+// Accounts lock quickly; a client (IP) gets more room because several people
+// often sign in from the farm's shared connection.
+const POLICIES: Record<"account" | "client", ThrottlePolicy> = {
+  account: { freeFailures: 2, maxDelayMs: 30_000, lockAfter: 5, lockMs: 15 * 60 * 1000 },
+  client: { freeFailures: 5, maxDelayMs: 30_000, lockAfter: 20, lockMs: 15 * 60 * 1000 },
+};
+
+export type ThrottleKey = { kind: keyof typeof POLICIES; id: string };
+
+export type ThrottleDecision =
+  | { allowed: true }
+  | { allowed: false; locked: boolean; retryAfterSeconds: number };
+
+/** In-process stand-in for local development; state resets with the server. */
+export function createMemoryAttemptStore(): AttemptStore {
+  const records = new Map<string, AttemptRecord>();
+  return {
+    async get(key) {
+      return records.get(key) ?? null;
+    },
+    async set(key, record) {
+      records.set(key, record);
+    },
+    async delete(key) {
+      records.delete(key);
+    },
+  };
+}
+
+type AttemptRow = {
+  key: string;
+  failures: number;
+  first_failed_at: string;
+  last_failed_at: string;
+  locked_until: string | null;
+};
+
+export const supabaseAttemptStore: AttemptStore = {
+  async get(key) {
+    const data = await supabaseRequest<AttemptRow[]>("login_attempts", {
+      query: { select: "*", key: `eq.${key}`, limit: 1 },
+    });
+    const row = data?.[0];
+    if (!row) return null;
+    return {
+      failures: row.failures,
+      firstFailedAt: Date.parse(row.first_failed_at),
+      lastFailedAt: Date.parse(row.last_failed_at),
+      lockedUntil: row.locked_until ? Date.parse(row.locked_until) : null,
+    };
+  },
+  async set(key, record) {
+    await supabaseRequest("login_attempts", {
+      method: "POST",
+      prefer: "resolution=merge-duplicates",
+      query: { on_conflict: "key" },
+      body: {
+        key,
+        failures: record.failures,
+        first_failed_at: new Date(record.firstFailedAt).toISOString(),
+        last_failed_at: new Date(record.lastFailedAt).toISOString(),
+        locked_until: record.lockedUntil ? new Date(record.lockedUntil).toISOString() : null,
+      },
+    });
+  },
+  async delete(key) {
+    await supabaseRequest("login_attempts", { method: "DELETE", query: { key: `eq.${key}` } });
+  },
+};
+
+const memoryStore = createMemoryAttemptStore();
+
+// LOGIN_THROTTLE_STORE=memory|supabase overrides the default, which keeps
+// attempts in memory outside production.
+function resolveStore(): AttemptStore {
+  const configured = process.env.LOGIN_THROTTLE_STORE;
+  if (configured === "memory") return memoryStore;
+  if (configured === "supabase") return supabaseAttemptStore;
+  return process.env.NODE_ENV === "production" ? supabaseAttemptStore : memoryStore;
+}
+
+const storeKey = (key: ThrottleKey) => `${key.kind}:${key.id.trim().toLowerCase()}`;
+
+function delayFor(policy: ThrottlePolicy, failures: number) {
+  const extra = failures - policy.freeFailures;
+  if (extra <= 0) return 0;
+  return Math.min(1000 * 2 ** (extra - 1), policy.maxDelayMs);
+}
+
+export function clientAddress(req: Request) {
+  const forwarded = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+  return forwarded || req.headers.get("x-real-ip") || "unknown";
+}
+
+/**
+ * Whether another attempt is allowed right now. Each failure beyond a few free
+ * ones doubles the wait before the next try; enough failures inside the window
+ * lock the key outright until the lock expires.
+ */
+export async function checkThrottle(keys: ThrottleKey[], now = Date.now()): Promise<ThrottleDecision> {
+  const store = resolveStore();
+  let waitMs = 0;
+  let locked = false;
+
+  for (const key of keys) {
+    const record = await store.get(storeKey(key));
+    if (!record) continue;
+    if (record.lockedUntil && record.lockedUntil > now) {
+      locked = true;
+      waitMs = Math.max(waitMs, record.lockedUntil - now);
+      continue;
+    }
+    if (now - record.lastFailedAt > WINDOW_MS) continue;
+    const nextAllowed = record.lastFailedAt + delayFor(POLICIES[key.kind], record.failures);
+    if (nextAllowed > now) waitMs = Math.max(waitMs, nextAllowed - now);
+  }
+
+  return waitMs > 0
+    ? { allowed: false, locked, retryAfterSeconds: Math.ceil(waitMs / 1000) }
+    : { allowed: true };
+}
+
+/** Counts a failed attempt; returns the keys that just became locked. */
+export async function recordFailure(keys: ThrottleKey[], now = Date.now()) {
+  const store = resolveStore();
+  const lockedKeys: ThrottleKey[] = [];
+
+  for (const key of keys) {
+    const id = storeKey(key);
+    const policy = POLICIES[key.kind];
+    const previous = await store.get(id);
+    const fresh = !previous || now - previous.firstFailedAt > WINDOW_MS;
+    const record: AttemptRecord = fresh
+      ? { failures: 1, firstFailedAt: now, lastFailedAt: now, lockedUntil: null }
+      : { ...previous, failures: previous.failures + 1, lastFailedAt: now };
+
+    if (record.failures >= policy.lockAfter && !(record.lockedUntil && record.lockedUntil > now)) {
+      record.lockedUntil = now + policy.lockMs;
+      lockedKeys.push(key);
+    }
+    await store.set(id, record);
+  }
+
+  return lockedKeys;
+}
+
+export async function clearAttempts(key: ThrottleKey) {
+  await resolveStore().delete(storeKey(key));
+}
@@ -0,0 +1,108 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+// Where uploaded files live. `MEDIA_STORAGE_DRIVER` picks the backend; when it
+// is unset, Vercel Blob is used if a token is configured and the local
+// filesystem otherwise. Each stored row remembers its driver, so switching
+// backends does not orphan what was uploaded before.
+
+export type MediaStorageDriverName = "local" | "vercel-blob";
+
+export type MediaStorage = {
+  name: MediaStorageDriverName;
+  /** Stores `body` under `key` and returns the URL it can be fetched from. */
+  put(key: string, body: Buffer, contentType: string): Promise<{ key: string; url: string }>;
+  /** Reads a stored object back; only drivers that are served by the app implement this. */
+  read?(key: string): Promise<Buffer | null>;
+  remove(key: string, url: string): Promise<void>;
+};
+
+const VERCEL_BLOB_API = "https://api.vercel.com/v2/blobs";
+const SAFE_KEY = /^[a-zA-Z0-9][a-zA-Z0-9/_.-]*$/;
+
+export const isSafeMediaKey = (key: string) => SAFE_KEY.test(key) && !key.split("/").includes("..");
+
+function localRoot() {
+  return path.resolve(process.env.MEDIA_LOCAL_DIR || path.join(process.cwd(), ".media"));
+}
+
+function localPath(key: string) {
+  if (!isSafeMediaKey(key)) throw new Error(`Invalid media key: ${key}`);
+  const root = localRoot();
+  const file = path.resolve(root, key);
+  if (!file.startsWith(`${root}${path.sep}`)) throw new Error(`Invalid media key: ${key}`);
+  return file;
+}
+
+const localDiskStorage: MediaStorage = {
+  name: "local",
+  async put(key, body) {
+    const file = localPath(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, body);
+    return { key, url: `/api/media?key=${encodeURIComponent(key)}` };
+  },
+  async read(key) {
+    try {
+      return await readFile(localPath(key));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+  },
+  async remove(key) {
+    await rm(localPath(key), { force: true });
+  },
+};
+
+function blobToken() {
+  const token = process.env.BLOB_READ_WRITE_TOKEN;
+  if (!token) throw new Error("BLOB_READ_WRITE_TOKEN is not set");
+  return token;
+}
+
+const vercelBlobStorage: MediaStorage = {
+  name: "vercel-blob",
+  async put(key, body, contentType) {
+    const res = await fetch(VERCEL_BLOB_API, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${blobToken()}`,
+        "Content-Type": contentType || "application/octet-stream",
+        "x-vercel-filename": key,
+      },
+      body: new Uint8Array(body),
+    });
+    const json = await res.json().catch(() => null);
+    if (!res.ok) {
+      throw new Error(json?.error?.message || `Vercel Blob upload failed with ${res.status}`);
+    }
+    if (!json?.url) throw new Error("Blob URL missing from upload response");
+    return { key: json.pathname || key, url: json.url };
+  },
+  async remove(_key, url) {
+    const res = await fetch(`${VERCEL_BLOB_API}/delete`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${blobToken()}`, "Content-Type": "application/json" },
+      body: JSON.stringify({ urls: [url] }),
+    });
+    if (!res.ok && res.status !== 404) {
+      throw new Error(`Vercel Blob delete failed with ${res.status}`);
+    }
+  },
+};
+
+const DRIVERS: Record<MediaStorageDriverName, MediaStorage> = {
+  local: localDiskStorage,
+  "vercel-blob": vercelBlobStorage,
+};
+
+export function getMediaStorage(name?: string | null): MediaStorage {
+  const requested = name || process.env.MEDIA_STORAGE_DRIVER;
+  if (requested) {
+    const driver = DRIVERS[requested as MediaStorageDriverName];
+    if (!driver) throw new Error(`Unknown media storage driver: ${requested}`);
+    return driver;
+  }
+  return process.env.BLOB_READ_WRITE_TOKEN ? vercelBlobStorage : localDiskStorage;
+}
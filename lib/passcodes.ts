@@ -0,0 +1,136 @@
+import { randomBytes, randomInt, scrypt, timingSafeEqual } from "crypto";
+import { supabaseRequest } from "@/lib/supabase";
+
+const HASH_PREFIX = "scrypt";
+const KEY_LENGTH = 32;
+const RESET_CODE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Unambiguous characters so codes can be read out over the phone.
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+function deriveKey(passcode: string, salt: string) {
+  return new Promise<Buffer>((resolve, reject) => {
+    scrypt(passcode, salt, KEY_LENGTH, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+}
+
+export const isHashedPasscode = (stored: string | null | undefined) =>
+  Boolean(stored?.startsWith(`${HASH_PREFIX}$`));
+
+/** Stored as `scrypt$<salt>$<key>`, both hex. */
+export async function hashPasscode(passcode: string) {
+  const salt = randomBytes(16).toString("hex");
+  const key = await deriveKey(passcode.trim(), salt);
+  return `${HASH_PREFIX}$${salt}$${key.toString("hex")}`;
+}
+
+/**
+ * Checks a passcode against a stored value. Rows that predate hashing still
+ * hold the plain passcode; those compare directly so the caller can upgrade
+ * them (see `isHashedPasscode`).
+ */
+export async function verifyPasscode(stored: string | null | undefined, passcode: string) {
+  const candidate = passcode.trim();
+  if (!stored || !candidate) return false;
+
+  if (!isHashedPasscode(stored)) {
+    const a = Buffer.from(stored);
+    const b = Buffer.from(candidate);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  const [, salt, keyHex] = stored.split("$");
+  if (!salt || !keyHex) return false;
+  const expected = Buffer.from(keyHex, "hex");
+  const actual = await deriveKey(candidate, salt);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+async function loadPlainPasscodes() {
+  const data = await supabaseRequest<{ id: string; passcode: string | null }[]>("users", {
+    query: { select: "id,passcode", passcode: `not.like.${HASH_PREFIX}$*` },
+  });
+  return (data || []).filter(
+    (row): row is { id: string; passcode: string } => Boolean(row.passcode) && !isHashedPasscode(row.passcode)
+  );
+}
+
+/** How many users still have a passcode stored in plain text. */
+export async function countPlainPasscodes() {
+  return (await loadPlainPasscodes()).length;
+}
+
+/**
+ * Hashes every passcode still stored in plain text and returns how many were
+ * upgraded. Each row is only rewritten if it still holds the value read, so a
+ * login or passcode change in between is not overwritten.
+ */
+export async function migratePlainPasscodes() {
+  const plain = await loadPlainPasscodes();
+  for (const row of plain) {
+    await supabaseRequest("users", {
+      method: "PATCH",
+      query: { id: `eq.${row.id}`, passcode: `eq.${row.passcode}` },
+      body: { passcode: await hashPasscode(row.passcode) },
+    });
+  }
+  return plain.length;
+}
+
+export function generateCode(length = 8) {
+  let code = "";
+  for (let i = 0; i < length; i += 1) {
+    code += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+export const normalizeCode = (code: string) => code.replace(/[\s-]+/g, "").toUpperCase();
+
+type ResetCodeRow = { id: string; code_hash: string; expires_at: string };
+
+/** Issues a one-time reset code for a user, replacing any unused ones. */
+export async function createResetCode(userId: string, createdBy: string) {
+  const code = generateCode();
+  const expiresAt = new Date(Date.now() + RESET_CODE_TTL_MS);
+
+  await supabaseRequest("passcode_reset_codes", {
+    method: "DELETE",
+    query: { user_id: `eq.${userId}`, used_at: "is.null" },
+  });
+  await supabaseRequest("passcode_reset_codes", {
+    method: "POST",
+    body: {
+      user_id: userId,
+      code_hash: await hashPasscode(code),
+      expires_at: expiresAt.toISOString(),
+      created_by: createdBy,
+    },
+  });
+
+  return { code, expiresAt };
+}
+
+/** Marks the user's matching unexpired code as used; false when none matches. */
+export async function redeemResetCode(userId: string, code: string) {
+  const rows = await supabaseRequest<ResetCodeRow[]>("passcode_reset_codes", {
+    query: {
+      select: "id,code_hash,expires_at",
+      user_id: `eq.${userId}`,
+      used_at: "is.null",
+      expires_at: `gt.${new Date().toISOString()}`,
+    },
+  });
+
+  for (const row of rows || []) {
+    if (await verifyPasscode(row.code_hash, normalizeCode(code))) {
+      await supabaseRequest("passcode_reset_codes", {
+        method: "PATCH",
+        query: { id: `eq.${row.id}`, used_at: "is.null" },
+        body: { used_at: new Date().toISOString() },
+      });
+      return true;
+    }
+  }
+  return false;
+}
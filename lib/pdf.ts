@@ -0,0 +1,210 @@
+import { deflateSync } from "zlib";
+
+// A small PDF writer for server-side exports: Helvetica text, rectangles and
+// lines on any number of pages. Coordinates are in points from the top-left.
+
+export type PdfRgb = number[];
+
+type TextOptions = { size?: number; bold?: boolean; color?: PdfRgb };
+type RectOptions = { fill?: PdfRgb; stroke?: PdfRgb; lineWidth?: number };
+
+// Standard Helvetica / Helvetica-Bold advance widths for ASCII 32-126.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667,
+  611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+  667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500,
+  222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667,
+  611, 778, 722, 278, 556, 722, 611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+  667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556,
+  278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+};
+
+// Maps text onto WinAnsi bytes; emoji and other symbols outside it are dropped.
+function encodeWinAnsi(text: string) {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0) ?? 63;
+    if (code === 9) bytes.push(32);
+    else if ((code >= 32 && code < 127) || (code >= 160 && code <= 255)) bytes.push(code);
+    else if (WIN_ANSI_EXTRAS[char]) bytes.push(WIN_ANSI_EXTRAS[char]);
+    else if (code < 0x2000) bytes.push(63);
+  }
+  return bytes;
+}
+
+export function textWidth(text: string, size: number, bold = false) {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const units = encodeWinAnsi(text).reduce(
+    (sum, byte) => sum + (byte >= 32 && byte < 127 ? widths[byte - 32] : 556),
+    0
+  );
+  return (units * size) / 1000;
+}
+
+/** Breaks text into lines no wider than maxWidth, splitting long words if needed. */
+export function wrapText(text: string, size: number, maxWidth: number, bold = false) {
+  const lines: string[] = [];
+  text.split("\n").forEach((paragraph) => {
+    let current = "";
+    paragraph.split(/\s+/).filter(Boolean).forEach((word) => {
+      const candidate = current ? `${current} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= maxWidth) {
+        current = candidate;
+        return;
+      }
+      if (current) lines.push(current);
+      current = "";
+      let rest = word;
+      while (textWidth(rest, size, bold) > maxWidth && rest.length > 1) {
+        let cut = rest.length - 1;
+        while (cut > 1 && textWidth(rest.slice(0, cut), size, bold) > maxWidth) cut -= 1;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      current = rest;
+    });
+    lines.push(current);
+  });
+  return lines;
+}
+
+const num = (value: number) => Number(value.toFixed(2)).toString();
+const rgb = (color: PdfRgb) => color.map((c) => num(c / 255)).join(" ");
+
+type PdfPage = { width: number; height: number; ops: string[] };
+
+export class PdfDocument {
+  private pages: PdfPage[] = [];
+  private current: PdfPage | null = null;
+
+  addPage(width = 612, height = 792) {
+    this.current = { width, height, ops: [] };
+    this.pages.push(this.current);
+  }
+
+  get pageWidth() {
+    return this.page().width;
+  }
+
+  get pageHeight() {
+    return this.page().height;
+  }
+
+  private page() {
+    if (!this.current) this.addPage();
+    return this.current as PdfPage;
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: RectOptions = {}) {
+    const page = this.page();
+    const { fill, stroke, lineWidth = 0.5 } = options;
+    if (!fill && !stroke) return;
+    const ops = [`${num(x)} ${num(page.height - y - height)} ${num(width)} ${num(height)} re`];
+    if (fill) ops.unshift(`${rgb(fill)} rg`);
+    if (stroke) ops.unshift(`${rgb(stroke)} RG ${num(lineWidth)} w`);
+    ops.push(fill && stroke ? "B" : fill ? "f" : "S");
+    page.ops.push(ops.join(" "));
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: PdfRgb, lineWidth = 0.5) {
+    const page = this.page();
+    page.ops.push(
+      `${rgb(color)} RG ${num(lineWidth)} w ${num(x1)} ${num(page.height - y1)} m ${num(x2)} ${num(page.height - y2)} l S`
+    );
+  }
+
+  /** Draws one line of text with its baseline at y. */
+  text(x: number, y: number, value: string, options: TextOptions = {}) {
+    const page = this.page();
+    const { size = 10, bold = false, color = [0, 0, 0] } = options;
+    const hex = encodeWinAnsi(value)
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+    if (!hex) return;
+    page.ops.push(
+      `BT ${rgb(color)} rg /${bold ? "F2" : "F1"} ${num(size)} Tf ${num(x)} ${num(page.height - y)} Td <${hex}> Tj ET`
+    );
+  }
+
+  toBuffer() {
+    if (!this.pages.length) this.addPage();
+
+    const objects: Buffer[] = [];
+    const add = (content: Buffer | string) => {
+      objects.push(typeof content === "string" ? Buffer.from(content, "latin1") : content);
+      return objects.length;
+    };
+
+    const catalogId = add("");
+    const pagesId = add("");
+    const fontId = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+    const boldId = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+
+    const pageIds = this.pages.map((page) => {
+      const stream = deflateSync(Buffer.from(page.ops.join("\n"), "latin1"));
+      const contentId = add(
+        Buffer.concat([
+          Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+          stream,
+          Buffer.from("\nendstream", "latin1"),
+        ])
+      );
+      return add(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+          `/Resources << /Font << /F1 ${fontId} 0 R /F2 ${boldId} 0 R >> >> /Contents ${contentId} 0 R >>`
+      );
+    });
+
+    objects[catalogId - 1] = Buffer.from(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`, "latin1");
+    objects[pagesId - 1] = Buffer.from(
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`,
+      "latin1"
+    );
+
+    const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+    let offset = chunks[0].length;
+    const offsets = objects.map((body, idx) => {
+      const chunk = Buffer.concat([
+        Buffer.from(`${idx + 1} 0 obj\n`, "latin1"),
+        body,
+        Buffer.from("\nendobj\n", "latin1"),
+      ]);
+      chunks.push(chunk);
+      const start = offset;
+      offset += chunk.length;
+      return start;
+    });
+
+    const xref = [
+      "xref",
+      `0 ${objects.length + 1}`,
+      "0000000000 65535 f ",
+      ...offsets.map((value) => `${String(value).padStart(10, "0")} 00000 n `),
+      "trailer",
+      `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>`,
+      "startxref",
+      String(offset),
+      "%%EOF",
+    ].join("\n");
+    chunks.push(Buffer.from(`${xref}\n`, "latin1"));
+
+    return Buffer.concat(chunks);
+  }
+}
@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server";
+import { runWithAuditActor } from "@/lib/audit";
+import { getCurrentUser, type SessionUser } from "@/lib/auth";
+import { supabaseRequest } from "@/lib/supabase";
+
+export const PERMISSIONS = [
+  { key: "schedule.edit", label: "Edit staging schedules, templates, and availability" },
+  { key: "schedule.publish", label: "Publish schedules and approve shift swaps" },
+  { key: "tasks.edit", label: "Create, edit, and delete tasks and task types" },
+  { key: "users.manage", label: "Manage users, roles, and permissions" },
+  { key: "audit.manage", label: "Browse the audit trail and restore previous values" },
+  { key: "system.manage", label: "Apply the database schema and use the admin assistant" },
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number]["key"];
+
+export type AuthorizedUser = SessionUser & { permissions: Permission[] };
+
+// Admins always hold every permission so the matrix can never lock them out.
+export const SUPERUSER_ROLE = "Admin";
+
+const PERMISSION_KEYS = PERMISSIONS.map((permission) => permission.key) as Permission[];
+
+export const isPermission = (value: unknown): value is Permission =>
+  PERMISSION_KEYS.includes(value as Permission);
+
+export async function loadRolePermissions(roleId: string | null, roleName: string | null) {
+  if (roleName === SUPERUSER_ROLE) return [...PERMISSION_KEYS];
+  if (!roleId) return [];
+
+  const data = await supabaseRequest<{ permission: string }[]>("role_permissions", {
+    query: { select: "permission", role_id: `eq.${roleId}` },
+  });
+  return (data || []).map((row) => row.permission).filter(isPermission);
+}
+
+export const can = (user: Pick<AuthorizedUser, "permissions"> | null, permission: Permission) =>
+  Boolean(user?.permissions.includes(permission));
+
+type GuardedHandler = (req: Request, user: AuthorizedUser) => Response | Promise<Response>;
+
+type GuardOptions = { allowPendingPasscodeChange?: boolean; allowReadOnlyImpersonation?: boolean };
+
+const READ_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+/** Writes made while viewing as someone else are attributed to the admin doing it. */
+export const auditActorFor = (user: SessionUser) =>
+  user.impersonator
+    ? { id: user.impersonator.id, name: `${user.impersonator.name} (as ${user.name})` }
+    : { id: user.id, name: user.name };
+
+/**
+ * Wraps a route handler so it only runs for a signed-in user holding
+ * `permission` (any signed-in user when null). Responds 401 without a valid
+ * session and 403 when the role lacks the permission or the user still has to
+ * replace a temporary passcode. While an admin is viewing as another user the
+ * handler runs as that user, and writes are refused unless the admin started
+ * the session with changes allowed. Writes made by the handler are attributed
+ * in the audit trail.
+ */
+export function withAuth(
+  permission: Permission | null,
+  handler: GuardedHandler,
+  options: GuardOptions = {}
+) {
+  return async (req: Request) => {
+    let user: AuthorizedUser | null = null;
+    try {
+      const session = await getCurrentUser();
+      if (session) {
+        user = {
+          ...session,
+          permissions: await loadRolePermissions(session.roleId, session.userType),
+        };
+      }
+    } catch (err) {
+      console.error("Failed to resolve session:", err);
+      return NextResponse.json({ error: "Unable to verify session" }, { status: 500 });
+    }
+
+    if (!user) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+    if (user.mustChangePasscode && !options.allowPendingPasscodeChange) {
+      return NextResponse.json({ error: "Choose a new passcode to continue" }, { status: 403 });
+    }
+    if (
+      user.impersonator &&
+      !user.impersonator.writable &&
+      !READ_METHODS.has(req.method) &&
+      !options.allowReadOnlyImpersonation
+    ) {
+      return NextResponse.json(
+        { error: `Viewing as ${user.name} is read-only` },
+        { status: 403 }
+      );
+    }
+    if (permission && !can(user, permission)) {
+      return NextResponse.json({ error: "You do not have permission to do that" }, { status: 403 });
+    }
+    const authorized = user;
+    return runWithAuditActor(auditActorFor(user), () => handler(req, authorized));
+  };
+}
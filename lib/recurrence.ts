@@ -0,0 +1,219 @@
+// RRULE-style recurrence for tasks. Rules are stored as plain columns on the
+// series root and its occurrences; dates are ISO "YYYY-MM-DD" strings in UTC.
+
+export const RECURRENCE_UNITS = ["day", "week", "month", "year"] as const;
+export type RecurrenceUnit = (typeof RECURRENCE_UNITS)[number];
+
+export const WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: "Mon",
+  TU: "Tue",
+  WE: "Wed",
+  TH: "Thu",
+  FR: "Fri",
+  SA: "Sat",
+  SU: "Sun",
+};
+
+export const SETPOS_OPTIONS = [
+  { value: 1, label: "first" },
+  { value: 2, label: "second" },
+  { value: 3, label: "third" },
+  { value: 4, label: "fourth" },
+  { value: -1, label: "last" },
+];
+
+export type RecurrenceRule = {
+  interval: number;
+  unit: RecurrenceUnit;
+  weekdays: Weekday[];
+  setpos: number | null;
+  until: string | null;
+  count: number | null;
+  exdates: string[];
+};
+
+export type RecurrenceColumns = {
+  recurrence_interval: number | null;
+  recurrence_unit: string | null;
+  recurrence_weekdays: string[] | null;
+  recurrence_setpos: number | null;
+  recurrence_until: string | null;
+  recurrence_count: number | null;
+  recurrence_exdates: string[] | null;
+};
+
+export const RECURRENCE_COLUMNS: (keyof RecurrenceColumns)[] = [
+  "recurrence_interval",
+  "recurrence_unit",
+  "recurrence_weekdays",
+  "recurrence_setpos",
+  "recurrence_until",
+  "recurrence_count",
+  "recurrence_exdates",
+];
+
+// Upper bounds so an open-ended rule or a very old series cannot run away.
+const MAX_OCCURRENCES = 730;
+const MAX_PERIODS = 40_000;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const JS_DAY: Record<Weekday, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+
+const isWeekday = (value: unknown): value is Weekday => WEEKDAYS.includes(value as Weekday);
+const isUnit = (value: unknown): value is RecurrenceUnit =>
+  RECURRENCE_UNITS.includes(value as RecurrenceUnit);
+
+const toDate = (iso: string) => new Date(`${iso}T00:00:00Z`);
+const toIso = (date: Date) => date.toISOString().slice(0, 10);
+
+export function addDays(iso: string, days: number) {
+  const date = toDate(iso);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toIso(date);
+}
+
+export const weekdayOf = (iso: string) =>
+  WEEKDAYS.find((day) => JS_DAY[day] === toDate(iso).getUTCDay()) as Weekday;
+
+function dayInMonth(year: number, month: number, day: number) {
+  const date = new Date(Date.UTC(year, month, day));
+  return date.getUTCMonth() === ((month % 12) + 12) % 12 ? toIso(date) : null;
+}
+
+function nthWeekdayOfMonth(year: number, month: number, weekday: Weekday, setpos: number) {
+  const first = new Date(Date.UTC(year, month, 1));
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const offset = (JS_DAY[weekday] - first.getUTCDay() + 7) % 7;
+  const matches: number[] = [];
+  for (let day = 1 + offset; day <= daysInMonth; day += 7) matches.push(day);
+  const day = setpos > 0 ? matches[setpos - 1] : matches[matches.length + setpos];
+  return day ? toIso(new Date(Date.UTC(year, month, day))) : null;
+}
+
+/** Builds a rule from task columns, or null when the columns do not describe one. */
+export function ruleFromColumns(row: Partial<RecurrenceColumns>): RecurrenceRule | null {
+  if (!isUnit(row.recurrence_unit)) return null;
+  const interval = Number(row.recurrence_interval || 1);
+  return {
+    interval: interval > 0 ? Math.floor(interval) : 1,
+    unit: row.recurrence_unit,
+    weekdays: (row.recurrence_weekdays || []).filter(isWeekday),
+    setpos: row.recurrence_setpos ?? null,
+    until: row.recurrence_until || null,
+    count: row.recurrence_count ?? null,
+    exdates: row.recurrence_exdates || [],
+  };
+}
+
+/** Returns an error message when the columns do not form a valid rule. */
+export function validateRecurrence(row: Partial<RecurrenceColumns>): string | null {
+  if (!isUnit(row.recurrence_unit)) return "Recurrence unit must be day, week, month, or year";
+  const interval = Number(row.recurrence_interval ?? 1);
+  if (!Number.isInteger(interval) || interval < 1) return "Repeat interval must be a whole number of at least 1";
+  const weekdays = row.recurrence_weekdays || [];
+  if (!weekdays.every(isWeekday)) return "Unknown weekday in recurrence";
+  if (row.recurrence_setpos != null) {
+    if (row.recurrence_unit !== "month") return "Nth-weekday rules only apply to monthly recurrence";
+    if (!SETPOS_OPTIONS.some((option) => option.value === row.recurrence_setpos)) {
+      return "Nth weekday must be first, second, third, fourth, or last";
+    }
+    if (weekdays.length !== 1) return "Pick exactly one weekday for an nth-weekday rule";
+  }
+  if (row.recurrence_count != null && (!Number.isInteger(row.recurrence_count) || row.recurrence_count < 1)) {
+    return "Occurrence count must be at least 1";
+  }
+  if (row.recurrence_until && !ISO_DATE.test(row.recurrence_until)) return "Invalid end date";
+  if (!(row.recurrence_exdates || []).every((date) => ISO_DATE.test(date))) return "Invalid skipped date";
+  return null;
+}
+
+/**
+ * Dates the rule produces for a series starting on `start`, honouring UNTIL,
+ * COUNT and exception dates. As in RFC 5545, COUNT includes exception dates.
+ * `window` limits the result to dates from `from` through `to` (inclusive)
+ * without changing which dates the series produces.
+ */
+export function expandRecurrence(
+  start: string,
+  rule: RecurrenceRule,
+  window: { from?: string; to?: string } = {}
+): string[] {
+  const exdates = new Set(rule.exdates);
+  const dates: string[] = [];
+  let produced = 0;
+
+  // Returns false once the rule (or the window) is exhausted.
+  const emit = (date: string | null) => {
+    if (!date || date < start) return true;
+    if (rule.until && date > rule.until) return false;
+    if (window.to && date > window.to) return false;
+    if (rule.count != null && produced >= rule.count) return false;
+    produced += 1;
+    if (!exdates.has(date) && (!window.from || date >= window.from)) dates.push(date);
+    return dates.length < MAX_OCCURRENCES;
+  };
+
+  const origin = toDate(start);
+  const weekdays = rule.weekdays.length ? rule.weekdays : [weekdayOf(start)];
+
+  for (let period = 0; period < MAX_PERIODS; period += 1) {
+    const step = period * rule.interval;
+    if (rule.unit === "day") {
+      if (!emit(addDays(start, step))) break;
+    } else if (rule.unit === "week") {
+      const weekStart = addDays(start, -((origin.getUTCDay() + 6) % 7) + step * 7);
+      const days = WEEKDAYS.filter((day) => weekdays.includes(day));
+      if (!days.every((day) => emit(addDays(weekStart, WEEKDAYS.indexOf(day))))) break;
+    } else if (rule.unit === "month") {
+      const year = origin.getUTCFullYear();
+      const month = origin.getUTCMonth() + step;
+      const date =
+        rule.setpos != null
+          ? nthWeekdayOfMonth(year, month, weekdays[0], rule.setpos)
+          : dayInMonth(year, month, origin.getUTCDate());
+      if (!emit(date)) break;
+    } else {
+      const date = dayInMonth(origin.getUTCFullYear() + step, origin.getUTCMonth(), origin.getUTCDate());
+      if (!emit(date)) break;
+    }
+  }
+  return dates;
+}
+
+export function toRRule(rule: RecurrenceRule) {
+  const freq = { day: "DAILY", week: "WEEKLY", month: "MONTHLY", year: "YEARLY" }[rule.unit];
+  const parts = [`FREQ=${freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.unit === "week" && rule.weekdays.length) parts.push(`BYDAY=${rule.weekdays.join(",")}`);
+  if (rule.unit === "month" && rule.setpos != null && rule.weekdays.length) {
+    parts.push(`BYDAY=${rule.setpos}${rule.weekdays[0]}`);
+  }
+  if (rule.count != null) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  return parts.join(";");
+}
+
+export function describeRecurrence(rule: RecurrenceRule, start?: string | null) {
+  const every = rule.interval > 1 ? `Every ${rule.interval} ${rule.unit}s` : `Every ${rule.unit}`;
+  let text = every;
+  if (rule.unit === "week") {
+    const days = rule.weekdays.length ? rule.weekdays : start ? [weekdayOf(start)] : [];
+    if (days.length) {
+      text += ` on ${WEEKDAYS.filter((day) => days.includes(day)).map((day) => WEEKDAY_LABELS[day]).join(", ")}`;
+    }
+  } else if (rule.unit === "month" && rule.setpos != null && rule.weekdays.length) {
+    const position = SETPOS_OPTIONS.find((option) => option.value === rule.setpos)?.label;
+    text += ` on the ${position} ${WEEKDAY_LABELS[rule.weekdays[0]]}`;
+  } else if (rule.unit === "month" && start) {
+    text += ` on day ${toDate(start).getUTCDate()}`;
+  }
+  if (rule.count != null) text += `, ${rule.count} times`;
+  if (rule.until) text += `, until ${rule.until}`;
+  if (rule.exdates.length) {
+    text += `, skipping ${rule.exdates.length} date${rule.exdates.length === 1 ? "" : "s"}`;
+  }
+  return text;
+}
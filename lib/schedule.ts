@@ -0,0 +1,792 @@
+import { loadAvailabilityOn } from "@/lib/availability";
+import { supabaseRequest } from "@/lib/supabase";
+import { validateSchedule } from "@/lib/scheduleValidation";
+import { loadPrerequisites } from "@/lib/taskDependencies";
+import { loadTaskOccurrences, seriesIdOf } from "@/lib/tasks";
+
+export type ScheduleVariant = "live" | "staging";
+
+export type ScheduleSlot = {
+  id: string;
+  label: string;
+  timeRange: string;
+  isMeal: boolean;
+};
+
+export type ScheduleResponse = {
+  people: string[];
+  slots: ScheduleSlot[];
+  cells: string[][];
+  reportFlags: boolean[];
+  scheduleDate: string | null;
+  reportTime: string | null;
+  taskResetTime: string | null;
+  message?: string;
+};
+
+export type ScheduleDayRow = {
+  id: string;
+  schedule_date: string;
+  variant: ScheduleVariant;
+  report_time: string | null;
+  task_reset_time: string | null;
+};
+
+type ScheduleSlotRow = {
+  id: string;
+  slot_key: string;
+  label: string;
+  time_range: string | null;
+  is_meal: boolean;
+  position: number;
+};
+
+type SchedulePersonRow = {
+  id: string;
+  display_name: string;
+  user_id: string | null;
+  position: number;
+  report_submitted: boolean;
+};
+
+type ScheduleCellRow = {
+  person_id: string;
+  slot_id: string;
+  value: string;
+};
+
+const DAY_SELECT = "id,schedule_date,variant,report_time,task_reset_time";
+
+export const HAWAII_TIME_ZONE = "Pacific/Honolulu";
+
+export const DEFAULT_SCHEDULE_SLOTS: Omit<ScheduleSlot, "id">[] = [
+  { label: "Breakfast", timeRange: "7:00am - 8:00am", isMeal: true },
+  { label: "Morning Shift", timeRange: "8:00am - 12:00pm", isMeal: false },
+  { label: "Lunch", timeRange: "12:00pm - 1:00pm", isMeal: true },
+  { label: "Afternoon Shift", timeRange: "1:00pm - 4:00pm", isMeal: false },
+  { label: "Dinner", timeRange: "6:00pm - 7:00pm", isMeal: true },
+  { label: "Evening Shift", timeRange: "7:00pm - 9:00pm", isMeal: false },
+];
+
+export function emptyScheduleResponse(message?: string): ScheduleResponse {
+  return {
+    people: [],
+    slots: [],
+    cells: [],
+    reportFlags: [],
+    scheduleDate: null,
+    reportTime: null,
+    taskResetTime: null,
+    ...(message ? { message } : {}),
+  };
+}
+
+// Schedule dates travel as "MM/DD/YYYY" labels in the UI and as ISO dates in the database.
+export function parseDateLabel(label?: string | null): string | null {
+  const value = (label || "").trim();
+  if (!value) return null;
+
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) return value;
+
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (!us) return null;
+  const [, month, day, year] = us;
+  return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+}
+
+export function formatDateLabel(isoDate: string): string {
+  const [year, month, day] = isoDate.slice(0, 10).split("-");
+  return `${month}/${day}/${year}`;
+}
+
+export function getHawaiiDate(now = new Date()): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: HAWAII_TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(now);
+}
+
+/**
+ * Timestamp bounds covering whole farm days from `from` through `to`
+ * (inclusive), for filtering timestamptz columns. Hawaii has no DST.
+ */
+export function hawaiiDayBounds(from?: string | null, to?: string | null) {
+  const end = to ? new Date(`${to}T00:00:00Z`) : null;
+  end?.setUTCDate(end.getUTCDate() + 1);
+  return {
+    from: from ? `${from}T00:00:00-10:00` : undefined,
+    to: end ? `${end.toISOString().slice(0, 10)}T00:00:00-10:00` : undefined,
+  };
+}
+
+export function slugifySlotKey(label: string): string {
+  return (
+    label
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "slot"
+  );
+}
+
+function uniqueSlotKeys(labels: string[]): string[] {
+  const seen = new Map<string, number>();
+  return labels.map((label) => {
+    const base = slugifySlotKey(label);
+    const count = seen.get(base) || 0;
+    seen.set(base, count + 1);
+    return count ? `${base}-${count + 1}` : base;
+  });
+}
+
+export async function findScheduleDay(date: string, variant: ScheduleVariant) {
+  const data = await supabaseRequest<ScheduleDayRow[]>("schedule_days", {
+    query: {
+      select: DAY_SELECT,
+      schedule_date: `eq.${date}`,
+      variant: `eq.${variant}`,
+      limit: 1,
+    },
+  });
+  return data?.[0] ?? null;
+}
+
+export async function findCurrentLiveDay(today = getHawaiiDate()) {
+  const data = await supabaseRequest<ScheduleDayRow[]>("schedule_days", {
+    query: {
+      select: DAY_SELECT,
+      variant: "eq.live",
+      schedule_date: `lte.${today}`,
+      order: "schedule_date.desc",
+      limit: 1,
+    },
+  });
+  return data?.[0] ?? null;
+}
+
+export async function listScheduleDays() {
+  const data = await supabaseRequest<ScheduleDayRow[]>("schedule_days", {
+    query: { select: DAY_SELECT, order: "schedule_date.asc" },
+  });
+  return data || [];
+}
+
+export async function listLiveDaysFrom(date: string) {
+  const data = await supabaseRequest<ScheduleDayRow[]>("schedule_days", {
+    query: {
+      select: DAY_SELECT,
+      variant: "eq.live",
+      schedule_date: `gte.${date}`,
+      order: "schedule_date.asc",
+    },
+  });
+  return data || [];
+}
+
+async function loadDayRows(dayId: string) {
+  const [slots, people, cells] = await Promise.all([
+    supabaseRequest<ScheduleSlotRow[]>("schedule_slots", {
+      query: {
+        select: "id,slot_key,label,time_range,is_meal,position",
+        schedule_day_id: `eq.${dayId}`,
+        order: "position.asc",
+      },
+    }),
+    supabaseRequest<SchedulePersonRow[]>("schedule_people", {
+      query: {
+        select: "id,display_name,user_id,position,report_submitted",
+        schedule_day_id: `eq.${dayId}`,
+        order: "position.asc",
+      },
+    }),
+    supabaseRequest<ScheduleCellRow[]>("schedule_cells", {
+      query: { select: "person_id,slot_id,value", schedule_day_id: `eq.${dayId}` },
+    }),
+  ]);
+
+  return { slots: slots || [], people: people || [], cells: cells || [] };
+}
+
+export async function loadScheduleGrid(day: ScheduleDayRow): Promise<ScheduleResponse> {
+  const { slots, people, cells } = await loadDayRows(day.id);
+
+  const cellLookup = new Map<string, string>();
+  cells.forEach((cell) => cellLookup.set(`${cell.person_id}:${cell.slot_id}`, cell.value || ""));
+
+  return {
+    people: people.map((person) => person.display_name),
+    slots: slots.map((slot) => ({
+      id: slot.slot_key,
+      label: slot.label,
+      timeRange: slot.time_range || "",
+      isMeal: Boolean(slot.is_meal),
+    })),
+    cells: people.map((person) =>
+      slots.map((slot) => cellLookup.get(`${person.id}:${slot.id}`) || "")
+    ),
+    reportFlags: people.map((person) => Boolean(person.report_submitted)),
+    scheduleDate: formatDateLabel(day.schedule_date),
+    reportTime: day.report_time,
+    taskResetTime: day.task_reset_time,
+  };
+}
+
+export async function createScheduleDay(
+  date: string,
+  variant: ScheduleVariant,
+  settings: { reportTime?: string | null; taskResetTime?: string | null } = {}
+) {
+  const [day] = await supabaseRequest<ScheduleDayRow[]>("schedule_days", {
+    method: "POST",
+    prefer: "return=representation",
+    query: { select: DAY_SELECT },
+    body: {
+      schedule_date: date,
+      variant,
+      report_time: settings.reportTime ?? null,
+      task_reset_time: settings.taskResetTime ?? null,
+    },
+  });
+  return day;
+}
+
+/**
+ * Replaces the slots, people, and cells of `target` with the given grid. Report
+ * flags are kept for people who stay on the grid so republishing does not reset
+ * end-of-shift reports that were already submitted.
+ */
+export async function writeScheduleGrid(
+  target: ScheduleDayRow,
+  grid: Pick<ScheduleResponse, "people" | "slots" | "cells"> & { reportFlags?: boolean[] },
+  opts: { keepReports?: boolean } = {}
+) {
+  const previousReports = new Set<string>();
+  if (opts.keepReports) {
+    const existing = await supabaseRequest<SchedulePersonRow[]>("schedule_people", {
+      query: {
+        select: "display_name,report_submitted",
+        schedule_day_id: `eq.${target.id}`,
+        report_submitted: "eq.true",
+      },
+    });
+    (existing || []).forEach((row) => previousReports.add(row.display_name));
+  }
+
+  await Promise.all([
+    supabaseRequest("schedule_slots", {
+      method: "DELETE",
+      query: { schedule_day_id: `eq.${target.id}` },
+    }),
+    supabaseRequest("schedule_people", {
+      method: "DELETE",
+      query: { schedule_day_id: `eq.${target.id}` },
+    }),
+  ]);
+
+  if (!grid.slots.length && !grid.people.length) return;
+
+  const userIds = await resolveUserIds(grid.people);
+
+  const [slotRows, personRows] = await Promise.all([
+    grid.slots.length
+      ? supabaseRequest<ScheduleSlotRow[]>("schedule_slots", {
+          method: "POST",
+          prefer: "return=representation",
+          query: { select: "id,slot_key" },
+          body: grid.slots.map((slot, idx) => ({
+            schedule_day_id: target.id,
+            slot_key: slot.id,
+            label: slot.label,
+            time_range: slot.timeRange || null,
+            is_meal: Boolean(slot.isMeal),
+            position: idx,
+          })),
+        })
+      : Promise.resolve([] as ScheduleSlotRow[]),
+    grid.people.length
+      ? supabaseRequest<SchedulePersonRow[]>("schedule_people", {
+          method: "POST",
+          prefer: "return=representation",
+          query: { select: "id,display_name" },
+          body: grid.people.map((name, idx) => ({
+            schedule_day_id: target.id,
+            display_name: name,
+            user_id: userIds.get(name.toLowerCase()) ?? null,
+            position: idx,
+            report_submitted: opts.keepReports
+              ? previousReports.has(name)
+              : Boolean(grid.reportFlags?.[idx]),
+          })),
+        })
+      : Promise.resolve([] as SchedulePersonRow[]),
+  ]);
+
+  const slotIds = new Map((slotRows || []).map((row) => [row.slot_key, row.id]));
+  const personIds = new Map((personRows || []).map((row) => [row.display_name, row.id]));
+
+  const cells: Record<string, unknown>[] = [];
+  grid.people.forEach((name, rowIdx) => {
+    grid.slots.forEach((slot, colIdx) => {
+      const value = grid.cells[rowIdx]?.[colIdx] || "";
+      const personId = personIds.get(name);
+      const slotId = slotIds.get(slot.id);
+      if (!value.trim() || !personId || !slotId) return;
+      cells.push({
+        schedule_day_id: target.id,
+        person_id: personId,
+        slot_id: slotId,
+        value,
+      });
+    });
+  });
+
+  if (cells.length) {
+    await supabaseRequest("schedule_cells", {
+      method: "POST",
+      prefer: "return=minimal",
+      body: cells,
+    });
+  }
+}
+
+export function buildSlotsFromLabels(
+  slots: Omit<ScheduleSlot, "id">[]
+): ScheduleSlot[] {
+  const keys = uniqueSlotKeys(slots.map((slot) => slot.label));
+  return slots.map((slot, idx) => ({ ...slot, id: keys[idx] }));
+}
+
+async function resolveUserIds(names: string[]) {
+  const lookup = new Map<string, string>();
+  if (!names.length) return lookup;
+  const data = await supabaseRequest<{ id: string; display_name: string }[]>("users", {
+    query: { select: "id,display_name" },
+  });
+  (data || []).forEach((user) => {
+    lookup.set(user.display_name.toLowerCase(), user.id);
+  });
+  return lookup;
+}
+
+async function findPersonRow(dayId: string, person: string) {
+  const data = await supabaseRequest<SchedulePersonRow[]>("schedule_people", {
+    query: {
+      select: "id,display_name,user_id,position,report_submitted",
+      schedule_day_id: `eq.${dayId}`,
+      display_name: `eq.${person}`,
+      limit: 1,
+    },
+  });
+  return data?.[0] ?? null;
+}
+
+export async function updateScheduleCell(
+  day: ScheduleDayRow,
+  person: string,
+  slotKey: string,
+  value: string
+) {
+  const [personRow, slotData] = await Promise.all([
+    findPersonRow(day.id, person),
+    supabaseRequest<ScheduleSlotRow[]>("schedule_slots", {
+      query: {
+        select: "id",
+        schedule_day_id: `eq.${day.id}`,
+        slot_key: `eq.${slotKey}`,
+        limit: 1,
+      },
+    }),
+  ]);
+  const slotRow = slotData?.[0];
+  if (!personRow || !slotRow) {
+    return false;
+  }
+
+  await supabaseRequest("schedule_cells", {
+    method: "POST",
+    prefer: "resolution=merge-duplicates,return=minimal",
+    query: { on_conflict: "person_id,slot_id" },
+    body: {
+      schedule_day_id: day.id,
+      person_id: personRow.id,
+      slot_id: slotRow.id,
+      value,
+      updated_at: new Date().toISOString(),
+    },
+  });
+  return true;
+}
+
+export async function setReportFlag(day: ScheduleDayRow, person: string, value: boolean) {
+  const personRow = await findPersonRow(day.id, person);
+  if (!personRow) return false;
+  await supabaseRequest("schedule_people", {
+    method: "PATCH",
+    query: { id: `eq.${personRow.id}` },
+    body: { report_submitted: value },
+  });
+  return true;
+}
+
+export async function addPersonRows(day: ScheduleDayRow, names: string[]) {
+  if (!names.length) return 0;
+  const existing = await supabaseRequest<SchedulePersonRow[]>("schedule_people", {
+    query: {
+      select: "display_name,position",
+      schedule_day_id: `eq.${day.id}`,
+      order: "position.desc",
+    },
+  });
+  const taken = new Set((existing || []).map((row) => row.display_name.toLowerCase()));
+  const fresh = Array.from(new Set(names.map((name) => name.trim()).filter(Boolean))).filter(
+    (name) => !taken.has(name.toLowerCase())
+  );
+  if (!fresh.length) return 0;
+
+  const userIds = await resolveUserIds(fresh);
+  const startPosition = (existing?.[0]?.position ?? -1) + 1;
+  await supabaseRequest("schedule_people", {
+    method: "POST",
+    prefer: "return=minimal",
+    body: fresh.map((name, idx) => ({
+      schedule_day_id: day.id,
+      display_name: name,
+      user_id: userIds.get(name.toLowerCase()) ?? null,
+      position: startPosition + idx,
+    })),
+  });
+  return fresh.length;
+}
+
+export async function removePersonRows(day: ScheduleDayRow, names: string[]) {
+  if (!names.length) return 0;
+  const quoted = names.map((name) => `"${name.replace(/"/g, '\\"')}"`).join(",");
+  await supabaseRequest("schedule_people", {
+    method: "DELETE",
+    query: { schedule_day_id: `eq.${day.id}`, display_name: `in.(${quoted})` },
+  });
+  return names.length;
+}
+
+/**
+ * Resolves the staging day for a date, creating it from the live day (or the
+ * most recent earlier schedule) when it does not exist yet.
+ */
+export async function ensureStagingDay(date: string) {
+  const existing = await findScheduleDay(date, "staging");
+  if (existing) return { day: existing, created: false };
+
+  const live = await findScheduleDay(date, "live");
+  const template = live ?? (await findLatestDayBefore(date));
+  const staging = await createScheduleDay(date, "staging", {
+    reportTime: template?.report_time,
+    taskResetTime: template?.task_reset_time,
+  });
+
+  if (live) {
+    const grid = await loadPublishedGrid(live);
+    await writeScheduleGrid(staging, { ...grid, reportFlags: [] });
+  } else if (template) {
+    const grid = await loadScheduleGrid(template);
+    await writeScheduleGrid(staging, {
+      people: grid.people,
+      slots: grid.slots,
+      cells: grid.people.map(() => grid.slots.map(() => "")),
+    });
+  } else {
+    const slots = buildSlotsFromLabels(DEFAULT_SCHEDULE_SLOTS);
+    await writeScheduleGrid(staging, { people: [], slots, cells: [] });
+  }
+
+  return { day: staging, created: true };
+}
+
+async function findLatestDayBefore(date: string) {
+  const data = await supabaseRequest<ScheduleDayRow[]>("schedule_days", {
+    query: {
+      select: DAY_SELECT,
+      schedule_date: `lt.${date}`,
+      order: "schedule_date.desc,variant.desc",
+      limit: 1,
+    },
+  });
+  return data?.[0] ?? null;
+}
+
+/**
+ * Resolves which day a request targets: an explicit date (staging or live) or,
+ * without a date, the live schedule volunteers currently see on /hub.
+ */
+export async function resolveScheduleDay(opts: { dateLabel?: string | null; staging?: boolean }) {
+  const date = parseDateLabel(opts.dateLabel);
+  if (!date) {
+    return opts.staging ? null : findCurrentLiveDay();
+  }
+  return findScheduleDay(date, opts.staging ? "staging" : "live");
+}
+
+export const SCHEDULED_ROLES = ["Volunteer", "External Volunteer"];
+
+export type SchedulableUser = {
+  id: string;
+  name: string;
+  userType: string;
+  active: boolean;
+  capabilities: string[];
+  likes: string[];
+  dislikes: string[];
+};
+
+export async function loadSchedulableUsers() {
+  const data = await supabaseRequest<
+    {
+      id: string;
+      display_name: string;
+      active: boolean;
+      capabilities: string[] | null;
+      likes: string[] | null;
+      dislikes: string[] | null;
+      user_role: { name: string } | null;
+    }[]
+  >("users", {
+    query: {
+      select: "id,display_name,active,capabilities,likes,dislikes,user_role:user_roles(name)",
+      order: "display_name.asc",
+    },
+  });
+
+  return (data || []).map<SchedulableUser>((user) => ({
+    id: user.id,
+    name: user.display_name,
+    userType: user.user_role?.name ?? "",
+    active: Boolean(user.active),
+    capabilities: user.capabilities || [],
+    likes: user.likes || [],
+    dislikes: user.dislikes || [],
+  }));
+}
+
+export function isScheduledUser(user: SchedulableUser) {
+  return user.active && SCHEDULED_ROLES.includes(user.userType);
+}
+
+export type ScheduleSnapshot = Pick<ScheduleResponse, "people" | "slots" | "cells">;
+
+export type ScheduleVersionRow = {
+  id: string;
+  schedule_date: string;
+  version: number;
+  snapshot: ScheduleSnapshot;
+  published_by: string | null;
+  published_at: string;
+};
+
+export async function findLatestVersion(date: string) {
+  const data = await supabaseRequest<ScheduleVersionRow[]>("schedule_versions", {
+    query: {
+      select: "id,schedule_date,version,snapshot,published_by,published_at",
+      schedule_date: `eq.${date}`,
+      order: "version.desc",
+      limit: 1,
+    },
+  });
+  return data?.[0] ?? null;
+}
+
+export async function listVersions(date: string) {
+  const data = await supabaseRequest<Omit<ScheduleVersionRow, "snapshot">[]>(
+    "schedule_versions",
+    {
+      query: {
+        select: "id,schedule_date,version,published_by,published_at",
+        schedule_date: `eq.${date}`,
+        order: "version.desc",
+      },
+    }
+  );
+  return data || [];
+}
+
+async function insertVersion(date: string, snapshot: ScheduleSnapshot, publishedBy?: string | null) {
+  const latest = await findLatestVersion(date);
+  const [version] = await supabaseRequest<ScheduleVersionRow[]>("schedule_versions", {
+    method: "POST",
+    prefer: "return=representation",
+    query: { select: "id,schedule_date,version,published_by,published_at" },
+    body: {
+      schedule_date: date,
+      version: (latest?.version ?? 0) + 1,
+      snapshot,
+      published_by: publishedBy || null,
+    },
+  });
+  return version;
+}
+
+/**
+ * Freezes the staging grid as the next immutable version and mirrors it onto the
+ * live day, which only carries the snapshot plus report flags.
+ */
+export async function publishStagingDay(staging: ScheduleDayRow, publishedBy?: string | null) {
+  const grid = await loadScheduleGrid(staging);
+  const snapshot: ScheduleSnapshot = {
+    people: grid.people,
+    slots: grid.slots,
+    cells: grid.cells,
+  };
+
+  const version = await insertVersion(staging.schedule_date, snapshot, publishedBy);
+
+  const live =
+    (await findScheduleDay(staging.schedule_date, "live")) ??
+    (await createScheduleDay(staging.schedule_date, "live", {
+      reportTime: staging.report_time,
+      taskResetTime: staging.task_reset_time,
+    }));
+  await writeScheduleGrid(live, snapshot, { keepReports: true });
+
+  return { live, version };
+}
+
+/**
+ * Reads what volunteers see for a live day: the latest published snapshot with
+ * report flags taken from the live rows. Days published before versioning fall
+ * back to the live rows themselves.
+ */
+export async function loadPublishedGrid(live: ScheduleDayRow): Promise<ScheduleResponse> {
+  const [version, rows] = await Promise.all([
+    findLatestVersion(live.schedule_date),
+    loadScheduleGrid(live),
+  ]);
+  if (!version) return rows;
+
+  const reported = new Set(rows.people.filter((_, idx) => rows.reportFlags[idx]));
+  return {
+    ...rows,
+    people: version.snapshot.people,
+    slots: version.snapshot.slots,
+    cells: version.snapshot.cells,
+    reportFlags: version.snapshot.people.map((person) => reported.has(person)),
+  };
+}
+
+export type CellEdit = { person: string; slotKey: string; value: string };
+
+/**
+ * Changes cells of an already published day without going through staging, as
+ * for an approved shift swap. The edits become a new version, and are copied
+ * onto the staging grid too so the next publish does not undo them.
+ */
+export async function applyPublishedCellEdits(
+  live: ScheduleDayRow,
+  edits: CellEdit[],
+  publishedBy?: string | null
+) {
+  const grid = await loadPublishedGrid(live);
+  const snapshot: ScheduleSnapshot = {
+    people: grid.people,
+    slots: grid.slots,
+    cells: grid.cells.map((row) => [...row]),
+  };
+
+  for (const edit of edits) {
+    const rowIdx = snapshot.people.indexOf(edit.person);
+    const colIdx = snapshot.slots.findIndex((slot) => slot.id === edit.slotKey);
+    if (rowIdx === -1 || colIdx === -1) return null;
+    snapshot.cells[rowIdx][colIdx] = edit.value;
+  }
+
+  const version = await insertVersion(live.schedule_date, snapshot, publishedBy);
+  const staging = await findScheduleDay(live.schedule_date, "staging");
+  for (const edit of edits) {
+    await updateScheduleCell(live, edit.person, edit.slotKey, edit.value);
+    if (staging) await updateScheduleCell(staging, edit.person, edit.slotKey, edit.value);
+  }
+
+  return version;
+}
+
+export function isActiveUser(user: SchedulableUser) {
+  return user.active && user.userType !== "Inactive Volunteer";
+}
+
+/**
+ * Runs the conflict and coverage checks for a day against that day's task
+ * occurrences, the current user roster, and approved availability.
+ */
+export async function validateScheduleDay(day: ScheduleDayRow, grid?: ScheduleResponse) {
+  const [schedule, tasks, users, availability] = await Promise.all([
+    grid ? Promise.resolve(grid) : loadScheduleGrid(day),
+    loadTaskOccurrences(day.schedule_date, day.schedule_date),
+    loadSchedulableUsers(),
+    loadAvailabilityOn(day.schedule_date),
+  ]);
+
+  const prerequisites = await loadPrerequisites(tasks.map(seriesIdOf));
+
+  return validateSchedule({
+    schedule,
+    date: day.schedule_date,
+    tasks: tasks.map((task) => ({
+      ...task,
+      prerequisites: (prerequisites.get(seriesIdOf(task)) || []).map((prerequisite) => prerequisite.name),
+    })),
+    users: users.map((user) => {
+      const available = availability.get(user.id);
+      return {
+        name: user.name,
+        active: isActiveUser(user),
+        away: available?.away ? available.reason || "away" : null,
+        busy: available?.busy,
+      };
+    }),
+  });
+}
+
+export const TEMPLATE_KINDS = ["weekday", "weekend", "holiday"] as const;
+export type TemplateKind = (typeof TEMPLATE_KINDS)[number];
+
+export type ScheduleTemplateRow = {
+  id: string;
+  name: string;
+  kind: TemplateKind;
+  grid: ScheduleSnapshot;
+  updated_at: string;
+};
+
+export async function listTemplates() {
+  const data = await supabaseRequest<ScheduleTemplateRow[]>("schedule_templates", {
+    query: { select: "id,name,kind,grid,updated_at", order: "name.asc" },
+  });
+  return data || [];
+}
+
+export async function findTemplate(id: string) {
+  const data = await supabaseRequest<ScheduleTemplateRow[]>("schedule_templates", {
+    query: { select: "id,name,kind,grid,updated_at", id: `eq.${id}`, limit: 1 },
+  });
+  return data?.[0] ?? null;
+}
+
+/**
+ * Loads the grid a new staging day should start from: a saved template or
+ * another date's schedule (published if available, otherwise its staging copy).
+ */
+export async function loadScheduleSource(source: {
+  templateId?: string | null;
+  copyFromDate?: string | null;
+}): Promise<ScheduleSnapshot | null> {
+  if (source.templateId) {
+    const template = await findTemplate(source.templateId);
+    return template?.grid ?? null;
+  }
+
+  const date = parseDateLabel(source.copyFromDate);
+  if (!date) return null;
+  const live = await findScheduleDay(date, "live");
+  if (live) return loadPublishedGrid(live);
+  const staging = await findScheduleDay(date, "staging");
+  return staging ? loadScheduleGrid(staging) : null;
+}
@@ -0,0 +1,149 @@
+import {
+  findScheduleDay,
+  formatDateLabel,
+  loadPublishedGrid,
+  type ScheduleResponse,
+  type ScheduleSlot,
+} from "@/lib/schedule";
+import { computeGroupNamesForSlotTask, parseCell } from "@/lib/scheduleCells";
+import { loadTasksByName, type TaskReferenceRow } from "@/lib/tasks";
+
+export type BoardTask = { name: string; typeName: string; typeColor: string };
+
+export type BoardCell = { tasks: BoardTask[]; note: string };
+
+export type BoardGuide = { title: string; url: string };
+
+export type ScheduleBoard = {
+  date: string;
+  dateLabel: string;
+  reportTime: string | null;
+  workSlots: ScheduleSlot[];
+  meals: { slot: ScheduleSlot; assignments: { task: BoardTask; people: string[] }[] }[];
+  rows: { person: string; cells: BoardCell[] }[];
+  volunteers: {
+    person: string;
+    shifts: { slot: ScheduleSlot; tasks: BoardTask[]; note: string; coworkers: string[] }[];
+    guides: BoardGuide[];
+  }[];
+};
+
+const GUIDE_PATH = /\/hub\/guides\/how-to\/([^/?#]+)/;
+
+// Guides have no title store of their own yet, so the title comes from the
+// readable part of the link slug.
+export function guideFromLink(link: string): BoardGuide | null {
+  const match = link.match(GUIDE_PATH);
+  if (!match) return null;
+  const slug = decodeURIComponent(match[1]);
+  const readable = slug
+    .replace(/-?[0-9a-f]{32}$/i, "")
+    .replace(/[-_]+/g, " ")
+    .trim();
+  const title = readable ? readable.charAt(0).toUpperCase() + readable.slice(1) : "How-to guide";
+  return { title, url: link };
+}
+
+export function buildScheduleBoard(
+  grid: ScheduleResponse,
+  date: string,
+  taskInfo: Map<string, TaskReferenceRow>
+): ScheduleBoard {
+  const toTask = (name: string): BoardTask => {
+    const info = taskInfo.get(name);
+    return {
+      name,
+      typeName: info?.task_type?.name || "",
+      typeColor: info?.task_type?.color || "default",
+    };
+  };
+
+  const contents = grid.people.map((_, rowIdx) =>
+    grid.slots.map((__, colIdx) => parseCell(grid.cells[rowIdx]?.[colIdx] || ""))
+  );
+  const workCols = grid.slots
+    .map((slot, colIdx) => (slot.isMeal ? -1 : colIdx))
+    .filter((idx) => idx >= 0);
+
+  const meals = grid.slots
+    .map((slot, colIdx) => {
+      const byTask = new Map<string, string[]>();
+      if (slot.isMeal) {
+        grid.people.forEach((person, rowIdx) => {
+          contents[rowIdx][colIdx].tasks.forEach((task) => {
+            if (!byTask.has(task)) byTask.set(task, []);
+            byTask.get(task)?.push(person);
+          });
+        });
+      }
+      return {
+        slot,
+        assignments: Array.from(byTask.entries()).map(([task, people]) => ({
+          task: toTask(task),
+          people,
+        })),
+      };
+    })
+    .filter((meal) => meal.slot.isMeal && meal.assignments.length);
+
+  const rows = grid.people.map((person, rowIdx) => ({
+    person,
+    cells: workCols.map((colIdx) => ({
+      tasks: contents[rowIdx][colIdx].tasks.map(toTask),
+      note: contents[rowIdx][colIdx].note,
+    })),
+  }));
+
+  const volunteers = grid.people.map((person, rowIdx) => {
+    const shifts = grid.slots
+      .map((slot, colIdx) => {
+        const content = contents[rowIdx][colIdx];
+        const coworkers = new Set<string>();
+        content.tasks.forEach((task) =>
+          computeGroupNamesForSlotTask(grid, slot.id, task).forEach((name) => {
+            if (name !== person) coworkers.add(name);
+          })
+        );
+        return {
+          slot,
+          tasks: content.tasks.map(toTask),
+          note: content.note,
+          coworkers: Array.from(coworkers),
+        };
+      })
+      .filter((shift) => shift.tasks.length || shift.note);
+
+    const guides = new Map<string, BoardGuide>();
+    shifts.forEach((shift) =>
+      shift.tasks.forEach((task) =>
+        (taskInfo.get(task.name)?.links || []).forEach((link) => {
+          const guide = guideFromLink(link.trim());
+          if (guide && !guides.has(guide.url)) guides.set(guide.url, guide);
+        })
+      )
+    );
+
+    return { person, shifts, guides: Array.from(guides.values()) };
+  });
+
+  return {
+    date,
+    dateLabel: formatDateLabel(date),
+    reportTime: grid.reportTime,
+    workSlots: workCols.map((colIdx) => grid.slots[colIdx]),
+    meals,
+    rows,
+    volunteers,
+  };
+}
+
+/** Loads the published board for a date, or null when nothing is published. */
+export async function loadScheduleBoard(date: string) {
+  const live = await findScheduleDay(date, "live");
+  if (!live) return null;
+
+  const grid = await loadPublishedGrid(live);
+  const names = grid.cells.flatMap((row) => row.flatMap((cell) => parseCell(cell).tasks));
+  const taskInfo = await loadTasksByName(names);
+  return buildScheduleBoard(grid, date, taskInfo);
+}
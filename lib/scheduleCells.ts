@@ -0,0 +1,51 @@
+// Cells store "Task A, Task B" on the first line and an optional free-text note below it.
+
+export type CellContent = { tasks: string[]; note: string };
+
+export function parseCell(value: string): CellContent {
+  if (!value?.trim()) return { tasks: [], note: "" };
+  const [firstLine, ...rest] = value.split("\n");
+  const note = rest.join("\n").trim();
+  const tasks = firstLine
+    .split(",")
+    .map((t) => t.trim())
+    .filter((t) => Boolean(t) && t !== "-");
+  return { tasks, note };
+}
+
+export function serializeCell(content: CellContent): string {
+  const line = content.tasks.join(", ").trim();
+  const note = content.note.trim();
+  const parts = [] as string[];
+  if (line) parts.push(line);
+  if (note) parts.push(note);
+  return parts.join("\n");
+}
+
+export function taskBaseName(task: string): string {
+  return task.split("\n")[0].trim();
+}
+
+type CellGrid = { people: string[]; slots: { id: string }[]; cells: string[][] };
+
+export function computeGroupNamesForSlotTask(
+  schedule: CellGrid,
+  slotId: string,
+  taskFullText: string
+): string[] {
+  const slotIdx = schedule.slots.findIndex((s) => s.id === slotId);
+  if (slotIdx === -1) return [];
+
+  const base = taskBaseName(taskFullText || "");
+  if (!base) return [];
+
+  const names: string[] = [];
+
+  schedule.people.forEach((person, rowIdx) => {
+    const cell = schedule.cells[rowIdx]?.[slotIdx] ?? "";
+    if (parseCell(cell).tasks.includes(base)) names.push(person);
+  });
+
+  // de-dupe, preserve order
+  return Array.from(new Set(names));
+}
@@ -0,0 +1,169 @@
+import {
+  buildSlotsFromLabels,
+  DEFAULT_SCHEDULE_SLOTS,
+  type ScheduleSlot,
+  type ScheduleSnapshot,
+} from "@/lib/schedule";
+import { parseCell, serializeCell } from "@/lib/scheduleCells";
+
+// Layout: a "Person" header row of slot labels, then "Time" and "Meal" rows
+// describing the slots, then one row per person. Cells use the editor format
+// (comma-separated tasks, note on the following lines).
+
+const PERSON_HEADER = "Person";
+const TIME_ROW = "Time";
+const MEAL_ROW = "Meal";
+
+function escapeField(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function scheduleToCsv(grid: ScheduleSnapshot) {
+  const rows = [
+    [PERSON_HEADER, ...grid.slots.map((slot) => slot.label)],
+    [TIME_ROW, ...grid.slots.map((slot) => slot.timeRange || "")],
+    [MEAL_ROW, ...grid.slots.map((slot) => (slot.isMeal ? "yes" : ""))],
+    ...grid.people.map((person, rowIdx) => [
+      person,
+      ...grid.slots.map((_, colIdx) => grid.cells[rowIdx]?.[colIdx] || ""),
+    ]),
+  ];
+  return rows.map((row) => row.map(escapeField).join(",")).join("\r\n") + "\r\n";
+}
+
+/** RFC 4180 parsing: quoted fields may contain commas, quotes ("") and newlines. */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+const MEAL_LABEL = /breakfast|lunch|dinner/i;
+
+export type ParsedScheduleCsv =
+  | { grid: ScheduleSnapshot; error: null }
+  | { grid: null; error: string };
+
+export function parseScheduleCsv(text: string): ParsedScheduleCsv {
+  const fail = (error: string): ParsedScheduleCsv => ({ grid: null, error });
+  const rows = parseCsvRows(text);
+  const header = rows.shift();
+  if (!header || header.length < 2) {
+    return fail("The file needs a header row with a column per slot.");
+  }
+
+  const labels = header.slice(1).map((label) => label.trim());
+  if (labels.some((label) => !label)) {
+    return fail("Every slot column needs a label in the header row.");
+  }
+
+  const takeMetaRow = (name: string) => {
+    if (rows[0]?.[0]?.trim().toLowerCase() !== name.toLowerCase()) return null;
+    return (rows.shift() as string[]).slice(1).map((value) => value.trim());
+  };
+  const times = takeMetaRow(TIME_ROW);
+  const meals = takeMetaRow(MEAL_ROW);
+
+  const slots: ScheduleSlot[] = buildSlotsFromLabels(
+    labels.map((label, idx) => {
+      const fallback = DEFAULT_SCHEDULE_SLOTS.find(
+        (slot) => slot.label.toLowerCase() === label.toLowerCase()
+      );
+      return {
+        label,
+        timeRange: times ? times[idx] || "" : fallback?.timeRange || "",
+        isMeal: meals ? /^(y|yes|true|1|x)$/i.test(meals[idx] || "") : MEAL_LABEL.test(label),
+      };
+    })
+  );
+
+  const people: string[] = [];
+  const cells: string[][] = [];
+  for (const [idx, row] of rows.entries()) {
+    const person = (row[0] || "").trim();
+    if (!person) return fail(`Person row ${idx + 1} has no name.`);
+    if (people.some((existing) => existing.toLowerCase() === person.toLowerCase())) {
+      return fail(`${person} appears more than once.`);
+    }
+    people.push(person);
+    cells.push(slots.map((_, colIdx) => serializeCell(parseCell(row[colIdx + 1] || ""))));
+  }
+
+  return { grid: { people, slots, cells }, error: null };
+}
+
+/**
+ * Swaps imported people and task names for their catalog spelling and lists
+ * the names that match nothing, so an import can be checked before publishing.
+ */
+export function reconcileScheduleNames(
+  grid: ScheduleSnapshot,
+  knownPeople: string[],
+  knownTasks: string[]
+) {
+  const peopleLookup = new Map(knownPeople.map((name) => [name.toLowerCase(), name]));
+  const taskLookup = new Map(knownTasks.map((name) => [name.toLowerCase(), name]));
+  const unknownPeople: string[] = [];
+  const unknownTasks = new Set<string>();
+
+  const people = grid.people.map((person) => {
+    const match = peopleLookup.get(person.toLowerCase());
+    if (!match) unknownPeople.push(person);
+    return match || person;
+  });
+
+  const cells = grid.cells.map((row) =>
+    row.map((cell) => {
+      const content = parseCell(cell);
+      const tasks = content.tasks.map((task) => {
+        const match = taskLookup.get(task.toLowerCase());
+        if (!match) unknownTasks.add(task);
+        return match || task;
+      });
+      return serializeCell({ tasks, note: content.note });
+    })
+  );
+
+  return {
+    grid: { ...grid, people, cells },
+    unknownPeople,
+    unknownTasks: Array.from(unknownTasks).sort((a, b) => a.localeCompare(b)),
+  };
+}
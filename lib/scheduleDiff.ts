@@ -0,0 +1,125 @@
+import { parseCell } from "@/lib/scheduleCells";
+
+type DiffGrid = {
+  people: string[];
+  slots: { id: string; label: string }[];
+  cells: string[][];
+};
+
+export type ScheduleCellRef = { person: string; slotId: string; slotLabel: string };
+
+export type ScheduleChange =
+  | ({ type: "added"; task: string } & ScheduleCellRef)
+  | ({ type: "removed"; task: string } & ScheduleCellRef)
+  | ({ type: "moved"; task: string; from: ScheduleCellRef } & ScheduleCellRef)
+  | ({ type: "note"; before: string; after: string } & ScheduleCellRef);
+
+export type ScheduleDiff = {
+  changes: ScheduleChange[];
+  peopleAdded: string[];
+  peopleRemoved: string[];
+  slotsAdded: string[];
+  slotsRemoved: string[];
+};
+
+type Assignment = ScheduleCellRef & { task: string };
+
+function collect(grid: DiffGrid | null) {
+  const assignments: Assignment[] = [];
+  const notes = new Map<string, string>();
+  if (!grid) return { assignments, notes };
+
+  grid.people.forEach((person, rowIdx) => {
+    grid.slots.forEach((slot, colIdx) => {
+      const content = parseCell(grid.cells[rowIdx]?.[colIdx] || "");
+      content.tasks.forEach((task) => {
+        assignments.push({ person, slotId: slot.id, slotLabel: slot.label, task });
+      });
+      if (content.note) notes.set(`${person}::${slot.id}`, content.note);
+    });
+  });
+
+  return { assignments, notes };
+}
+
+const assignmentKey = (a: Assignment) => `${a.person}::${a.slotId}::${a.task.toLowerCase()}`;
+
+/**
+ * Compares a draft grid against the published one. A task that disappears from
+ * one cell and appears in another is reported once as "moved" rather than as a
+ * removal plus an addition.
+ */
+export function diffSchedules(published: DiffGrid | null, draft: DiffGrid): ScheduleDiff {
+  const before = collect(published);
+  const after = collect(draft);
+
+  const beforeKeys = new Map(before.assignments.map((a) => [assignmentKey(a), a]));
+  const afterKeys = new Map(after.assignments.map((a) => [assignmentKey(a), a]));
+
+  const removed = before.assignments.filter((a) => !afterKeys.has(assignmentKey(a)));
+  const added = after.assignments.filter((a) => !beforeKeys.has(assignmentKey(a)));
+
+  const changes: ScheduleChange[] = [];
+  const unmatchedRemoved = [...removed];
+
+  added.forEach((entry) => {
+    const taskKey = entry.task.toLowerCase();
+    const samePerson = unmatchedRemoved.findIndex(
+      (r) => r.task.toLowerCase() === taskKey && r.person === entry.person
+    );
+    const matchIdx =
+      samePerson >= 0
+        ? samePerson
+        : unmatchedRemoved.findIndex(
+            (r) => r.task.toLowerCase() === taskKey && r.slotId === entry.slotId
+          );
+
+    if (matchIdx >= 0) {
+      const [source] = unmatchedRemoved.splice(matchIdx, 1);
+      changes.push({
+        type: "moved",
+        task: entry.task,
+        person: entry.person,
+        slotId: entry.slotId,
+        slotLabel: entry.slotLabel,
+        from: { person: source.person, slotId: source.slotId, slotLabel: source.slotLabel },
+      });
+      return;
+    }
+
+    changes.push({ type: "added", ...entry });
+  });
+
+  unmatchedRemoved.forEach((entry) => changes.push({ type: "removed", ...entry }));
+
+  const slotLabels = new Map(draft.slots.map((slot) => [slot.id, slot.label]));
+  const noteKeys = new Set([...before.notes.keys(), ...after.notes.keys()]);
+  noteKeys.forEach((key) => {
+    const previous = before.notes.get(key) || "";
+    const next = after.notes.get(key) || "";
+    if (previous === next) return;
+    const [person, slotId] = key.split("::");
+    changes.push({
+      type: "note",
+      person,
+      slotId,
+      slotLabel: slotLabels.get(slotId) || slotId,
+      before: previous,
+      after: next,
+    });
+  });
+
+  const beforePeople = new Set(published?.people || []);
+  const afterPeople = new Set(draft.people);
+  const beforeSlots = new Map((published?.slots || []).map((slot) => [slot.id, slot.label]));
+
+  return {
+    changes,
+    peopleAdded: draft.people.filter((person) => !beforePeople.has(person)),
+    peopleRemoved: (published?.people || []).filter((person) => !afterPeople.has(person)),
+    slotsAdded: draft.slots.filter((slot) => !beforeSlots.has(slot.id)).map((slot) => slot.label),
+    slotsRemoved: (published?.slots || [])
+      .filter((slot) => !slotLabels.has(slot.id))
+      .map((slot) => slot.label),
+  };
+}
@@ -0,0 +1,44 @@
+// Shared look of task type colours and meal slots for the hub board, the print
+// view and the PDF export.
+
+const TYPE_COLOR_CLASSES: Record<string, string> = {
+  default: "bg-[#f7f7ef] border-[#e3e6d2] text-[#3f4630]",
+  gray: "bg-slate-50 border-slate-200 text-slate-800",
+  brown: "bg-amber-50 border-amber-200 text-amber-900",
+  orange: "bg-orange-50 border-orange-200 text-orange-900",
+  yellow: "bg-amber-100 border-amber-200 text-amber-900",
+  green: "bg-green-50 border-green-200 text-green-900",
+  blue: "bg-sky-50 border-sky-200 text-sky-900",
+  purple: "bg-violet-50 border-violet-200 text-violet-900",
+  pink: "bg-pink-50 border-pink-200 text-pink-900",
+  red: "bg-rose-50 border-rose-200 text-rose-900",
+};
+
+export function typeColorClasses(color?: string) {
+  return TYPE_COLOR_CLASSES[color || "default"] || TYPE_COLOR_CLASSES.default;
+}
+
+// The same palette as RGB (0-255) fill / border / text triples for the PDF export.
+const TYPE_COLOR_RGB: Record<string, { fill: number[]; border: number[]; text: number[] }> = {
+  default: { fill: [247, 247, 239], border: [227, 230, 210], text: [63, 70, 48] },
+  gray: { fill: [248, 250, 252], border: [226, 232, 240], text: [30, 41, 59] },
+  brown: { fill: [255, 251, 235], border: [253, 230, 138], text: [120, 53, 15] },
+  orange: { fill: [255, 247, 237], border: [254, 215, 170], text: [124, 45, 18] },
+  yellow: { fill: [254, 243, 199], border: [253, 230, 138], text: [120, 53, 15] },
+  green: { fill: [240, 253, 244], border: [187, 247, 208], text: [20, 83, 45] },
+  blue: { fill: [240, 249, 255], border: [186, 230, 253], text: [12, 74, 110] },
+  purple: { fill: [245, 243, 255], border: [221, 214, 254], text: [76, 29, 149] },
+  pink: { fill: [253, 242, 248], border: [251, 207, 232], text: [131, 24, 67] },
+  red: { fill: [255, 241, 242], border: [254, 205, 211], text: [136, 19, 55] },
+};
+
+export function typeColorRgb(color?: string) {
+  return TYPE_COLOR_RGB[color || "default"] || TYPE_COLOR_RGB.default;
+}
+
+export function getMealIcon(label: string): string {
+  if (/breakfast/i.test(label)) return "🥚";
+  if (/lunch/i.test(label)) return "🍱";
+  if (/dinner/i.test(label)) return "🍽️";
+  return "🍽️";
+}
@@ -0,0 +1,186 @@
+import { serializeCell } from "@/lib/scheduleCells";
+
+export type GeneratorSlot = { id: string; label: string; isMeal: boolean };
+
+export type GeneratorVolunteer = {
+  name: string;
+  capabilities: string[];
+  likes: string[];
+  dislikes: string[];
+};
+
+export type GeneratorTask = {
+  name: string;
+  typeName?: string | null;
+  timeSlots: string[];
+  personCount: number;
+  requiredCapabilities: string[];
+};
+
+export type UnfilledTask = {
+  task: string;
+  slotLabel: string | null;
+  needed: number;
+  assigned: number;
+  reason: string;
+};
+
+export type GeneratedSchedule = {
+  cells: string[][];
+  assignments: number;
+  unfilled: UnfilledTask[];
+};
+
+const LIKE_BONUS = 3;
+const DISLIKE_PENALTY = 8;
+const LOAD_PENALTY = 2;
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+function matchesAny(list: string[], task: GeneratorTask) {
+  const names = [task.name, task.typeName || ""].map(normalize).filter(Boolean);
+  return list.some((entry) => names.includes(normalize(entry)));
+}
+
+function canPerform(volunteer: GeneratorVolunteer, task: GeneratorTask) {
+  if (!task.requiredCapabilities.length) return true;
+  const owned = new Set(volunteer.capabilities.map(normalize));
+  return task.requiredCapabilities.every((cap) => owned.has(normalize(cap)));
+}
+
+// A task's time_slots may name a slot by label ("Morning Shift"), a prefix of it
+// ("Morning"), or its key. Tasks with no time slots can go in any work slot.
+function matchSlots(task: GeneratorTask, slots: GeneratorSlot[]) {
+  const workSlots = slots.filter((slot) => !slot.isMeal);
+  if (!task.timeSlots.length) return { slots: workSlots, flexible: true };
+  const wanted = task.timeSlots.map(normalize);
+  const matched = slots.filter((slot) => {
+    const label = normalize(slot.label);
+    const key = normalize(slot.id);
+    return wanted.some((entry) => entry === key || entry === label || label.startsWith(entry));
+  });
+  return { slots: matched, flexible: false };
+}
+
+/**
+ * Greedy assignment: the most constrained tasks are placed first, and each seat
+ * goes to the eligible volunteer with the best preference score after
+ * subtracting their current workload. A volunteer takes at most one task per
+ * slot; disliked tasks are only used when nobody else can cover the seat.
+ */
+export function generateSchedule(input: {
+  people: string[];
+  slots: GeneratorSlot[];
+  volunteers: GeneratorVolunteer[];
+  tasks: GeneratorTask[];
+}): GeneratedSchedule {
+  const { people, slots, volunteers, tasks } = input;
+  const volunteerByName = new Map(volunteers.map((v) => [normalize(v.name), v]));
+  const slotIndex = new Map(slots.map((slot, idx) => [slot.id, idx]));
+
+  const grid: string[][][] = people.map(() => slots.map(() => [] as string[]));
+  const load = new Map<string, number>();
+  const unfilled: UnfilledTask[] = [];
+  let assignments = 0;
+
+  const candidates = people
+    .map((name, row) => ({ name, row, profile: volunteerByName.get(normalize(name)) }))
+    .filter((entry) => entry.profile);
+
+  const isFree = (row: number, slotId: string) => {
+    const col = slotIndex.get(slotId);
+    return col !== undefined && grid[row][col].length === 0;
+  };
+
+  const plans = tasks
+    .map((task) => {
+      const { slots: taskSlots, flexible } = matchSlots(task, slots);
+      const eligible = candidates.filter((c) => canPerform(c.profile as GeneratorVolunteer, task));
+      return { task, taskSlots, flexible, eligible };
+    })
+    .sort((a, b) => a.eligible.length - b.eligible.length);
+
+  const score = (entry: (typeof candidates)[number], task: GeneratorTask) => {
+    const profile = entry.profile as GeneratorVolunteer;
+    let value = -(load.get(entry.name) || 0) * LOAD_PENALTY;
+    if (matchesAny(profile.likes, task)) value += LIKE_BONUS;
+    if (matchesAny(profile.dislikes, task)) value -= DISLIKE_PENALTY;
+    return value;
+  };
+
+  const fillSlot = (
+    plan: (typeof plans)[number],
+    slot: GeneratorSlot,
+    needed: number
+  ) => {
+    const col = slotIndex.get(slot.id) as number;
+    const ranked = plan.eligible
+      .filter((entry) => isFree(entry.row, slot.id))
+      .sort((a, b) => score(b, plan.task) - score(a, plan.task));
+    const chosen = ranked.slice(0, needed);
+    chosen.forEach((entry) => {
+      grid[entry.row][col].push(plan.task.name);
+      load.set(entry.name, (load.get(entry.name) || 0) + 1);
+      assignments += 1;
+    });
+    return chosen.length;
+  };
+
+  plans.forEach((plan) => {
+    const needed = Math.max(1, plan.task.personCount || 1);
+
+    if (!plan.taskSlots.length) {
+      unfilled.push({
+        task: plan.task.name,
+        slotLabel: null,
+        needed,
+        assigned: 0,
+        reason: "No matching time slot on this schedule",
+      });
+      return;
+    }
+
+    if (!plan.eligible.length) {
+      unfilled.push({
+        task: plan.task.name,
+        slotLabel: null,
+        needed,
+        assigned: 0,
+        reason: plan.task.requiredCapabilities.length
+          ? `Nobody has ${plan.task.requiredCapabilities.join(", ")}`
+          : "No volunteers on the schedule",
+      });
+      return;
+    }
+
+    // Flexible tasks run once, in whichever work slot has the most free eligible people.
+    const targetSlots = plan.flexible
+      ? [
+          [...plan.taskSlots].sort(
+            (a, b) =>
+              plan.eligible.filter((e) => isFree(e.row, b.id)).length -
+              plan.eligible.filter((e) => isFree(e.row, a.id)).length
+          )[0],
+        ]
+      : plan.taskSlots;
+
+    targetSlots.forEach((slot) => {
+      const assigned = fillSlot(plan, slot, needed);
+      if (assigned < needed) {
+        unfilled.push({
+          task: plan.task.name,
+          slotLabel: slot.label,
+          needed,
+          assigned,
+          reason: "Not enough free volunteers",
+        });
+      }
+    });
+  });
+
+  return {
+    cells: grid.map((row) => row.map((tasksInCell) => serializeCell({ tasks: tasksInCell, note: "" }))),
+    assignments,
+    unfilled,
+  };
+}
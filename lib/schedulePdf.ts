@@ -0,0 +1,226 @@
+import { PdfDocument, textWidth, wrapText, type PdfRgb } from "@/lib/pdf";
+import type { BoardCell, ScheduleBoard } from "@/lib/scheduleBoard";
+import { typeColorRgb } from "@/lib/scheduleDisplay";
+
+export type BoardPdfMode = "board" | "volunteers";
+
+const MARGIN = 36;
+const INK: PdfRgb = [49, 65, 35];
+const MUTED: PdfRgb = [122, 127, 84];
+const RULE: PdfRgb = [208, 201, 164];
+const HEADER_FILL: PdfRgb = [241, 237, 216];
+const MEAL_FILL: PdfRgb = [245, 240, 205];
+const MEAL_BORDER: PdfRgb = [239, 228, 177];
+
+const TASK_SIZE = 8;
+const NOTE_SIZE = 7;
+const LINE = 10;
+const CELL_PAD = 4;
+
+function cellLines(cell: BoardCell, width: number) {
+  const tasks = cell.tasks.map((task) => ({
+    task,
+    lines: wrapText(task.name, TASK_SIZE, width - 6, true),
+  }));
+  const note = cell.note ? wrapText(cell.note, NOTE_SIZE, width) : [];
+  return { tasks, note };
+}
+
+function cellHeight(cell: BoardCell, width: number) {
+  const { tasks, note } = cellLines(cell, width);
+  const taskLines = tasks.reduce((sum, entry) => sum + entry.lines.length, 0);
+  return taskLines * LINE + tasks.length * 3 + note.length * (LINE - 1) + CELL_PAD * 2;
+}
+
+function drawTitle(pdf: PdfDocument, board: ScheduleBoard, subtitle: string) {
+  pdf.text(MARGIN, MARGIN + 14, `Wai & Aina schedule — ${board.dateLabel}`, {
+    size: 16,
+    bold: true,
+    color: INK,
+  });
+  pdf.text(MARGIN, MARGIN + 28, subtitle, { size: 9, color: MUTED });
+  return MARGIN + 40;
+}
+
+function drawMeals(pdf: PdfDocument, board: ScheduleBoard, top: number) {
+  if (!board.meals.length) return top;
+  const gap = 8;
+  const width = (pdf.pageWidth - MARGIN * 2 - gap * (board.meals.length - 1)) / board.meals.length;
+
+  const blocks = board.meals.map((meal) => ({
+    meal,
+    lines: meal.assignments.flatMap((assignment) =>
+      wrapText(`${assignment.task.name}: ${assignment.people.join(", ")}`, TASK_SIZE, width - 12)
+    ),
+  }));
+  const height = Math.max(...blocks.map((block) => block.lines.length)) * LINE + 26;
+
+  blocks.forEach((block, idx) => {
+    const x = MARGIN + idx * (width + gap);
+    pdf.rect(x, top, width, height, { fill: MEAL_FILL, stroke: MEAL_BORDER });
+    pdf.text(x + 6, top + 12, block.meal.slot.label, { size: 9, bold: true, color: [93, 127, 59] });
+    if (block.meal.slot.timeRange) {
+      pdf.text(
+        x + 10 + textWidth(block.meal.slot.label, 9, true),
+        top + 12,
+        block.meal.slot.timeRange,
+        { size: 7, color: [155, 142, 78] }
+      );
+    }
+    block.lines.forEach((line, lineIdx) => {
+      pdf.text(x + 6, top + 24 + lineIdx * LINE, line, { size: TASK_SIZE, color: [91, 90, 58] });
+    });
+  });
+
+  return top + height + 10;
+}
+
+function drawCell(pdf: PdfDocument, cell: BoardCell, x: number, y: number, width: number) {
+  const { tasks, note } = cellLines(cell, width - CELL_PAD * 2);
+  let cursor = y + CELL_PAD;
+  tasks.forEach(({ task, lines }) => {
+    const colors = typeColorRgb(task.typeColor);
+    const height = lines.length * LINE + 1;
+    pdf.rect(x + CELL_PAD, cursor, width - CELL_PAD * 2, height, {
+      fill: colors.fill,
+      stroke: colors.border,
+    });
+    lines.forEach((line, idx) => {
+      pdf.text(x + CELL_PAD + 3, cursor + 8 + idx * LINE, line, {
+        size: TASK_SIZE,
+        bold: true,
+        color: colors.text,
+      });
+    });
+    cursor += height + 2;
+  });
+  note.forEach((line, idx) => {
+    pdf.text(x + CELL_PAD, cursor + 7 + idx * (LINE - 1), line, { size: NOTE_SIZE, color: MUTED });
+  });
+}
+
+function renderBoard(pdf: PdfDocument, board: ScheduleBoard) {
+  pdf.addPage(792, 612);
+  const subtitle = board.reportTime ? `Reports due ${board.reportTime}` : "Published schedule";
+  let top = drawMeals(pdf, board, drawTitle(pdf, board, subtitle));
+
+  const nameWidth = 110;
+  const columns = Math.max(board.workSlots.length, 1);
+  const colWidth = (pdf.pageWidth - MARGIN * 2 - nameWidth) / columns;
+  const bottom = pdf.pageHeight - MARGIN;
+
+  const drawHeader = () => {
+    pdf.rect(MARGIN, top, pdf.pageWidth - MARGIN * 2, 26, { fill: HEADER_FILL, stroke: RULE });
+    pdf.text(MARGIN + 6, top + 16, "Volunteer", { size: 9, bold: true, color: INK });
+    board.workSlots.forEach((slot, idx) => {
+      const x = MARGIN + nameWidth + idx * colWidth;
+      pdf.text(x + CELL_PAD, top + 11, slot.label, { size: 9, bold: true, color: INK });
+      if (slot.timeRange) pdf.text(x + CELL_PAD, top + 21, slot.timeRange, { size: 7, color: MUTED });
+    });
+    top += 26;
+  };
+
+  drawHeader();
+  board.rows.forEach((row) => {
+    const height = Math.max(
+      22,
+      ...row.cells.map((cell) => cellHeight(cell, colWidth - CELL_PAD * 2))
+    );
+    if (top + height > bottom) {
+      pdf.addPage(792, 612);
+      top = drawTitle(pdf, board, "Continued");
+      drawHeader();
+    }
+    pdf.rect(MARGIN, top, pdf.pageWidth - MARGIN * 2, height, { stroke: RULE });
+    pdf.text(MARGIN + 6, top + 14, row.person, { size: 9, bold: true, color: INK });
+    row.cells.forEach((cell, idx) => {
+      const x = MARGIN + nameWidth + idx * colWidth;
+      pdf.line(x, top, x, top + height, RULE);
+      drawCell(pdf, cell, x, top, colWidth);
+    });
+    top += height;
+  });
+
+  if (!board.rows.length) {
+    pdf.text(MARGIN, top + 16, "Nobody is on this schedule.", { size: 9, color: MUTED });
+  }
+}
+
+function renderVolunteers(pdf: PdfDocument, board: ScheduleBoard) {
+  const volunteers = board.volunteers.filter((volunteer) => volunteer.shifts.length);
+  if (!volunteers.length) {
+    pdf.addPage();
+    drawTitle(pdf, board, "No assignments on this schedule.");
+    return;
+  }
+
+  volunteers.forEach((volunteer) => {
+    pdf.addPage();
+    const width = pdf.pageWidth - MARGIN * 2;
+    const bottom = pdf.pageHeight - MARGIN;
+    let top = drawTitle(pdf, board, board.reportTime ? `Reports due ${board.reportTime}` : "");
+    pdf.text(MARGIN, top + 10, volunteer.person, { size: 20, bold: true, color: INK });
+    top += 26;
+
+    const ensureSpace = (needed: number) => {
+      if (top + needed <= bottom) return;
+      pdf.addPage();
+      top = drawTitle(pdf, board, `${volunteer.person} (continued)`);
+    };
+
+    volunteer.shifts.forEach((shift) => {
+      const detail = [
+        ...(shift.coworkers.length ? [`With ${shift.coworkers.join(", ")}`] : []),
+        ...(shift.note ? [`Note: ${shift.note}`] : []),
+      ].flatMap((line) => wrapText(line, 9, width - 16));
+      ensureSpace(28 + shift.tasks.length * 16 + detail.length * 12);
+
+      pdf.line(MARGIN, top, MARGIN + width, top, RULE);
+      pdf.text(MARGIN, top + 16, shift.slot.label, { size: 12, bold: true, color: INK });
+      if (shift.slot.timeRange) {
+        pdf.text(MARGIN + 8 + textWidth(shift.slot.label, 12, true), top + 16, shift.slot.timeRange, {
+          size: 9,
+          color: MUTED,
+        });
+      }
+      top += 24;
+
+      shift.tasks.forEach((task) => {
+        const colors = typeColorRgb(task.typeColor);
+        pdf.rect(MARGIN + 8, top, 10, 10, { fill: colors.fill, stroke: colors.border });
+        pdf.text(MARGIN + 24, top + 9, task.name, { size: 11, bold: true, color: colors.text });
+        if (task.typeName) {
+          pdf.text(MARGIN + 30 + textWidth(task.name, 11, true), top + 9, task.typeName, {
+            size: 8,
+            color: MUTED,
+          });
+        }
+        top += 16;
+      });
+      detail.forEach((line) => {
+        pdf.text(MARGIN + 8, top + 8, line, { size: 9, color: MUTED });
+        top += 12;
+      });
+      top += 6;
+    });
+
+    if (volunteer.guides.length) {
+      ensureSpace(24 + volunteer.guides.length * 24);
+      pdf.line(MARGIN, top, MARGIN + width, top, RULE);
+      pdf.text(MARGIN, top + 16, "Guides", { size: 12, bold: true, color: INK });
+      top += 24;
+      volunteer.guides.forEach((guide) => {
+        pdf.text(MARGIN + 8, top + 9, guide.title, { size: 10, bold: true, color: INK });
+        pdf.text(MARGIN + 8, top + 20, guide.url, { size: 7, color: MUTED });
+        top += 24;
+      });
+    }
+  });
+}
+
+export function renderBoardPdf(board: ScheduleBoard, mode: BoardPdfMode) {
+  const pdf = new PdfDocument();
+  if (mode === "volunteers") renderVolunteers(pdf, board);
+  else renderBoard(pdf, board);
+  return pdf.toBuffer();
+}
@@ -0,0 +1,237 @@
+import { parseCell } from "@/lib/scheduleCells";
+import { parseTimeRange } from "@/lib/timeRange";
+
+type ValidationGrid = {
+  people: string[];
+  slots: { id: string; label: string; timeRange?: string; isMeal?: boolean }[];
+  cells: string[][];
+};
+
+export type ValidationTask = {
+  id: string;
+  name: string;
+  occurrence_date?: string | null;
+  recurring?: boolean;
+  person_count?: number | null;
+  status?: string | null;
+  prerequisites?: string[];
+};
+
+export type ValidationUser = {
+  name: string;
+  active: boolean;
+  away?: string | null;
+  busy?: { startMinutes: number; endMinutes: number; label: string }[];
+};
+
+export type ScheduleIssue = {
+  severity: "error" | "warning";
+  code: "overlap" | "uncovered" | "understaffed" | "inactive" | "unavailable" | "dependency";
+  message: string;
+  person?: string;
+  slotId?: string;
+  task?: string;
+};
+
+/**
+ * Checks a schedule grid for double-booked people, due tasks nobody is assigned
+ * to, tasks staffed below their person_count, inactive users left on the grid,
+ * people assigned while away or marked unavailable, and tasks slotted before
+ * one of their prerequisites. Errors should block publishing; warnings are
+ * advisory.
+ */
+export function validateSchedule(input: {
+  schedule: ValidationGrid;
+  date: string;
+  tasks: ValidationTask[];
+  users: ValidationUser[];
+}): ScheduleIssue[] {
+  const { schedule, date, tasks, users } = input;
+  const issues: ScheduleIssue[] = [];
+
+  const ranges = schedule.slots.map((slot) => (slot.timeRange ? parseTimeRange(slot.timeRange) : null));
+  const contents = schedule.people.map((_, rowIdx) =>
+    schedule.slots.map((__, colIdx) => parseCell(schedule.cells[rowIdx]?.[colIdx] || ""))
+  );
+
+  schedule.people.forEach((person, rowIdx) => {
+    const busy = schedule.slots
+      .map((slot, colIdx) => ({ slot, range: ranges[colIdx], tasks: contents[rowIdx][colIdx].tasks }))
+      .filter((entry) => entry.tasks.length && entry.range);
+
+    for (let i = 0; i < busy.length; i += 1) {
+      for (let j = i + 1; j < busy.length; j += 1) {
+        const a = busy[i];
+        const b = busy[j];
+        if (!a.range || !b.range) continue;
+        const overlaps =
+          a.range.startMinutes < b.range.endMinutes && b.range.startMinutes < a.range.endMinutes;
+        if (!overlaps) continue;
+        [a, b].forEach((entry) => {
+          const other = entry === a ? b : a;
+          issues.push({
+            severity: "error",
+            code: "overlap",
+            person,
+            slotId: entry.slot.id,
+            message: `${person} is double-booked: ${entry.slot.label} overlaps ${other.slot.label}.`,
+          });
+        });
+      }
+    }
+  });
+
+  const assignedPeople = new Map<string, Map<string, Set<string>>>();
+  schedule.slots.forEach((slot, colIdx) => {
+    schedule.people.forEach((person, rowIdx) => {
+      contents[rowIdx][colIdx].tasks.forEach((task) => {
+        const key = task.toLowerCase();
+        if (!assignedPeople.has(key)) assignedPeople.set(key, new Map());
+        const bySlot = assignedPeople.get(key) as Map<string, Set<string>>;
+        if (!bySlot.has(slot.id)) bySlot.set(slot.id, new Set());
+        bySlot.get(slot.id)?.add(person);
+      });
+    });
+  });
+
+  const slotLabels = new Map(schedule.slots.map((slot) => [slot.id, slot.label]));
+  const seenTasks = new Set<string>();
+  tasks.forEach((task) => {
+    const key = task.name.toLowerCase();
+    if (seenTasks.has(key)) return;
+    seenTasks.add(key);
+
+    const bySlot = assignedPeople.get(key);
+    const dueToday = task.occurrence_date === date && task.status !== "Completed";
+    if (!bySlot) {
+      if (dueToday) {
+        issues.push({
+          severity: "warning",
+          code: "uncovered",
+          task: task.name,
+          message: `${task.name} is due ${task.recurring ? "today (recurring)" : "today"} but nobody is assigned.`,
+        });
+      }
+      return;
+    }
+
+    const needed = task.person_count || 0;
+    if (needed <= 1) return;
+    bySlot.forEach((people, slotId) => {
+      if (people.size >= needed) return;
+      people.forEach((person) => {
+        issues.push({
+          severity: "warning",
+          code: "understaffed",
+          task: task.name,
+          person,
+          slotId,
+          message: `${task.name} in ${slotLabels.get(slotId) || slotId} needs ${needed} people but has ${people.size}.`,
+        });
+      });
+    });
+  });
+
+  // Slots are ordered by start time when both have one, otherwise by column.
+  const comesBefore = (a: number, b: number) => {
+    const rangeA = ranges[a];
+    const rangeB = ranges[b];
+    return rangeA && rangeB ? rangeA.startMinutes < rangeB.startMinutes : a < b;
+  };
+  const columnsByTask = new Map<string, number[]>();
+  assignedPeople.forEach((bySlot, key) => {
+    columnsByTask.set(
+      key,
+      Array.from(bySlot.keys()).map((slotId) => schedule.slots.findIndex((slot) => slot.id === slotId))
+    );
+  });
+
+  const seenDependents = new Set<string>();
+  tasks.forEach((task) => {
+    const key = task.name.toLowerCase();
+    const bySlot = assignedPeople.get(key);
+    if (!bySlot || !task.prerequisites?.length || seenDependents.has(key)) return;
+    seenDependents.add(key);
+
+    task.prerequisites.forEach((prerequisite) => {
+      const prerequisiteCols = columnsByTask.get(prerequisite.toLowerCase());
+      if (!prerequisiteCols?.length) return;
+      bySlot.forEach((people, slotId) => {
+        const colIdx = schedule.slots.findIndex((slot) => slot.id === slotId);
+        if (!prerequisiteCols.every((prereqIdx) => comesBefore(colIdx, prereqIdx))) return;
+        const earliest = prerequisiteCols.reduce((best, idx) => (comesBefore(idx, best) ? idx : best));
+        const prerequisiteSlot = schedule.slots[earliest];
+        people.forEach((person) => {
+          issues.push({
+            severity: "warning",
+            code: "dependency",
+            task: task.name,
+            person,
+            slotId,
+            message: `${task.name} in ${slotLabels.get(slotId) || slotId} is before its prerequisite ${prerequisite} in ${prerequisiteSlot.label}.`,
+          });
+        });
+      });
+    });
+  });
+
+  const usersByName = new Map(users.map((user) => [user.name.toLowerCase(), user]));
+  schedule.people.forEach((person, rowIdx) => {
+    const user = usersByName.get(person.toLowerCase());
+    if (!user || user.active) return;
+    const assignedCols = contents[rowIdx]
+      .map((content, colIdx) => (content.tasks.length ? colIdx : -1))
+      .filter((idx) => idx >= 0);
+    if (!assignedCols.length) {
+      issues.push({
+        severity: "warning",
+        code: "inactive",
+        person,
+        message: `${person} is inactive but still has a row on the schedule.`,
+      });
+      return;
+    }
+    assignedCols.forEach((colIdx) => {
+      issues.push({
+        severity: "error",
+        code: "inactive",
+        person,
+        slotId: schedule.slots[colIdx].id,
+        message: `${person} is inactive but assigned in ${schedule.slots[colIdx].label}.`,
+      });
+    });
+  });
+
+  schedule.people.forEach((person, rowIdx) => {
+    const user = usersByName.get(person.toLowerCase());
+    if (!user?.active) return;
+    schedule.slots.forEach((slot, colIdx) => {
+      if (!contents[rowIdx][colIdx].tasks.length) return;
+      if (user.away) {
+        issues.push({
+          severity: "warning",
+          code: "unavailable",
+          person,
+          slotId: slot.id,
+          message: `${person} is away (${user.away}) but assigned in ${slot.label}.`,
+        });
+        return;
+      }
+      const range = ranges[colIdx];
+      const clash = range
+        ? user.busy?.find((b) => b.startMinutes < range.endMinutes && range.startMinutes < b.endMinutes)
+        : undefined;
+      if (clash) {
+        issues.push({
+          severity: "warning",
+          code: "unavailable",
+          person,
+          slotId: slot.id,
+          message: `${person} is unavailable ${clash.label} but assigned in ${slot.label}.`,
+        });
+      }
+    });
+  });
+
+  return issues;
+}
@@ -0,0 +1,81 @@
+import { supabaseRequest } from "@/lib/supabase";
+
+export const SECURITY_EVENT_KINDS = [
+  "login_success",
+  "login_failure",
+  "login_throttled",
+  "account_locked",
+  "client_locked",
+  "passcode_changed",
+  "reset_code_issued",
+  "passcode_reset",
+] as const;
+
+export type SecurityEventKind = (typeof SECURITY_EVENT_KINDS)[number];
+
+export type SecurityEventRow = {
+  id: string;
+  kind: SecurityEventKind;
+  user_id: string | null;
+  subject: string | null;
+  actor: string | null;
+  client: string | null;
+  detail: Record<string, unknown> | null;
+  created_at: string;
+};
+
+type SecurityEventInput = {
+  kind: SecurityEventKind;
+  userId?: string | null;
+  subject?: string | null;
+  actor?: string | null;
+  client?: string | null;
+  detail?: Record<string, unknown> | null;
+};
+
+/**
+ * Appends to the security log. Failures are logged and swallowed so a logging
+ * outage never blocks a login.
+ */
+export async function recordSecurityEvent(event: SecurityEventInput) {
+  try {
+    await supabaseRequest("security_events", {
+      method: "POST",
+      body: {
+        kind: event.kind,
+        user_id: event.userId ?? null,
+        subject: event.subject ?? null,
+        actor: event.actor ?? null,
+        client: event.client ?? null,
+        detail: event.detail ?? null,
+      },
+    });
+  } catch (err) {
+    console.error("Failed to record security event:", err);
+  }
+}
+
+export async function listSecurityEvents(filters: {
+  kind?: SecurityEventKind;
+  subject?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}) {
+  const range = [
+    filters.from ? `created_at.gte.${filters.from}` : null,
+    filters.to ? `created_at.lt.${filters.to}` : null,
+  ].filter(Boolean);
+
+  const data = await supabaseRequest<SecurityEventRow[]>("security_events", {
+    query: {
+      select: "id,kind,user_id,subject,actor,client,detail,created_at",
+      kind: filters.kind ? `eq.${filters.kind}` : undefined,
+      subject: filters.subject ? `ilike.*${filters.subject}*` : undefined,
+      and: range.length ? `(${range.join(",")})` : undefined,
+      order: "created_at.desc",
+      limit: filters.limit ?? 200,
+    },
+  });
+  return data || [];
+}
@@ -6,6 +6,9 @@ export type UserSession = {
   name: string;
   userType?: string | null;
   userTypeColor?: string | null;
+  permissions?: string[];
+  mustChangePasscode?: boolean;
+  impersonation?: { by: string; readOnly: boolean } | null;
 };
 
 export function getHubLandingPath(userType?: string | null) {
@@ -16,6 +19,8 @@ export function getHubLandingPath(userType?: string | null) {
   return "/hub/dashboard";
 }
 
+// The signed httpOnly cookie set by /api/login is the source of truth; this
+// localStorage copy only caches the last /api/me response for synchronous reads.
 export function saveSession(session: UserSession) {
   if (typeof window === "undefined") return;
   localStorage.setItem(SESSION_KEY, JSON.stringify(session));
@@ -36,3 +41,45 @@ export function clearSession() {
   if (typeof window === "undefined") return;
   localStorage.removeItem(SESSION_KEY);
 }
+
+export async function refreshSession(): Promise<UserSession | null> {
+  if (typeof window === "undefined") return null;
+  try {
+    const res = await fetch("/api/me", { cache: "no-store" });
+    if (!res.ok) {
+      if (res.status === 401) clearSession();
+      return res.status === 401 ? null : loadSession();
+    }
+    const data = await res.json();
+    const session: UserSession = {
+      name: data.name,
+      userType: data.userType ?? null,
+      userTypeColor: data.userTypeColor ?? null,
+      permissions: Array.isArray(data.permissions) ? data.permissions : [],
+      mustChangePasscode: Boolean(data.mustChangePasscode),
+      impersonation: data.impersonation ?? null,
+    };
+    saveSession(session);
+    return session;
+  } catch {
+    return loadSession();
+  }
+}
+
+export async function stopImpersonating(): Promise<UserSession | null> {
+  try {
+    await fetch("/api/impersonation", { method: "DELETE" });
+  } catch (err) {
+    console.error("Failed to stop impersonating:", err);
+  }
+  return refreshSession();
+}
+
+export async function logout() {
+  try {
+    await fetch("/api/logout", { method: "POST" });
+  } catch (err) {
+    console.error("Logout request failed:", err);
+  }
+  clearSession();
+}
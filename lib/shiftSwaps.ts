@@ -0,0 +1,201 @@
+import { supabaseRequest } from "@/lib/supabase";
+import type { CellEdit, ScheduleSnapshot } from "@/lib/schedule";
+import { parseCell, serializeCell } from "@/lib/scheduleCells";
+
+export const SWAP_STATUSES = ["pending", "accepted", "approved", "declined"] as const;
+export type SwapStatus = (typeof SWAP_STATUSES)[number];
+export type SwapKind = "cover" | "swap";
+
+export type ShiftSwapRow = {
+  id: string;
+  schedule_date: string;
+  kind: SwapKind;
+  requester: string;
+  requester_slot: string;
+  requester_value: string;
+  target_person: string | null;
+  target_slot: string | null;
+  target_value: string | null;
+  accepted_by: string | null;
+  decided_by: string | null;
+  status: SwapStatus;
+  note: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ShiftSwapEventRow = {
+  id: string;
+  swap_id: string;
+  status: SwapStatus;
+  actor: string | null;
+  note: string | null;
+  created_at: string;
+};
+
+const SWAP_SELECT =
+  "id,schedule_date,kind,requester,requester_slot,requester_value,target_person,target_slot,target_value,accepted_by,decided_by,status,note,created_at,updated_at";
+
+// Names are matched the way logins match them, ignoring case; edits use the
+// spelling on the grid.
+const gridName = (grid: ScheduleSnapshot, person: string) =>
+  grid.people.find((name) => name.trim().toLowerCase() === person.trim().toLowerCase()) ?? null;
+
+function cellAt(grid: ScheduleSnapshot, person: string, slotKey: string) {
+  const rowIdx = grid.people.indexOf(person);
+  const colIdx = grid.slots.findIndex((slot) => slot.id === slotKey);
+  if (rowIdx === -1 || colIdx === -1) return null;
+  return grid.cells[rowIdx]?.[colIdx] ?? "";
+}
+
+function mergeCells(existing: string, incoming: string) {
+  const a = parseCell(existing);
+  const b = parseCell(incoming);
+  const tasks = [...a.tasks, ...b.tasks.filter((task) => !a.tasks.includes(task))];
+  const note = [a.note, b.note].filter(Boolean).join("\n");
+  return serializeCell({ tasks, note });
+}
+
+/**
+ * Works out the cell edits an approved swap makes on the published grid.
+ * A cover hands the requester's cell to whoever accepted it; a swap trades the
+ * requester's shift for the target's (the two cells are exchanged when both are
+ * in the same slot). Returns an error if either cell changed since the request.
+ */
+export function planSwapEdits(
+  grid: ScheduleSnapshot,
+  swap: ShiftSwapRow
+): { edits: CellEdit[]; error: string | null } {
+  const fail = (error: string) => ({ edits: [], error });
+  const requester = gridName(grid, swap.requester);
+  const requesterCell = requester === null ? null : cellAt(grid, requester, swap.requester_slot);
+  if (requester === null || requesterCell === null) return fail(`${swap.requester} is no longer on that shift.`);
+  if (requesterCell !== swap.requester_value) {
+    return fail(`${swap.requester}'s shift changed after the request was made.`);
+  }
+
+  if (swap.kind === "cover") {
+    if (!swap.accepted_by) return fail("Nobody has accepted this cover request.");
+    const taker = gridName(grid, swap.accepted_by);
+    const takerCell = taker === null ? null : cellAt(grid, taker, swap.requester_slot);
+    if (taker === null || takerCell === null) return fail(`${swap.accepted_by} is not on this schedule.`);
+    return {
+      edits: [
+        { person: requester, slotKey: swap.requester_slot, value: "" },
+        { person: taker, slotKey: swap.requester_slot, value: mergeCells(takerCell, requesterCell) },
+      ],
+      error: null,
+    };
+  }
+
+  if (!swap.target_person || !swap.target_slot) return fail("The swap has no target shift.");
+  const target = gridName(grid, swap.target_person);
+  const targetCell = target === null ? null : cellAt(grid, target, swap.target_slot);
+  if (target === null || targetCell === null) return fail(`${swap.target_person} is no longer on that shift.`);
+  if (targetCell !== (swap.target_value ?? "")) {
+    return fail(`${swap.target_person}'s shift changed after the request was made.`);
+  }
+
+  if (swap.requester_slot === swap.target_slot) {
+    return {
+      edits: [
+        { person: requester, slotKey: swap.requester_slot, value: targetCell },
+        { person: target, slotKey: swap.target_slot, value: requesterCell },
+      ],
+      error: null,
+    };
+  }
+
+  const requesterAtTarget = cellAt(grid, requester, swap.target_slot) ?? "";
+  const targetAtRequester = cellAt(grid, target, swap.requester_slot) ?? "";
+  return {
+    edits: [
+      { person: requester, slotKey: swap.requester_slot, value: "" },
+      { person: target, slotKey: swap.target_slot, value: "" },
+      {
+        person: requester,
+        slotKey: swap.target_slot,
+        value: mergeCells(requesterAtTarget, targetCell),
+      },
+      {
+        person: target,
+        slotKey: swap.requester_slot,
+        value: mergeCells(targetAtRequester, requesterCell),
+      },
+    ],
+    error: null,
+  };
+}
+
+export async function listSwaps(date: string) {
+  const swaps = await supabaseRequest<ShiftSwapRow[]>("shift_swaps", {
+    query: { select: SWAP_SELECT, schedule_date: `eq.${date}`, order: "created_at.desc" },
+  });
+  if (!swaps?.length) return [];
+
+  const events = await supabaseRequest<ShiftSwapEventRow[]>("shift_swap_events", {
+    query: {
+      select: "id,swap_id,status,actor,note,created_at",
+      swap_id: `in.(${swaps.map((swap) => swap.id).join(",")})`,
+      order: "created_at.asc",
+    },
+  });
+  return swaps.map((swap) => ({
+    ...swap,
+    events: (events || []).filter((event) => event.swap_id === swap.id),
+  }));
+}
+
+export async function findSwap(id: string) {
+  const data = await supabaseRequest<ShiftSwapRow[]>("shift_swaps", {
+    query: { select: SWAP_SELECT, id: `eq.${id}`, limit: 1 },
+  });
+  return data?.[0] ?? null;
+}
+
+async function recordSwapEvent(swapId: string, status: SwapStatus, actor: string, note?: string | null) {
+  await supabaseRequest("shift_swap_events", {
+    method: "POST",
+    prefer: "return=minimal",
+    body: { swap_id: swapId, status, actor, note: note || null },
+  });
+}
+
+export async function createSwap(
+  input: Omit<
+    ShiftSwapRow,
+    "id" | "status" | "accepted_by" | "decided_by" | "created_at" | "updated_at"
+  >
+) {
+  const [swap] = await supabaseRequest<ShiftSwapRow[]>("shift_swaps", {
+    method: "POST",
+    prefer: "return=representation",
+    query: { select: SWAP_SELECT },
+    body: { ...input, status: "pending" },
+  });
+  await recordSwapEvent(swap.id, "pending", input.requester, input.note);
+  return swap;
+}
+
+/**
+ * Moves a swap to `status`, but only if it still has the status the caller
+ * read, so two people acting at once cannot both move it. Returns null when
+ * someone else got there first.
+ */
+export async function updateSwapStatus(
+  swap: ShiftSwapRow,
+  status: SwapStatus,
+  actor: string,
+  changes: Partial<Pick<ShiftSwapRow, "accepted_by" | "decided_by">> = {},
+  note?: string | null
+) {
+  const data = await supabaseRequest<ShiftSwapRow[]>("shift_swaps", {
+    method: "PATCH",
+    prefer: "return=representation",
+    query: { select: SWAP_SELECT, id: `eq.${swap.id}`, status: `eq.${swap.status}` },
+    body: { ...changes, status, updated_at: new Date().toISOString() },
+  });
+  const updated = data?.[0] ?? null;
+  if (updated) await recordSwapEvent(swap.id, status, actor, note);
+  return updated;
+}
@@ -0,0 +1,154 @@
+import type { SessionUser } from "@/lib/auth";
+import { supabaseRequest } from "@/lib/supabase";
+
+// Checklist steps belong to the series root (or the one-off task); ticks are
+// stored per occurrence, so each day's run of a recurring task starts fresh.
+
+export type ChecklistItemRow = {
+  id: string;
+  task_id: string;
+  position: number;
+  label: string;
+};
+
+type ChecklistTickRow = {
+  item_id: string;
+  task_id: string;
+  checked_by: string | null;
+  checked_by_name: string;
+  checked_at: string;
+};
+
+export type ChecklistItem = {
+  id: string;
+  label: string;
+  checked: boolean;
+  checkedBy: string | null;
+  checkedAt: string | null;
+};
+
+export type ChecklistDraftItem = { id?: string | null; label: string };
+
+const MAX_CHECKLIST_ITEMS = 50;
+const MAX_LABEL_LENGTH = 200;
+
+export async function loadChecklistItems(seriesId: string) {
+  const data = await supabaseRequest<ChecklistItemRow[]>("task_checklist_items", {
+    query: { select: "id,task_id,position,label", task_id: `eq.${seriesId}`, order: "position.asc" },
+  });
+  return data || [];
+}
+
+/** The series checklist with tick state for one occurrence (none when it has no row yet). */
+export async function loadChecklist(seriesId: string, occurrenceId: string | null) {
+  const [items, ticks] = await Promise.all([
+    loadChecklistItems(seriesId),
+    occurrenceId
+      ? supabaseRequest<ChecklistTickRow[]>("task_checklist_ticks", {
+          query: { select: "item_id,task_id,checked_by,checked_by_name,checked_at", task_id: `eq.${occurrenceId}` },
+        })
+      : Promise.resolve([] as ChecklistTickRow[]),
+  ]);
+  const byItem = new Map((ticks || []).map((tick) => [tick.item_id, tick]));
+  return items.map<ChecklistItem>((item) => {
+    const tick = byItem.get(item.id);
+    return {
+      id: item.id,
+      label: item.label,
+      checked: Boolean(tick),
+      checkedBy: tick?.checked_by_name ?? null,
+      checkedAt: tick?.checked_at ?? null,
+    };
+  });
+}
+
+export const checklistProgress = (items: ChecklistItem[]) => ({
+  done: items.filter((item) => item.checked).length,
+  total: items.length,
+});
+
+/** Returns an error message when the draft checklist cannot be saved. */
+export function validateChecklist(items: unknown): string | null {
+  if (!Array.isArray(items)) return "Checklist must be a list of steps";
+  if (items.length > MAX_CHECKLIST_ITEMS) return `A checklist can have at most ${MAX_CHECKLIST_ITEMS} steps`;
+  for (const item of items) {
+    const label = typeof item?.label === "string" ? item.label.trim() : "";
+    if (!label) return "Checklist steps cannot be empty";
+    if (label.length > MAX_LABEL_LENGTH) return "Checklist step is too long";
+  }
+  return null;
+}
+
+/**
+ * Replaces a series checklist with `items`, in order. Steps keep their id
+ * (and the ticks against it) while they stay in the list; removed steps are
+ * deleted along with their ticks.
+ */
+export async function saveChecklist(seriesId: string, items: ChecklistDraftItem[]) {
+  const existing = await loadChecklistItems(seriesId);
+  const existingIds = new Set(existing.map((item) => item.id));
+  const keptIds = new Set(items.map((item) => item.id).filter((id): id is string => !!id && existingIds.has(id)));
+
+  const removed = existing.filter((item) => !keptIds.has(item.id));
+  if (removed.length) {
+    await supabaseRequest("task_checklist_items", {
+      method: "DELETE",
+      query: { id: `in.(${removed.map((item) => item.id).join(",")})` },
+    });
+  }
+
+  for (const [position, item] of items.entries()) {
+    const label = item.label.trim();
+    const current = item.id && keptIds.has(item.id) ? existing.find((row) => row.id === item.id) : null;
+    if (current) {
+      if (current.label === label && current.position === position) continue;
+      await supabaseRequest("task_checklist_items", {
+        method: "PATCH",
+        query: { id: `eq.${current.id}` },
+        body: { label, position },
+      });
+    } else {
+      await supabaseRequest("task_checklist_items", {
+        method: "POST",
+        body: { task_id: seriesId, label, position },
+      });
+    }
+  }
+  return loadChecklistItems(seriesId);
+}
+
+/** Gives a new series (after a split) the same steps as the one it came from. */
+export async function copyChecklist(fromSeriesId: string, toSeriesId: string) {
+  const items = await loadChecklistItems(fromSeriesId);
+  if (!items.length) return;
+  await supabaseRequest("task_checklist_items", {
+    method: "POST",
+    body: items.map((item) => ({ task_id: toSeriesId, label: item.label, position: item.position })),
+  });
+}
+
+export async function setChecklistTick(input: {
+  itemId: string;
+  occurrenceId: string;
+  user: SessionUser;
+  checked: boolean;
+}) {
+  if (!input.checked) {
+    await supabaseRequest("task_checklist_ticks", {
+      method: "DELETE",
+      query: { item_id: `eq.${input.itemId}`, task_id: `eq.${input.occurrenceId}` },
+    });
+    return;
+  }
+  await supabaseRequest("task_checklist_ticks", {
+    method: "POST",
+    prefer: "resolution=ignore-duplicates",
+    query: { on_conflict: "item_id,task_id" },
+    body: {
+      item_id: input.itemId,
+      task_id: input.occurrenceId,
+      checked_by: input.user.id,
+      checked_by_name: input.user.name,
+    },
+  });
+}
@@ -0,0 +1,176 @@
+import type { SessionUser } from "@/lib/auth";
+import { supabaseRequest } from "@/lib/supabase";
+
+export type TaskCommentRow = {
+  id: string;
+  task_id: string;
+  parent_id: string | null;
+  author_id: string | null;
+  author_name: string;
+  body: string;
+  mentions: string[] | null;
+  created_at: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+};
+
+export type TaskComment = {
+  id: string;
+  parentId: string | null;
+  text: string;
+  author: string;
+  authorId: string | null;
+  createdTime: string;
+  editedTime: string | null;
+  deleted: boolean;
+  mentions: string[];
+  canEdit: boolean;
+  canDelete: boolean;
+  replies: TaskComment[];
+};
+
+type MentionUser = { id: string; display_name: string };
+
+const COMMENT_SELECT =
+  "id,task_id,parent_id,author_id,author_name,body,mentions,created_at,edited_at,deleted_at";
+
+/**
+ * Users mentioned as `@Display Name` in a comment body. Longer names are
+ * matched first so "@Ana Maria" does not also count as "@Ana".
+ */
+export async function findMentions(body: string) {
+  if (!body.includes("@")) return [];
+  const users = await supabaseRequest<MentionUser[]>("users", {
+    query: { select: "id,display_name", active: "eq.true" },
+  });
+  const lower = body.toLowerCase();
+  const taken: [number, number][] = [];
+  const found: MentionUser[] = [];
+
+  [...(users || [])]
+    .filter((user) => user.display_name)
+    .sort((a, b) => b.display_name.length - a.display_name.length)
+    .forEach((user) => {
+      const token = `@${user.display_name.toLowerCase()}`;
+      for (let at = lower.indexOf(token); at !== -1; at = lower.indexOf(token, at + 1)) {
+        const end = at + token.length;
+        if (/[\p{L}\p{N}_]/u.test(lower[end] || "")) continue;
+        if (taken.some(([from, to]) => at < to && end > from)) continue;
+        taken.push([at, end]);
+        if (!found.includes(user)) found.push(user);
+      }
+    });
+  return found;
+}
+
+async function loadMentionNames(ids: string[]) {
+  if (!ids.length) return new Map<string, string>();
+  const users = await supabaseRequest<MentionUser[]>("users", {
+    query: { select: "id,display_name", id: `in.(${ids.join(",")})` },
+  });
+  return new Map((users || []).map((user) => [user.id, user.display_name]));
+}
+
+/**
+ * Comments on a task as threads: top-level comments oldest first, each with
+ * its replies. Moderators may delete anyone's comment; only authors may edit.
+ */
+export async function loadTaskComments(taskId: string, viewer: SessionUser, canModerate = false) {
+  const rows =
+    (await supabaseRequest<TaskCommentRow[]>("task_comments", {
+      query: { select: COMMENT_SELECT, task_id: `eq.${taskId}`, order: "created_at.asc" },
+    })) || [];
+  const mentionNames = await loadMentionNames(
+    Array.from(new Set(rows.flatMap((row) => row.mentions || [])))
+  );
+
+  const comments = new Map<string, TaskComment>(
+    rows.map((row) => {
+      const deleted = Boolean(row.deleted_at);
+      return [
+        row.id,
+        {
+          id: row.id,
+          parentId: row.parent_id,
+          text: deleted ? "" : row.body,
+          author: row.author_name,
+          authorId: row.author_id,
+          createdTime: row.created_at,
+          editedTime: row.edited_at,
+          deleted,
+          mentions: deleted
+            ? []
+            : (row.mentions || []).map((id) => mentionNames.get(id)).filter((name): name is string => !!name),
+          canEdit: !deleted && row.author_id === viewer.id,
+          canDelete: !deleted && (row.author_id === viewer.id || canModerate),
+          replies: [],
+        },
+      ];
+    })
+  );
+
+  const threads: TaskComment[] = [];
+  comments.forEach((comment) => {
+    const parent = comment.parentId ? comments.get(comment.parentId) : null;
+    if (parent) parent.replies.push(comment);
+    else threads.push(comment);
+  });
+
+  // A deleted comment stays as a placeholder only while it still has replies.
+  const visible = (list: TaskComment[]): TaskComment[] =>
+    list
+      .map((comment) => ({ ...comment, replies: visible(comment.replies) }))
+      .filter((comment) => !comment.deleted || comment.replies.length > 0);
+  return visible(threads);
+}
+
+export const countComments = (threads: TaskComment[]): number =>
+  threads.reduce((total, comment) => total + (comment.deleted ? 0 : 1) + countComments(comment.replies), 0);
+
+export async function findTaskComment(id: string) {
+  const rows = await supabaseRequest<TaskCommentRow[]>("task_comments", {
+    query: { select: COMMENT_SELECT, id: `eq.${id}`, limit: 1 },
+  });
+  return rows?.[0] ?? null;
+}
+
+export async function addTaskComment(input: {
+  taskId: string;
+  author: SessionUser;
+  body: string;
+  parentId?: string | null;
+}) {
+  const mentions = await findMentions(input.body);
+  const [row] = await supabaseRequest<TaskCommentRow[]>("task_comments", {
+    method: "POST",
+    prefer: "return=representation",
+    query: { select: COMMENT_SELECT },
+    body: {
+      task_id: input.taskId,
+      parent_id: input.parentId || null,
+      author_id: input.author.id,
+      author_name: input.author.name,
+      body: input.body,
+      mentions: mentions.map((user) => user.id),
+    },
+  });
+  return row;
+}
+
+export async function editTaskComment(id: string, body: string) {
+  const mentions = await findMentions(body);
+  await supabaseRequest("task_comments", {
+    method: "PATCH",
+    query: { id: `eq.${id}` },
+    body: { body, mentions: mentions.map((user) => user.id), edited_at: new Date().toISOString() },
+  });
+}
+
+// Soft delete so replies keep their thread; the body is dropped from reads.
+export async function deleteTaskComment(id: string) {
+  await supabaseRequest("task_comments", {
+    method: "PATCH",
+    query: { id: `eq.${id}` },
+    body: { deleted_at: new Date().toISOString() },
+  });
+}
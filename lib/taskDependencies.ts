@@ -0,0 +1,161 @@
+import { supabaseRequest } from "@/lib/supabase";
+import { loadTasksDueOn, seriesIdOf, type TaskRow } from "@/lib/tasks";
+
+// Prerequisites link series roots (or one-off tasks), so "Move fence" before
+// "Rotate goats" holds for every day both of them occur.
+
+type DependencyRow = {
+  task_id: string;
+  prerequisite_id: string;
+  prerequisite: { id: string; name: string } | null;
+};
+
+export type TaskReference = { id: string; name: string };
+
+export type Blocker = { id: string; name: string; status: string };
+
+const MAX_PREREQUISITES = 20;
+
+/** Prerequisites of each series, keyed by series id. */
+export async function loadPrerequisites(seriesIds: string[]) {
+  const ids = Array.from(new Set(seriesIds));
+  const byTask = new Map<string, TaskReference[]>();
+  if (!ids.length) return byTask;
+
+  const data = await supabaseRequest<DependencyRow[]>("task_dependencies", {
+    query: {
+      select: "task_id,prerequisite_id,prerequisite:tasks!prerequisite_id(id,name)",
+      task_id: `in.(${ids.join(",")})`,
+    },
+  });
+  (data || []).forEach((row) => {
+    if (!row.prerequisite) return;
+    const list = byTask.get(row.task_id) || [];
+    list.push(row.prerequisite);
+    byTask.set(row.task_id, list);
+  });
+  return byTask;
+}
+
+/** Tasks that list this series as a prerequisite. */
+export async function loadDependents(seriesId: string) {
+  const data = await supabaseRequest<{ task: TaskReference | null }[]>("task_dependencies", {
+    query: { select: "task:tasks!task_id(id,name)", prerequisite_id: `eq.${seriesId}` },
+  });
+  return (data || []).map((row) => row.task).filter((task): task is TaskReference => Boolean(task));
+}
+
+// True when `start` can already reach `target` through existing prerequisites,
+// so making `target` a prerequisite of `start` would close a loop.
+function reaches(edges: Map<string, string[]>, start: string, target: string) {
+  const seen = new Set<string>();
+  const stack = [start];
+  while (stack.length) {
+    const current = stack.pop() as string;
+    if (current === target) return true;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    stack.push(...(edges.get(current) || []));
+  }
+  return false;
+}
+
+/**
+ * Replaces the prerequisites of a series. Ids may point at any row of a
+ * series; they are stored as the series root. Returns an error message when
+ * the list is invalid or would make tasks wait on each other.
+ */
+export async function savePrerequisites(seriesId: string, taskIds: string[]) {
+  if (taskIds.length > MAX_PREREQUISITES) {
+    return { error: `A task can have at most ${MAX_PREREQUISITES} prerequisites` };
+  }
+
+  const rows = taskIds.length
+    ? await supabaseRequest<{ id: string; name: string; parent_task_id: string | null }[]>("tasks", {
+        query: { select: "id,name,parent_task_id", id: `in.(${taskIds.join(",")})` },
+      })
+    : [];
+  if ((rows || []).length !== new Set(taskIds).size) {
+    return { error: "Some prerequisite tasks were not found" };
+  }
+  const prerequisiteIds = Array.from(new Set((rows || []).map(seriesIdOf)));
+  if (prerequisiteIds.includes(seriesId)) {
+    return { error: "A task cannot be its own prerequisite" };
+  }
+
+  const all = await supabaseRequest<{ task_id: string; prerequisite_id: string }[]>("task_dependencies", {
+    query: { select: "task_id,prerequisite_id" },
+  });
+  const edges = new Map<string, string[]>();
+  (all || [])
+    .filter((edge) => edge.task_id !== seriesId)
+    .forEach((edge) => edges.set(edge.task_id, [...(edges.get(edge.task_id) || []), edge.prerequisite_id]));
+  const loop = prerequisiteIds.find((id) => reaches(edges, id, seriesId));
+  if (loop) {
+    const name = rows?.find((row) => seriesIdOf(row) === loop)?.name || "that task";
+    return { error: `${name} already depends on this task, so it cannot also be a prerequisite` };
+  }
+
+  await supabaseRequest("task_dependencies", {
+    method: "DELETE",
+    query: { task_id: `eq.${seriesId}` },
+  });
+  if (prerequisiteIds.length) {
+    await supabaseRequest("task_dependencies", {
+      method: "POST",
+      body: prerequisiteIds.map((id) => ({ task_id: seriesId, prerequisite_id: id })),
+    });
+  }
+  return { error: null };
+}
+
+/** Gives a new series (after a split) the same prerequisites and dependents as the one it came from. */
+export async function copyDependencies(fromSeriesId: string, toSeriesId: string) {
+  const [prerequisites, dependents] = await Promise.all([
+    loadPrerequisites([fromSeriesId]),
+    loadDependents(fromSeriesId),
+  ]);
+  const rows = [
+    ...(prerequisites.get(fromSeriesId) || []).map((task) => ({ task_id: toSeriesId, prerequisite_id: task.id })),
+    ...dependents.map((task) => ({ task_id: task.id, prerequisite_id: toSeriesId })),
+  ];
+  if (!rows.length) return;
+  await supabaseRequest("task_dependencies", {
+    method: "POST",
+    prefer: "resolution=ignore-duplicates",
+    query: { on_conflict: "task_id,prerequisite_id" },
+    body: rows,
+  });
+}
+
+function blockersAmong(due: TaskRow[], prerequisites: TaskReference[]): Blocker[] {
+  const dueBySeries = new Map(due.map((task) => [seriesIdOf(task), task]));
+  return prerequisites
+    .map((prerequisite) => dueBySeries.get(prerequisite.id))
+    .filter((occurrence): occurrence is TaskRow => Boolean(occurrence) && occurrence?.status !== "Completed")
+    .map((occurrence) => ({ id: occurrence.id, name: occurrence.name, status: occurrence.status }));
+}
+
+/**
+ * Tasks due on `date` that are waiting on a prerequisite, keyed by task id.
+ * A prerequisite blocks when it is also due that day and not Completed; a
+ * prerequisite that does not occur that day has nothing to wait for.
+ */
+export async function loadBlockedTasks(date: string) {
+  const due = await loadTasksDueOn(date);
+  const prerequisites = await loadPrerequisites(due.map(seriesIdOf));
+
+  const blocked = new Map<string, { task: TaskRow; blockers: Blocker[] }>();
+  due.forEach((task) => {
+    const blockers = blockersAmong(due, prerequisites.get(seriesIdOf(task)) || []);
+    if (blockers.length) blocked.set(task.id, { task, blockers });
+  });
+  return blocked;
+}
+
+/** What one series is waiting on for `date`. */
+export async function loadBlockers(seriesId: string, date: string) {
+  const prerequisites = (await loadPrerequisites([seriesId])).get(seriesId) || [];
+  if (!prerequisites.length) return [];
+  return blockersAmong(await loadTasksDueOn(date), prerequisites);
+}
@@ -0,0 +1,144 @@
+import type { SessionUser } from "@/lib/auth";
+import { supabaseRequest } from "@/lib/supabase";
+
+export const TASK_STATUSES = ["Not Started", "In Progress", "Completed"] as const;
+export type TaskStatus = (typeof TASK_STATUSES)[number];
+
+export const isTaskStatus = (value: unknown): value is TaskStatus =>
+  TASK_STATUSES.includes(value as TaskStatus);
+
+export type TaskStatusEventRow = {
+  id: string;
+  task_id: string;
+  series_id: string;
+  user_id: string | null;
+  actor_name: string;
+  from_status: string | null;
+  to_status: string;
+  schedule_date: string | null;
+  slot_key: string | null;
+  slot_label: string | null;
+  created_at: string;
+};
+
+export type TaskStatusEvent = {
+  id: string;
+  taskId: string;
+  seriesId: string;
+  by: string;
+  userId: string | null;
+  from: string | null;
+  to: string;
+  scheduleDate: string | null;
+  slot: string | null;
+  at: string;
+};
+
+type StatusChange = {
+  taskId: string;
+  seriesId: string;
+  toStatus: TaskStatus;
+  user: SessionUser;
+  scheduleDate?: string | null;
+  slotKey?: string | null;
+  slotLabel?: string | null;
+};
+
+export type StatusHistoryFilters = {
+  taskId?: string | null;
+  seriesId?: string | null;
+  userId?: string | null;
+  status?: string | null;
+  from?: string | null;
+  to?: string | null;
+  limit?: number;
+};
+
+const EVENT_SELECT =
+  "id,task_id,series_id,user_id,actor_name,from_status,to_status,schedule_date,slot_key,slot_label,created_at";
+
+const toEvent = (row: TaskStatusEventRow): TaskStatusEvent => ({
+  id: row.id,
+  taskId: row.task_id,
+  seriesId: row.series_id,
+  by: row.actor_name,
+  userId: row.user_id,
+  from: row.from_status,
+  to: row.to_status,
+  scheduleDate: row.schedule_date,
+  slot: row.slot_label || row.slot_key,
+  at: row.created_at,
+});
+
+const MAX_STATUS_ATTEMPTS = 3;
+
+/**
+ * Sets a task's status and records who changed it. The update is guarded by
+ * the status it replaces, so two people changing it at once both get an
+ * accurate "from" in the history. Returns the previous status, or undefined
+ * when the task does not exist or kept changing underneath us.
+ */
+export async function recordStatusChange(change: StatusChange) {
+  const { taskId, toStatus, user } = change;
+
+  for (let attempt = 0; attempt < MAX_STATUS_ATTEMPTS; attempt += 1) {
+    const current = await supabaseRequest<{ status: string | null }[]>("tasks", {
+      query: { select: "status", id: `eq.${taskId}`, limit: 1 },
+    });
+    if (!current?.[0]) return undefined;
+    const fromStatus = current[0].status;
+    if (fromStatus === toStatus) return fromStatus;
+
+    const updated = await supabaseRequest<{ id: string }[]>("tasks", {
+      method: "PATCH",
+      prefer: "return=representation",
+      query: { select: "id", id: `eq.${taskId}`, status: fromStatus ? `eq.${fromStatus}` : "is.null" },
+      body: { status: toStatus },
+    });
+    if (!updated?.length) continue;
+
+    await supabaseRequest("task_status_events", {
+      method: "POST",
+      body: {
+        task_id: taskId,
+        series_id: change.seriesId,
+        user_id: user.id,
+        actor_name: user.name,
+        from_status: fromStatus,
+        to_status: toStatus,
+        schedule_date: change.scheduleDate || null,
+        slot_key: change.slotKey || null,
+        slot_label: change.slotLabel || null,
+      },
+    });
+    return fromStatus;
+  }
+  return undefined;
+}
+
+/** Status events, newest first. `from` and `to` are timestamps (`to` exclusive). */
+export async function loadStatusHistory(filters: StatusHistoryFilters) {
+  const query: Record<string, string | number> = {
+    select: EVENT_SELECT,
+    order: "created_at.desc",
+    limit: Math.min(Math.max(filters.limit ?? 50, 1), 500),
+  };
+  if (filters.taskId) query.task_id = `eq.${filters.taskId}`;
+  if (filters.seriesId) query.series_id = `eq.${filters.seriesId}`;
+  if (filters.userId) query.user_id = `eq.${filters.userId}`;
+  if (filters.status) query.to_status = `eq.${filters.status}`;
+  const range = [
+    filters.from ? `created_at.gte.${filters.from}` : null,
+    filters.to ? `created_at.lt.${filters.to}` : null,
+  ].filter(Boolean);
+  if (range.length) query.and = `(${range.join(",")})`;
+
+  const rows = await supabaseRequest<TaskStatusEventRow[]>("task_status_events", { query });
+  return (rows || []).map(toEvent);
+}
+
+/** The most recent completion across a task's whole series. */
+export async function lastCompletion(seriesId: string) {
+  const [event] = await loadStatusHistory({ seriesId, status: "Completed", limit: 1 });
+  return event ?? null;
+}
@@ -0,0 +1,238 @@
+import { randomUUID } from "node:crypto";
+import type { SessionUser } from "@/lib/auth";
+import { getMediaStorage } from "@/lib/mediaStorage";
+import { supabaseRequest } from "@/lib/supabase";
+
+// Media belong to the occurrence they were uploaded for, so a photo of one
+// day's work stays on that day. Reference media (how a job is done) are kept
+// on the series root with `reference` set and show on every occurrence.
+
+export type MediaKind = "image" | "video" | "audio" | "file";
+
+export type TaskMediaRow = {
+  id: string;
+  task_id: string;
+  reference: boolean;
+  kind: MediaKind;
+  name: string;
+  content_type: string;
+  size_bytes: number;
+  storage_driver: string;
+  storage_key: string;
+  url: string;
+  thumbnail_key: string | null;
+  thumbnail_url: string | null;
+  uploaded_by: string | null;
+  uploaded_by_name: string;
+  created_at: string;
+};
+
+export type TaskMedia = {
+  id: string;
+  kind: MediaKind;
+  reference: boolean;
+  name: string;
+  url: string;
+  thumbnailUrl: string | null;
+  contentType: string;
+  size: number;
+  uploadedBy: string;
+  uploadedAt: string;
+  canDelete: boolean;
+};
+
+type MediaPolicy = { maxBytes: number; types: string[] };
+
+const MB = 1024 * 1024;
+
+// SVG and HTML are left out on purpose: the local driver serves files from
+// the app's own origin.
+export const MEDIA_POLICIES: Record<MediaKind, MediaPolicy> = {
+  image: {
+    maxBytes: 10 * MB,
+    types: ["image/jpeg", "image/png", "image/webp", "image/gif", "image/heic", "image/heif"],
+  },
+  video: { maxBytes: 100 * MB, types: ["video/mp4", "video/webm", "video/quicktime"] },
+  audio: {
+    maxBytes: 25 * MB,
+    types: ["audio/mpeg", "audio/mp4", "audio/aac", "audio/wav", "audio/x-wav", "audio/webm", "audio/ogg"],
+  },
+  file: {
+    maxBytes: 20 * MB,
+    types: [
+      "application/pdf",
+      "text/plain",
+      "text/csv",
+      "application/msword",
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      "application/vnd.ms-excel",
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    ],
+  },
+};
+
+const MEDIA_KINDS = Object.keys(MEDIA_POLICIES) as MediaKind[];
+
+const KIND_LABELS: Record<MediaKind, string> = {
+  image: "Images",
+  video: "Videos",
+  audio: "Audio files",
+  file: "Files",
+};
+
+const MEDIA_SELECT =
+  "id,task_id,reference,kind,name,content_type,size_bytes,storage_driver,storage_key,url,thumbnail_key,thumbnail_url,uploaded_by,uploaded_by_name,created_at";
+
+const THUMBNAIL_SIZE = 480;
+
+export const mediaKindOf = (contentType: string) =>
+  MEDIA_KINDS.find((kind) => MEDIA_POLICIES[kind].types.includes(contentType.toLowerCase())) ?? null;
+
+const formatLimit = (bytes: number) => `${Math.round(bytes / MB)} MB`;
+
+/** Returns an error message when a file of this type and size cannot be uploaded. */
+export function checkMediaPolicy(contentType: string, size: number, allowed: MediaKind[] = MEDIA_KINDS) {
+  const kind = mediaKindOf(contentType);
+  if (!kind || !allowed.includes(kind)) return "That file type is not supported";
+  if (size <= 0) return "The file is empty";
+  const { maxBytes } = MEDIA_POLICIES[kind];
+  if (size > maxBytes) return `${KIND_LABELS[kind]} can be at most ${formatLimit(maxBytes)}`;
+  return null;
+}
+
+const toMedia = (row: TaskMediaRow, viewer: SessionUser, canModerate: boolean): TaskMedia => ({
+  id: row.id,
+  kind: row.kind,
+  reference: row.reference,
+  name: row.name,
+  url: row.url,
+  thumbnailUrl: row.thumbnail_url,
+  contentType: row.content_type,
+  size: row.size_bytes,
+  uploadedBy: row.uploaded_by_name,
+  uploadedAt: row.created_at,
+  canDelete: canModerate || row.uploaded_by === viewer.id,
+});
+
+/**
+ * Media of one occurrence plus the series' reference media. `occurrenceId` is
+ * null for a computed occurrence, which has nothing of its own yet.
+ */
+export async function loadTaskMedia(
+  task: { occurrenceId: string | null; seriesId: string },
+  viewer: SessionUser,
+  canModerate: boolean
+) {
+  const scopes = [`and(task_id.eq.${task.seriesId},reference.is.true)`];
+  if (task.occurrenceId) scopes.push(`and(task_id.eq.${task.occurrenceId},reference.is.false)`);
+  const rows = await supabaseRequest<TaskMediaRow[]>("task_media", {
+    query: { select: MEDIA_SELECT, or: `(${scopes.join(",")})`, order: "created_at.asc" },
+  });
+  return (rows || []).map((row) => toMedia(row, viewer, canModerate));
+}
+
+/** The stored media row a local storage key belongs to, as original or thumbnail. */
+export async function findMediaByKey(key: string) {
+  const rows = await supabaseRequest<TaskMediaRow[]>("task_media", {
+    query: {
+      select: MEDIA_SELECT,
+      or: `(storage_key.eq."${key}",thumbnail_key.eq."${key}")`,
+      limit: 1,
+    },
+  });
+  return rows?.[0] ?? null;
+}
+
+async function createThumbnail(body: Buffer) {
+  try {
+    const { default: sharp } = await import("sharp");
+    return await sharp(body)
+      .rotate()
+      .resize({ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 75 })
+      .toBuffer();
+  } catch (err) {
+    // Formats sharp cannot decode (some HEIC files) are kept without a thumbnail.
+    console.error("Failed to create thumbnail:", err);
+    return null;
+  }
+}
+
+const safeFileName = (name: string) =>
+  name.replace(/[^a-zA-Z0-9._-]+/g, "-").replace(/^[-.]+/, "").slice(-100) || "upload";
+
+/**
+ * Stores an upload and links it to a stored task row: an occurrence, or the
+ * series root for reference media. Images also get a small WebP thumbnail.
+ * Returns an error message when the file breaks the policy for its kind.
+ */
+export async function uploadTaskMedia(input: {
+  taskId: string;
+  reference?: boolean;
+  file: File;
+  user: SessionUser;
+  allowed?: MediaKind[];
+}) {
+  const { taskId, file, user } = input;
+  const contentType = (file.type || "").toLowerCase();
+  const error = checkMediaPolicy(contentType, file.size, input.allowed);
+  const kind = mediaKindOf(contentType);
+  if (error || !kind) return { error: error || "That file type is not supported", media: null };
+
+  const storage = getMediaStorage();
+  const body = Buffer.from(await file.arrayBuffer());
+  const key = `tasks/${taskId}/${randomUUID()}-${safeFileName(file.name)}`;
+  const stored = await storage.put(key, body, contentType);
+
+  const thumbnailBody = kind === "image" ? await createThumbnail(body) : null;
+  const thumbnail = thumbnailBody
+    ? await storage.put(`${key.replace(/\.[^./]*$/, "")}.thumb.webp`, thumbnailBody, "image/webp")
+    : null;
+
+  try {
+    const rows = await supabaseRequest<TaskMediaRow[]>("task_media", {
+      method: "POST",
+      prefer: "return=representation",
+      query: { select: MEDIA_SELECT },
+      body: {
+        task_id: taskId,
+        reference: Boolean(input.reference),
+        kind,
+        name: file.name || "upload",
+        content_type: contentType,
+        size_bytes: file.size,
+        storage_driver: storage.name,
+        storage_key: stored.key,
+        url: stored.url,
+        thumbnail_key: thumbnail?.key ?? null,
+        thumbnail_url: thumbnail?.url ?? null,
+        uploaded_by: user.id,
+        uploaded_by_name: user.name,
+      },
+    });
+    return { error: null, media: rows?.[0] ? toMedia(rows[0], user, false) : null };
+  } catch (err) {
+    await Promise.all([
+      storage.remove(stored.key, stored.url),
+      thumbnail ? storage.remove(thumbnail.key, thumbnail.url) : null,
+    ]).catch((cleanupErr) => console.error("Failed to clean up upload:", cleanupErr));
+    throw err;
+  }
+}
+
+export async function findTaskMedia(id: string) {
+  const rows = await supabaseRequest<TaskMediaRow[]>("task_media", {
+    query: { select: MEDIA_SELECT, id: `eq.${id}`, limit: 1 },
+  });
+  return rows?.[0] ?? null;
+}
+
+/** Unlinks a media item and removes its files from the driver that stored them. */
+export async function deleteTaskMedia(row: TaskMediaRow) {
+  await supabaseRequest("task_media", { method: "DELETE", query: { id: `eq.${row.id}` } });
+  const storage = getMediaStorage(row.storage_driver);
+  await Promise.all([
+    storage.remove(row.storage_key, row.url),
+    row.thumbnail_key && row.thumbnail_url ? storage.remove(row.thumbnail_key, row.thumbnail_url) : null,
+  ]).catch((err) => console.error("Failed to remove stored media:", err));
+}
@@ -0,0 +1,124 @@
+import {
+  addDays,
+  expandRecurrence,
+  RECURRENCE_COLUMNS,
+  ruleFromColumns,
+  type RecurrenceColumns,
+} from "@/lib/recurrence";
+import { findCurrentLiveDay, getHawaiiDate } from "@/lib/schedule";
+import { supabaseRequest } from "@/lib/supabase";
+import { detachFirstOccurrence } from "@/lib/tasks";
+
+const RESET_STATUS = "Not Started";
+
+type RecurringTaskRow = Partial<RecurrenceColumns> & {
+  id: string;
+  status: string;
+  origin_date: string | null;
+  occurrence_date: string | null;
+  last_reset_on: string | null;
+};
+
+export type ResetSummary = {
+  resetDate: string;
+  reset: number;
+  skipped: number;
+  errored: number;
+};
+
+/** Minutes after midnight for "HH:MM" or "h:mm am/pm" clock strings. */
+export function parseClockTime(value?: string | null): number | null {
+  const match = (value || "").trim().match(/^(\d{1,2}):(\d{2})\s*([ap]\.?m\.?)?$/i);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const meridiem = match[3]?.[0].toLowerCase();
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === "p" ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * The latest due date of the series after the root's own day (or its last
+ * reset) and on or before `date`, following the full rule: weekdays, nth
+ * weekday, count, until and exception dates. Null while nothing new is due.
+ */
+function currentPeriodStart(task: RecurringTaskRow, date: string) {
+  const start = task.origin_date ?? task.occurrence_date;
+  const rule = ruleFromColumns(task);
+  if (!start || !rule) return null;
+  const anchor = task.last_reset_on ?? task.occurrence_date ?? start;
+  const due = expandRecurrence(start, rule, { from: addDays(anchor, 1), to: date });
+  return due[due.length - 1] ?? null;
+}
+
+async function resetTask(task: RecurringTaskRow, periodStart: string) {
+  if (task.status !== RESET_STATUS) {
+    // Until its first reset the root's status is its first day's; that day
+    // keeps it on a row of its own.
+    if (!task.last_reset_on && task.occurrence_date) await detachFirstOccurrence(task.id);
+    await supabaseRequest("task_status_resets", {
+      method: "POST",
+      prefer: "resolution=ignore-duplicates,return=minimal",
+      query: { on_conflict: "task_id,reset_on" },
+      body: { task_id: task.id, previous_status: task.status, reset_on: periodStart },
+    });
+  }
+
+  // The last_reset_on guard makes a second run for the same period a no-op.
+  const updated = await supabaseRequest<{ id: string }[]>("tasks", {
+    method: "PATCH",
+    prefer: "return=representation",
+    query: {
+      select: "id",
+      id: `eq.${task.id}`,
+      or: `(last_reset_on.is.null,last_reset_on.lt.${periodStart})`,
+    },
+    body: { status: RESET_STATUS, last_reset_on: periodStart },
+  });
+  return Boolean(updated?.length) && task.status !== RESET_STATUS;
+}
+
+/**
+ * Puts series roots whose next due date has come back to "Not Started",
+ * saving the status they had in task_status_resets. Stored occurrences are
+ * left alone: each belongs to a single date and starts out fresh. The farm
+ * day rolls over at the live schedule's task reset time (midnight when unset),
+ * and each task is reset at most once per interval, so the cron and the admin
+ * button can both call this safely.
+ */
+export async function resetRecurringTasks(now = new Date()): Promise<ResetSummary> {
+  const liveDay = await findCurrentLiveDay(getHawaiiDate(now));
+  const resetMinutes = parseClockTime(liveDay?.task_reset_time) ?? 0;
+  const resetDate = getHawaiiDate(new Date(now.getTime() - resetMinutes * 60_000));
+
+  const tasks = await supabaseRequest<RecurringTaskRow[]>("tasks", {
+    query: {
+      select: ["id", "status", "origin_date", "occurrence_date", "last_reset_on", ...RECURRENCE_COLUMNS].join(","),
+      recurring: "is.true",
+      parent_task_id: "is.null",
+      or: `(occurrence_date.is.null,occurrence_date.lte.${resetDate})`,
+    },
+  });
+
+  const summary: ResetSummary = { resetDate, reset: 0, skipped: 0, errored: 0 };
+  for (const task of tasks || []) {
+    const periodStart = currentPeriodStart(task, resetDate);
+    if (!periodStart) {
+      summary.skipped += 1;
+      continue;
+    }
+
+    try {
+      if (await resetTask(task, periodStart)) summary.reset += 1;
+      else summary.skipped += 1;
+    } catch (err) {
+      console.error(`Failed to reset recurring task ${task.id}:`, err);
+      summary.errored += 1;
+    }
+  }
+  return summary;
+}
@@ -0,0 +1,244 @@
+import type { SessionUser } from "@/lib/auth";
+import { supabaseRequest } from "@/lib/supabase";
+
+// Time entries are kept per occurrence and person, so several volunteers can
+// run a timer on the same task at once and each day's run is measured alone.
+
+type TimeEntryRow = {
+  id: string;
+  task_id: string;
+  series_id: string;
+  user_id: string | null;
+  user_name: string;
+  started_at: string;
+  ended_at: string | null;
+};
+
+type ReportEntryRow = TimeEntryRow & {
+  task: {
+    id: string;
+    name: string;
+    estimated_time: string | null;
+    task_type: { name: string } | null;
+  } | null;
+};
+
+export type TimeEntry = {
+  id: string;
+  userId: string | null;
+  user: string;
+  startedAt: string;
+  endedAt: string | null;
+  minutes: number;
+  mine: boolean;
+};
+
+export type TimeReportRow = {
+  key: string;
+  label: string;
+  occurrences: number;
+  estimatedMinutes: number | null;
+  averageMinutes: number;
+  totalMinutes: number;
+  entries: number;
+};
+
+const ENTRY_SELECT = "id,task_id,series_id,user_id,user_name,started_at,ended_at";
+
+// A timer left running overnight should not count as a day of work.
+const MAX_ENTRY_MINUTES = 12 * 60;
+
+const UNIT_MINUTES: Record<string, number> = {
+  h: 60,
+  hr: 60,
+  hrs: 60,
+  hour: 60,
+  hours: 60,
+  m: 1,
+  min: 1,
+  mins: 1,
+  minute: 1,
+  minutes: 1,
+};
+
+const UNIT_PATTERN = "(hours|hour|hrs|hr|h|minutes|minute|mins|min|m)(?![a-z])";
+
+/**
+ * Reads the free-text `estimated_time` as minutes: "45 min", "1h 30m",
+ * "1.5 hours", "1:30", "2 hrs" or a bare number of minutes. Ranges such as
+ * "30-45 min" count as their midpoint. Returns null when nothing is readable.
+ */
+export function parseEstimatedMinutes(text: string | null | undefined): number | null {
+  const value = (text || "")
+    .toLowerCase()
+    .replace(/half an? hour|half hour/g, "30 min")
+    .replace(/an hour|one hour/g, "1 hour")
+    .trim();
+  if (!value) return null;
+
+  const range = value.match(new RegExp(`^(\\d+(?:\\.\\d+)?)\\s*(?:-|–|to)\\s*(\\d+(?:\\.\\d+)?)\\s*(?:${UNIT_PATTERN})?`));
+  if (range) {
+    const unit = UNIT_MINUTES[range[3] || "min"];
+    return Math.round(((Number(range[1]) + Number(range[2])) / 2) * unit);
+  }
+
+  const clock = value.match(/^(\d+):([0-5]\d)$/);
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+
+  let minutes = 0;
+  let matched = false;
+  for (const part of value.matchAll(new RegExp(`(\\d+(?:\\.\\d+)?)\\s*${UNIT_PATTERN}`, "g"))) {
+    minutes += Number(part[1]) * UNIT_MINUTES[part[2]];
+    matched = true;
+  }
+  if (matched) {
+    // "1h30" leaves trailing minutes without a unit.
+    const trailing = value.match(/h(?:ours?|rs?)?\s*(\d+)$/);
+    if (trailing) minutes += Number(trailing[1]);
+    return Math.round(minutes);
+  }
+
+  const bare = value.match(/^(\d+(?:\.\d+)?)$/);
+  return bare ? Math.round(Number(bare[1])) : null;
+}
+
+function entryMinutes(row: Pick<TimeEntryRow, "started_at" | "ended_at">, now = Date.now()) {
+  const start = new Date(row.started_at).getTime();
+  const end = row.ended_at ? new Date(row.ended_at).getTime() : now;
+  if (Number.isNaN(start) || Number.isNaN(end) || end <= start) return 0;
+  return Math.min((end - start) / 60000, MAX_ENTRY_MINUTES);
+}
+
+const toEntry = (row: TimeEntryRow, viewer: SessionUser): TimeEntry => ({
+  id: row.id,
+  userId: row.user_id,
+  user: row.user_name,
+  startedAt: row.started_at,
+  endedAt: row.ended_at,
+  minutes: Math.round(entryMinutes(row)),
+  mine: row.user_id === viewer.id,
+});
+
+/** Every time entry for one occurrence, oldest first. */
+export async function loadTimeEntries(occurrenceId: string, viewer: SessionUser) {
+  const rows = await supabaseRequest<TimeEntryRow[]>("task_time_entries", {
+    query: { select: ENTRY_SELECT, task_id: `eq.${occurrenceId}`, order: "started_at.asc" },
+  });
+  return (rows || []).map((row) => toEntry(row, viewer));
+}
+
+export const trackedMinutes = (entries: TimeEntry[]) =>
+  Math.round(entries.reduce((sum, entry) => sum + entry.minutes, 0));
+
+async function hasRunningTimer(occurrenceId: string, userId: string) {
+  const running = await supabaseRequest<{ id: string }[]>("task_time_entries", {
+    query: { select: "id", task_id: `eq.${occurrenceId}`, user_id: `eq.${userId}`, ended_at: "is.null", limit: 1 },
+  });
+  return Boolean(running?.length);
+}
+
+/** Starts the user's timer on an occurrence; a timer already running is left alone. */
+export async function startTimer(input: { occurrenceId: string; seriesId: string; user: SessionUser }) {
+  if (await hasRunningTimer(input.occurrenceId, input.user.id)) return;
+  try {
+    await supabaseRequest("task_time_entries", {
+      method: "POST",
+      body: {
+        task_id: input.occurrenceId,
+        series_id: input.seriesId,
+        user_id: input.user.id,
+        user_name: input.user.name,
+      },
+    });
+  } catch (err) {
+    // A second tab may have started the same timer in between; the partial
+    // unique index rejects the duplicate and the running one stands.
+    if (!(await hasRunningTimer(input.occurrenceId, input.user.id))) throw err;
+  }
+}
+
+/** Stops the user's running timer on an occurrence. Returns false when none was running. */
+export async function stopTimer(input: { occurrenceId: string; user: SessionUser }) {
+  const stopped = await supabaseRequest<{ id: string }[]>("task_time_entries", {
+    method: "PATCH",
+    prefer: "return=representation",
+    query: {
+      select: "id",
+      task_id: `eq.${input.occurrenceId}`,
+      user_id: `eq.${input.user.id}`,
+      ended_at: "is.null",
+    },
+    body: { ended_at: new Date().toISOString() },
+  });
+  return Boolean(stopped?.length);
+}
+
+type Bucket = {
+  label: string;
+  occurrences: Map<string, number>;
+  estimates: Map<string, number>;
+  entries: number;
+};
+
+function summarize(key: string, bucket: Bucket): TimeReportRow {
+  const actual = Array.from(bucket.occurrences.values());
+  const estimates = Array.from(bucket.estimates.values());
+  const total = actual.reduce((sum, minutes) => sum + minutes, 0);
+  return {
+    key,
+    label: bucket.label,
+    occurrences: actual.length,
+    estimatedMinutes: estimates.length
+      ? Math.round(estimates.reduce((sum, minutes) => sum + minutes, 0) / estimates.length)
+      : null,
+    averageMinutes: actual.length ? Math.round(total / actual.length) : 0,
+    totalMinutes: Math.round(total),
+    entries: bucket.entries,
+  };
+}
+
+/**
+ * Estimated vs. tracked minutes for timers started between `from` and `to`
+ * (timestamps, `to` exclusive), grouped by task name and by task type.
+ * Actual minutes add up everyone's time on an occurrence, then average across
+ * occurrences so they compare with a per-run estimate.
+ */
+export async function loadTimeReport(range: { from?: string | null; to?: string | null }) {
+  const query: Record<string, string> = {
+    select: `${ENTRY_SELECT},task:tasks!task_id(id,name,estimated_time,task_type:task_types(name))`,
+    order: "started_at.asc",
+  };
+  const bounds = [
+    range.from ? `started_at.gte.${range.from}` : null,
+    range.to ? `started_at.lt.${range.to}` : null,
+  ].filter(Boolean);
+  if (bounds.length) query.and = `(${bounds.join(",")})`;
+
+  const rows = (await supabaseRequest<ReportEntryRow[]>("task_time_entries", { query })) || [];
+  const byTask = new Map<string, Bucket>();
+  const byType = new Map<string, Bucket>();
+  const now = Date.now();
+
+  const add = (buckets: Map<string, Bucket>, key: string, label: string, row: ReportEntryRow) => {
+    const bucket = buckets.get(key) || { label, occurrences: new Map(), estimates: new Map(), entries: 0 };
+    bucket.occurrences.set(row.task_id, (bucket.occurrences.get(row.task_id) || 0) + entryMinutes(row, now));
+    const estimate = parseEstimatedMinutes(row.task?.estimated_time);
+    if (estimate !== null) bucket.estimates.set(row.task_id, estimate);
+    bucket.entries += 1;
+    buckets.set(key, bucket);
+  };
+
+  rows.forEach((row) => {
+    if (!row.task) return;
+    add(byTask, row.task.name.toLowerCase(), row.task.name, row);
+    const typeName = row.task.task_type?.name || "No type";
+    add(byType, typeName.toLowerCase(), typeName, row);
+  });
+
+  const sorted = (buckets: Map<string, Bucket>) =>
+    Array.from(buckets.entries())
+      .map(([key, bucket]) => summarize(key, bucket))
+      .sort((a, b) => b.totalMinutes - a.totalMinutes || a.label.localeCompare(b.label));
+
+  return { tasks: sorted(byTask), types: sorted(byType), entries: rows.length };
+}
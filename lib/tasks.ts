@@ -0,0 +1,470 @@
+import {
+  addDays,
+  expandRecurrence,
+  RECURRENCE_COLUMNS,
+  ruleFromColumns,
+  type RecurrenceColumns,
+} from "@/lib/recurrence";
+import { supabaseRequest } from "@/lib/supabase";
+
+export type TaskRow = Partial<RecurrenceColumns> & {
+  id: string;
+  name: string;
+  description: string | null;
+  status: string;
+  priority: string;
+  estimated_time: string | null;
+  recurring: boolean;
+  recurrence_interval: number | null;
+  recurrence_unit: string | null;
+  recurrence_until: string | null;
+  origin_date: string | null;
+  occurrence_date: string | null;
+  person_count: number | null;
+  time_slots: string[] | null;
+  required_capabilities: string[] | null;
+  parent_task_id: string | null;
+  task_type: { id: string; name: string; color: string } | null;
+};
+
+export const TASK_ROW_SELECT =
+  "id,name,description,status,priority,estimated_time,recurring,recurrence_interval,recurrence_unit,recurrence_weekdays,recurrence_setpos,recurrence_until,recurrence_count,recurrence_exdates,origin_date,occurrence_date,person_count,time_slots,required_capabilities,parent_task_id,task_type:task_types(id,name,color)";
+
+// Tasks due on a date: occurrences dated that day plus open one-off tasks without a date.
+export async function loadTasksDueOn(date: string) {
+  const data = await supabaseRequest<TaskRow[]>("tasks", {
+    query: {
+      select: TASK_ROW_SELECT,
+      or: `(occurrence_date.eq.${date},and(occurrence_date.is.null,recurring.is.false,status.neq.Completed))`,
+      order: "name.asc",
+    },
+  });
+  const stored = withoutDetachedRoots(data || []);
+  const roots = await loadSeriesRoots<TaskRow>(TASK_ROW_SELECT, date, date);
+  return [...stored, ...virtualOccurrences(roots, stored, date, date)].sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+}
+
+export async function loadTaskOccurrences(start: string, end: string) {
+  const data = await supabaseRequest<TaskRow[]>("tasks", {
+    query: {
+      select: TASK_ROW_SELECT,
+      and: `(occurrence_date.gte.${start},occurrence_date.lte.${end})`,
+      order: "occurrence_date.asc",
+    },
+  });
+  const stored = withoutDetachedRoots(data || []);
+  const roots = await loadSeriesRoots<TaskRow>(TASK_ROW_SELECT, start, end);
+  return [...stored, ...virtualOccurrences(roots, stored, start, end)].sort((a, b) =>
+    (a.occurrence_date || "").localeCompare(b.occurrence_date || "")
+  );
+}
+
+export type TaskReferenceRow = {
+  name: string;
+  description: string | null;
+  links: string[] | null;
+  task_type: { name: string; color: string } | null;
+};
+
+// Latest task row per name, for showing schedule cells with their type and links.
+export async function loadTasksByName(names: string[]) {
+  const unique = Array.from(new Set(names.map((name) => name.trim()).filter(Boolean)));
+  if (!unique.length) return new Map<string, TaskReferenceRow>();
+
+  const list = unique.map((name) => `"${name.replace(/"/g, '\\"')}"`).join(",");
+  const data = await supabaseRequest<TaskReferenceRow[]>("tasks", {
+    query: {
+      select: "name,description,links,task_type:task_types(name,color)",
+      name: `in.(${list})`,
+      order: "created_at.desc",
+    },
+  });
+
+  const byName = new Map<string, TaskReferenceRow>();
+  (data || []).forEach((row) => {
+    if (!byName.has(row.name)) byName.set(row.name, row);
+  });
+  return byName;
+}
+
+export async function loadTaskCatalogNames() {
+  const data = await supabaseRequest<{ name: string }[]>("tasks", {
+    query: { select: "name", order: "name.asc" },
+  });
+  return Array.from(new Set((data || []).map((row) => row.name)));
+}
+
+// Recurring tasks are stored as one series root carrying the rule. Occurrences
+// are computed on read and only get their own row once something is recorded
+// against them (status, comments, photos). Until then they carry a virtual id
+// of the form `<root id>:<date>`.
+
+// Columns that belong to one occurrence rather than the whole series.
+const OCCURRENCE_ONLY_COLUMNS = [
+  "id",
+  "created_at",
+  "updated_at",
+  "occurrence_date",
+  "parent_task_id",
+  "last_reset_on",
+  "status",
+  "photos",
+  "task_type",
+];
+
+type SeriesRoot = Partial<RecurrenceColumns> & {
+  id: string;
+  recurring: boolean;
+  origin_date: string | null;
+  occurrence_date: string | null;
+};
+
+type StoredOccurrence = { parent_task_id: string | null; occurrence_date: string | null };
+
+type SeriesRow = Record<string, unknown> & SeriesRoot & { parent_task_id: string | null };
+
+export const seriesFilter = (rootId: string) => `(id.eq.${rootId},parent_task_id.eq.${rootId})`;
+
+export const virtualOccurrenceId = (rootId: string, date: string) => `${rootId}:${date}`;
+
+export function parseOccurrenceId(id: string) {
+  const match = String(id).match(/^([0-9a-f-]{36}):(\d{4}-\d{2}-\d{2})$/i);
+  return match ? { rootId: match[1], date: match[2] } : null;
+}
+
+const seriesStart = (root: SeriesRoot) => root.origin_date || root.occurrence_date;
+
+/** Series roots whose rule can produce dates between `from` and `to`. */
+export async function loadSeriesRoots<T extends SeriesRoot>(
+  select: string,
+  from: string | null,
+  to: string,
+  filters: Record<string, string> = {}
+) {
+  const data = await supabaseRequest<T[]>("tasks", {
+    query: {
+      ...filters,
+      select,
+      recurring: "is.true",
+      parent_task_id: "is.null",
+      origin_date: `lte.${to}`,
+      ...(from ? { or: `(recurrence_until.is.null,recurrence_until.gte.${from})` } : {}),
+    },
+  });
+  return data || [];
+}
+
+/**
+ * Drops series roots that no longer stand for their first day: the day was
+ * given its own row (see detachFirstOccurrence), or it was deleted and is now
+ * one of the series' exception dates.
+ */
+export function withoutDetachedRoots<
+  T extends {
+    id: string;
+    parent_task_id: string | null;
+    occurrence_date: string | null;
+    recurrence_exdates?: string[] | null;
+  },
+>(rows: T[]) {
+  const firstDays = new Set(
+    rows
+      .filter((row) => row.parent_task_id && row.occurrence_date)
+      .map((row) => virtualOccurrenceId(row.parent_task_id as string, row.occurrence_date as string))
+  );
+  return rows.filter(
+    (row) =>
+      row.parent_task_id ||
+      !row.occurrence_date ||
+      (!firstDays.has(virtualOccurrenceId(row.id, row.occurrence_date)) &&
+        !row.recurrence_exdates?.includes(row.occurrence_date))
+  );
+}
+
+/**
+ * Occurrences of each series root from `from` (the series start when null)
+ * through `to` that have no stored row yet. They copy the root with a fresh
+ * status and empty photos.
+ */
+export function virtualOccurrences<T extends SeriesRoot>(
+  roots: T[],
+  stored: StoredOccurrence[],
+  from: string | null,
+  to: string
+): T[] {
+  const taken = new Set(
+    stored
+      .filter((row) => row.parent_task_id && row.occurrence_date)
+      .map((row) => virtualOccurrenceId(row.parent_task_id as string, row.occurrence_date as string))
+  );
+
+  return roots.flatMap((root) => {
+    const start = seriesStart(root);
+    const rule = ruleFromColumns(root);
+    if (!root.recurring || !start || !rule) return [];
+
+    return expandRecurrence(start, rule, { from: from ?? undefined, to })
+      .filter((date) => date !== root.occurrence_date && !taken.has(virtualOccurrenceId(root.id, date)))
+      .map((date) => ({
+        ...root,
+        id: virtualOccurrenceId(root.id, date),
+        parent_task_id: root.id,
+        occurrence_date: date,
+        status: "Not Started",
+        ...("photos" in root ? { photos: [] } : {}),
+      }));
+  });
+}
+
+export async function loadStoredOccurrences(from: string | null, to: string) {
+  const data = await supabaseRequest<StoredOccurrence[]>("tasks", {
+    query: {
+      select: "parent_task_id,occurrence_date",
+      parent_task_id: "not.is.null",
+      ...(from
+        ? { and: `(occurrence_date.gte.${from},occurrence_date.lte.${to})` }
+        : { occurrence_date: `lte.${to}` }),
+    },
+  });
+  return data || [];
+}
+
+async function loadSeriesRow(id: string) {
+  const data = await supabaseRequest<SeriesRow[]>("tasks", {
+    query: { select: "*", id: `eq.${id}`, limit: 1 },
+  });
+  return data?.[0] ?? null;
+}
+
+const seriesColumns = (row: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(row).filter(([key]) => !OCCURRENCE_ONLY_COLUMNS.includes(key)));
+
+/**
+ * Gives a computed occurrence its own row so it can carry a status, comments
+ * or photos. Returns the existing row when it was already materialised, and
+ * null when the series does not produce that date.
+ */
+export async function materializeOccurrence(rootId: string, date: string) {
+  const existing = await supabaseRequest<{ id: string }[]>("tasks", {
+    query: { select: "id", parent_task_id: `eq.${rootId}`, occurrence_date: `eq.${date}`, limit: 1 },
+  });
+  if (existing?.[0]) return existing[0].id;
+
+  const root = await loadSeriesRow(rootId);
+  const start = root ? seriesStart(root) : null;
+  const rule = root ? ruleFromColumns(root) : null;
+  if (!root || !start || !rule) return null;
+  if (root.occurrence_date === date) return root.id;
+  if (!expandRecurrence(start, rule, { from: date, to: date }).length) return null;
+
+  const inserted = await supabaseRequest<{ id: string }[]>("tasks", {
+    method: "POST",
+    prefer: "resolution=ignore-duplicates,return=representation",
+    query: { select: "id", on_conflict: "parent_task_id,occurrence_date" },
+    body: { ...seriesColumns(root), occurrence_date: date, parent_task_id: rootId, status: "Not Started" },
+  });
+  if (inserted?.[0]) return inserted[0].id;
+
+  const raced = await supabaseRequest<{ id: string }[]>("tasks", {
+    query: { select: "id", parent_task_id: `eq.${rootId}`, occurrence_date: `eq.${date}`, limit: 1 },
+  });
+  return raced?.[0]?.id ?? null;
+}
+
+// Records kept per occurrence, keyed by the task row they were made against.
+const OCCURRENCE_RECORDS: [string, Record<string, string>][] = [
+  ["task_comments", {}],
+  ["task_status_events", {}],
+  ["task_checklist_ticks", {}],
+  ["task_time_entries", {}],
+  ["task_media", { reference: "is.false" }],
+];
+
+/**
+ * Gives the first day of a series its own row, so an edit to that day alone
+ * does not change the root every computed occurrence copies. What was recorded
+ * against the root for that day (status, comments, ticks, timers, photos)
+ * moves with it. Returns null for tasks that are not a recurring series root.
+ */
+export async function detachFirstOccurrence(rootId: string) {
+  const root = await loadSeriesRow(rootId);
+  if (!root?.recurring || root.parent_task_id || !root.occurrence_date) return null;
+
+  const findFirstDay = async () => {
+    const rows = await supabaseRequest<{ id: string }[]>("tasks", {
+      query: { select: "id", parent_task_id: `eq.${rootId}`, occurrence_date: `eq.${root.occurrence_date}`, limit: 1 },
+    });
+    return rows?.[0]?.id ?? null;
+  };
+  const existing = await findFirstDay();
+  if (existing) return existing;
+
+  const [created] = await supabaseRequest<{ id: string }[]>("tasks", {
+    method: "POST",
+    prefer: "resolution=ignore-duplicates,return=representation",
+    query: { select: "id", on_conflict: "parent_task_id,occurrence_date" },
+    body: {
+      ...seriesColumns(root),
+      occurrence_date: root.occurrence_date,
+      parent_task_id: rootId,
+      status: root.status || "Not Started",
+    },
+  });
+  // A concurrent edit detached the day first; it moves the records too.
+  if (!created) return findFirstDay();
+
+  for (const [table, filters] of OCCURRENCE_RECORDS) {
+    await supabaseRequest(table, {
+      method: "PATCH",
+      query: { ...filters, task_id: `eq.${rootId}` },
+      body: { task_id: created.id },
+    });
+  }
+  return created.id;
+}
+
+/** Removes stored occurrences whose date the series rule no longer produces. */
+export async function pruneSeriesOccurrences(rootId: string) {
+  const root = await loadSeriesRow(rootId);
+  const start = root ? seriesStart(root) : null;
+  const rule = root ? ruleFromColumns(root) : null;
+  if (!root || !start || !rule || !root.recurring) return 0;
+
+  const children = await supabaseRequest<{ id: string; occurrence_date: string | null }[]>("tasks", {
+    query: { select: "id,occurrence_date", parent_task_id: `eq.${rootId}` },
+  });
+  const dates = (children || []).map((row) => row.occurrence_date).filter((date): date is string => Boolean(date));
+  const last = dates.sort()[dates.length - 1];
+  const produced = new Set(last ? expandRecurrence(start, rule, { to: last }) : []);
+  const stale = (children || []).filter((row) => !row.occurrence_date || !produced.has(row.occurrence_date));
+
+  if (stale.length) {
+    await supabaseRequest("tasks", {
+      method: "DELETE",
+      query: { id: `in.(${stale.map((row) => row.id).join(",")})` },
+    });
+  }
+  return stale.length;
+}
+
+/**
+ * Applies an edit to a series from `from` onwards by ending the current
+ * series the day before and starting a new one with the changes. Stored
+ * occurrences on or after `from` move to the new series. Returns its root id.
+ */
+export async function splitSeries(rootId: string, from: string, updates: Record<string, unknown>) {
+  const root = await loadSeriesRow(rootId);
+  const start = root ? seriesStart(root) : null;
+  const rule = root ? ruleFromColumns(root) : null;
+  if (!root || !start || !rule) return null;
+
+  // COUNT covers the whole series, so the new one only gets what is left of it.
+  const used = expandRecurrence(start, { ...rule, exdates: [] }, { to: addDays(from, -1) }).length;
+  const next: Record<string, unknown> = {
+    ...seriesColumns(root),
+    recurrence_count: rule.count != null ? Math.max(rule.count - used, 1) : null,
+    recurrence_exdates: rule.exdates.filter((date) => date >= from),
+    ...updates,
+    origin_date: from,
+    parent_task_id: null,
+    status: "Not Started",
+  };
+  const nextRule = ruleFromColumns(next);
+  next.occurrence_date = (nextRule && expandRecurrence(from, nextRule, { to: addDays(from, 3660) })[0]) || from;
+
+  const [created] = await supabaseRequest<{ id: string }[]>("tasks", {
+    method: "POST",
+    prefer: "return=representation",
+    query: { select: "id" },
+    body: next,
+  });
+
+  await supabaseRequest("tasks", {
+    method: "PATCH",
+    query: { parent_task_id: `eq.${rootId}`, occurrence_date: `gte.${from}` },
+    body: { ...updates, parent_task_id: created.id },
+  });
+  await supabaseRequest("tasks", {
+    method: "PATCH",
+    query: { or: seriesFilter(rootId) },
+    body: { recurrence_until: addDays(from, -1) },
+  });
+  return created.id;
+}
+
+/** Records a deleted occurrence as an exception date so it is not computed again. */
+export async function addSeriesException(rootId: string, date: string) {
+  const data = await supabaseRequest<{ recurrence_exdates: string[] | null }[]>("tasks", {
+    query: { select: "recurrence_exdates", id: `eq.${rootId}`, limit: 1 },
+  });
+  if (!data?.[0]) return;
+  const exdates = Array.from(new Set([...(data[0].recurrence_exdates || []), date])).sort();
+  await supabaseRequest("tasks", {
+    method: "PATCH",
+    query: { or: seriesFilter(rootId) },
+    body: { recurrence_exdates: exdates },
+  });
+}
+
+type OccurrenceLookupRow = SeriesRoot & { parent_task_id: string | null };
+
+/** The columns `findTaskById` needs to place a task in its series. */
+export const OCCURRENCE_LOOKUP_SELECT = [
+  "id",
+  "parent_task_id",
+  "recurring",
+  "origin_date",
+  "occurrence_date",
+  ...RECURRENCE_COLUMNS,
+].join(",");
+
+/**
+ * The task a schedule cell refers to: the occurrence of the named task on
+ * `date` (computed when it has no row yet), otherwise the latest one-off task
+ * with that name, otherwise the latest row of any kind.
+ */
+export async function findTaskOccurrence<T extends OccurrenceLookupRow>(
+  select: string,
+  name: string,
+  date: string | null
+) {
+  const data = await supabaseRequest<T[]>("tasks", {
+    query: { select, name: `ilike.${name}`, order: "created_at.desc" },
+  });
+  const rows = data || [];
+  if (date) {
+    const stored =
+      rows.find((row) => row.parent_task_id && row.occurrence_date === date) ??
+      rows.find((row) => row.occurrence_date === date);
+    if (stored) return stored;
+    const roots = rows.filter((row) => row.recurring && !row.parent_task_id);
+    const [computed] = virtualOccurrences(roots, rows, date, date);
+    if (computed) return computed;
+  }
+  return rows.find((row) => !row.recurring) ?? rows[0] ?? null;
+}
+
+/** Loads a task by id, computing the occurrence when given a virtual id. */
+export async function findTaskById<T extends OccurrenceLookupRow>(select: string, id: string) {
+  const occurrence = parseOccurrenceId(id);
+  const query: Record<string, string | number> = occurrence
+    ? { select, or: seriesFilter(occurrence.rootId) }
+    : { select, id: `eq.${id}`, limit: 1 };
+  if (occurrence) query.occurrence_date = `eq.${occurrence.date}`;
+
+  const data = await supabaseRequest<T[]>("tasks", { query });
+  const stored = data?.find((row) => row.parent_task_id) ?? data?.[0];
+  if (stored || !occurrence) return stored ?? null;
+
+  const roots = await supabaseRequest<T[]>("tasks", {
+    query: { select, id: `eq.${occurrence.rootId}`, limit: 1 },
+  });
+  const [computed] = virtualOccurrences(roots || [], [], occurrence.date, occurrence.date);
+  return computed ?? null;
+}
+
+/** The id of the series a task row belongs to (its own id for one-off tasks and roots). */
+export const seriesIdOf = (row: { id: string; parent_task_id: string | null }) =>
+  parseOccurrenceId(row.id)?.rootId ?? row.parent_task_id ?? row.id;
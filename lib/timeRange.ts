@@ -0,0 +1,41 @@
+// Slot time ranges are free text such as "8:00am - 12:00pm".
+
+export function parseTimeRange(
+  range: string
+): { startMinutes: number; endMinutes: number } | null {
+  const pattern =
+    /(\d{1,2})(?::(\d{2}))?\s*(am|pm)?\s*[-–]\s*(\d{1,2})(?::(\d{2}))?\s*(am|pm)?/i;
+  const match = range.match(pattern);
+  if (!match) return null;
+
+  const [, h1Str, m1Str, ampm1, h2Str, m2Str, ampm2] = match;
+
+  const h1 = parseInt(h1Str, 10);
+  const m1 = m1Str ? parseInt(m1Str, 10) : 0;
+  const h2 = parseInt(h2Str, 10);
+  const m2 = m2Str ? parseInt(m2Str, 10) : 0;
+
+  const startMinutes = toMinutes(h1, m1, ampm1 as string | undefined);
+  const endMinutes = toMinutes(h2, m2, ampm2 as string | undefined, ampm1);
+
+  return { startMinutes, endMinutes };
+}
+
+export function toMinutes(
+  hour: number,
+  minute: number,
+  ampm?: string,
+  fallbackAmpm?: string
+): number {
+  let h = hour;
+  let meridiem = ampm?.toLowerCase() as "am" | "pm" | undefined;
+
+  if (!meridiem && fallbackAmpm) {
+    meridiem = fallbackAmpm.toLowerCase() as "am" | "pm";
+  }
+
+  if (meridiem === "pm" && h < 12) h += 12;
+  if (meridiem === "am" && h === 12) h = 0;
+
+  return h * 60 + minute;
+}
@@ -34,7 +34,8 @@ select
   'Colten Lewis',
   user_roles.id,
   null,
-  'WAIANDAINA'
+  -- scrypt hash of the initial passcode WAIANDAINA; it must be changed on first login (see below).
+  'scrypt$78cfdf89fbb83ee87b4c6a7b373ea3ea$5fe5c80200a957ad2b7992a24344a320aad4e248db7fe72c0573231d9f6eb06a'
 from user_roles
 where user_roles.name = 'Admin'
 on conflict do nothing;
@@ -63,7 +64,6 @@ create table if not exists tasks (
   origin_date date,
   priority text not null default 'Medium',
   links text[] not null default '{}',
-  comments text[] not null default '{}',
   person_count integer,
   photos text[] not null default '{}',
   occurrence_date date,
@@ -83,3 +83,365 @@ values
   ('Landscaping', 'emerald'),
   ('Maintenance', 'gray')
 on conflict (name) do nothing;
+
+create table if not exists schedule_days (
+  id uuid primary key default gen_random_uuid(),
+  schedule_date date not null,
+  variant text not null default 'staging' check (variant in ('live', 'staging')),
+  report_time text,
+  task_reset_time text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (schedule_date, variant)
+);
+
+create table if not exists schedule_slots (
+  id uuid primary key default gen_random_uuid(),
+  schedule_day_id uuid not null references schedule_days(id) on delete cascade,
+  slot_key text not null,
+  label text not null,
+  time_range text,
+  is_meal boolean not null default false,
+  position integer not null default 0,
+  created_at timestamptz not null default now(),
+  unique (schedule_day_id, slot_key)
+);
+
+create table if not exists schedule_people (
+  id uuid primary key default gen_random_uuid(),
+  schedule_day_id uuid not null references schedule_days(id) on delete cascade,
+  display_name text not null,
+  user_id uuid references users(id) on delete set null,
+  position integer not null default 0,
+  report_submitted boolean not null default false,
+  created_at timestamptz not null default now(),
+  unique (schedule_day_id, display_name)
+);
+
+create table if not exists schedule_cells (
+  id uuid primary key default gen_random_uuid(),
+  schedule_day_id uuid not null references schedule_days(id) on delete cascade,
+  person_id uuid not null references schedule_people(id) on delete cascade,
+  slot_id uuid not null references schedule_slots(id) on delete cascade,
+  value text not null default '',
+  updated_at timestamptz not null default now(),
+  unique (person_id, slot_id)
+);
+
+create index if not exists schedule_cells_day_idx on schedule_cells (schedule_day_id);
+
+create table if not exists schedule_versions (
+  id uuid primary key default gen_random_uuid(),
+  schedule_date date not null,
+  version integer not null,
+  snapshot jsonb not null,
+  published_by text,
+  published_at timestamptz not null default now(),
+  unique (schedule_date, version)
+);
+
+alter table tasks add column if not exists required_capabilities text[] not null default '{}';
+
+create table if not exists schedule_templates (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  kind text not null default 'weekday' check (kind in ('weekday', 'weekend', 'holiday')),
+  grid jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table users add column if not exists calendar_token text unique;
+
+create table if not exists shift_swaps (
+  id uuid primary key default gen_random_uuid(),
+  schedule_date date not null,
+  kind text not null check (kind in ('cover', 'swap')),
+  requester text not null,
+  requester_slot text not null,
+  requester_value text not null default '',
+  target_person text,
+  target_slot text,
+  target_value text,
+  accepted_by text,
+  decided_by text,
+  status text not null default 'pending' check (status in ('pending', 'accepted', 'approved', 'declined')),
+  note text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists shift_swaps_date_idx on shift_swaps (schedule_date);
+
+create table if not exists shift_swap_events (
+  id uuid primary key default gen_random_uuid(),
+  swap_id uuid not null references shift_swaps(id) on delete cascade,
+  status text not null,
+  actor text,
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists user_availability (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users(id) on delete cascade,
+  kind text not null check (kind in ('stay', 'day_off', 'partial')),
+  start_date date not null,
+  end_date date,
+  start_time text,
+  end_time text,
+  note text,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'declined')),
+  reviewed_by text,
+  reviewed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists user_availability_user_idx on user_availability (user_id);
+
+create table if not exists user_sessions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users(id) on delete cascade,
+  expires_at timestamptz not null,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists user_sessions_user_idx on user_sessions (user_id);
+
+create table if not exists role_permissions (
+  id uuid primary key default gen_random_uuid(),
+  role_id uuid not null references user_roles(id) on delete cascade,
+  permission text not null,
+  created_at timestamptz not null default now(),
+  unique (role_id, permission)
+);
+
+alter table users add column if not exists must_change_passcode boolean not null default false;
+
+-- The seeded admin passcode is public, so it has to be replaced on first login.
+-- Installs seeded before hashing get the hash too.
+update users
+set passcode = 'scrypt$78cfdf89fbb83ee87b4c6a7b373ea3ea$5fe5c80200a957ad2b7992a24344a320aad4e248db7fe72c0573231d9f6eb06a', must_change_passcode = true
+where passcode = 'WAIANDAINA'
+  or (passcode = 'scrypt$78cfdf89fbb83ee87b4c6a7b373ea3ea$5fe5c80200a957ad2b7992a24344a320aad4e248db7fe72c0573231d9f6eb06a' and not must_change_passcode);
+
+create table if not exists passcode_reset_codes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references users(id) on delete cascade,
+  code_hash text not null,
+  expires_at timestamptz not null,
+  used_at timestamptz,
+  created_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists passcode_reset_codes_user_idx on passcode_reset_codes (user_id);
+
+create table if not exists login_attempts (
+  key text primary key,
+  failures integer not null default 0,
+  first_failed_at timestamptz not null,
+  last_failed_at timestamptz not null,
+  locked_until timestamptz
+);
+
+create table if not exists security_events (
+  id uuid primary key default gen_random_uuid(),
+  kind text not null,
+  user_id uuid references users(id) on delete set null,
+  subject text,
+  actor text,
+  client text,
+  detail jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists security_events_created_idx on security_events (created_at desc);
+
+create table if not exists audit_events (
+  id uuid primary key default gen_random_uuid(),
+  actor_id uuid references users(id) on delete set null,
+  actor text,
+  table_name text not null,
+  action text not null check (action in ('POST', 'PATCH', 'DELETE')),
+  row_ids text[] not null default '{}',
+  before jsonb,
+  after jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_events_created_idx on audit_events (created_at desc);
+create index if not exists audit_events_table_idx on audit_events (table_name);
+
+create table if not exists impersonation_sessions (
+  id uuid primary key default gen_random_uuid(),
+  admin_id uuid not null references users(id) on delete cascade,
+  target_user_id uuid not null references users(id) on delete cascade,
+  writable boolean not null default false,
+  started_at timestamptz not null default now(),
+  ended_at timestamptz
+);
+
+alter table user_sessions
+  add column if not exists impersonation_id uuid references impersonation_sessions(id) on delete set null;
+
+alter table tasks add column if not exists last_reset_on date;
+
+create table if not exists task_status_resets (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references tasks(id) on delete cascade,
+  previous_status text not null,
+  reset_on date not null,
+  created_at timestamptz not null default now(),
+  unique (task_id, reset_on)
+);
+
+alter table tasks add column if not exists recurrence_weekdays text[] not null default '{}';
+alter table tasks add column if not exists recurrence_setpos integer;
+alter table tasks add column if not exists recurrence_count integer;
+alter table tasks add column if not exists recurrence_exdates date[] not null default '{}';
+
+create unique index if not exists tasks_occurrence_idx on tasks (parent_task_id, occurrence_date);
+
+create table if not exists task_comments (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references tasks(id) on delete cascade,
+  parent_id uuid references task_comments(id) on delete cascade,
+  author_id uuid references users(id) on delete set null,
+  author_name text not null,
+  body text not null,
+  mentions uuid[] not null default '{}',
+  created_at timestamptz not null default now(),
+  edited_at timestamptz,
+  deleted_at timestamptz
+);
+
+create index if not exists task_comments_task_idx on task_comments (task_id, created_at);
+create index if not exists task_comments_mentions_idx on task_comments using gin (mentions);
+
+-- Moves comments from the old tasks.comments text[] column ("Name : text")
+-- into task_comments, matching the name prefix to a user where possible.
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_name = 'tasks' and column_name = 'comments'
+  ) then
+    insert into task_comments (task_id, author_id, author_name, body, created_at)
+    select
+      t.id,
+      u.id,
+      case when position(' : ' in c.comment) > 0 then split_part(c.comment, ' : ', 1) else 'Unknown' end,
+      case when position(' : ' in c.comment) > 0
+        then substr(c.comment, position(' : ' in c.comment) + 3)
+        else c.comment end,
+      t.created_at + c.ord * interval '1 second'
+    from tasks t
+    cross join lateral unnest(t.comments) with ordinality as c(comment, ord)
+    left join users u
+      on position(' : ' in c.comment) > 0
+      and lower(u.display_name) = lower(split_part(c.comment, ' : ', 1))
+    where trim(coalesce(c.comment, '')) <> '';
+
+    alter table tasks drop column comments;
+  end if;
+end $$;
+
+create table if not exists task_status_events (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references tasks(id) on delete cascade,
+  series_id uuid not null references tasks(id) on delete cascade,
+  user_id uuid references users(id) on delete set null,
+  actor_name text not null,
+  from_status text,
+  to_status text not null,
+  schedule_date date,
+  slot_key text,
+  slot_label text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists task_status_events_task_idx on task_status_events (task_id, created_at desc);
+create index if not exists task_status_events_series_idx on task_status_events (series_id, to_status, created_at desc);
+create index if not exists task_status_events_user_idx on task_status_events (user_id, created_at desc);
+
+create table if not exists task_checklist_items (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references tasks(id) on delete cascade,
+  position integer not null default 0,
+  label text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists task_checklist_items_task_idx on task_checklist_items (task_id, position);
+
+create table if not exists task_checklist_ticks (
+  item_id uuid not null references task_checklist_items(id) on delete cascade,
+  task_id uuid not null references tasks(id) on delete cascade,
+  checked_by uuid references users(id) on delete set null,
+  checked_by_name text not null,
+  checked_at timestamptz not null default now(),
+  primary key (item_id, task_id)
+);
+
+create table if not exists task_dependencies (
+  task_id uuid not null references tasks(id) on delete cascade,
+  prerequisite_id uuid not null references tasks(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (task_id, prerequisite_id),
+  check (task_id <> prerequisite_id)
+);
+
+create index if not exists task_dependencies_prerequisite_idx on task_dependencies (prerequisite_id);
+
+create table if not exists task_time_entries (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references tasks(id) on delete cascade,
+  series_id uuid not null references tasks(id) on delete cascade,
+  user_id uuid references users(id) on delete set null,
+  user_name text not null,
+  started_at timestamptz not null default now(),
+  ended_at timestamptz,
+  created_at timestamptz not null default now(),
+  check (ended_at is null or ended_at >= started_at)
+);
+
+create index if not exists task_time_entries_task_idx on task_time_entries (task_id, started_at);
+create index if not exists task_time_entries_started_idx on task_time_entries (started_at);
+create unique index if not exists task_time_entries_running_idx
+  on task_time_entries (task_id, user_id) where ended_at is null;
+
+create table if not exists task_media (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references tasks(id) on delete cascade,
+  kind text not null check (kind in ('image', 'video', 'audio', 'file')),
+  name text not null,
+  content_type text not null,
+  size_bytes bigint not null check (size_bytes > 0),
+  storage_driver text not null,
+  storage_key text not null,
+  url text not null,
+  thumbnail_key text,
+  thumbnail_url text,
+  uploaded_by uuid references users(id) on delete set null,
+  uploaded_by_name text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists task_media_task_idx on task_media (task_id, created_at);
+create index if not exists task_media_storage_key_idx on task_media (storage_key);
+create index if not exists task_media_thumbnail_key_idx on task_media (thumbnail_key);
+
+do $$
+begin
+  if not exists (
+    select 1 from information_schema.columns
+    where table_name = 'task_media' and column_name = 'reference'
+  ) then
+    alter table task_media add column reference boolean not null default false;
+    -- Earlier uploads were linked to the series root and shown on every day.
+    update task_media set reference = true;
+  end if;
+end $$;